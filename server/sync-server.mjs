@@ -0,0 +1,216 @@
+// Reference sync server for trying the app's Sync feature end to end. No dependencies: `npm run sync-server`.
+//
+//   REST    GET  /sync/:name  → 200 { revision, updatedAt, data } or 404
+//           PUT  /sync/:name  ← { revision, updatedAt, data, baseRevision }; 409 when baseRevision is not the
+//                               stored revision, so two devices cannot overwrite each other
+//   WebDAV  GET  /dav/:name   → the stored file, with an ETag
+//           PUT  /dav/:name   ← honours If-Match and If-None-Match: *, answering 412 when they do not hold
+//   Relay   GET  /relay/:group        → names of the encrypted blobs stored for a device sync group
+//           GET  /relay/:group/:name  → one blob
+//           PUT  /relay/:group/:name  ← a new blob; blobs are never overwritten, so a taken name answers 412
+//           DELETE /relay/:group/:name → 204, once the devices have replaced the blob with a compacted one
+//
+// Environment: PORT (default 8787), SYNC_DATA_DIR (default ./sync-data), and SYNC_USER / SYNC_PASSWORD to require
+// HTTP Basic authentication. Meant for local testing; put it behind HTTPS before using it across a network.
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const DATA_DIR = resolve(process.env.SYNC_DATA_DIR ?? 'sync-data');
+const USER = process.env.SYNC_USER;
+const PASSWORD = process.env.SYNC_PASSWORD ?? '';
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+mkdirSync(DATA_DIR, { recursive: true });
+
+const send = (res, status, body, headers = {}) => {
+  const payload = body === undefined ? '' : typeof body === 'string' ? body : JSON.stringify(body);
+  res.writeHead(status, {
+    ...(payload ? { 'Content-Type': 'application/json' } : {}),
+    ...headers,
+  });
+  res.end(payload);
+};
+
+// The app runs on another origin (the Vite dev server), so every response allows cross-origin use
+const setCors = (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin ?? '*');
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, If-Match, If-None-Match');
+  res.setHeader('Access-Control-Expose-Headers', 'ETag');
+};
+
+const isAuthorized = (req) => {
+  if (!USER) return true;
+  const expected = `Basic ${Buffer.from(`${USER}:${PASSWORD}`).toString('base64')}`;
+  return req.headers.authorization === expected;
+};
+
+const readBody = (req) =>
+  new Promise((resolveBody, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(Object.assign(new Error('Payload too large'), { status: 413 }));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolveBody(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const filePath = (area, name) => join(DATA_DIR, `${area}-${name}.json`);
+
+const readStored = (path) => (existsSync(path) ? readFileSync(path, 'utf8') : null);
+
+// Written to a temporary file first so a crash never leaves half a document behind
+const writeStored = (path, contents) => {
+  const temporary = `${path}.tmp`;
+  writeFileSync(temporary, contents);
+  renameSync(temporary, path);
+};
+
+const etagOf = (contents) => `"${createHash('sha256').update(contents).digest('hex').slice(0, 32)}"`;
+
+const handleRest = async (req, res, name) => {
+  const path = filePath('rest', name);
+  const stored = readStored(path);
+
+  if (req.method === 'GET') {
+    if (stored === null) return send(res, 404, { error: 'Nothing stored yet' });
+    return send(res, 200, stored);
+  }
+
+  if (req.method === 'PUT') {
+    let body;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch (error) {
+      return send(res, error.status ?? 400, { error: error.status ? error.message : 'Body is not valid JSON' });
+    }
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return send(res, 400, { error: 'Body must be a JSON object' });
+    }
+    // Read again after the body arrived: another request may have written in the meantime
+    const current = readStored(path);
+    const currentRevision = current === null ? null : JSON.parse(current).revision;
+    if ((body.baseRevision ?? null) !== currentRevision) {
+      return send(res, 409, { error: 'Revision conflict', revision: currentRevision });
+    }
+    if (body.revision !== (currentRevision ?? 0) + 1 || body.data === undefined) {
+      return send(res, 400, { error: 'Expected the next revision number and a data field' });
+    }
+    const { baseRevision: _baseRevision, ...document } = body;
+    writeStored(path, JSON.stringify(document));
+    return send(res, 200, { revision: document.revision });
+  }
+
+  return send(res, 405, { error: 'Method not allowed' }, { Allow: 'GET, PUT, OPTIONS' });
+};
+
+const handleDav = async (req, res, name) => {
+  const path = filePath('dav', name);
+
+  if (req.method === 'GET') {
+    const stored = readStored(path);
+    if (stored === null) return send(res, 404);
+    return send(res, 200, stored, { ETag: etagOf(stored) });
+  }
+
+  if (req.method === 'PUT') {
+    let contents;
+    try {
+      contents = await readBody(req);
+    } catch (error) {
+      return send(res, error.status ?? 400, { error: error.message });
+    }
+    const current = readStored(path);
+    const ifMatch = req.headers['if-match'];
+    const ifNoneMatch = req.headers['if-none-match'];
+    if (ifNoneMatch === '*' && current !== null) return send(res, 412);
+    if (ifMatch && (current === null || (ifMatch !== '*' && ifMatch !== etagOf(current)))) return send(res, 412);
+    writeStored(path, contents);
+    return send(res, current === null ? 201 : 204, undefined, { ETag: etagOf(contents) });
+  }
+
+  return send(res, 405, undefined, { Allow: 'GET, PUT, OPTIONS' });
+};
+
+// The relay cannot read what it stores: devices encrypt their changes before uploading them
+const handleRelay = async (req, res, group, name) => {
+  const directory = join(DATA_DIR, 'relay', group);
+
+  if (!name) {
+    if (req.method !== 'GET') return send(res, 405, undefined, { Allow: 'GET, OPTIONS' });
+    const names = existsSync(directory)
+      ? readdirSync(directory)
+          .filter((file) => file.endsWith('.json'))
+          .map((file) => file.slice(0, -'.json'.length))
+          .sort()
+      : [];
+    return send(res, 200, names);
+  }
+
+  const path = join(directory, `${name}.json`);
+
+  if (req.method === 'GET') {
+    const stored = readStored(path);
+    if (stored === null) return send(res, 404);
+    return send(res, 200, stored);
+  }
+
+  if (req.method === 'PUT') {
+    let contents;
+    try {
+      contents = await readBody(req);
+    } catch (error) {
+      return send(res, error.status ?? 400, { error: error.message });
+    }
+    if (existsSync(path)) return send(res, 412);
+    mkdirSync(directory, { recursive: true });
+    writeStored(path, contents);
+    return send(res, 201);
+  }
+
+  if (req.method === 'DELETE') {
+    if (!existsSync(path)) return send(res, 404);
+    rmSync(path);
+    return send(res, 204);
+  }
+
+  return send(res, 405, undefined, { Allow: 'GET, PUT, DELETE, OPTIONS' });
+};
+
+const server = createServer(async (req, res) => {
+  setCors(req, res);
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (!isAuthorized(req)) return send(res, 401, { error: 'Unauthorized' }, { 'WWW-Authenticate': 'Basic realm="sync"' });
+
+  const pathname = new URL(req.url, 'http://localhost').pathname;
+  const relay = /^\/relay\/([\w-]{1,64})(?:\/([\w-]{1,64}))?\/?$/.exec(pathname);
+  const match = /^\/(sync|dav)\/([\w-]{1,64})(?:\.json)?$/.exec(pathname);
+  if (!match && !relay) return send(res, 404, { error: 'Use /sync/<name>, /dav/<name> or /relay/<group>' });
+
+  try {
+    if (relay) await handleRelay(req, res, relay[1], relay[2]);
+    else await (match[1] === 'sync' ? handleRest(req, res, match[2]) : handleDav(req, res, match[2]));
+  } catch (error) {
+    console.error(error);
+    send(res, 500, { error: 'Internal error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Sync server on http://localhost:${PORT} storing data in ${DATA_DIR}`);
+  console.log(`  REST:   http://localhost:${PORT}/sync/<name>`);
+  console.log(`  WebDAV: http://localhost:${PORT}/dav/<name>.json`);
+  console.log(`  Relay:  http://localhost:${PORT}/relay`);
+  if (USER) console.log(`  Basic authentication required for user ${USER}`);
+});
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Account, AccountCategory, Currency, AccessType } from '@/types/finance';
+import { Account, AccountCategory, AccountOwner, Currency, AccessType, ConversionRate, Holding, LoanTerms, PaymentFrequency, Person, PropertyValuation } from '@/types/finance';
 import {
   Dialog,
   DialogContent,
@@ -10,6 +10,12 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { DEFAULT_BASE_CURRENCY, defaultConversionRates, formatCurrency, getCurrencySymbol } from '@/lib/currency';
+import { createHolding, getHoldingsBalance } from '@/lib/holdings';
+import { getScheduledPayment, PAYMENT_FREQUENCY_META } from '@/lib/loans';
+import { toDateInputValue, fromDateInputValue } from '@/lib/dates';
+import { parseNumberInput } from '@/lib/numberInput';
+import { getOwnerShareTotal, isValidOwnership, splitEvenly } from '@/lib/ownership';
 import {
   Select,
   SelectContent,
@@ -17,25 +23,342 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Plus, Trash2, X } from 'lucide-react';
 
 interface AccountDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSave: (account: Omit<Account, 'id' | 'lastUpdated'>) => void;
+  onSave: (account: Omit<Account, 'id' | 'lastUpdated' | 'balanceHistory'>) => void;
   editAccount?: Account | null;
+  availableCurrencies?: Currency[];
+  defaultCurrency?: Currency;
+  knownTags?: string[];
+  knownInstitutions?: string[];
+  knownGroups?: string[];
+  conversionRates?: ConversionRate[];
+  baseCurrency?: Currency;
+  securableAssets?: Account[]; // Assets a liability can be linked to
+  people?: Person[];
 }
 
+interface OwnersEditorProps {
+  people: Person[];
+  owners: AccountOwner[];
+  onChange: (owners: AccountOwner[]) => void;
+}
+
+// One share per household member; members left at 0% do not own the account
+const OwnersEditor = ({ people, owners, onChange }: OwnersEditorProps) => {
+  const total = getOwnerShareTotal(owners);
+  const getShare = (personId: string) => owners.find((o) => o.personId === personId)?.share ?? 0;
+
+  // Owners are kept in household order
+  const setShare = (personId: string, share: number) =>
+    onChange(
+      people
+        .map((p) => ({ personId: p.id, share: p.id === personId ? share : getShare(p.id) }))
+        .filter((o) => o.share > 0)
+    );
+
+  // Splits between the current owners, or everyone when nobody is assigned yet
+  const handleSplitEvenly = () =>
+    onChange(splitEvenly(owners.length > 0 ? owners.map((o) => o.personId) : people.map((p) => p.id)));
+
+  return (
+    <div className="space-y-2">
+      {people.map((person) => (
+        <div key={person.id} className="flex items-center gap-2">
+          <Label htmlFor={`owner-${person.id}`} className="flex-1 text-sm font-normal">
+            {person.name}
+          </Label>
+          <Input
+            id={`owner-${person.id}`}
+            type="number"
+            min="0"
+            max="100"
+            step="1"
+            value={getShare(person.id)}
+            onChange={(e) => setShare(person.id, Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)))}
+            className="h-8 w-24 text-right"
+          />
+          <span className="text-sm text-muted-foreground">%</span>
+        </div>
+      ))}
+      <div className="flex items-center justify-between">
+        <p className={`text-xs ${isValidOwnership(owners) ? 'text-muted-foreground' : 'text-destructive'}`}>
+          {owners.length === 0
+            ? 'Not assigned — only counted in the combined view'
+            : `Total ${total}%${isValidOwnership(owners) ? '' : ' — shares must add up to 100%'}`}
+        </p>
+        <Button variant="outline" size="sm" onClick={handleSplitEvenly} className="h-7 text-xs">
+          Split evenly
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+type HoldingNumberField = 'quantity' | 'unitPrice';
+const HOLDING_NUMBER_FIELDS: HoldingNumberField[] = ['quantity', 'unitPrice'];
+
+// Quantities and prices being edited, by holding id and field, kept as typed until they parse
+type HoldingDrafts = Record<string, string>;
+const holdingDraftKey = (id: string, field: HoldingNumberField) => `${id}.${field}`;
+
+interface HoldingsEditorProps {
+  holdings: Holding[];
+  drafts: HoldingDrafts;
+  currencies: Currency[];
+  defaultPriceCurrency: Currency;
+  onChange: (holdings: Holding[]) => void;
+  onDraftsChange: (drafts: HoldingDrafts) => void;
+}
+
+// Positions held in the account. Prices can be quoted in any enabled currency.
+const HoldingsEditor = ({
+  holdings,
+  drafts,
+  currencies,
+  defaultPriceCurrency,
+  onChange,
+  onDraftsChange,
+}: HoldingsEditorProps) => {
+  const updateHolding = (id: string, updates: Partial<Holding>) => {
+    onChange(holdings.map((h) => (h.id === id ? { ...h, ...updates } : h)));
+  };
+
+  const updateNumber = (id: string, field: HoldingNumberField, value: string) => {
+    onDraftsChange({ ...drafts, [holdingDraftKey(id, field)]: value });
+    const number = parseNumberInput(value);
+    if (number !== null) updateHolding(id, { [field]: number });
+  };
+
+  return (
+    <div className="space-y-2">
+      {holdings.length > 0 && (
+        <div className="grid grid-cols-[1fr_1fr_1fr_5.5rem_2rem] gap-1.5 text-xs text-muted-foreground px-0.5">
+          <span>Symbol</span>
+          <span>Quantity</span>
+          <span>Unit price</span>
+          <span>Currency</span>
+          <span />
+        </div>
+      )}
+      {holdings.map((holding) => (
+        <div key={holding.id} className="space-y-1">
+          <div className="grid grid-cols-[1fr_1fr_1fr_5.5rem_2rem] gap-1.5">
+            <Input
+              value={holding.symbol}
+              onChange={(e) => updateHolding(holding.id, { symbol: e.target.value.toUpperCase() })}
+              placeholder="VWCE"
+              className="h-8"
+            />
+            <Input
+              type="number"
+              step="any"
+              value={drafts[holdingDraftKey(holding.id, 'quantity')] ?? holding.quantity}
+              onChange={(e) => updateNumber(holding.id, 'quantity', e.target.value)}
+              className="h-8 text-right"
+            />
+            <Input
+              type="number"
+              step="0.01"
+              value={drafts[holdingDraftKey(holding.id, 'unitPrice')] ?? holding.unitPrice}
+              onChange={(e) => updateNumber(holding.id, 'unitPrice', e.target.value)}
+              className="h-8 text-right"
+            />
+            <Select
+              value={holding.priceCurrency}
+              onValueChange={(v) => updateHolding(holding.id, { priceCurrency: v as Currency })}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {currencies.map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {code}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(holdings.filter((h) => h.id !== holding.id))}
+              className="h-8 w-8 text-destructive hover:text-destructive"
+              title="Remove position"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <span>Price date</span>
+            <Input
+              type="date"
+              value={toDateInputValue(holding.priceDate)}
+              onChange={(e) => e.target.value && updateHolding(holding.id, { priceDate: fromDateInputValue(e.target.value) })}
+              className="h-7 w-36 text-xs"
+            />
+          </div>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...holdings, createHolding('', 0, 0, defaultPriceCurrency)])}
+        className="gap-1"
+      >
+        <Plus className="h-4 w-4" />
+        Add Position
+      </Button>
+    </div>
+  );
+};
+
+type LoanNumberField = 'principal' | 'annualRate' | 'termMonths' | 'payment';
+type LoanDrafts = Partial<Record<LoanNumberField, string>>;
+
+// A loan term as typed, or null when it is not a valid value for its field; an empty payment is the level payment
+const parseLoanField = (field: LoanNumberField, value: string): number | undefined | null => {
+  if (field === 'payment' && value.trim() === '') return undefined;
+  const number = parseNumberInput(value);
+  if (number === null || number < 0) return null;
+  if (field === 'termMonths') return Number.isInteger(number) && number >= 1 ? number : null;
+  if (field === 'payment') return number > 0 ? number : null;
+  return number;
+};
+
+interface LoanTermsEditorProps {
+  terms: LoanTerms;
+  drafts: LoanDrafts;
+  currency: Currency;
+  onChange: (terms: LoanTerms) => void;
+  onDraftsChange: (drafts: LoanDrafts) => void;
+}
+
+const LoanTermsEditor = ({ terms, drafts, currency, onChange, onDraftsChange }: LoanTermsEditorProps) => {
+  const update = (updates: Partial<LoanTerms>) => onChange({ ...terms, ...updates });
+  const updateNumber = (field: LoanNumberField, value: string) => {
+    onDraftsChange({ ...drafts, [field]: value });
+    const number = parseLoanField(field, value);
+    if (number !== null) update({ [field]: number });
+  };
+  const annuityPayment = getScheduledPayment({ ...terms, payment: undefined });
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div className="space-y-1">
+        <Label htmlFor="loan-principal" className="text-xs">Original principal</Label>
+        <Input
+          id="loan-principal"
+          type="number"
+          step="0.01"
+          value={drafts.principal ?? terms.principal}
+          onChange={(e) => updateNumber('principal', e.target.value)}
+          className="h-8"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="loan-rate" className="text-xs">Interest rate (% per year)</Label>
+        <Input
+          id="loan-rate"
+          type="number"
+          step="0.01"
+          value={drafts.annualRate ?? terms.annualRate}
+          onChange={(e) => updateNumber('annualRate', e.target.value)}
+          className="h-8"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="loan-term" className="text-xs">Term (months)</Label>
+        <Input
+          id="loan-term"
+          type="number"
+          step="1"
+          value={drafts.termMonths ?? terms.termMonths}
+          onChange={(e) => updateNumber('termMonths', e.target.value)}
+          className="h-8"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="loan-start" className="text-xs">Start date</Label>
+        <Input
+          id="loan-start"
+          type="date"
+          value={toDateInputValue(terms.startDate)}
+          onChange={(e) => e.target.value && update({ startDate: fromDateInputValue(e.target.value) })}
+          className="h-8"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="loan-frequency" className="text-xs">Payment frequency</Label>
+        <Select value={terms.frequency} onValueChange={(v) => update({ frequency: v as PaymentFrequency })}>
+          <SelectTrigger id="loan-frequency" className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(PAYMENT_FREQUENCY_META) as PaymentFrequency[]).map((frequency) => (
+              <SelectItem key={frequency} value={frequency}>
+                {PAYMENT_FREQUENCY_META[frequency].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="loan-payment" className="text-xs">Payment ({currency})</Label>
+        <Input
+          id="loan-payment"
+          type="number"
+          step="0.01"
+          value={drafts.payment ?? terms.payment ?? ''}
+          onChange={(e) => updateNumber('payment', e.target.value)}
+          placeholder={isFinite(annuityPayment) ? annuityPayment.toFixed(2) : ''}
+          className="h-8"
+        />
+      </div>
+      <p className="col-span-2 text-xs text-muted-foreground">
+        Leave the payment empty to use the level payment for these terms.
+      </p>
+    </div>
+  );
+};
+
 export const AccountDialog = ({
   open,
   onOpenChange,
   onSave,
   editAccount,
+  availableCurrencies = defaultConversionRates.map((r) => r.currency),
+  defaultCurrency = DEFAULT_BASE_CURRENCY,
+  knownTags = [],
+  knownInstitutions = [],
+  knownGroups = [],
+  conversionRates = defaultConversionRates,
+  baseCurrency = DEFAULT_BASE_CURRENCY,
+  securableAssets = [],
+  people = [],
 }: AccountDialogProps) => {
   const [name, setName] = useState('');
   const [category, setCategory] = useState<AccountCategory>('current_asset');
-  const [currency, setCurrency] = useState<Currency>('EUR');
+  const [currency, setCurrency] = useState<Currency>(defaultCurrency);
   const [balance, setBalance] = useState('0');
   const [accessType, setAccessType] = useState<AccessType>('liquid');
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState('');
+  const [institution, setInstitution] = useState('');
+  const [group, setGroup] = useState('');
+  const [trackHoldings, setTrackHoldings] = useState(false);
+  const [holdings, setHoldings] = useState<Holding[]>([]);
+  const [holdingDrafts, setHoldingDrafts] = useState<HoldingDrafts>({});
+  const [loan, setLoan] = useState<LoanTerms | null>(null);
+  const [loanDrafts, setLoanDrafts] = useState<LoanDrafts>({});
+  const [securedBy, setSecuredBy] = useState<string>('');
+  const [valuation, setValuation] = useState<PropertyValuation | null>(null);
+  const [owners, setOwners] = useState<AccountOwner[]>([]);
 
   useEffect(() => {
     if (editAccount) {
@@ -44,29 +367,116 @@ export const AccountDialog = ({
       setCurrency(editAccount.currency);
       setBalance(editAccount.balance.toString());
       setAccessType(editAccount.accessType || 'liquid');
+      setTags(editAccount.tags ?? []);
+      setInstitution(editAccount.institution ?? '');
+      setGroup(editAccount.group ?? '');
+      setTrackHoldings((editAccount.holdings?.length ?? 0) > 0);
+      setHoldings(editAccount.holdings ?? []);
+      setLoan(editAccount.loan ?? null);
+      setSecuredBy(editAccount.securedBy ?? '');
+      setValuation(editAccount.valuation ?? null);
+      setOwners(editAccount.owners ?? []);
     } else {
       setName('');
       setCategory('current_asset');
-      setCurrency('EUR');
+      setCurrency(defaultCurrency);
       setBalance('0');
       setAccessType('liquid');
+      setTags([]);
+      setInstitution('');
+      setGroup('');
+      setTrackHoldings(false);
+      setHoldings([]);
+      setLoan(null);
+      setSecuredBy('');
+      setValuation(null);
+      setOwners([]);
     }
-  }, [editAccount, open]);
+    setTagInput('');
+    setHoldingDrafts({});
+    setLoanDrafts({});
+  }, [editAccount, open, defaultCurrency]);
+
+  // Keep the account's own currency selectable even if it has since been turned off
+  const currencyOptions = availableCurrencies.includes(currency)
+    ? availableCurrencies
+    : [...availableCurrencies, currency];
+
+  const addTag = (value: string) => {
+    const tag = value.trim();
+    if (tag && !tags.some((t) => t.toLowerCase() === tag.toLowerCase())) {
+      setTags((prev) => [...prev, tag]);
+    }
+    setTagInput('');
+  };
+
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(tagInput);
+    } else if (e.key === 'Backspace' && tagInput === '' && tags.length > 0) {
+      setTags((prev) => prev.slice(0, -1));
+    }
+  };
+
+  const isLiability = category.includes('liability');
+
+  const toggleLoan = (enabled: boolean) => {
+    setLoanDrafts({});
+    setLoan(
+      enabled
+        ? {
+            annualRate: 0,
+            principal: parseNumberInput(balance) ?? 0,
+            termMonths: 360,
+            frequency: 'monthly',
+            startDate: new Date(),
+          }
+        : null
+    );
+  };
+
+  // With positions tracked the balance is derived and the balance field is read-only
+  const positions = trackHoldings ? holdings.filter((h) => h.symbol.trim()) : [];
+  const derivedBalance = getHoldingsBalance(positions, currency, conversionRates, baseCurrency);
+  const typedBalance = parseNumberInput(balance);
+  const hasInvalidPosition = positions.some((h) =>
+    HOLDING_NUMBER_FIELDS.map((field) => holdingDraftKey(h.id, field)).some(
+      (key) => key in holdingDrafts && parseNumberInput(holdingDrafts[key]) === null
+    )
+  );
+  const hasInvalidLoan =
+    isLiability &&
+    loan !== null &&
+    (Object.keys(loanDrafts) as LoanNumberField[]).some((field) => parseLoanField(field, loanDrafts[field]!) === null);
+  const hasInvalidNumber = (trackHoldings ? hasInvalidPosition : typedBalance === null) || hasInvalidLoan;
 
   const handleSave = () => {
+    // A tag still being typed is kept rather than silently dropped
+    const pendingTag = tagInput.trim();
+    const allTags = pendingTag && !tags.includes(pendingTag) ? [...tags, pendingTag] : tags;
     onSave({
       name,
       category,
       currency,
-      balance: parseFloat(balance) || 0,
+      balance: trackHoldings ? derivedBalance : typedBalance!,
       accessType,
+      tags: allTags,
+      institution: institution.trim() || undefined,
+      group: group.trim() || undefined,
+      holdings: trackHoldings ? positions : undefined,
+      loan: isLiability && loan ? loan : undefined,
+      securedBy: isLiability && securedBy ? securedBy : undefined,
+      valuation: !isLiability && valuation ? valuation : undefined,
+      // Owners removed from the household since are dropped
+      owners: owners.length > 0 ? owners.filter((o) => people.some((p) => p.id === o.personId)) : undefined,
     });
     onOpenChange(false);
   };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>
             {editAccount ? 'Edit Account' : 'Add New Account'}
@@ -107,27 +517,127 @@ export const AccountDialog = ({
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="EUR">EUR (€)</SelectItem>
-                  <SelectItem value="USD">USD ($)</SelectItem>
-                  <SelectItem value="GBP">GBP (£)</SelectItem>
-                  <SelectItem value="PHP">PHP (₱)</SelectItem>
+                  {currencyOptions.map((code) => (
+                    <SelectItem key={code} value={code}>
+                      {code} ({getCurrencySymbol(code)})
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="balance">Current Balance</Label>
-            <Input
-              id="balance"
-              type="number"
-              step="0.01"
-              value={balance}
-              onChange={(e) => setBalance(e.target.value)}
-              placeholder="0.00"
-            />
+            <div className="flex items-center justify-between">
+              <Label htmlFor="balance">Current Balance</Label>
+              <div className="flex items-center gap-2">
+                <Label htmlFor="track-holdings" className="text-xs text-muted-foreground font-normal">
+                  Track positions
+                </Label>
+                <Switch id="track-holdings" checked={trackHoldings} onCheckedChange={setTrackHoldings} />
+              </div>
+            </div>
+            {trackHoldings ? (
+              <>
+                <p id="balance" className="text-lg font-semibold">
+                  {derivedBalance < 0 && '-'}
+                  {formatCurrency(derivedBalance, currency)}
+                </p>
+                <HoldingsEditor
+                  holdings={holdings}
+                  drafts={holdingDrafts}
+                  currencies={currencyOptions}
+                  defaultPriceCurrency={currency}
+                  onChange={setHoldings}
+                  onDraftsChange={setHoldingDrafts}
+                />
+              </>
+            ) : (
+              <Input
+                id="balance"
+                type="number"
+                step="0.01"
+                value={balance}
+                onChange={(e) => setBalance(e.target.value)}
+                placeholder="0.00"
+              />
+            )}
           </div>
 
+          {isLiability && securableAssets.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="secured-by">Secured by</Label>
+              <Select value={securedBy || 'none'} onValueChange={(v) => setSecuredBy(v === 'none' ? '' : v)}>
+                <SelectTrigger id="secured-by">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Not secured</SelectItem>
+                  {securableAssets.map((asset) => (
+                    <SelectItem key={asset.id} value={asset.id}>
+                      {asset.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {!isLiability && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="track-valuation">Property valuation</Label>
+                <Switch
+                  id="track-valuation"
+                  checked={valuation !== null}
+                  onCheckedChange={(enabled) => setValuation(enabled ? { date: new Date() } : null)}
+                />
+              </div>
+              {valuation && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="valuation-date" className="text-xs">Valued on</Label>
+                    <Input
+                      id="valuation-date"
+                      type="date"
+                      value={toDateInputValue(valuation.date)}
+                      onChange={(e) => e.target.value && setValuation({ ...valuation, date: fromDateInputValue(e.target.value) })}
+                      className="h-8"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="valuation-source" className="text-xs">Source</Label>
+                    <Input
+                      id="valuation-source"
+                      value={valuation.source ?? ''}
+                      onChange={(e) => setValuation({ ...valuation, source: e.target.value || undefined })}
+                      placeholder="e.g., Bank appraisal"
+                      className="h-8"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {isLiability && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="track-loan">Loan terms</Label>
+                <Switch id="track-loan" checked={loan !== null} onCheckedChange={toggleLoan} />
+              </div>
+              {loan && (
+                <LoanTermsEditor
+                  terms={loan}
+                  drafts={loanDrafts}
+                  currency={currency}
+                  onChange={setLoan}
+                  onDraftsChange={setLoanDrafts}
+                />
+              )}
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="accessType">Access Type</Label>
             <Select value={accessType} onValueChange={(v) => setAccessType(v as AccessType)}>
@@ -141,13 +651,89 @@ export const AccountDialog = ({
               </SelectContent>
             </Select>
           </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="institution">Institution</Label>
+              <Input
+                id="institution"
+                value={institution}
+                onChange={(e) => setInstitution(e.target.value)}
+                placeholder="e.g., Bank A"
+                list="known-institutions"
+              />
+              <datalist id="known-institutions">
+                {knownInstitutions.map((value) => (
+                  <option key={value} value={value} />
+                ))}
+              </datalist>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="group">Group</Label>
+              <Input
+                id="group"
+                value={group}
+                onChange={(e) => setGroup(e.target.value)}
+                placeholder="Optional"
+                list="known-groups"
+              />
+              <datalist id="known-groups">
+                {knownGroups.map((value) => (
+                  <option key={value} value={value} />
+                ))}
+              </datalist>
+            </div>
+          </div>
+
+          {people.length > 0 && (
+            <div className="space-y-2">
+              <Label>Owners</Label>
+              <OwnersEditor people={people} owners={owners} onChange={setOwners} />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="tags">Tags</Label>
+            {tags.length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {tags.map((tag) => (
+                  <Badge key={tag} variant="secondary" className="gap-1">
+                    {tag}
+                    <button
+                      type="button"
+                      onClick={() => setTags((prev) => prev.filter((t) => t !== tag))}
+                      className="hover:text-destructive"
+                      title={`Remove ${tag}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <Input
+              id="tags"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyDown={handleTagKeyDown}
+              onBlur={() => tagInput && addTag(tagInput)}
+              placeholder="e.g., Joint, Emergency fund — press Enter to add"
+              list="known-tags"
+            />
+            <datalist id="known-tags">
+              {knownTags.filter((tag) => !tags.includes(tag)).map((tag) => (
+                <option key={tag} value={tag} />
+              ))}
+            </datalist>
+          </div>
         </div>
 
         <DialogFooter>
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Cancel
           </Button>
-          <Button onClick={handleSave} disabled={!name}>
+          <Button onClick={handleSave} disabled={!name || !isValidOwnership(owners) || hasInvalidNumber}>
             {editAccount ? 'Update' : 'Add'} Account
           </Button>
         </DialogFooter>
@@ -0,0 +1,209 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Account, BalanceEntry } from '@/types/finance';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatCurrency } from '@/lib/currency';
+import { createBalanceEntry } from '@/lib/accountHistory';
+import { toDateInputValue, fromDateInputValue } from '@/lib/dates';
+import { parseNumberInput } from '@/lib/numberInput';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Plus, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface AccountHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  account: Account | null;
+  onSave: (accountId: string, entries: BalanceEntry[]) => void;
+}
+
+export const AccountHistoryDialog = ({
+  open,
+  onOpenChange,
+  account,
+  onSave,
+}: AccountHistoryDialogProps) => {
+  const [entries, setEntries] = useState<BalanceEntry[]>([]);
+  const [newDate, setNewDate] = useState(toDateInputValue(new Date()));
+  const [newBalance, setNewBalance] = useState('');
+  // Balances being edited, kept as typed until they parse
+  const [balanceDrafts, setBalanceDrafts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setEntries(account?.balanceHistory ?? []);
+    setNewDate(toDateInputValue(new Date()));
+    setNewBalance('');
+    setBalanceDrafts({});
+  }, [account, open]);
+
+  const hasInvalidBalance = entries.some(
+    (entry) => entry.id in balanceDrafts && parseNumberInput(balanceDrafts[entry.id]) === null
+  );
+
+  const sortedEntries = useMemo(
+    () => [...entries].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()),
+    [entries]
+  );
+
+  const chartData = sortedEntries.map((entry) => ({
+    date: format(new Date(entry.date), 'MMM d, yy'),
+    balance: entry.balance,
+  }));
+
+  if (!account) return null;
+
+  const updateEntry = (id: string, updates: Partial<BalanceEntry>) => {
+    setEntries((prev) => prev.map((e) => (e.id === id ? { ...e, ...updates } : e)));
+  };
+
+  const updateBalance = (id: string, value: string) => {
+    setBalanceDrafts((prev) => ({ ...prev, [id]: value }));
+    const balance = parseNumberInput(value);
+    if (balance !== null) updateEntry(id, { balance });
+  };
+
+  const removeEntry = (id: string) => {
+    setEntries((prev) => prev.filter((e) => e.id !== id));
+  };
+
+  const addEntry = () => {
+    const balance = parseNumberInput(newBalance);
+    if (balance === null || !newDate) return;
+    setEntries((prev) => [...prev, createBalanceEntry(balance, fromDateInputValue(newDate))]);
+    setNewBalance('');
+  };
+
+  const handleSave = () => {
+    onSave(account.id, sortedEntries);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Balance History · {account.name}</DialogTitle>
+          <DialogDescription>
+            Every balance change is kept as a dated entry. Correct or remove past entries here.
+          </DialogDescription>
+        </DialogHeader>
+
+        {chartData.length >= 2 && (
+          <div className="h-[180px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                <XAxis dataKey="date" tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 11 }} />
+                <YAxis
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 11 }}
+                  tickFormatter={(value) => {
+                    if (Math.abs(value) >= 1000000) return `${(value / 1000000).toFixed(1)}M`;
+                    if (Math.abs(value) >= 1000) return `${(value / 1000).toFixed(0)}K`;
+                    return value.toString();
+                  }}
+                />
+                <Tooltip formatter={(value: number) => formatCurrency(value, account.currency)} />
+                <Line
+                  type="stepAfter"
+                  dataKey="balance"
+                  name="Balance"
+                  stroke="hsl(43, 90%, 48%)"
+                  strokeWidth={2}
+                  dot={{ r: 3 }}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+
+        <ScrollArea className="max-h-[280px]">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead className="text-right">Balance ({account.currency})</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[...sortedEntries].reverse().map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell>
+                    <Input
+                      type="date"
+                      value={toDateInputValue(entry.date)}
+                      onChange={(e) => e.target.value && updateEntry(entry.id, { date: fromDateInputValue(e.target.value) })}
+                      className="h-8 w-40"
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={balanceDrafts[entry.id] ?? entry.balance}
+                      onChange={(e) => updateBalance(entry.id, e.target.value)}
+                      className="h-8 w-32 ml-auto text-right"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeEntry(entry.id)}
+                      disabled={entries.length <= 1}
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      title="Remove entry"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+
+        <div className="flex items-center gap-2 pt-2 border-t">
+          <Input
+            type="date"
+            value={newDate}
+            onChange={(e) => setNewDate(e.target.value)}
+            className="h-8 w-40"
+          />
+          <Input
+            type="number"
+            step="0.01"
+            value={newBalance}
+            onChange={(e) => setNewBalance(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addEntry()}
+            placeholder="Balance"
+            className="h-8 flex-1"
+          />
+          <Button variant="outline" size="sm" onClick={addEntry} disabled={parseNumberInput(newBalance) === null} className="gap-1">
+            <Plus className="h-4 w-4" />
+            Add Entry
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={entries.length === 0 || hasInvalidBalance}>
+            Save History
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,7 +1,14 @@
 import { useState } from 'react';
-import { Account, AccountCategory } from '@/types/finance';
-import { formatCurrency } from '@/lib/currency';
+import { Account, AccountCategory, ConversionRate, Currency, Person } from '@/types/finance';
+import { convertFromBase, DEFAULT_BASE_CURRENCY, formatCurrency } from '@/lib/currency';
 import { ACCOUNT_CATEGORY_META } from '@/lib/accountMetadata';
+import { getActiveAccounts, getArchivedAccounts } from '@/lib/accountArchive';
+import { hasHoldings } from '@/lib/holdings';
+import { getLoanStatus } from '@/lib/loans';
+import { getPropertyEquity, isProperty } from '@/lib/property';
+import { describeOwners } from '@/lib/ownership';
+import { HoldingsBreakdown } from '@/components/HoldingsBreakdown';
+import { ACCOUNT_GROUPING_LABELS, AccountGrouping, getGroupSubtotal, groupAccounts } from '@/lib/accountGroups';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -17,56 +24,79 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { Pencil, Trash2, ChevronDown, ChevronUp, Check, X } from 'lucide-react';
+import { Pencil, Trash2, ChevronDown, ChevronUp, Check, X, History, Tag, Folder, Coins, KeyRound, Landmark, LucideIcon, Archive, ArchiveRestore, PieChart, CalendarClock } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
 interface AccountListProps {
   accounts: Account[];
   onEdit: (account: Account) => void;
   onDelete: (id: string) => void;
   onQuickUpdate?: (id: string, balance: number) => void;
+  onViewHistory?: (account: Account) => void;
+  onViewLoan?: (account: Account) => void;
+  onArchive?: (account: Account) => void;
+  onRestore?: (id: string) => void;
   showCurrentAssets?: boolean;
   showNonCurrentAssets?: boolean;
   showCurrentLiabilities?: boolean;
   showNonCurrentLiabilities?: boolean;
+  groupBy?: AccountGrouping;
+  onGroupByChange?: (grouping: AccountGrouping) => void;
+  conversionRates?: ConversionRate[];
+  baseCurrency?: Currency;
+  displayCurrency?: Currency;
+  people?: Person[];
 }
 
-const CATEGORY_ORDER: AccountCategory[] = [
-  'current_asset',
-  'non_current_asset',
-  'current_liability',
-  'non_current_liability',
-];
+const GROUPING_ICONS: Record<Exclude<AccountGrouping, 'category'>, LucideIcon> = {
+  tag: Tag,
+  group: Folder,
+  currency: Coins,
+  accessType: KeyRound,
+  institution: Landmark,
+};
 
 export const AccountList = ({ 
   accounts, 
   onEdit, 
   onDelete,
   onQuickUpdate,
+  onViewHistory,
+  onViewLoan,
+  onArchive,
+  onRestore,
   showCurrentAssets = true,
   showNonCurrentAssets = true,
   showCurrentLiabilities = true,
   showNonCurrentLiabilities = true,
+  groupBy = 'category',
+  onGroupByChange,
+  conversionRates = [],
+  baseCurrency = DEFAULT_BASE_CURRENCY,
+  displayCurrency = baseCurrency,
+  people = [],
 }: AccountListProps) => {
-  const [openCategories, setOpenCategories] = useState<Record<AccountCategory, boolean>>({
-    current_asset: true,
-    non_current_asset: true,
-    current_liability: true,
-    non_current_liability: true,
-  });
+  const [collapsedGroups, setCollapsedGroups] = useState<Record<string, boolean>>({});
+  const [showArchived, setShowArchived] = useState(false);
+  const [expandedHoldingsId, setExpandedHoldingsId] = useState<string | null>(null);
   const [editingBalanceId, setEditingBalanceId] = useState<string | null>(null);
   const [editingBalance, setEditingBalance] = useState<string>('');
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [accountToDelete, setAccountToDelete] = useState<Account | null>(null);
   
-  const toggleCategory = (category: AccountCategory) => {
-    setOpenCategories(prev => ({
+  const toggleGroup = (key: string) => {
+    setCollapsedGroups(prev => ({
       ...prev,
-      [category]: !prev[category]
+      [`${groupBy}:${key}`]: !prev[`${groupBy}:${key}`]
     }));
   };
 
+  const toggleHoldings = (accountId: string) => {
+    setExpandedHoldingsId(prev => (prev === accountId ? null : accountId));
+  };
+
   const startEditingBalance = (account: Account) => {
     setEditingBalanceId(account.id);
     setEditingBalance(account.balance.toString());
@@ -114,6 +144,35 @@ export const AccountList = ({
     non_current_liability: showNonCurrentLiabilities,
   };
 
+  const activeAccounts = getActiveAccounts(accounts);
+
+  // Equity and loan-to-value for properties, and the securing asset for linked debts
+  const renderPropertyLine = (account: Account) => {
+    if (account.securedBy) {
+      const property = accounts.find(acc => acc.id === account.securedBy);
+      return property ? (
+        <p className="text-xs sm:text-sm text-muted-foreground">Secured by {property.name}</p>
+      ) : null;
+    }
+    if (!isProperty(account, activeAccounts)) return null;
+    const equity = getPropertyEquity(account, activeAccounts, conversionRates, baseCurrency);
+    const toDisplay = (amount: number) => convertFromBase(amount, displayCurrency, conversionRates, baseCurrency);
+    return (
+      <p className="text-xs sm:text-sm text-muted-foreground">
+        Equity {equity.equity < 0 && '-'}{formatCurrency(toDisplay(equity.equity), displayCurrency)}
+        {equity.loanToValue !== null && equity.liabilities.length > 0 && ` · LTV ${(equity.loanToValue * 100).toFixed(0)}%`}
+        {account.valuation && ` · Valued ${new Date(account.valuation.date).toLocaleDateString()}`}
+        {account.valuation?.source && ` (${account.valuation.source})`}
+      </p>
+    );
+  };
+
+  // Hidden categories stay hidden whatever the accounts are grouped by. Archived
+  // accounts are listed separately and left out of the group subtotals.
+  const visibleAccounts = activeAccounts.filter(acc => visibilityMap[acc.category]);
+  const archivedAccounts = getArchivedAccounts(accounts);
+  const groups = groupAccounts(visibleAccounts, groupBy);
+
   if (accounts.length === 0) {
     return (
       <Card className="p-8 text-center">
@@ -125,24 +184,56 @@ export const AccountList = ({
   return (
     <>
       <Card className="p-6">
+        {(onGroupByChange || archivedAccounts.length > 0) && (
+          <div className="flex flex-wrap items-center justify-end gap-2 mb-4">
+            {archivedAccounts.length > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowArchived(!showArchived)}
+                className="gap-1.5 text-muted-foreground mr-auto"
+              >
+                <Archive className="h-4 w-4" />
+                {showArchived ? 'Hide' : 'Show'} archived ({archivedAccounts.length})
+              </Button>
+            )}
+            {onGroupByChange && (
+              <>
+                <span className="text-sm text-muted-foreground">Group by</span>
+                <Select value={groupBy} onValueChange={(v) => onGroupByChange(v as AccountGrouping)}>
+                  <SelectTrigger className="w-[160px] h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ACCOUNT_GROUPING_LABELS) as AccountGrouping[]).map((grouping) => (
+                      <SelectItem key={grouping} value={grouping}>
+                        {ACCOUNT_GROUPING_LABELS[grouping]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </>
+            )}
+          </div>
+        )}
         <ScrollArea className="h-[600px] pr-2 sm:pr-4">
           <div className="space-y-6">
-            {CATEGORY_ORDER.map((category, categoryIndex) => {
-              if (!visibilityMap[category]) return null;
-              
-              const categoryAccounts = accounts.filter(acc => acc.category === category);
-              
-              if (categoryAccounts.length === 0) return null;
-
-              const meta = ACCOUNT_CATEGORY_META[category];
-              const Icon = meta.icon;
-              const isOpen = openCategories[category];
+            {groups.map((group, groupIndex) => {
+              const categoryMeta = groupBy === 'category' ? ACCOUNT_CATEGORY_META[group.key as AccountCategory] : null;
+              const Icon = categoryMeta ? categoryMeta.icon : GROUPING_ICONS[groupBy as Exclude<AccountGrouping, 'category'>];
+              const isOpen = !collapsedGroups[`${groupBy}:${group.key}`];
+              const subtotal = convertFromBase(
+                getGroupSubtotal(group.accounts, conversionRates, baseCurrency),
+                displayCurrency,
+                conversionRates,
+                baseCurrency
+              );
 
               return (
-                <div key={category}>
-                  {categoryIndex > 0 && <Separator className="mb-6" />}
+                <div key={group.key}>
+                  {groupIndex > 0 && <Separator className="mb-6" />}
                   
-                  <Collapsible open={isOpen} onOpenChange={() => toggleCategory(category)}>
+                  <Collapsible open={isOpen} onOpenChange={() => toggleGroup(group.key)}>
                     <div className="mb-6">
                       <CollapsibleTrigger asChild>
                         <Button
@@ -154,15 +245,24 @@ export const AccountList = ({
                             <div className="text-left flex-1">
                               <div className="flex items-center gap-2">
                                 <h3 className="text-lg font-semibold text-foreground">
-                                  {meta.label}
+                                  {group.label}
                                 </h3>
                                 <Badge variant="secondary" className="text-xs">
-                                  {categoryAccounts.length}
+                                  {group.accounts.length}
                                 </Badge>
+                                <span
+                                  className={`ml-auto text-sm font-semibold ${subtotal >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}
+                                  title="Subtotal, liabilities counted as negative"
+                                >
+                                  {subtotal < 0 && '-'}
+                                  {formatCurrency(subtotal, displayCurrency)}
+                                </span>
                               </div>
-                              <p className="text-sm text-muted-foreground mt-1 mb-3">
-                                {meta.subtitle}
-                              </p>
+                              {categoryMeta && (
+                                <p className="text-sm text-muted-foreground mt-1 mb-3">
+                                  {categoryMeta.subtitle}
+                                </p>
+                              )}
                             </div>
                           </div>
                           {isOpen ? (
@@ -176,10 +276,10 @@ export const AccountList = ({
 
                     <CollapsibleContent className="mt-2 animate-accordion-down">
                       <div className="space-y-2 sm:space-y-3">
-                        {categoryAccounts.map((account) => (
+                        {group.accounts.map((account) => (
                           <div
                             key={account.id}
-                            className="flex flex-col sm:flex-row sm:items-center justify-between p-3 sm:p-4 rounded-lg bg-secondary/30 hover:bg-secondary/50 transition-colors gap-3 sm:gap-4"
+                            className="flex flex-col sm:flex-row sm:flex-wrap sm:items-center justify-between p-3 sm:p-4 rounded-lg bg-secondary/30 hover:bg-secondary/50 transition-colors gap-3 sm:gap-4"
                           >
                             <div className="flex-1 min-w-0">
                               <div className="flex items-center gap-2 sm:gap-3 mb-1 flex-wrap">
@@ -189,10 +289,25 @@ export const AccountList = ({
                                 <Badge variant="outline" className="text-xs flex-shrink-0">
                                   {account.currency}
                                 </Badge>
+                                {account.tags?.map((tag) => (
+                                  <Badge key={tag} variant="secondary" className="text-xs flex-shrink-0">
+                                    {tag}
+                                  </Badge>
+                                ))}
+                                {getLoanStatus(account)?.isOffSchedule && (
+                                  <Badge variant="outline" className="text-xs flex-shrink-0 border-yellow-400 text-yellow-700 dark:text-yellow-400">
+                                    Off schedule
+                                  </Badge>
+                                )}
                               </div>
                               <p className="text-xs sm:text-sm text-muted-foreground">
+                                {describeOwners(account.owners, people) && `${describeOwners(account.owners, people)} · `}
+                                {account.institution && `${account.institution} · `}
+                                {hasHoldings(account) && `${account.holdings!.length} position${account.holdings!.length === 1 ? '' : 's'} · `}
                                 Updated: {new Date(account.lastUpdated).toLocaleDateString()}
+                                {account.balanceHistory?.length > 1 && ` · ${account.balanceHistory.length} entries`}
                               </p>
+                              {renderPropertyLine(account)}
                             </div>
                             
                             <div className="flex items-center justify-between sm:justify-end gap-3 sm:gap-4">
@@ -225,15 +340,48 @@ export const AccountList = ({
                                 </div>
                               ) : (
                                 <button
-                                  onClick={() => onQuickUpdate && startEditingBalance(account)}
+                                  onClick={() => onQuickUpdate && !hasHoldings(account) && startEditingBalance(account)}
                                   className="text-base sm:text-lg font-semibold text-foreground flex-shrink-0 hover:text-primary transition-colors cursor-pointer"
-                                  title="Click to edit balance"
+                                  title={hasHoldings(account) ? 'Derived from positions, edit the account to change' : 'Click to edit balance'}
                                 >
                                   {formatCurrency(account.balance, account.currency)}
                                 </button>
                               )}
                               
                               <div className="flex gap-1 sm:gap-2 flex-shrink-0">
+                                {hasHoldings(account) && (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => toggleHoldings(account.id)}
+                                    className="h-8 w-8"
+                                    title="Position allocation"
+                                  >
+                                    <PieChart className="h-3 w-3 sm:h-4 sm:w-4" />
+                                  </Button>
+                                )}
+                                {account.loan && onViewLoan && (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => onViewLoan(account)}
+                                    className="h-8 w-8"
+                                    title="Loan schedule"
+                                  >
+                                    <CalendarClock className="h-3 w-3 sm:h-4 sm:w-4" />
+                                  </Button>
+                                )}
+                                {onViewHistory && (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => onViewHistory(account)}
+                                    className="h-8 w-8"
+                                    title="Balance history"
+                                  >
+                                    <History className="h-3 w-3 sm:h-4 sm:w-4" />
+                                  </Button>
+                                )}
                                 <Button
                                   variant="ghost"
                                   size="icon"
@@ -242,6 +390,17 @@ export const AccountList = ({
                                 >
                                   <Pencil className="h-3 w-3 sm:h-4 sm:w-4" />
                                 </Button>
+                                {onArchive && (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => onArchive(account)}
+                                    className="h-8 w-8"
+                                    title="Close and archive"
+                                  >
+                                    <Archive className="h-3 w-3 sm:h-4 sm:w-4" />
+                                  </Button>
+                                )}
                                 <Button
                                   variant="ghost"
                                   size="icon"
@@ -252,6 +411,15 @@ export const AccountList = ({
                                 </Button>
                               </div>
                             </div>
+                            {expandedHoldingsId === account.id && hasHoldings(account) && (
+                              <div className="w-full sm:basis-full">
+                                <HoldingsBreakdown
+                                  account={account}
+                                  conversionRates={conversionRates}
+                                  baseCurrency={baseCurrency}
+                                />
+                              </div>
+                            )}
                           </div>
                         ))}
                       </div>
@@ -260,6 +428,80 @@ export const AccountList = ({
                 </div>
               );
             })}
+
+            {showArchived && archivedAccounts.length > 0 && (
+              <div>
+                {groups.length > 0 && <Separator className="mb-6" />}
+                <div className="flex items-center gap-2 px-1.5 mb-4">
+                  <Archive className="h-5 w-5 text-muted-foreground" />
+                  <h3 className="text-lg font-semibold text-muted-foreground">Archived</h3>
+                  <Badge variant="secondary" className="text-xs">
+                    {archivedAccounts.length}
+                  </Badge>
+                </div>
+                <div className="space-y-2 sm:space-y-3">
+                  {archivedAccounts.map((account) => (
+                    <div
+                      key={account.id}
+                      className="flex flex-col sm:flex-row sm:items-center justify-between p-3 sm:p-4 rounded-lg border border-dashed opacity-75 gap-3 sm:gap-4"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 sm:gap-3 mb-1 flex-wrap">
+                          <p className="font-medium text-foreground text-sm sm:text-base truncate">
+                            {account.name}
+                          </p>
+                          <Badge variant="outline" className="text-xs flex-shrink-0">
+                            {account.currency}
+                          </Badge>
+                        </div>
+                        <p className="text-xs sm:text-sm text-muted-foreground">
+                          {ACCOUNT_CATEGORY_META[account.category].label} · Closed{' '}
+                          {new Date(account.closedAt!).toLocaleDateString()}
+                        </p>
+                      </div>
+
+                      <div className="flex items-center justify-between sm:justify-end gap-3 sm:gap-4">
+                        <span className="text-sm text-muted-foreground" title="Final balance">
+                          {formatCurrency(account.balance, account.currency)}
+                        </span>
+                        <div className="flex gap-1 sm:gap-2 flex-shrink-0">
+                          {onViewHistory && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => onViewHistory(account)}
+                              className="h-8 w-8"
+                              title="Balance history"
+                            >
+                              <History className="h-3 w-3 sm:h-4 sm:w-4" />
+                            </Button>
+                          )}
+                          {onRestore && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => onRestore(account.id)}
+                              className="h-8 w-8"
+                              title="Restore account"
+                            >
+                              <ArchiveRestore className="h-3 w-3 sm:h-4 sm:w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleDeleteClick(account)}
+                            className="h-8 w-8 text-destructive hover:text-destructive"
+                          >
+                            <Trash2 className="h-3 w-3 sm:h-4 sm:w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         </ScrollArea>
       </Card>
@@ -269,11 +511,17 @@ export const AccountList = ({
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Account</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete "{accountToDelete?.name}"? This action cannot be undone.
+              Are you sure you want to delete "{accountToDelete?.name}"? Its balance history will be lost.
+              {onArchive && accountToDelete && !accountToDelete.closedAt && ' To keep it, close and archive the account instead.'}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
+            {onArchive && accountToDelete && !accountToDelete.closedAt && (
+              <AlertDialogAction onClick={() => onArchive(accountToDelete)} className="bg-secondary text-secondary-foreground hover:bg-secondary/80">
+                Archive Instead
+              </AlertDialogAction>
+            )}
             <AlertDialogAction
               onClick={confirmDelete}
               className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
@@ -0,0 +1,224 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AUTO_LOCK_OPTIONS, MIN_LOCK_PASSPHRASE_LENGTH } from '@/lib/appLock';
+import { UseAppLockReturn } from '@/hooks/useAppLock';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+
+interface AppLockDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  appLock: UseAppLockReturn;
+}
+
+const formatAutoLock = (minutes: number) =>
+  minutes === 0 ? 'Never' : minutes === 60 ? 'After 1 hour' : `After ${minutes} minute${minutes === 1 ? '' : 's'}`;
+
+const AutoLockSelect = ({ value, onChange }: { value: number; onChange: (minutes: number) => void }) => (
+  <div className="flex items-center justify-between gap-4">
+    <Label>Lock when idle</Label>
+    <Select value={String(value)} onValueChange={(v) => onChange(Number(v))}>
+      <SelectTrigger className="h-9 w-[160px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {[0, ...AUTO_LOCK_OPTIONS].map((minutes) => (
+          <SelectItem key={minutes} value={String(minutes)}>
+            {formatAutoLock(minutes)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+const PassphraseInput = ({
+  id,
+  label,
+  value,
+  onChange,
+  autoComplete,
+}: {
+  id: string;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  autoComplete: 'new-password' | 'current-password';
+}) => (
+  <div className="space-y-1">
+    <Label htmlFor={id}>{label}</Label>
+    <Input id={id} type="password" autoComplete={autoComplete} value={value} onChange={(e) => onChange(e.target.value)} />
+  </div>
+);
+
+// Validation shared by turning the lock on and changing the passphrase
+const getNewPassphraseError = (passphrase: string, confirmation: string): string | null => {
+  if (passphrase.length > 0 && passphrase.length < MIN_LOCK_PASSPHRASE_LENGTH) {
+    return `Use at least ${MIN_LOCK_PASSPHRASE_LENGTH} characters.`;
+  }
+  if (confirmation.length > 0 && confirmation !== passphrase) return 'The entries do not match.';
+  return null;
+};
+
+export const AppLockDialog = ({ open, onOpenChange, appLock }: AppLockDialogProps) => {
+  const { toast } = useToast();
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [autoLockMinutes, setAutoLockMinutes] = useState(5);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setCurrentPassphrase('');
+    setNewPassphrase('');
+    setConfirmation('');
+    setAutoLockMinutes(5);
+    setBusy(false);
+    setError(null);
+  }, [open]);
+
+  const newPassphraseError = getNewPassphraseError(newPassphrase, confirmation);
+  const newPassphraseReady = newPassphrase.length > 0 && confirmation === newPassphrase && !newPassphraseError;
+
+  // Runs one of the lock operations; a wrong passphrase is shown inline and nothing is changed
+  const run = async (operation: () => Promise<void>, title: string, description: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await operation();
+      toast({ title, description });
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setBusy(false);
+    }
+  };
+
+  const handleEnable = () =>
+    run(
+      () => appLock.enable(newPassphrase, autoLockMinutes),
+      'App lock on',
+      'Your data is now encrypted on this device.'
+    );
+
+  const handleChangePassphrase = () =>
+    run(
+      () => appLock.changePassphrase(currentPassphrase, newPassphrase),
+      'Passphrase changed',
+      'Your data has been re-encrypted with the new passphrase.'
+    );
+
+  const handleDisable = () =>
+    run(() => appLock.disable(currentPassphrase), 'App lock off', 'Your data is no longer encrypted on this device.');
+
+  const handleAutoLockChange = (minutes: number) => {
+    appLock.setAutoLockMinutes(minutes).catch((err) => setError(err instanceof Error ? err.message : String(err)));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !busy && onOpenChange(isOpen)}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>App Lock</DialogTitle>
+          <DialogDescription>
+            Encrypts every profile's data in this browser with a key derived from a PIN or passphrase, and asks for it
+            whenever the app opens. Profile names are not encrypted. A forgotten passphrase cannot be recovered, so
+            keep a backup.
+          </DialogDescription>
+        </DialogHeader>
+
+        {appLock.enabled ? (
+          <div className="space-y-4 py-2">
+            <AutoLockSelect value={appLock.autoLockMinutes} onChange={handleAutoLockChange} />
+            <Separator />
+            <PassphraseInput
+              id="lock-current"
+              label="Current PIN or passphrase"
+              value={currentPassphrase}
+              onChange={setCurrentPassphrase}
+              autoComplete="current-password"
+            />
+            <div className="space-y-2">
+              <PassphraseInput
+                id="lock-new"
+                label="New PIN or passphrase"
+                value={newPassphrase}
+                onChange={setNewPassphrase}
+                autoComplete="new-password"
+              />
+              <PassphraseInput
+                id="lock-confirm"
+                label="Confirm new PIN or passphrase"
+                value={confirmation}
+                onChange={setConfirmation}
+                autoComplete="new-password"
+              />
+              {newPassphraseError && <p className="text-xs text-destructive">{newPassphraseError}</p>}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <PassphraseInput
+                id="lock-new"
+                label="PIN or passphrase"
+                value={newPassphrase}
+                onChange={setNewPassphrase}
+                autoComplete="new-password"
+              />
+              <PassphraseInput
+                id="lock-confirm"
+                label="Confirm PIN or passphrase"
+                value={confirmation}
+                onChange={setConfirmation}
+                autoComplete="new-password"
+              />
+              {newPassphraseError && <p className="text-xs text-destructive">{newPassphraseError}</p>}
+              <p className="text-xs text-muted-foreground">A short PIN is quicker to type but easier to guess.</p>
+            </div>
+            <AutoLockSelect value={autoLockMinutes} onChange={setAutoLockMinutes} />
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter className="gap-2">
+          {appLock.enabled ? (
+            <>
+              <Button variant="outline" onClick={handleDisable} disabled={busy || !currentPassphrase}>
+                Turn Off
+              </Button>
+              <Button onClick={handleChangePassphrase} disabled={busy || !currentPassphrase || !newPassphraseReady}>
+                {busy && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Change Passphrase
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={busy}>
+                Cancel
+              </Button>
+              <Button onClick={handleEnable} disabled={busy || !newPassphraseReady}>
+                {busy && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Turn On
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
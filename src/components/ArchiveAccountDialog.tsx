@@ -0,0 +1,91 @@
+import { useState, useEffect } from 'react';
+import { Account } from '@/types/finance';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toDateInputValue, fromDateInputValue } from '@/lib/dates';
+
+interface ArchiveAccountDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  account: Account | null;
+  onArchive: (accountId: string, closedAt: Date, finalBalance: number) => void;
+}
+
+export const ArchiveAccountDialog = ({
+  open,
+  onOpenChange,
+  account,
+  onArchive,
+}: ArchiveAccountDialogProps) => {
+  const [closeDate, setCloseDate] = useState(toDateInputValue(new Date()));
+  const [finalBalance, setFinalBalance] = useState('0');
+
+  useEffect(() => {
+    setCloseDate(toDateInputValue(new Date()));
+    setFinalBalance(account ? account.balance.toString() : '0');
+  }, [account, open]);
+
+  if (!account) return null;
+
+  // The close date cannot precede the latest balance entry, so the final balance stays the latest
+  const minDate = toDateInputValue(account.lastUpdated);
+
+  const handleArchive = () => {
+    onArchive(account.id, fromDateInputValue(closeDate), parseFloat(finalBalance) || 0);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>Close Account · {account.name}</DialogTitle>
+          <DialogDescription>
+            Closed accounts are left out of current totals but stay in past snapshots. You can restore them later.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="close-date">Close date</Label>
+            <Input
+              id="close-date"
+              type="date"
+              min={minDate}
+              value={closeDate}
+              onChange={(e) => setCloseDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="final-balance">Final balance ({account.currency})</Label>
+            <Input
+              id="final-balance"
+              type="number"
+              step="0.01"
+              value={finalBalance}
+              onChange={(e) => setFinalBalance(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleArchive} disabled={!closeDate || closeDate < minDate}>
+            Archive Account
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { ConversionRate, Currency } from '@/types/finance';
+import { ConversionRate, Currency, RateEntry } from '@/types/finance';
 import {
   Dialog,
   DialogContent,
@@ -11,35 +11,169 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card } from '@/components/ui/card';
-import { currencySymbols } from '@/lib/currency';
-import { ExternalLink } from 'lucide-react';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { DEFAULT_BASE_CURRENCY, getCurrencySymbol } from '@/lib/currency';
+import { canUseAsBase } from '@/lib/baseCurrency';
+import { CurrencySelector } from '@/components/CurrencySelector';
+import { CURRENCY_REGISTRY, getCurrencyInfo } from '@/lib/currencies';
+import { createRateEntry, recordRate, withRateHistory } from '@/lib/fxRates';
+import { toDateInputValue, fromDateInputValue } from '@/lib/dates';
+import { ExternalLink, Plus, X, History, Trash2 } from 'lucide-react';
 
 interface ConversionRateDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   rates: ConversionRate[];
   onSave: (rates: ConversionRate[]) => void;
+  usedCurrencies?: Currency[];
+  baseCurrency?: Currency;
+  onChangeBaseCurrency?: (currency: Currency) => void;
+}
+
+interface RateHistoryEditorProps {
+  rate: ConversionRate;
+  onChange: (entries: RateEntry[]) => void;
 }
 
+// Dated rates for one currency. Entries can be corrected, removed or back-filled;
+// dates in the future are not allowed since the latest entry is the current rate.
+const RateHistoryEditor = ({ rate, onChange }: RateHistoryEditorProps) => {
+  const today = toDateInputValue(new Date());
+  const [newDate, setNewDate] = useState(today);
+  const [newRate, setNewRate] = useState('');
+  const entries = [...(rate.history ?? [])].reverse();
+
+  const updateEntry = (id: string, updates: Partial<RateEntry>) => {
+    onChange(rate.history.map((e) => (e.id === id ? { ...e, ...updates } : e)));
+  };
+
+  const addEntry = () => {
+    const value = parseFloat(newRate);
+    if (isNaN(value) || !newDate) return;
+    onChange([...rate.history, createRateEntry(value, fromDateInputValue(newDate))]);
+    setNewRate('');
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t space-y-2">
+      {entries.length === 0 && (
+        <p className="text-xs text-muted-foreground">No dated rates yet.</p>
+      )}
+      {entries.map((entry) => (
+        <div key={entry.id} className="flex items-center gap-2">
+          <Input
+            type="date"
+            max={today}
+            value={toDateInputValue(entry.effectiveDate)}
+            onChange={(e) => e.target.value && updateEntry(entry.id, { effectiveDate: fromDateInputValue(e.target.value) })}
+            className="h-8 w-40"
+          />
+          <Input
+            type="number"
+            step="0.0001"
+            value={entry.rate}
+            onChange={(e) => updateEntry(entry.id, { rate: parseFloat(e.target.value) || 0 })}
+            className="h-8 flex-1 text-right"
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(rate.history.filter((e) => e.id !== entry.id))}
+            className="h-8 w-8 text-destructive hover:text-destructive"
+            title="Remove rate"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <Input
+          type="date"
+          max={today}
+          value={newDate}
+          onChange={(e) => setNewDate(e.target.value)}
+          className="h-8 w-40"
+        />
+        <Input
+          type="number"
+          step="0.0001"
+          value={newRate}
+          onChange={(e) => setNewRate(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addEntry()}
+          placeholder="Rate"
+          className="h-8 flex-1 text-right"
+        />
+        <Button variant="outline" size="sm" onClick={addEntry} disabled={newRate === ''} className="h-8 gap-1">
+          <Plus className="h-4 w-4" />
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+};
+
 export const ConversionRateDialog = ({
   open,
   onOpenChange,
   rates,
   onSave,
+  usedCurrencies = [],
+  baseCurrency = DEFAULT_BASE_CURRENCY,
+  onChangeBaseCurrency,
 }: ConversionRateDialogProps) => {
   const [localRates, setLocalRates] = useState<ConversionRate[]>(rates);
+  const [pendingBase, setPendingBase] = useState<Currency>(baseCurrency);
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [expandedCurrency, setExpandedCurrency] = useState<Currency | null>(null);
 
   useEffect(() => {
     setLocalRates(rates);
-  }, [rates, open]);
+    setExpandedCurrency(null);
+    setPendingBase(baseCurrency);
+  }, [rates, baseCurrency, open]);
 
+  // Editing the current rate records it as effective today, leaving earlier rates intact
   const updateRate = (currency: Currency, value: string) => {
     const rate = parseFloat(value) || 0;
     setLocalRates((prev) =>
-      prev.map((r) => (r.currency === currency ? { ...r, rate } : r))
+      prev.map((r) => (r.currency === currency ? recordRate(r, rate) : r))
     );
   };
 
+  const updateRateHistory = (currency: Currency, entries: RateEntry[]) => {
+    setLocalRates((prev) =>
+      prev.map((r) => (r.currency === currency ? withRateHistory(r, entries) : r))
+    );
+  };
+
+  const addCurrency = (currency: Currency) => {
+    setLocalRates((prev) => [...prev, { currency, rate: 0, history: [] }]);
+    setPickerOpen(false);
+  };
+
+  const removeCurrency = (currency: Currency) => {
+    setLocalRates((prev) => prev.filter((r) => r.currency !== currency));
+  };
+
+  const availableToAdd = CURRENCY_REGISTRY.filter(
+    (info) => !localRates.some((r) => r.currency === info.code)
+  );
+
+  // Switching converts the saved rates, so unsaved edits have to be saved or discarded first
+  const hasUnsavedChanges = JSON.stringify(localRates) !== JSON.stringify(rates);
+  const baseCandidates = rates
+    .filter((r) => r.currency === baseCurrency || canUseAsBase(r.currency, rates))
+    .map((r) => r.currency);
+
   const handleSave = () => {
     onSave(localRates);
     onOpenChange(false);
@@ -49,17 +183,50 @@ export const ConversionRateDialog = ({
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[500px]">
         <DialogHeader>
-          <DialogTitle>Conversion Rates to EUR</DialogTitle>
+          <DialogTitle>Conversion Rates to {baseCurrency}</DialogTitle>
         </DialogHeader>
 
         <div className="space-y-4 py-4">
+          {onChangeBaseCurrency && (
+            <Card className="p-4 space-y-2">
+              <div className="flex items-center gap-3">
+                <div className="flex-1">
+                  <Label>Base currency</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Totals and history are kept in this currency
+                  </p>
+                </div>
+                <CurrencySelector
+                  value={pendingBase}
+                  onChange={setPendingBase}
+                  availableCurrencies={baseCandidates}
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onChangeBaseCurrency(pendingBase)}
+                  disabled={pendingBase === baseCurrency || hasUnsavedChanges}
+                >
+                  Switch
+                </Button>
+              </div>
+              {pendingBase !== baseCurrency && (
+                <p className="text-xs text-muted-foreground">
+                  {hasUnsavedChanges
+                    ? 'Save or cancel your rate changes before switching.'
+                    : `All rates, snapshots and monthly expenses will be converted to ${pendingBase}. You can undo this.`}
+                </p>
+              )}
+            </Card>
+          )}
+
           <div className="space-y-2">
             <p className="text-sm text-muted-foreground">
-              Set how much 1 unit of each currency equals in EUR
+              Set how much 1 unit of each currency equals in {baseCurrency}
             </p>
-            <a 
-              href="https://www.xe.com/currencyconverter/" 
-              target="_blank" 
+            <a
+              href="https://www.xe.com/currencyconverter/"
+              target="_blank"
               rel="noopener noreferrer"
               className="inline-flex items-center gap-1.5 text-sm text-primary hover:underline"
             >
@@ -68,32 +235,104 @@ export const ConversionRateDialog = ({
             </a>
           </div>
 
-          {localRates.map((rateData) => (
-            <Card key={rateData.currency} className="p-4">
-              <div className="flex items-center gap-4">
-                <div className="flex-1">
-                  <Label htmlFor={`rate-${rateData.currency}`}>
-                    1 {rateData.currency} {currencySymbols[rateData.currency]} = ? EUR €
-                  </Label>
-                </div>
-                <div className="w-32">
-                  <Input
-                    id={`rate-${rateData.currency}`}
-                    type="number"
-                    step="0.0001"
-                    value={rateData.rate}
-                    onChange={(e) => updateRate(rateData.currency, e.target.value)}
-                    disabled={rateData.currency === 'EUR'}
-                    className="text-right"
-                  />
-                </div>
-              </div>
-            </Card>
-          ))}
+          <ScrollArea className="max-h-[360px] pr-2">
+            <div className="space-y-3">
+              {localRates.map((rateData) => {
+                const isBase = rateData.currency === baseCurrency;
+                const isLocked = isBase || usedCurrencies.includes(rateData.currency);
+                return (
+                  <Card key={rateData.currency} className="p-4">
+                    <div className="flex items-center gap-4">
+                      <div className="flex-1 min-w-0">
+                        <Label htmlFor={`rate-${rateData.currency}`}>
+                          1 {rateData.currency} {getCurrencySymbol(rateData.currency)} = ? {baseCurrency} {getCurrencySymbol(baseCurrency)}
+                        </Label>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {rateData.label ?? getCurrencyInfo(rateData.currency).name}
+                        </p>
+                      </div>
+                      <div className="w-32">
+                        <Input
+                          id={`rate-${rateData.currency}`}
+                          type="number"
+                          step="0.0001"
+                          value={rateData.rate}
+                          onChange={(e) => updateRate(rateData.currency, e.target.value)}
+                          disabled={isBase}
+                          className="text-right"
+                        />
+                      </div>
+                      {!isBase && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() =>
+                            setExpandedCurrency(expandedCurrency === rateData.currency ? null : rateData.currency)
+                          }
+                          className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                          title="Rate history"
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeCurrency(rateData.currency)}
+                        disabled={isLocked}
+                        className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                        title={isBase ? 'Base currency' : isLocked ? 'In use by an account' : 'Turn off currency'}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    {expandedCurrency === rateData.currency && (
+                      <RateHistoryEditor
+                        rate={rateData}
+                        onChange={(entries) => updateRateHistory(rateData.currency, entries)}
+                      />
+                    )}
+                  </Card>
+                );
+              })}
+            </div>
+          </ScrollArea>
+
+          <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" className="gap-2">
+                <Plus className="h-4 w-4" />
+                Add Currency
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="p-0 w-[300px]" align="start">
+              <Command>
+                <CommandInput placeholder="Search by code or name..." />
+                <CommandList>
+                  <CommandEmpty>No currency found.</CommandEmpty>
+                  <CommandGroup>
+                    {availableToAdd.map((info) => (
+                      <CommandItem
+                        key={info.code}
+                        value={`${info.code} ${info.name}`}
+                        onSelect={() => addCurrency(info.code)}
+                      >
+                        <span className="font-medium w-12">{info.code}</span>
+                        <span className="text-muted-foreground truncate">{info.name}</span>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                </CommandList>
+              </Command>
+            </PopoverContent>
+          </Popover>
 
           <div className="pt-4 border-t">
             <p className="text-xs text-muted-foreground">
-              Example: If 1 USD = 0.92 EUR, enter 0.92 for USD
+              Example: If 1 USD = 0.92 EUR and EUR is the base, enter 0.92 for USD
+            </p>
+            <p className="text-xs text-muted-foreground mt-1">
+              Changing a rate records it as effective today. Use the history button to back-fill past rates.
             </p>
           </div>
         </div>
@@ -0,0 +1,390 @@
+import { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  CsvColumnRole,
+  CsvDateOrder,
+  CsvDelimiter,
+  CsvImportPreset,
+  CsvImportSettings,
+  CsvNumberFormat,
+} from '@/types/csvImport';
+import {
+  BUILT_IN_CSV_PRESETS,
+  CSV_COLUMN_ROLES,
+  DEFAULT_CSV_IMPORT_SETTINGS,
+  findMatchingPreset,
+  guessCsvColumns,
+  parseCsvAccounts,
+  readCsvTable,
+} from '@/lib/csvImport';
+import { YNABParsedAccount } from '@/lib/ynabParser';
+import { ACCOUNT_CATEGORY_META } from '@/lib/accountMetadata';
+import { format } from 'date-fns';
+import { AlertTriangle, ArrowRight, Save, Trash2 } from 'lucide-react';
+
+interface CsvImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fileName: string;
+  csvText: string;
+  presets: CsvImportPreset[]; // Saved by the user; the built-in ones are added here
+  onSavePreset: (preset: CsvImportPreset) => void;
+  onDeletePreset: (id: string) => void;
+  onContinue: (accounts: YNABParsedAccount[], sourceLabel: string) => void;
+}
+
+const DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  auto: 'Detect',
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+  '|': 'Pipe',
+};
+
+const NUMBER_FORMAT_LABELS: Record<CsvNumberFormat, string> = {
+  auto: 'Detect',
+  dot: '1,234.56',
+  comma: '1.234,56',
+};
+
+const DATE_ORDER_LABELS: Record<CsvDateOrder, string> = {
+  auto: 'Detect',
+  ymd: 'Year-month-day',
+  dmy: 'Day/month/year',
+  mdy: 'Month/day/year',
+};
+
+const NO_COLUMN = '__none';
+const NO_PRESET = '__custom';
+const PREVIEW_ROWS = 5;
+
+// Radix selects cannot hold the tab character as a value
+const delimiterValue = (delimiter: CsvDelimiter) => (delimiter === '\t' ? 'tab' : delimiter);
+const delimiterFromValue = (value: string) => (value === 'tab' ? '\t' : value) as CsvDelimiter;
+
+export const CsvImportDialog = ({
+  open,
+  onOpenChange,
+  fileName,
+  csvText,
+  presets,
+  onSavePreset,
+  onDeletePreset,
+  onContinue,
+}: CsvImportDialogProps) => {
+  const allPresets = useMemo(() => [...BUILT_IN_CSV_PRESETS, ...presets], [presets]);
+  // Opened once per file: start from a preset that fits it, or from columns guessed from its headers
+  const [initialPreset] = useState(() => findMatchingPreset(csvText, allPresets));
+  const [presetId, setPresetId] = useState(initialPreset?.id ?? NO_PRESET);
+  const [settings, setSettings] = useState<CsvImportSettings>(
+    () =>
+      initialPreset ?? {
+        ...DEFAULT_CSV_IMPORT_SETTINGS,
+        columns: guessCsvColumns(readCsvTable(csvText, DEFAULT_CSV_IMPORT_SETTINGS).headers),
+      }
+  );
+  const [presetName, setPresetName] = useState(initialPreset && !initialPreset.builtIn ? initialPreset.name : '');
+
+  const table = useMemo(() => readCsvTable(csvText, settings), [csvText, settings]);
+
+  const parsed = useMemo(() => {
+    try {
+      return { ...parseCsvAccounts(csvText, settings), error: null };
+    } catch (error) {
+      return { accounts: [], skipped: [], error: error instanceof Error ? error.message : 'Unable to read the file.' };
+    }
+  }, [csvText, settings]);
+
+  const selectedPreset = allPresets.find((preset) => preset.id === presetId);
+
+  const updateSettings = (updates: Partial<CsvImportSettings>) => {
+    setSettings((prev) => ({ ...prev, ...updates }));
+  };
+
+  const updateColumn = (role: CsvColumnRole, header: string) => {
+    setSettings((prev) => ({
+      ...prev,
+      columns: { ...prev.columns, [role]: header === NO_COLUMN ? undefined : header },
+    }));
+  };
+
+  const handleSelectPreset = (id: string) => {
+    setPresetId(id);
+    const preset = allPresets.find((p) => p.id === id);
+    if (preset) {
+      setSettings(preset);
+      setPresetName(preset.builtIn ? '' : preset.name);
+    }
+  };
+
+  // Saving under the name of an existing preset replaces it
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const existing = presets.find((p) => p.name.toLowerCase() === name.toLowerCase());
+    const { delimiter, numberFormat, dateOrder, skipRows, columns } = settings;
+    const preset: CsvImportPreset = {
+      id: existing?.id ?? crypto.randomUUID(),
+      name,
+      delimiter,
+      numberFormat,
+      dateOrder,
+      skipRows,
+      columns,
+    };
+    onSavePreset(preset);
+    setPresetId(preset.id);
+  };
+
+  const handleDeletePreset = () => {
+    if (!selectedPreset || selectedPreset.builtIn) return;
+    onDeletePreset(selectedPreset.id);
+    setPresetId(NO_PRESET);
+    setPresetName('');
+  };
+
+  const handleContinue = () => {
+    onContinue(parsed.accounts, selectedPreset?.name ?? 'Custom CSV');
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import from CSV</DialogTitle>
+          <DialogDescription>
+            Tell us which columns of {fileName} hold what. You can check each account before anything is changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 py-2">
+          <div className="space-y-2">
+            <Label>Preset</Label>
+            <div className="flex gap-2">
+              <Select value={presetId} onValueChange={handleSelectPreset}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PRESET}>Custom mapping</SelectItem>
+                  {allPresets.map((preset) => (
+                    <SelectItem key={preset.id} value={preset.id}>
+                      {preset.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedPreset && !selectedPreset.builtIn && (
+                <Button variant="outline" size="icon" onClick={handleDeletePreset} title="Delete preset">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <div className="space-y-2">
+              <Label>Delimiter</Label>
+              <Select
+                value={delimiterValue(settings.delimiter)}
+                onValueChange={(value) => updateSettings({ delimiter: delimiterFromValue(value) })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(DELIMITER_LABELS) as CsvDelimiter[]).map((key) => (
+                    <SelectItem key={key} value={delimiterValue(key)}>
+                      {DELIMITER_LABELS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Numbers</Label>
+              <Select
+                value={settings.numberFormat}
+                onValueChange={(value) => updateSettings({ numberFormat: value as CsvNumberFormat })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(NUMBER_FORMAT_LABELS) as CsvNumberFormat[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {NUMBER_FORMAT_LABELS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Dates</Label>
+              <Select
+                value={settings.dateOrder}
+                onValueChange={(value) => updateSettings({ dateOrder: value as CsvDateOrder })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(DATE_ORDER_LABELS) as CsvDateOrder[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {DATE_ORDER_LABELS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="csv-skip-rows">Lines above header</Label>
+              <Input
+                id="csv-skip-rows"
+                type="number"
+                min={0}
+                value={settings.skipRows}
+                onChange={(e) => updateSettings({ skipRows: Math.max(0, parseInt(e.target.value) || 0) })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Columns</Label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {(Object.keys(CSV_COLUMN_ROLES) as CsvColumnRole[]).map((role) => (
+                <div key={role} className="flex items-center gap-2">
+                  <span className="w-28 shrink-0 text-sm text-muted-foreground">
+                    {CSV_COLUMN_ROLES[role].label}
+                    {CSV_COLUMN_ROLES[role].required && ' *'}
+                  </span>
+                  <Select
+                    value={table.headers.includes(settings.columns[role] ?? '') ? settings.columns[role] : NO_COLUMN}
+                    onValueChange={(value) => updateColumn(role, value)}
+                  >
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_COLUMN}>{CSV_COLUMN_ROLES[role].required ? 'Choose a column' : 'Not in file'}</SelectItem>
+                      {table.headers
+                        .filter((header, i) => header && table.headers.indexOf(header) === i)
+                        .map((header) => (
+                          <SelectItem key={header} value={header}>
+                            {header}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {parsed.error ? (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{parsed.error}</AlertDescription>
+            </Alert>
+          ) : (
+            <div className="space-y-2">
+              <Label>
+                Preview: {parsed.accounts.length} account{parsed.accounts.length === 1 ? '' : 's'}
+              </Label>
+              <div className="rounded-md border overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/50 text-muted-foreground">
+                    <tr>
+                      <th className="px-3 py-1.5 text-left font-medium">Account</th>
+                      <th className="px-3 py-1.5 text-left font-medium">Category</th>
+                      <th className="px-3 py-1.5 text-left font-medium">Date</th>
+                      <th className="px-3 py-1.5 text-right font-medium">Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {parsed.accounts.slice(0, PREVIEW_ROWS).map((account) => (
+                      <tr key={account.name} className="border-t">
+                        <td className="px-3 py-1.5">{account.name}</td>
+                        <td className="px-3 py-1.5 text-muted-foreground">
+                          {ACCOUNT_CATEGORY_META[account.suggestedCategory].label}
+                        </td>
+                        <td className="px-3 py-1.5 text-muted-foreground">
+                          {account.date ? format(account.date, 'PP') : 'Today'}
+                        </td>
+                        <td className="px-3 py-1.5 text-right tabular-nums">
+                          {account.balance.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}{' '}
+                          {account.currency ?? ''}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {parsed.accounts.length > PREVIEW_ROWS && (
+                <p className="text-xs text-muted-foreground">
+                  and {parsed.accounts.length - PREVIEW_ROWS} more. Where an account appears on several rows, the
+                  latest balance is used.
+                </p>
+              )}
+              {parsed.skipped.length > 0 && (
+                <Alert variant="default" className="border-yellow-500/50 bg-yellow-500/10">
+                  <AlertTriangle className="h-4 w-4 text-yellow-500" />
+                  <AlertDescription>
+                    {parsed.skipped.length} row(s) will be skipped:{' '}
+                    {parsed.skipped
+                      .slice(0, 3)
+                      .map((row) => `line ${row.line}: ${row.reason}`)
+                      .join('; ')}
+                    {parsed.skipped.length > 3 && '; …'}
+                  </AlertDescription>
+                </Alert>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="csv-preset-name">Save as preset</Label>
+            <div className="flex gap-2">
+              <Input
+                id="csv-preset-name"
+                placeholder="e.g. My bank"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+              />
+              <Button variant="outline" onClick={handleSavePreset} disabled={!presetName.trim()} className="gap-2">
+                <Save className="h-4 w-4" />
+                Save
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Files whose columns fit a saved preset open with it next time.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleContinue} disabled={parsed.accounts.length === 0} className="gap-2">
+            Match Accounts
+            <ArrowRight className="h-4 w-4" />
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
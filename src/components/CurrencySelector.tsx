@@ -1,6 +1,6 @@
 import { Currency } from '@/types/finance';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { currencySymbols } from '@/lib/currency';
+import { defaultConversionRates, getCurrencySymbol } from '@/lib/currency';
 
 interface CurrencySelectorProps {
   value: Currency;
@@ -11,19 +11,19 @@ interface CurrencySelectorProps {
 export const CurrencySelector = ({ 
   value, 
   onChange,
-  availableCurrencies = ['EUR', 'USD', 'PHP']
+  availableCurrencies = defaultConversionRates.map((r) => r.currency)
 }: CurrencySelectorProps) => {
   return (
     <Select value={value} onValueChange={onChange}>
       <SelectTrigger className="w-[120px] bg-card">
         <SelectValue>
-          {currencySymbols[value]} {value}
+          {getCurrencySymbol(value)} {value}
         </SelectValue>
       </SelectTrigger>
       <SelectContent className="bg-card z-50">
         {availableCurrencies.map((currency) => (
           <SelectItem key={currency} value={currency}>
-            {currencySymbols[currency]} {currency}
+            {getCurrencySymbol(currency)} {currency}
           </SelectItem>
         ))}
       </SelectContent>
@@ -0,0 +1,112 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { BackupDecryptionError, decryptBackup, EncryptedBackup } from '@/lib/backupEncryption';
+import { Loader2, Lock } from 'lucide-react';
+
+interface DecryptBackupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  backup: EncryptedBackup | null;
+  fileName?: string;
+  onDecrypted: (plaintext: string) => void;
+  onCancel: () => void;
+}
+
+export const DecryptBackupDialog = ({
+  open,
+  onOpenChange,
+  backup,
+  fileName,
+  onDecrypted,
+  onCancel,
+}: DecryptBackupDialogProps) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+
+  useEffect(() => {
+    setPassphrase('');
+    setError(null);
+    setIsDecrypting(false);
+  }, [open, backup]);
+
+  const handleDecrypt = async () => {
+    if (!backup || !passphrase || isDecrypting) return;
+    setIsDecrypting(true);
+    setError(null);
+    try {
+      const plaintext = await decryptBackup(backup, passphrase);
+      onDecrypted(plaintext);
+      onOpenChange(false);
+    } catch (err) {
+      // A wrong passphrase keeps the dialog open so it can be retyped
+      setError(
+        err instanceof BackupDecryptionError
+          ? 'That passphrase is not correct.'
+          : err instanceof Error
+            ? err.message
+            : 'The backup could not be decrypted.'
+      );
+      setIsDecrypting(false);
+    }
+  };
+
+  const handleCancel = () => {
+    onCancel();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => (isOpen ? onOpenChange(true) : handleCancel())}>
+      <DialogContent className="sm:max-w-[400px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Lock className="h-4 w-4" />
+            Encrypted Backup
+          </DialogTitle>
+          <DialogDescription>
+            {fileName ? <span className="font-medium">{fileName}</span> : 'This backup'} is protected with a
+            passphrase. Enter it to preview the import.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 py-2">
+          <Label htmlFor="decrypt-passphrase">Passphrase</Label>
+          <Input
+            id="decrypt-passphrase"
+            type="password"
+            autoComplete="current-password"
+            autoFocus
+            value={passphrase}
+            onChange={(e) => {
+              setPassphrase(e.target.value);
+              setError(null);
+            }}
+            onKeyDown={(e) => e.key === 'Enter' && handleDecrypt()}
+          />
+          {error && <p className="text-xs text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleCancel}>
+            Cancel
+          </Button>
+          <Button onClick={handleDecrypt} disabled={!passphrase || isDecrypting} className="gap-2">
+            {isDecrypting && <Loader2 className="h-4 w-4 animate-spin" />}
+            Decrypt
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,308 @@
+import { useState, useEffect } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { getPairingCode } from '@/lib/deviceSync';
+import { SYNC_STATUS_LABELS } from '@/lib/remoteSync';
+import { RelaySettings, UseDeviceSyncReturn } from '@/hooks/useDeviceSync';
+import { useToast } from '@/hooks/use-toast';
+import { AlertCircle, Copy, Eye, EyeOff, Loader2, RefreshCw } from 'lucide-react';
+
+interface DeviceSyncDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sync: UseDeviceSyncReturn;
+  serverSyncEnabled: boolean; // Both kinds of sync on at once would keep undoing each other's merges
+  appLockEnabled: boolean; // The pairing code is kept with the profile, so it is only stored encrypted
+}
+
+const emptySettings: RelaySettings = { relayUrl: '', username: '', password: '', deviceName: '' };
+
+// Shown once a group exists: how syncing is going, the code for adding devices, and the devices seen so far
+const GroupDetails = ({ sync }: { sync: UseDeviceSyncReturn }) => {
+  const { toast } = useToast();
+  const [showCode, setShowCode] = useState(false);
+  const { config, syncState, status, error } = sync;
+  if (!config) return null;
+
+  const pairingCode = getPairingCode(config);
+  const devices = Object.entries(syncState?.devices ?? {});
+
+  const copyCode = async () => {
+    try {
+      await navigator.clipboard.writeText(pairingCode);
+      toast({ title: 'Pairing code copied' });
+    } catch {
+      setShowCode(true);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-3 space-y-1">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm font-medium text-foreground">{SYNC_STATUS_LABELS[status]}</p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={sync.syncNow}
+            disabled={!config.enabled || status === 'syncing'}
+            className="gap-1 h-7"
+          >
+            <RefreshCw className={`h-3 w-3 ${status === 'syncing' ? 'animate-spin' : ''}`} />
+            Sync Now
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {syncState?.syncedAt ? `Last synced ${format(new Date(syncState.syncedAt), 'PPp')}` : 'Not synced yet'}
+          {syncState && syncState.pending.length > 0 && ` · ${syncState.pending.length} changes waiting to upload`}
+        </p>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </Card>
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="device-sync-enabled">Sync this profile</Label>
+        <Switch id="device-sync-enabled" checked={config.enabled} onCheckedChange={sync.setEnabled} />
+      </div>
+
+      <div className="space-y-1">
+        <Label>Pairing code</Label>
+        <div className="flex gap-2">
+          <Input
+            readOnly
+            className="h-9 font-mono text-xs"
+            type={showCode ? 'text' : 'password'}
+            value={pairingCode}
+            onFocus={(e) => e.target.select()}
+          />
+          <Button variant="outline" size="icon" className="h-9 w-9 shrink-0" onClick={() => setShowCode((v) => !v)}>
+            {showCode ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+          </Button>
+          <Button variant="outline" size="icon" className="h-9 w-9 shrink-0" onClick={copyCode}>
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Enter it on another device to add it. It holds the encryption key: anyone with it can read this profile.
+        </p>
+      </div>
+
+      <div className="space-y-1">
+        <Label>Devices</Label>
+        <ul className="text-sm space-y-1">
+          <li className="flex justify-between gap-2">
+            <span className="text-foreground">{config.deviceName}</span>
+            <span className="text-xs text-muted-foreground">This device</span>
+          </li>
+          {devices.map(([deviceId, device]) => (
+            <li key={deviceId} className="flex justify-between gap-2">
+              <span className="text-foreground">{device.name}</span>
+              <span className="text-xs text-muted-foreground">
+                changes received {formatDistanceToNow(new Date(device.lastSeen), { addSuffix: true })}
+              </span>
+            </li>
+          ))}
+        </ul>
+        {devices.length === 0 && (
+          <p className="text-xs text-muted-foreground">No other device has uploaded changes yet.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const DeviceSyncDialog = ({
+  open,
+  onOpenChange,
+  sync,
+  serverSyncEnabled,
+  appLockEnabled,
+}: DeviceSyncDialogProps) => {
+  const [settings, setSettings] = useState<RelaySettings>(emptySettings);
+  const [pairingCode, setPairingCode] = useState('');
+  const [joinError, setJoinError] = useState<string | null>(null);
+  const [isJoining, setIsJoining] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setSettings(emptySettings);
+    setPairingCode('');
+    setJoinError(null);
+  }, [open]);
+
+  const update = (changes: Partial<RelaySettings>) => {
+    setSettings((prev) => ({ ...prev, ...changes }));
+    setJoinError(null);
+  };
+
+  const cleaned: RelaySettings = {
+    relayUrl: settings.relayUrl.trim(),
+    username: settings.username?.trim() || undefined,
+    password: settings.password || undefined,
+    deviceName: settings.deviceName.trim(),
+  };
+  const isValid = /^https?:\/\/\S+$/.test(cleaned.relayUrl) && cleaned.deviceName !== '' && appLockEnabled;
+
+  const handleJoin = async () => {
+    setIsJoining(true);
+    try {
+      await sync.joinGroup(cleaned, pairingCode);
+    } catch (err) {
+      setJoinError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Sync Devices</DialogTitle>
+          <DialogDescription>
+            Share this profile between your devices. Changes are encrypted here before they reach the relay, and edits
+            made on several devices at once, even offline, are combined instead of overwriting each other.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {serverSyncEnabled && (
+            <Card className="p-3 bg-yellow-50 dark:bg-yellow-950/20 border-yellow-200 dark:border-yellow-800">
+              <div className="flex items-start gap-2">
+                <AlertCircle className="h-4 w-4 text-yellow-600 dark:text-yellow-400 mt-0.5" />
+                <p className="text-sm text-yellow-800 dark:text-yellow-200">
+                  Server sync is also on for this profile. Turn it off in Sync before using device sync.
+                </p>
+              </div>
+            </Card>
+          )}
+
+          {!appLockEnabled && (
+            <Card className="p-3 bg-yellow-50 dark:bg-yellow-950/20 border-yellow-200 dark:border-yellow-800">
+              <div className="flex items-start gap-2">
+                <AlertCircle className="h-4 w-4 text-yellow-600 dark:text-yellow-400 mt-0.5" />
+                <p className="text-sm text-yellow-800 dark:text-yellow-200">
+                  {sync.config
+                    ? 'Syncing is paused while the app lock is off. Turn it back on to keep this device in the group.'
+                    : 'Turn on the app lock first: the pairing code is stored with this profile, and the lock keeps it ' +
+                      'encrypted on this device.'}
+                </p>
+              </div>
+            </Card>
+          )}
+
+          {sync.config ? (
+            <GroupDetails sync={sync} />
+          ) : (
+            <>
+              <div className="space-y-1">
+                <Label htmlFor="relay-url">Relay URL</Label>
+                <Input
+                  id="relay-url"
+                  className="h-9"
+                  placeholder="http://localhost:8787/relay"
+                  value={settings.relayUrl}
+                  onChange={(e) => update({ relayUrl: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="relay-username">User name</Label>
+                  <Input
+                    id="relay-username"
+                    className="h-9"
+                    autoComplete="username"
+                    value={settings.username ?? ''}
+                    onChange={(e) => update({ username: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="relay-password">Password</Label>
+                  <Input
+                    id="relay-password"
+                    type="password"
+                    className="h-9"
+                    autoComplete="current-password"
+                    value={settings.password ?? ''}
+                    onChange={(e) => update({ password: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="device-name">Name of this device</Label>
+                <Input
+                  id="device-name"
+                  className="h-9"
+                  placeholder="e.g. Laptop"
+                  value={settings.deviceName}
+                  onChange={(e) => update({ deviceName: e.target.value })}
+                />
+              </div>
+
+              <Card className="p-3 space-y-2">
+                <p className="text-sm font-medium text-foreground">First device</p>
+                <p className="text-xs text-muted-foreground">
+                  Start a group with this profile's data, then add your other devices with its pairing code.
+                </p>
+                <Button size="sm" onClick={() => sync.createGroup(cleaned)} disabled={!isValid || serverSyncEnabled}>
+                  Start Group
+                </Button>
+              </Card>
+
+              <Card className="p-3 space-y-2">
+                <p className="text-sm font-medium text-foreground">Another device</p>
+                <p className="text-xs text-muted-foreground">
+                  Join with the pairing code from a device already in the group. What the group holds is kept; accounts
+                  only this device has are added to it.
+                </p>
+                <div className="flex gap-2">
+                  <Input
+                    className="h-9 font-mono text-xs"
+                    placeholder="nwsync1:…"
+                    value={pairingCode}
+                    onChange={(e) => {
+                      setPairingCode(e.target.value);
+                      setJoinError(null);
+                    }}
+                  />
+                  <Button
+                    size="sm"
+                    className="h-9 gap-2"
+                    onClick={handleJoin}
+                    disabled={!isValid || !pairingCode.trim() || isJoining || serverSyncEnabled}
+                  >
+                    {isJoining && <Loader2 className="h-4 w-4 animate-spin" />}
+                    Join
+                  </Button>
+                </div>
+                {joinError && <p className="text-xs text-destructive">{joinError}</p>}
+              </Card>
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {sync.config && (
+            <Button variant="ghost" onClick={sync.leaveGroup} className="sm:mr-auto">
+              Leave Group
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,121 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { MIN_PASSPHRASE_LENGTH } from '@/lib/backupEncryption';
+import { Download, Loader2 } from 'lucide-react';
+
+interface ExportBackupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  profileName: string;
+  // Resolves once the file has been downloaded and rejects after reporting a failure; passphrase is undefined for a
+  // plain backup
+  onExport: (passphrase?: string) => Promise<void>;
+}
+
+export const ExportBackupDialog = ({ open, onOpenChange, profileName, onExport }: ExportBackupDialogProps) => {
+  const [encrypt, setEncrypt] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+
+  // The passphrase is never kept around between exports
+  useEffect(() => {
+    setEncrypt(false);
+    setPassphrase('');
+    setConfirmation('');
+    setIsExporting(false);
+  }, [open]);
+
+  const tooShort = passphrase.length < MIN_PASSPHRASE_LENGTH;
+  const mismatch = confirmation.length > 0 && confirmation !== passphrase;
+  const canExport = !isExporting && (!encrypt || (!tooShort && confirmation === passphrase));
+
+  const handleExport = async () => {
+    if (!canExport) return;
+    setIsExporting(true);
+    try {
+      await onExport(encrypt ? passphrase : undefined);
+      onOpenChange(false);
+    } catch {
+      // Already reported by onExport; the dialog stays open to try again
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>Export Backup</DialogTitle>
+          <DialogDescription>
+            Download everything stored in {profileName} as a backup file that can be imported again later.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="encrypt-backup">Encrypt with a passphrase</Label>
+              <p className="text-xs text-muted-foreground">
+                The file can only be opened with the passphrase. It cannot be recovered if the passphrase is lost.
+              </p>
+            </div>
+            <Switch id="encrypt-backup" checked={encrypt} onCheckedChange={setEncrypt} />
+          </div>
+
+          {encrypt && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="backup-passphrase">Passphrase</Label>
+                <Input
+                  id="backup-passphrase"
+                  type="password"
+                  autoComplete="new-password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                />
+                {passphrase.length > 0 && tooShort && (
+                  <p className="text-xs text-destructive">Use at least {MIN_PASSPHRASE_LENGTH} characters.</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="backup-passphrase-confirm">Confirm passphrase</Label>
+                <Input
+                  id="backup-passphrase-confirm"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleExport()}
+                />
+                {mismatch && <p className="text-xs text-destructive">The passphrases do not match.</p>}
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={!canExport} className="gap-2">
+            {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,12 +1,18 @@
+import { useState } from 'react';
 import { Account, Currency, ConversionRate } from '@/types/finance';
 import { Card } from '@/components/ui/card';
-import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip, BarChart, Bar, XAxis, YAxis, CartesianGrid } from 'recharts';
-import { formatCurrency } from '@/lib/currency';
+import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip, BarChart, Bar, XAxis, YAxis, CartesianGrid, LineChart, Line, TooltipProps } from 'recharts';
+import { convertFromBase, DEFAULT_BASE_CURRENCY, formatCurrency, getCurrencySymbol, getRateToBase } from '@/lib/currency';
 import { ACCOUNT_CATEGORY_META } from '@/lib/accountMetadata';
+import { ACCOUNT_GROUPING_LABELS, AccountGrouping, getGroupSubtotal, groupAccounts } from '@/lib/accountGroups';
+import { getEquityHistory, getPropertyEquities } from '@/lib/property';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { format } from 'date-fns';
 
 interface FinancialChartsProps {
   accounts: Account[];
   conversionRates: ConversionRate[];
+  baseCurrency?: Currency;
   displayCurrency?: Currency;
 }
 
@@ -17,40 +23,47 @@ const COLORS = {
   nonCurrentAsset: 'hsl(142, 76%, 30%)',
   currentLiability: 'hsl(0, 65%, 60%)',
   nonCurrentLiability: 'hsl(0, 65%, 45%)',
+  allocation: [
+    'hsl(142, 76%, 36%)',
+    'hsl(217, 80%, 55%)',
+    'hsl(43, 90%, 48%)',
+    'hsl(280, 60%, 55%)',
+    'hsl(190, 70%, 42%)',
+    'hsl(15, 80%, 55%)',
+    'hsl(330, 65%, 55%)',
+    'hsl(90, 50%, 45%)',
+  ],
 };
 
-const convertFromEURTo = (amountEUR: number, targetCurrency: Currency, conversionRates: ConversionRate[]): number => {
-  if (targetCurrency === 'EUR') return amountEUR;
-  const rate = conversionRates.find((r) => r.currency === targetCurrency);
-  if (!rate || rate.rate === 0) return amountEUR;
-  return amountEUR / rate.rate;
-};
-
-export const FinancialCharts = ({ accounts, conversionRates, displayCurrency = 'EUR' }: FinancialChartsProps) => {
-  const getRateToEUR = (currency: Currency): number => {
-    const rate = conversionRates.find((r) => r.currency === currency);
-    return rate?.rate || 1;
-  };
+export const FinancialCharts = ({
+  accounts,
+  conversionRates,
+  baseCurrency = DEFAULT_BASE_CURRENCY,
+  displayCurrency = baseCurrency,
+}: FinancialChartsProps) => {
+  const [allocationGrouping, setAllocationGrouping] = useState<AccountGrouping>('tag');
+  const [equityPropertyId, setEquityPropertyId] = useState<string | null>(null);
 
-  // Calculate totals in EUR
+  // Calculate totals in the display currency
   const totals = accounts.reduce(
     (acc, account) => {
-      const valueInEUR = account.balance * getRateToEUR(account.currency);
+      const valueInBase = account.balance * getRateToBase(account.currency, conversionRates, baseCurrency);
+      const value = convertFromBase(valueInBase, displayCurrency, conversionRates, baseCurrency);
       const isAsset = account.category.includes('asset');
       
       if (isAsset) {
-        acc.totalAssets += valueInEUR;
+        acc.totalAssets += value;
         if (account.category === 'current_asset') {
-          acc.currentAssets += valueInEUR;
+          acc.currentAssets += value;
         } else {
-          acc.nonCurrentAssets += valueInEUR;
+          acc.nonCurrentAssets += value;
         }
       } else {
-        acc.totalLiabilities += valueInEUR;
+        acc.totalLiabilities += value;
         if (account.category === 'current_liability') {
-          acc.currentLiabilities += valueInEUR;
+          acc.currentLiabilities += value;
         } else {
-          acc.nonCurrentLiabilities += valueInEUR;
+          acc.nonCurrentLiabilities += value;
         }
       }
       return acc;
@@ -95,13 +108,71 @@ export const FinancialCharts = ({ accounts, conversionRates, displayCurrency = '
     },
   ].filter(item => item.value > 0);
 
+  // Asset allocation by the chosen dimension. An account with several tags counts towards each.
+  const allocationData = groupAccounts(
+    accounts.filter((acc) => acc.category.includes('asset')),
+    allocationGrouping
+  )
+    .map((group, index) => ({
+      name: group.label,
+      value: convertFromBase(
+        getGroupSubtotal(group.accounts, conversionRates, baseCurrency),
+        displayCurrency,
+        conversionRates,
+        baseCurrency
+      ),
+      color: COLORS.allocation[index % COLORS.allocation.length],
+    }))
+    .filter(item => item.value > 0);
+
+  // Equity per property (asset value less the debts it secures) and its history
+  const toDisplay = (amount: number) => convertFromBase(amount, displayCurrency, conversionRates, baseCurrency);
+  const propertyEquities = getPropertyEquities(accounts, conversionRates, baseCurrency);
+  const propertyData = propertyEquities.map((p) => ({
+    name: p.property.name,
+    equity: toDisplay(p.equity),
+    debt: toDisplay(p.debt),
+    loanToValue: p.loanToValue,
+  }));
+  const selectedEquity =
+    propertyEquities.find((p) => p.property.id === equityPropertyId) ?? propertyEquities[0];
+  const equityHistoryData = selectedEquity
+    ? getEquityHistory(selectedEquity, conversionRates, baseCurrency).map((point) => ({
+        date: format(point.date, 'MMM d, yy'),
+        equity: toDisplay(point.equity),
+        value: toDisplay(point.value),
+        debt: toDisplay(point.debt),
+      }))
+    : [];
+  const formatAxis = (value: number) => `${getCurrencySymbol(displayCurrency)}${(value / 1000).toFixed(0)}k`;
+
+  const PropertyTooltip = ({ active, payload, label }: TooltipProps<number, string>) => {
+    if (active && payload && payload.length) {
+      const loanToValue = payload[0].payload.loanToValue;
+      return (
+        <div className="bg-card border border-border rounded-lg p-3 shadow-lg">
+          <p className="font-medium text-foreground">{label}</p>
+          {payload.map((item) => (
+            <p key={String(item.dataKey)} className="text-sm text-muted-foreground">
+              {item.name}: {item.value < 0 && '-'}{formatCurrency(item.value, displayCurrency)}
+            </p>
+          ))}
+          {loanToValue !== null && loanToValue !== undefined && (
+            <p className="text-sm text-muted-foreground">LTV: {(loanToValue * 100).toFixed(1)}%</p>
+          )}
+        </div>
+      );
+    }
+    return null;
+  };
+
   const CustomTooltip = ({ active, payload }: any) => {
     if (active && payload && payload.length) {
       return (
         <div className="bg-card border border-border rounded-lg p-3 shadow-lg">
           <p className="font-medium text-foreground">{payload[0].name}</p>
           <p className="text-sm text-muted-foreground">
-            {formatCurrency(convertFromEURTo(payload[0].value, displayCurrency, conversionRates), displayCurrency)}
+            {formatCurrency(payload[0].value, displayCurrency)}
           </p>
         </div>
       );
@@ -170,7 +241,7 @@ export const FinancialCharts = ({ accounts, conversionRates, displayCurrency = '
             />
             <YAxis 
               tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: window.innerWidth < 640 ? 9 : 11 }}
-              tickFormatter={(value) => `€${(value / 1000).toFixed(0)}k`}
+              tickFormatter={(value) => `${getCurrencySymbol(displayCurrency)}${(value / 1000).toFixed(0)}k`}
               width={window.innerWidth < 640 ? 40 : 50}
             />
             <Tooltip content={<CustomTooltip />} />
@@ -182,6 +253,133 @@ export const FinancialCharts = ({ accounts, conversionRates, displayCurrency = '
           </BarChart>
         </ResponsiveContainer>
       </Card>
+
+      {/* Allocation by tag, group, currency, access type or institution */}
+      <Card className="p-4 sm:p-6 md:col-span-2">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-3 sm:mb-4">
+          <h3 className="text-base sm:text-lg font-semibold text-foreground">
+            Asset Allocation
+          </h3>
+          <Select value={allocationGrouping} onValueChange={(v) => setAllocationGrouping(v as AccountGrouping)}>
+            <SelectTrigger className="w-[160px] h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ACCOUNT_GROUPING_LABELS) as AccountGrouping[]).map((grouping) => (
+                <SelectItem key={grouping} value={grouping}>
+                  By {ACCOUNT_GROUPING_LABELS[grouping].toLowerCase()}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {allocationData.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No assets to show.</p>
+        ) : (
+          <ResponsiveContainer width="100%" height={280}>
+            <PieChart>
+              <Pie
+                data={allocationData}
+                cx="50%"
+                cy="50%"
+                labelLine={false}
+                label={({ name, percent }) => {
+                  const isMobile = window.innerWidth < 640;
+                  if (isMobile) return '';
+                  return `${name}: ${(percent * 100).toFixed(0)}%`;
+                }}
+                outerRadius={window.innerWidth < 640 ? 70 : 90}
+                dataKey="value"
+              >
+                {allocationData.map((entry, index) => (
+                  <Cell key={`cell-${index}`} fill={entry.color} />
+                ))}
+              </Pie>
+              <Tooltip content={<CustomTooltip />} />
+              <Legend
+                verticalAlign="bottom"
+                height={36}
+                formatter={(value) => <span className="text-xs sm:text-sm text-foreground">{value}</span>}
+              />
+            </PieChart>
+          </ResponsiveContainer>
+        )}
+        {allocationGrouping === 'tag' && (
+          <p className="text-xs text-muted-foreground mt-2">
+            Accounts with several tags count towards each of them.
+          </p>
+        )}
+      </Card>
+
+      {/* Property equity */}
+      {propertyData.length > 0 && (
+        <>
+          <Card className="p-4 sm:p-6">
+            <h3 className="text-base sm:text-lg font-semibold mb-3 sm:mb-4 text-foreground">
+              Property Equity
+            </h3>
+            <ResponsiveContainer width="100%" height={280}>
+              <BarChart data={propertyData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis dataKey="name" tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 11 }} />
+                <YAxis
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 11 }}
+                  tickFormatter={formatAxis}
+                  width={50}
+                />
+                <Tooltip content={<PropertyTooltip />} />
+                <Legend formatter={(value) => <span className="text-xs sm:text-sm text-foreground">{value}</span>} />
+                <Bar dataKey="equity" name="Equity" stackId="property" fill={COLORS.assets} />
+                <Bar dataKey="debt" name="Secured debt" stackId="property" fill={COLORS.liabilities} radius={[8, 8, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </Card>
+
+          <Card className="p-4 sm:p-6">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3 sm:mb-4">
+              <h3 className="text-base sm:text-lg font-semibold text-foreground">
+                Equity Over Time
+              </h3>
+              {propertyEquities.length > 1 && (
+                <Select value={selectedEquity.property.id} onValueChange={setEquityPropertyId}>
+                  <SelectTrigger className="w-[160px] h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {propertyEquities.map((p) => (
+                      <SelectItem key={p.property.id} value={p.property.id}>
+                        {p.property.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+            {equityHistoryData.length < 2 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                Record more balances for this property and its debts to see equity change over time.
+              </p>
+            ) : (
+              <ResponsiveContainer width="100%" height={280}>
+                <LineChart data={equityHistoryData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis dataKey="date" tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 11 }} />
+                  <YAxis
+                    tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 11 }}
+                    tickFormatter={formatAxis}
+                    width={50}
+                  />
+                  <Tooltip content={<PropertyTooltip />} />
+                  <Legend formatter={(value) => <span className="text-xs sm:text-sm text-foreground">{value}</span>} />
+                  <Line type="stepAfter" dataKey="value" name="Value" stroke={COLORS.nonCurrentAsset} dot={false} />
+                  <Line type="stepAfter" dataKey="debt" name="Debt" stroke={COLORS.liabilities} dot={false} />
+                  <Line type="stepAfter" dataKey="equity" name="Equity" stroke="hsl(43, 90%, 48%)" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+          </Card>
+        </>
+      )}
     </div>
   );
 };
@@ -11,10 +11,15 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { HistorySnapshot } from '@/types/history';
+import { HistorySnapshot, ValuationMode } from '@/types/history';
 import { Currency, ConversionRate } from '@/types/finance';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { formatCurrency } from '@/lib/currency';
-import { History, TrendingUp, TrendingDown, Trash2, TrashIcon, Copy } from 'lucide-react';
+import { ACCOUNT_CATEGORY_META } from '@/lib/accountMetadata';
+import { convertSnapshotAmount, diffSnapshotAccounts, explainSnapshotChange } from '@/lib/snapshots';
+import { ValuationModeToggle } from '@/components/ValuationModeToggle';
+import { History, TrendingUp, TrendingDown, Trash2, TrashIcon, Copy, ChevronDown, ChevronUp } from 'lucide-react';
 import { format } from 'date-fns';
 
 interface HistoryLogProps {
@@ -24,18 +29,23 @@ interface HistoryLogProps {
   onClearAll: () => void;
   displayCurrency?: Currency;
   conversionRates?: ConversionRate[];
+  valuationMode?: ValuationMode;
+  onValuationModeChange?: (mode: ValuationMode) => void;
 }
 
-const convertFromEURTo = (amountEUR: number, targetCurrency: Currency, conversionRates: ConversionRate[]): number => {
-  if (targetCurrency === 'EUR') return amountEUR;
-  const rate = conversionRates.find((r) => r.currency === targetCurrency);
-  if (!rate || rate.rate === 0) return amountEUR;
-  return amountEUR / rate.rate;
-};
-
-export const HistoryLog = ({ snapshots, onDelete, onDuplicate, onClearAll, displayCurrency = 'EUR', conversionRates = [] }: HistoryLogProps) => {
+export const HistoryLog = ({
+  snapshots,
+  onDelete,
+  onDuplicate,
+  onClearAll,
+  displayCurrency = 'EUR',
+  conversionRates = [],
+  valuationMode = 'historical',
+  onValuationModeChange,
+}: HistoryLogProps) => {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [snapshotToDelete, setSnapshotToDelete] = useState<string | null>(null);
+  const [expandedSnapshots, setExpandedSnapshots] = useState<Record<string, boolean>>({});
   const sortedSnapshots = [...snapshots].sort(
     (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
   );
@@ -45,6 +55,16 @@ export const HistoryLog = ({ snapshots, onDelete, onDuplicate, onClearAll, displ
     setDeleteDialogOpen(true);
   };
 
+  const toggleExpanded = (id: string) => {
+    setExpandedSnapshots(prev => ({
+      ...prev,
+      [id]: !prev[id]
+    }));
+  };
+
+  const formatSignedChange = (amount: number, currency: Currency) =>
+    `${amount > 0 ? '+' : amount < 0 ? '-' : ''}${formatCurrency(amount, currency)}`;
+
   const handleConfirmDelete = () => {
     if (snapshotToDelete) {
       onDelete(snapshotToDelete);
@@ -59,33 +79,44 @@ export const HistoryLog = ({ snapshots, onDelete, onDuplicate, onClearAll, displ
 
   return (
     <Card className="p-6">
-      <div className="flex items-center justify-between mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
         <div className="flex items-center gap-3">
           <History className="h-6 w-6 text-primary" />
           <h2 className="text-2xl font-bold text-foreground">History Log</h2>
         </div>
-        {sortedSnapshots.length > 0 && (
-          <Button 
-            variant="outline" 
-            size="sm"
-            onClick={onClearAll}
-            className="gap-2"
-          >
-            <TrashIcon className="h-4 w-4" />
-            Clear All
-          </Button>
-        )}
+        <div className="flex flex-wrap items-center gap-2">
+          {onValuationModeChange && (
+            <ValuationModeToggle value={valuationMode} onChange={onValuationModeChange} />
+          )}
+          {sortedSnapshots.length > 0 && (
+            <Button 
+              variant="outline" 
+              size="sm"
+              onClick={onClearAll}
+              className="gap-2"
+            >
+              <TrashIcon className="h-4 w-4" />
+              Clear All
+            </Button>
+          )}
+        </div>
       </div>
 
       <div className="space-y-3">
         {sortedSnapshots.map((snapshot, index) => {
           const prevSnapshot = sortedSnapshots[index + 1];
           const change = prevSnapshot
-            ? snapshot.netWorthEUR - prevSnapshot.netWorthEUR
+            ? snapshot.netWorthBase - prevSnapshot.netWorthBase
             : 0;
           const changePercent = prevSnapshot
-            ? ((change / prevSnapshot.netWorthEUR) * 100)
+            ? ((change / prevSnapshot.netWorthBase) * 100)
             : 0;
+          const isExpanded = !!expandedSnapshots[snapshot.id];
+          const toDisplay = (amount: number) =>
+            convertSnapshotAmount(amount, snapshot, displayCurrency, conversionRates, valuationMode);
+          const breakdown = prevSnapshot && valuationMode === 'historical'
+            ? explainSnapshotChange(snapshot, prevSnapshot, conversionRates)
+            : null;
 
           return (
             <div
@@ -114,9 +145,20 @@ export const HistoryLog = ({ snapshots, onDelete, onDuplicate, onClearAll, displ
                         <TrendingDown className="h-4 w-4" />
                       )}
                       {change > 0 ? '+' : ''}
-                      {formatCurrency(convertFromEURTo(change, displayCurrency, conversionRates), displayCurrency)} ({changePercent.toFixed(1)}%)
+                      {formatCurrency(toDisplay(change), displayCurrency)} ({changePercent.toFixed(1)}%)
                     </div>
                   )}
+                  {snapshot.accounts && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => toggleExpanded(snapshot.id)}
+                      className="h-8 w-8 p-0"
+                      title={isExpanded ? 'Hide accounts' : 'Show accounts'}
+                    >
+                      {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                    </Button>
+                  )}
                   <Button
                     variant="ghost"
                     size="sm"
@@ -142,28 +184,96 @@ export const HistoryLog = ({ snapshots, onDelete, onDuplicate, onClearAll, displ
                 <div>
                   <p className="text-xs text-muted-foreground">Net Worth</p>
                   <p className="text-sm font-semibold text-foreground">
-                    {formatCurrency(convertFromEURTo(snapshot.netWorthEUR, displayCurrency, conversionRates), displayCurrency)}
+                    {formatCurrency(toDisplay(snapshot.netWorthBase), displayCurrency)}
                   </p>
                 </div>
                 <div>
                   <p className="text-xs text-muted-foreground">Assets</p>
                   <p className="text-sm font-semibold text-green-600">
-                    {formatCurrency(convertFromEURTo(snapshot.totalAssetsEUR, displayCurrency, conversionRates), displayCurrency)}
+                    {formatCurrency(toDisplay(snapshot.totalAssetsBase), displayCurrency)}
                   </p>
                 </div>
                 <div>
                   <p className="text-xs text-muted-foreground">Liabilities</p>
                   <p className="text-sm font-semibold text-red-600">
-                    {formatCurrency(convertFromEURTo(snapshot.totalLiabilitiesEUR, displayCurrency, conversionRates), displayCurrency)}
+                    {formatCurrency(toDisplay(snapshot.totalLiabilitiesBase), displayCurrency)}
                   </p>
                 </div>
                 <div>
                   <p className="text-xs text-muted-foreground">Liquid Net Worth</p>
                   <p className="text-sm font-semibold text-primary">
-                    {formatCurrency(convertFromEURTo(snapshot.liquidNetWorthEUR, displayCurrency, conversionRates), displayCurrency)}
+                    {formatCurrency(toDisplay(snapshot.liquidNetWorthBase), displayCurrency)}
                   </p>
                 </div>
               </div>
+
+              {breakdown && (
+                <p className="text-xs text-muted-foreground mt-3">
+                  Balance moves: {formatSignedChange(toDisplay(breakdown.balanceEffect), displayCurrency)}
+                  {' · '}
+                  FX effect: {formatSignedChange(toDisplay(breakdown.fxEffect), displayCurrency)}
+                </p>
+              )}
+
+              {isExpanded && snapshot.accounts && (
+                <div className="mt-4 border-t border-border pt-3">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Account</TableHead>
+                        <TableHead className="hidden md:table-cell">Category</TableHead>
+                        <TableHead className="text-right">Balance</TableHead>
+                        <TableHead className="text-right">Value ({displayCurrency})</TableHead>
+                        <TableHead className="text-right">Change</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {diffSnapshotAccounts(snapshot, prevSnapshot).map((delta) => (
+                        <TableRow
+                          key={delta.account.accountId}
+                          className={delta.status === 'removed' ? 'opacity-60' : undefined}
+                        >
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium text-foreground">{delta.account.name}</span>
+                              {delta.status === 'added' && (
+                                <Badge variant="outline" className="text-xs">New</Badge>
+                              )}
+                              {delta.status === 'removed' && (
+                                <Badge variant="outline" className="text-xs">Removed</Badge>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell className="hidden md:table-cell text-muted-foreground">
+                            {ACCOUNT_CATEGORY_META[delta.account.category]?.label}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {delta.status === 'removed' ? '—' : formatCurrency(delta.account.balance, delta.account.currency)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {delta.status === 'removed'
+                              ? '—'
+                              : formatCurrency(toDisplay(delta.account.valueBase), displayCurrency)}
+                          </TableCell>
+                          <TableCell
+                            className={`text-right ${
+                              delta.balanceChange === 0
+                                ? 'text-muted-foreground'
+                                : (delta.balanceChange > 0) === ACCOUNT_CATEGORY_META[delta.account.category]?.isAsset
+                                  ? 'text-green-600'
+                                  : 'text-red-600'
+                            }`}
+                          >
+                            {prevSnapshot?.accounts && delta.balanceChange !== 0
+                              ? formatSignedChange(delta.balanceChange, delta.account.currency)
+                              : '—'}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
             </div>
           );
         })}
@@ -0,0 +1,38 @@
+import { Account, ConversionRate, Currency } from '@/types/finance';
+import { formatCurrency } from '@/lib/currency';
+import { getHoldingAllocation } from '@/lib/holdings';
+import { Progress } from '@/components/ui/progress';
+
+interface HoldingsBreakdownProps {
+  account: Account;
+  conversionRates: ConversionRate[];
+  baseCurrency: Currency;
+}
+
+// Position-level allocation within one account, valued in the account's currency
+export const HoldingsBreakdown = ({ account, conversionRates, baseCurrency }: HoldingsBreakdownProps) => {
+  const allocation = getHoldingAllocation(account, conversionRates, baseCurrency);
+
+  return (
+    <div className="space-y-2 pt-2">
+      {allocation.map(({ holding, value, share }) => (
+        <div key={holding.id} className="space-y-1">
+          <div className="flex items-center justify-between gap-2 text-xs sm:text-sm">
+            <span className="font-medium text-foreground">{holding.symbol}</span>
+            <span className="text-muted-foreground truncate">
+              {holding.quantity.toLocaleString('en-US', { maximumFractionDigits: 6 })} ×{' '}
+              {formatCurrency(holding.unitPrice, holding.priceCurrency)}
+              {' · '}
+              {new Date(holding.priceDate).toLocaleDateString()}
+            </span>
+            <span className="ml-auto font-medium text-foreground">
+              {formatCurrency(value, account.currency)}
+              <span className="text-muted-foreground font-normal ml-1.5">{(share * 100).toFixed(1)}%</span>
+            </span>
+          </div>
+          <Progress value={share * 100} className="h-1.5" />
+        </div>
+      ))}
+    </div>
+  );
+};
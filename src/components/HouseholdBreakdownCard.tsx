@@ -0,0 +1,81 @@
+import { ConversionRate, Currency } from '@/types/finance';
+import { HouseholdBreakdown } from '@/lib/ownership';
+import { convertFromBase } from '@/lib/currency';
+import { Users } from 'lucide-react';
+
+interface HouseholdBreakdownCardProps {
+  breakdown: HouseholdBreakdown;
+  ownerView: string | null; // Person id, or null for the combined view
+  onOwnerViewChange: (personId: string | null) => void;
+  displayCurrency: Currency;
+  conversionRates: ConversionRate[];
+  baseCurrency: Currency;
+}
+
+export const HouseholdBreakdownCard = ({
+  breakdown,
+  ownerView,
+  onOwnerViewChange,
+  displayCurrency,
+  conversionRates,
+  baseCurrency,
+}: HouseholdBreakdownCardProps) => {
+  const formatAmount = (amountBase: number) =>
+    convertFromBase(amountBase, displayCurrency, conversionRates, baseCurrency).toLocaleString('en-US', {
+      style: 'currency',
+      currency: displayCurrency,
+      maximumFractionDigits: 0,
+    });
+
+  // Person and combined tiles switch the dashboard view; joint and unassigned are informational
+  const tiles = [
+    ...breakdown.people.map(({ person, netWorthBase }) => ({
+      key: person.id,
+      label: person.name,
+      value: netWorthBase,
+      hint: 'Incl. share of joint',
+      view: person.id as string | null,
+    })),
+    { key: 'joint', label: 'Joint', value: breakdown.jointBase, hint: 'Accounts with several owners', view: undefined },
+    ...(breakdown.unassignedBase !== 0
+      ? [{ key: 'unassigned', label: 'Unassigned', value: breakdown.unassignedBase, hint: 'No owners set', view: undefined }]
+      : []),
+    { key: 'combined', label: 'Combined', value: breakdown.combinedBase, hint: 'Whole household', view: null },
+  ];
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-3 sm:p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <Users className="h-4 w-4 text-muted-foreground" />
+        <h3 className="text-sm font-semibold text-foreground">Household</h3>
+      </div>
+      <div className="grid grid-cols-2 gap-2 sm:gap-3 md:grid-cols-4">
+        {tiles.map((tile) => {
+          const selectable = tile.view !== undefined;
+          const selected = selectable && tile.view === ownerView;
+          return (
+            <button
+              key={tile.key}
+              type="button"
+              disabled={!selectable}
+              onClick={() => tile.view !== undefined && onOwnerViewChange(tile.view)}
+              className={`rounded-lg border p-2.5 text-left transition-colors ${
+                selected ? 'border-primary bg-primary/5' : 'border-border'
+              } ${selectable ? 'hover:border-primary/50' : 'cursor-default'}`}
+            >
+              <p className="text-xs text-muted-foreground">{tile.label}</p>
+              <p
+                className={`text-sm sm:text-base font-semibold ${
+                  tile.value >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+                }`}
+              >
+                {formatAmount(tile.value)}
+              </p>
+              <p className="text-[11px] text-muted-foreground">{tile.hint}</p>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
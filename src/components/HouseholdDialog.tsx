@@ -0,0 +1,111 @@
+import { useState, useEffect } from 'react';
+import { Person } from '@/types/finance';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { createPerson } from '@/lib/ownership';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface HouseholdDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  people: Person[];
+  onSave: (people: Person[]) => void;
+}
+
+export const HouseholdDialog = ({ open, onOpenChange, people, onSave }: HouseholdDialogProps) => {
+  const [members, setMembers] = useState<Person[]>([]);
+  const [newName, setNewName] = useState('');
+
+  useEffect(() => {
+    setMembers(people);
+    setNewName('');
+  }, [people, open]);
+
+  const addMember = () => {
+    if (!newName.trim()) return;
+    setMembers((prev) => [...prev, createPerson(newName)]);
+    setNewName('');
+  };
+
+  const removed = people.filter((person) => !members.some((m) => m.id === person.id));
+  const hasEmptyName = members.some((m) => !m.name.trim());
+
+  const handleSave = () => {
+    onSave(members.map((m) => ({ ...m, name: m.name.trim() })));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>Household</DialogTitle>
+          <DialogDescription>
+            Add the people who own accounts, then set each account's owners and shares. The dashboard can show net
+            worth per person, joint and combined.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 py-2">
+          {members.map((member) => (
+            <div key={member.id} className="flex items-center gap-2">
+              <Input
+                value={member.name}
+                onChange={(e) =>
+                  setMembers((prev) => prev.map((m) => (m.id === member.id ? { ...m, name: e.target.value } : m)))
+                }
+                aria-label="Name"
+                className="h-9"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setMembers((prev) => prev.filter((m) => m.id !== member.id))}
+                className="h-9 w-9 shrink-0 text-destructive"
+                title={`Remove ${member.name}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addMember()}
+              placeholder="Name"
+              className="h-9"
+            />
+            <Button variant="outline" size="sm" onClick={addMember} disabled={!newName.trim()} className="gap-1 shrink-0">
+              <Plus className="h-4 w-4" />
+              Add
+            </Button>
+          </div>
+          {removed.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Accounts shared with {removed.map((p) => p.name).join(', ')} will be split between their remaining
+              owners.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={hasEmptyName}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -6,27 +6,122 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { Card } from '@/components/ui/card';
-import { FileText, Database, TrendingUp, DollarSign, AlertCircle } from 'lucide-react';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { FileText, Database, TrendingUp, DollarSign, AlertCircle, FolderOpen, XCircle, GitMerge } from 'lucide-react';
+import { BACKUP_SCHEMA_VERSION } from '@/lib/backup';
+import {
+  BackupIssue,
+  BackupParseResult,
+  MergeChoice,
+  MergeConflict,
+  MergeConflictReason,
+  MergePlan,
+} from '@/types/backup';
+
+// replace: the backup overwrites the profile; merge: both are combined, with conflicts chosen per item
+export type ImportMode = 'replace' | 'merge';
 
-interface ImportPreviewData {
+export interface ImportPreviewData {
   schemaVersion?: number;
+  profileName?: string; // Profile the backup was exported from
+  targetProfileName?: string;
   accountCount: number;
   snapshotCount: number;
   currencies: string[];
   hasMonthlyExpenses: boolean;
   hasRetirementInputs: boolean;
+  issues: BackupIssue[];
+  skipped: BackupParseResult['skipped'];
+  mergePlan: MergePlan | null;
+  mergeUnavailableReason: string | null; // Set when the backup cannot be merged into the profile
 }
 
 interface ImportPreviewDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   previewData: ImportPreviewData | null;
-  onConfirm: () => void;
+  onConfirm: (mode: ImportMode, choices: Record<string, MergeChoice>) => void;
   onCancel: () => void;
 }
 
+const REASON_LABELS: Record<MergeConflictReason, string> = {
+  balance: 'Balance differs',
+  lastUpdated: 'Updated at different times',
+  details: 'Details differ',
+  duplicateSnapshot: 'Same day',
+};
+
+const MergeConflictRow = ({
+  conflict,
+  choice,
+  onChange,
+}: {
+  conflict: MergeConflict;
+  choice: MergeChoice;
+  onChange: (choice: MergeChoice) => void;
+}) => {
+  const newer =
+    new Date(conflict.incoming.date).getTime() > new Date(conflict.local.date).getTime() ? 'incoming' : 'local';
+  return (
+    <li className="rounded-md border border-border p-2 space-y-2">
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-sm font-medium text-foreground mr-1">
+          {conflict.type === 'snapshot' ? `Snapshot ${conflict.label}` : conflict.label}
+        </span>
+        {conflict.reasons.map((reason) => (
+          <Badge key={reason} variant="secondary" className="text-[10px]">
+            {REASON_LABELS[reason]}
+          </Badge>
+        ))}
+        {conflict.matchedBy === 'name' && (
+          <Badge variant="outline" className="text-[10px]">
+            Matched by name
+          </Badge>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-2 text-xs text-muted-foreground">
+        <div>
+          <p className="font-medium text-foreground">
+            This profile{conflict.type === 'account' && newer === 'local' && ' · newer'}
+          </p>
+          <p>{conflict.local.summary}</p>
+        </div>
+        <div>
+          <p className="font-medium text-foreground">
+            Backup{conflict.type === 'account' && newer === 'incoming' && ' · newer'}
+          </p>
+          <p>{conflict.incoming.summary}</p>
+        </div>
+      </div>
+      <ToggleGroup
+        type="single"
+        size="sm"
+        variant="outline"
+        value={choice}
+        onValueChange={(value) => value && onChange(value as MergeChoice)}
+        className="justify-start"
+      >
+        <ToggleGroupItem value="local" className="text-xs h-7">
+          Keep mine
+        </ToggleGroupItem>
+        <ToggleGroupItem value="incoming" className="text-xs h-7">
+          Use backup
+        </ToggleGroupItem>
+        {conflict.type === 'snapshot' && (
+          <ToggleGroupItem value="both" className="text-xs h-7">
+            Keep both
+          </ToggleGroupItem>
+        )}
+      </ToggleGroup>
+    </li>
+  );
+};
+
 export const ImportPreviewDialog = ({
   open,
   onOpenChange,
@@ -34,10 +129,26 @@ export const ImportPreviewDialog = ({
   onConfirm,
   onCancel,
 }: ImportPreviewDialogProps) => {
+  const [mode, setMode] = useState<ImportMode>('replace');
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>({});
+
+  useEffect(() => {
+    setMode('replace');
+    setChoices({});
+  }, [previewData]);
+
   if (!previewData) return null;
 
+  const fatalIssues = previewData.issues.filter((issue) => issue.severity === 'fatal');
+  const recordIssues = previewData.issues.filter((issue) => issue.severity !== 'fatal');
+  const skippedTotal = previewData.skipped.accounts + previewData.skipped.conversionRates + previewData.skipped.history;
+  const isUpgraded = previewData.schemaVersion === undefined || previewData.schemaVersion < BACKUP_SCHEMA_VERSION;
+
+  const mergePlan = previewData.mergePlan;
+  const isMerge = mode === 'merge' && mergePlan !== null;
+
   const handleConfirm = () => {
-    onConfirm();
+    onConfirm(isMerge ? 'merge' : 'replace', choices);
     onOpenChange(false);
   };
 
@@ -48,28 +159,119 @@ export const ImportPreviewDialog = ({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-md">
+      <DialogContent className={isMerge ? 'max-w-lg' : 'max-w-md'}>
         <DialogHeader>
           <DialogTitle>Import Preview</DialogTitle>
           <DialogDescription>
-            Review the data before importing. This will replace your current data.
+            Review the data before importing. This will {isMerge ? 'be merged into' : 'replace'} the data in{' '}
+            {previewData.targetProfileName ? <strong>{previewData.targetProfileName}</strong> : 'your current profile'}.
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-3 py-4">
-          {previewData.schemaVersion !== 1 && (
+          {fatalIssues.length === 0 && (
+            <div className="space-y-1">
+              <ToggleGroup
+                type="single"
+                size="sm"
+                variant="outline"
+                value={isMerge ? 'merge' : 'replace'}
+                onValueChange={(value) => value && setMode(value as ImportMode)}
+                className="justify-start"
+              >
+                <ToggleGroupItem value="replace" className="text-xs">
+                  Replace
+                </ToggleGroupItem>
+                <ToggleGroupItem value="merge" className="text-xs gap-1" disabled={mergePlan === null}>
+                  <GitMerge className="h-3 w-3" />
+                  Merge
+                </ToggleGroupItem>
+              </ToggleGroup>
+              {previewData.mergeUnavailableReason && (
+                <p className="text-xs text-muted-foreground">{previewData.mergeUnavailableReason}</p>
+              )}
+            </div>
+          )}
+
+          {fatalIssues.length > 0 && (
+            <Card className="p-3 bg-red-50 dark:bg-red-950/20 border-red-200 dark:border-red-800">
+              <div className="flex items-start gap-2">
+                <XCircle className="h-4 w-4 text-red-600 dark:text-red-400 mt-0.5" />
+                <div className="flex-1">
+                  <p className="text-sm font-medium text-red-800 dark:text-red-200">This file cannot be imported</p>
+                  {fatalIssues.map((issue, index) => (
+                    <p key={index} className="text-xs text-red-700 dark:text-red-300 mt-1">
+                      {issue.message}
+                    </p>
+                  ))}
+                </div>
+              </div>
+            </Card>
+          )}
+
+          {recordIssues.length > 0 && (
             <Card className="p-3 bg-yellow-50 dark:bg-yellow-950/20 border-yellow-200 dark:border-yellow-800">
               <div className="flex items-start gap-2">
                 <AlertCircle className="h-4 w-4 text-yellow-600 dark:text-yellow-400 mt-0.5" />
-                <div className="flex-1">
+                <div className="flex-1 min-w-0">
                   <p className="text-sm font-medium text-yellow-800 dark:text-yellow-200">
-                    Schema Version Mismatch
+                    {skippedTotal > 0
+                      ? `${skippedTotal} broken record${skippedTotal !== 1 ? 's' : ''} will be skipped`
+                      : 'Some fields will be corrected'}
                   </p>
-                  <p className="text-xs text-yellow-700 dark:text-yellow-300 mt-1">
-                    Expected version 1, found {previewData.schemaVersion ?? 'unknown'}. Import may fail.
+                  <ScrollArea className="max-h-40 mt-1">
+                    <ul className="space-y-1 pr-3">
+                      {recordIssues.map((issue, index) => (
+                        <li key={index} className="text-xs text-yellow-700 dark:text-yellow-300">
+                          <span className={issue.severity === 'error' ? 'font-semibold' : ''}>
+                            {issue.severity === 'error' ? 'Skipped' : 'Fixed'}
+                          </span>{' '}
+                          <span className="font-mono">{issue.path}</span>: {issue.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </ScrollArea>
+                </div>
+              </div>
+            </Card>
+          )}
+
+          {isMerge && (
+            <Card className="p-4 space-y-3">
+              <div className="flex items-center gap-3">
+                <GitMerge className="h-5 w-5 text-primary" />
+                <div>
+                  <p className="font-semibold text-foreground">Merge</p>
+                  <p className="text-sm text-muted-foreground">
+                    {mergePlan.newAccounts} new account{mergePlan.newAccounts !== 1 ? 's' : ''},{' '}
+                    {mergePlan.newSnapshots} new snapshot{mergePlan.newSnapshots !== 1 ? 's' : ''}
+                    {mergePlan.newRates > 0 && `, ${mergePlan.newRates} new currenc${mergePlan.newRates !== 1 ? 'ies' : 'y'}`}
+                    {mergePlan.newPeople > 0 &&
+                      `, ${mergePlan.newPeople} new household member${mergePlan.newPeople !== 1 ? 's' : ''}`}
+                    {' · '}
+                    {mergePlan.unchanged} identical
                   </p>
                 </div>
               </div>
+              {mergePlan.conflicts.length > 0 ? (
+                <ScrollArea className="max-h-72">
+                  <ul className="space-y-2 pr-3">
+                    {mergePlan.conflicts.map((conflict) => (
+                      <MergeConflictRow
+                        key={conflict.id}
+                        conflict={conflict}
+                        choice={choices[conflict.id] ?? conflict.defaultChoice}
+                        onChange={(choice) => setChoices((prev) => ({ ...prev, [conflict.id]: choice }))}
+                      />
+                    ))}
+                  </ul>
+                </ScrollArea>
+              ) : (
+                <p className="text-xs text-muted-foreground">No conflicts.</p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Monthly expenses, retirement inputs and view settings are kept as they are.
+              </p>
             </Card>
           )}
 
@@ -80,11 +282,24 @@ export const ImportPreviewDialog = ({
                 <p className="font-semibold text-foreground">Schema Version</p>
                 <p className="text-sm text-muted-foreground">
                   {previewData.schemaVersion ?? 'Not specified'}
+                  {isUpgraded && fatalIssues.length === 0 && ` · upgraded to ${BACKUP_SCHEMA_VERSION}`}
                 </p>
               </div>
             </div>
           </Card>
 
+          {previewData.profileName && (
+            <Card className="p-4">
+              <div className="flex items-center gap-3 mb-3">
+                <FolderOpen className="h-5 w-5 text-orange-600" />
+                <div>
+                  <p className="font-semibold text-foreground">Exported From</p>
+                  <p className="text-sm text-muted-foreground">{previewData.profileName}</p>
+                </div>
+              </div>
+            </Card>
+          )}
+
           <Card className="p-4">
             <div className="flex items-center gap-3 mb-3">
               <Database className="h-5 w-5 text-blue-600" />
@@ -123,10 +338,10 @@ export const ImportPreviewDialog = ({
             </div>
           </Card>
 
-          {previewData.hasMonthlyExpenses && (
+          {!isMerge && previewData.hasMonthlyExpenses && (
             <p className="text-xs text-muted-foreground">✓ Monthly expenses included</p>
           )}
-          {previewData.hasRetirementInputs && (
+          {!isMerge && previewData.hasRetirementInputs && (
             <p className="text-xs text-muted-foreground">✓ Retirement planning inputs included</p>
           )}
         </div>
@@ -135,8 +350,8 @@ export const ImportPreviewDialog = ({
           <Button variant="outline" onClick={handleCancel}>
             Cancel
           </Button>
-          <Button onClick={handleConfirm}>
-            Confirm Import
+          <Button onClick={handleConfirm} disabled={fatalIssues.length > 0}>
+            {isMerge ? 'Merge' : 'Confirm Import'}
           </Button>
         </DialogFooter>
       </DialogContent>
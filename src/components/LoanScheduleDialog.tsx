@@ -0,0 +1,120 @@
+import { useMemo } from 'react';
+import { Account } from '@/types/finance';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatCurrency } from '@/lib/currency';
+import { buildAmortizationSchedule, getLoanStatus, PAYMENT_FREQUENCY_META } from '@/lib/loans';
+import { AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface LoanScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  account: Account | null;
+}
+
+export const LoanScheduleDialog = ({ open, onOpenChange, account }: LoanScheduleDialogProps) => {
+  const schedule = useMemo(() => (account?.loan ? buildAmortizationSchedule(account.loan) : []), [account]);
+  const status = useMemo(() => (account ? getLoanStatus(account) : null), [account]);
+
+  if (!account?.loan || !status) return null;
+
+  const { loan, currency } = account;
+  const now = Date.now();
+  const nextIndex = schedule.findIndex((row) => row.date.getTime() > now);
+  const formatAmount = (amount: number) => `${amount < 0 ? '-' : ''}${formatCurrency(amount, currency)}`;
+
+  const stats = [
+    { label: `${PAYMENT_FREQUENCY_META[loan.frequency].label} payment`, value: formatAmount(status.payment) },
+    {
+      label: `Expected on ${format(new Date(account.lastUpdated), 'MMM d, yyyy')}`,
+      value: formatAmount(status.expectedBalance),
+    },
+    { label: 'Recorded balance', value: formatAmount(account.balance) },
+    {
+      label: 'Projected payoff',
+      value: status.projection.payoffDate ? format(status.projection.payoffDate, 'MMM yyyy') : 'Never',
+    },
+    { label: 'Interest remaining', value: formatAmount(status.projection.interestRemaining) },
+    { label: 'Payments remaining', value: status.projection.paymentsRemaining.toString() },
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[680px]">
+        <DialogHeader>
+          <DialogTitle>Loan Schedule · {account.name}</DialogTitle>
+          <DialogDescription>
+            {formatAmount(loan.principal)} at {loan.annualRate}% over {loan.termMonths} months, from{' '}
+            {format(new Date(loan.startDate), 'MMM d, yyyy')}. Payoff and interest are projected from the recorded
+            balance, as of the day it was recorded.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+          {stats.map((stat) => (
+            <div key={stat.label} className="rounded-lg border border-border p-2.5">
+              <p className="text-xs text-muted-foreground">{stat.label}</p>
+              <p className="text-sm font-semibold">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+
+        {status.isOffSchedule && (
+          <Alert className="bg-yellow-50 dark:bg-yellow-950/20 border-yellow-200 dark:border-yellow-800">
+            <AlertTriangle className="h-4 w-4 text-yellow-600 dark:text-yellow-400" />
+            <AlertDescription className="text-yellow-800 dark:text-yellow-200">
+              The recorded balance is {formatAmount(Math.abs(status.drift))}{' '}
+              {status.drift > 0 ? 'above' : 'below'} the schedule. Check for missed or extra payments, or update the
+              loan terms.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {status.projection.payoffDate === null && (
+          <p className="text-sm text-destructive">
+            The payment does not cover the interest, so this loan is never paid off.
+          </p>
+        )}
+
+        <ScrollArea className="h-[300px]">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>#</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead className="text-right">Payment</TableHead>
+                <TableHead className="text-right">Interest</TableHead>
+                <TableHead className="text-right">Principal</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {schedule.map((row, index) => (
+                <TableRow
+                  key={row.period}
+                  className={index === nextIndex ? 'bg-primary/10' : index < nextIndex || nextIndex === -1 ? 'text-muted-foreground' : ''}
+                >
+                  <TableCell>{row.period}</TableCell>
+                  <TableCell>{format(row.date, 'MMM d, yyyy')}</TableCell>
+                  <TableCell className="text-right">{formatAmount(row.payment)}</TableCell>
+                  <TableCell className="text-right">{formatAmount(row.interest)}</TableCell>
+                  <TableCell className="text-right">{formatAmount(row.principal)}</TableCell>
+                  <TableCell className="text-right">{formatAmount(row.balance)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
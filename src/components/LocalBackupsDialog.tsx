@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { LocalBackup } from '@/types/backup';
+import { formatCurrency } from '@/lib/currency';
+import { LOCAL_BACKUP_REASON_LABELS } from '@/lib/localBackups';
+import { ArchiveRestore, Loader2, Save } from 'lucide-react';
+
+interface LocalBackupsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  profileName: string;
+  backups: LocalBackup[]; // Newest first
+  onBackUpNow: () => Promise<void>;
+  onRestore: (backup: LocalBackup) => void;
+}
+
+export const LocalBackupsDialog = ({
+  open,
+  onOpenChange,
+  profileName,
+  backups,
+  onBackUpNow,
+  onRestore,
+}: LocalBackupsDialogProps) => {
+  const [isBackingUp, setIsBackingUp] = useState(false);
+
+  const handleBackUpNow = async () => {
+    setIsBackingUp(true);
+    await onBackUpNow();
+    setIsBackingUp(false);
+  };
+
+  const handleRestore = (backup: LocalBackup) => {
+    onRestore(backup);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Automatic Backups</DialogTitle>
+          <DialogDescription>
+            {profileName} is backed up in this browser once a day and before imports, clearing history and deleting
+            accounts. Daily backups are kept for a week and weekly ones for a month. Restoring can be undone.
+          </DialogDescription>
+        </DialogHeader>
+
+        {backups.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No backups yet.</p>
+        ) : (
+          <ScrollArea className="max-h-[360px]">
+            <ul className="space-y-2 pr-3">
+              {backups.map((backup) => (
+                <li
+                  key={backup.id}
+                  className="flex items-center justify-between gap-3 rounded-md border border-border p-3"
+                >
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm font-medium text-foreground">{format(backup.createdAt, 'PPp')}</span>
+                      <Badge variant={backup.reason === 'scheduled' ? 'secondary' : 'outline'} className="text-[10px]">
+                        {LOCAL_BACKUP_REASON_LABELS[backup.reason]}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {backup.accountCount} account{backup.accountCount !== 1 ? 's' : ''} · net worth{' '}
+                      {formatCurrency(backup.netWorthBase, backup.baseCurrency)}
+                    </p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => handleRestore(backup)} className="gap-1 shrink-0">
+                    <ArchiveRestore className="h-4 w-4" />
+                    Restore
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleBackUpNow} disabled={isBackingUp} className="gap-2">
+            {isBackingUp ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            Back Up Now
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
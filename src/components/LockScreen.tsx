@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { WrongPassphraseError } from '@/lib/appLock';
+import { Loader2, Lock } from 'lucide-react';
+
+interface LockScreenProps {
+  onUnlock: (passphrase: string) => Promise<void>;
+}
+
+export const LockScreen = ({ onUnlock }: LockScreenProps) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await onUnlock(passphrase);
+    } catch (err) {
+      setError(
+        err instanceof WrongPassphraseError
+          ? err.message
+          : `Unable to unlock: ${err instanceof Error ? err.message : String(err)}`
+      );
+      setPassphrase('');
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2 flex h-10 w-10 items-center justify-center rounded-full bg-muted">
+            <Lock className="h-5 w-5 text-muted-foreground" />
+          </div>
+          <CardTitle>Net Worth Tracker is locked</CardTitle>
+          <CardDescription>Your data is encrypted on this device. Enter your PIN or passphrase to open it.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleUnlock} className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="unlock-passphrase" className="sr-only">
+                PIN or passphrase
+              </Label>
+              <Input
+                id="unlock-passphrase"
+                type="password"
+                autoComplete="current-password"
+                autoFocus
+                placeholder="PIN or passphrase"
+                value={passphrase}
+                onChange={(e) => {
+                  setPassphrase(e.target.value);
+                  setError(null);
+                }}
+              />
+              {error && <p className="text-xs text-destructive">{error}</p>}
+            </div>
+            <Button type="submit" className="w-full gap-2" disabled={!passphrase || isUnlocking}>
+              {isUnlocking && <Loader2 className="h-4 w-4 animate-spin" />}
+              Unlock
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -4,8 +4,8 @@ import { TrendingUp, TrendingDown, Wallet, ArrowUpRight, ArrowDownRight, Minus }
 import { Currency } from '@/types/finance';
 
 interface NetWorthCardProps {
-  assetsEUR: number;
-  liabilitiesEUR: number;
+  assets: number; // In the display currency
+  liabilities: number;
   isMainCard?: boolean;
   displayCurrency?: Currency;
   previousNetWorth?: number;
@@ -50,15 +50,15 @@ const ChangeIndicator = ({ current, previous }: { current: number; previous: num
 };
 
 export const NetWorthCard = ({ 
-  assetsEUR, 
-  liabilitiesEUR, 
+  assets, 
+  liabilities, 
   isMainCard = false, 
   displayCurrency = 'EUR',
   previousNetWorth,
   previousAssets,
   previousLiabilities,
 }: NetWorthCardProps) => {
-  const netWorth = assetsEUR - liabilitiesEUR;
+  const netWorth = assets - liabilities;
   const isPositive = netWorth >= 0;
   const hasPreviousData = previousNetWorth !== undefined;
 
@@ -100,10 +100,10 @@ export const NetWorthCard = ({
             <p className="text-xs text-muted-foreground mb-1">Total Assets</p>
             <div className="flex items-center gap-2 flex-wrap">
               <p className={`${isMainCard ? 'text-base sm:text-lg lg:text-xl' : 'text-sm sm:text-base lg:text-lg'} font-semibold text-foreground`}>
-                {formatCurrency(assetsEUR, displayCurrency)}
+                {formatCurrency(assets, displayCurrency)}
               </p>
               {previousAssets !== undefined && (
-                <ChangeIndicator current={assetsEUR} previous={previousAssets} />
+                <ChangeIndicator current={assets} previous={previousAssets} />
               )}
             </div>
           </div>
@@ -111,10 +111,10 @@ export const NetWorthCard = ({
             <p className="text-xs text-muted-foreground mb-1">Total Liabilities</p>
             <div className="flex items-center gap-2 flex-wrap">
               <p className={`${isMainCard ? 'text-base sm:text-lg lg:text-xl' : 'text-sm sm:text-base lg:text-lg'} font-semibold text-foreground`}>
-                {formatCurrency(liabilitiesEUR, displayCurrency)}
+                {formatCurrency(liabilities, displayCurrency)}
               </p>
               {previousLiabilities !== undefined && (
-                <ChangeIndicator current={liabilitiesEUR} previous={previousLiabilities} />
+                <ChangeIndicator current={liabilities} previous={previousLiabilities} />
               )}
             </div>
           </div>
@@ -1,8 +1,10 @@
 import { useMemo } from 'react';
 import { Card } from '@/components/ui/card';
-import { HistorySnapshot } from '@/types/history';
+import { HistorySnapshot, ValuationMode } from '@/types/history';
 import { Currency, ConversionRate } from '@/types/finance';
 import { formatCurrency } from '@/lib/currency';
+import { convertSnapshotAmount } from '@/lib/snapshots';
+import { ValuationModeToggle } from '@/components/ValuationModeToggle';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
 import { TrendingUp } from 'lucide-react';
 import { format } from 'date-fns';
@@ -11,32 +13,33 @@ interface NetWorthHistoryChartProps {
   snapshots: HistorySnapshot[];
   displayCurrency?: Currency;
   conversionRates?: ConversionRate[];
+  valuationMode?: ValuationMode;
+  onValuationModeChange?: (mode: ValuationMode) => void;
 }
 
-const convertFromEURTo = (amountEUR: number, targetCurrency: Currency, conversionRates: ConversionRate[]): number => {
-  if (targetCurrency === 'EUR') return amountEUR;
-  const rate = conversionRates.find((r) => r.currency === targetCurrency);
-  if (!rate || rate.rate === 0) return amountEUR;
-  return amountEUR / rate.rate;
-};
-
 export const NetWorthHistoryChart = ({ 
   snapshots, 
   displayCurrency = 'EUR', 
-  conversionRates = [] 
+  conversionRates = [],
+  valuationMode = 'historical',
+  onValuationModeChange,
 }: NetWorthHistoryChartProps) => {
   const chartData = useMemo(() => {
     return [...snapshots]
       .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
-      .map((snapshot) => ({
-        date: format(new Date(snapshot.timestamp), 'MMM d'),
-        fullDate: format(new Date(snapshot.timestamp), 'PPP'),
-        netWorth: convertFromEURTo(snapshot.netWorthEUR, displayCurrency, conversionRates),
-        assets: convertFromEURTo(snapshot.totalAssetsEUR, displayCurrency, conversionRates),
-        liabilities: convertFromEURTo(snapshot.totalLiabilitiesEUR, displayCurrency, conversionRates),
-        liquidNetWorth: convertFromEURTo(snapshot.liquidNetWorthEUR, displayCurrency, conversionRates),
-      }));
-  }, [snapshots, displayCurrency, conversionRates]);
+      .map((snapshot) => {
+        const toDisplay = (amount: number) =>
+          convertSnapshotAmount(amount, snapshot, displayCurrency, conversionRates, valuationMode);
+        return {
+          date: format(new Date(snapshot.timestamp), 'MMM d'),
+          fullDate: format(new Date(snapshot.timestamp), 'PPP'),
+          netWorth: toDisplay(snapshot.netWorthBase),
+          assets: toDisplay(snapshot.totalAssetsBase),
+          liabilities: toDisplay(snapshot.totalLiabilitiesBase),
+          liquidNetWorth: toDisplay(snapshot.liquidNetWorthBase),
+        };
+      });
+  }, [snapshots, displayCurrency, conversionRates, valuationMode]);
 
   if (snapshots.length < 2) {
     return null;
@@ -76,9 +79,14 @@ export const NetWorthHistoryChart = ({
 
   return (
     <Card className="p-6">
-      <div className="flex items-center gap-3 mb-6">
-        <TrendingUp className="h-6 w-6 text-primary" />
-        <h2 className="text-2xl font-bold text-foreground">Net Worth Over Time</h2>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-3">
+          <TrendingUp className="h-6 w-6 text-primary" />
+          <h2 className="text-2xl font-bold text-foreground">Net Worth Over Time</h2>
+        </div>
+        {onValuationModeChange && (
+          <ValuationModeToggle value={valuationMode} onChange={onValuationModeChange} />
+        )}
       </div>
       
       <div className="h-[300px]">
@@ -0,0 +1,242 @@
+import { useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { format } from 'date-fns';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid } from 'recharts';
+import { Account, ConversionRate, Currency } from '@/types/finance';
+import { HistorySnapshot, ValuationMode } from '@/types/history';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatCurrency } from '@/lib/currency';
+import { buildNetWorthStatement, NetWorthStatement, StatementSection } from '@/lib/netWorthStatement';
+import { Printer, X } from 'lucide-react';
+
+interface NetWorthStatementViewProps {
+  onClose: () => void;
+  holderName: string; // Person or profile the statement is for
+  isShare: boolean; // Jointly held accounts are included at the holder's share
+  accounts: Account[];
+  history: HistorySnapshot[];
+  conversionRates: ConversionRate[];
+  baseCurrency: Currency;
+  enabledCurrencies: Currency[];
+  defaultCurrency: Currency;
+  valuationMode: ValuationMode;
+}
+
+const money = (amount: number, currency: Currency) => `${amount < 0 ? '-' : ''}${formatCurrency(amount, currency)}`;
+
+const SectionRows = ({ section, currency }: { section: StatementSection; currency: Currency }) => (
+  <>
+    <tr>
+      <td colSpan={3} className="pt-3 pb-1 font-semibold">
+        {section.label}
+      </td>
+    </tr>
+    {section.lines.length === 0 ? (
+      <tr>
+        <td colSpan={3} className="pl-4 py-0.5 italic text-neutral-500">
+          None
+        </td>
+      </tr>
+    ) : (
+      section.lines.map((line, i) => (
+        <tr key={i} className="break-inside-avoid">
+          <td className="pl-4 py-0.5">{line.name}</td>
+          <td className="py-0.5 text-right text-neutral-500 tabular-nums">
+            {line.currency !== currency ? money(line.balance, line.currency) : ''}
+          </td>
+          <td className="py-0.5 text-right tabular-nums">{money(line.value, currency)}</td>
+        </tr>
+      ))
+    )}
+    <tr className="border-t border-neutral-300">
+      <td colSpan={2} className="pl-4 py-1">
+        Total {section.label}
+      </td>
+      <td className="py-1 text-right tabular-nums">{money(section.subtotal, currency)}</td>
+    </tr>
+  </>
+);
+
+const TotalRow = ({ label, amount, currency }: { label: string; amount: number; currency: Currency }) => (
+  <tr className="border-t-2 border-neutral-800 font-bold">
+    <td colSpan={2} className="py-1.5">
+      {label}
+    </td>
+    <td className="py-1.5 text-right tabular-nums">{money(amount, currency)}</td>
+  </tr>
+);
+
+// Fixed size and no animation, so the printed page shows the finished chart
+const StatementChart = ({ statement }: { statement: NetWorthStatement }) => {
+  const data = statement.history.map((point) => ({ date: format(point.date, 'MMM yyyy'), netWorth: point.netWorth }));
+  return (
+    <LineChart width={680} height={220} data={data} margin={{ top: 8, right: 16, bottom: 0, left: 16 }}>
+      <CartesianGrid strokeDasharray="3 3" stroke="#d4d4d4" />
+      <XAxis dataKey="date" tick={{ fontSize: 10, fill: '#525252' }} minTickGap={24} />
+      <YAxis
+        tick={{ fontSize: 10, fill: '#525252' }}
+        width={80}
+        tickFormatter={(value: number) => money(value, statement.currency).replace(/\.\d+$/, '')}
+      />
+      <Line type="monotone" dataKey="netWorth" stroke="#171717" strokeWidth={2} dot={false} isAnimationActive={false} />
+    </LineChart>
+  );
+};
+
+// The statement as a page of its own over the app. Printing shows only the page, so the browser's print dialog can
+// save it as a PDF without anything leaving the device.
+export const NetWorthStatementView = ({
+  onClose,
+  holderName,
+  isShare,
+  accounts,
+  history,
+  conversionRates,
+  baseCurrency,
+  enabledCurrencies,
+  defaultCurrency,
+  valuationMode,
+}: NetWorthStatementViewProps) => {
+  const [currency, setCurrency] = useState(defaultCurrency);
+  const [preparedAt] = useState(() => new Date());
+
+  const statement = useMemo(
+    () =>
+      buildNetWorthStatement({
+        accounts,
+        history,
+        conversionRates,
+        baseCurrency,
+        currency,
+        valuationMode,
+        asOf: preparedAt,
+      }),
+    [accounts, history, conversionRates, baseCurrency, currency, valuationMode, preparedAt]
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => e.key === 'Escape' && onClose();
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return createPortal(
+    <div className="net-worth-statement fixed inset-0 z-50 overflow-auto bg-neutral-200 print:bg-white">
+      <div className="print:hidden sticky top-0 z-10 flex flex-wrap items-center gap-2 border-b border-border bg-background px-4 py-2">
+        <h2 className="text-sm font-semibold text-foreground mr-auto">Net Worth Statement</h2>
+        <Select value={currency} onValueChange={(value) => setCurrency(value as Currency)}>
+          <SelectTrigger className="h-8 w-[110px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {enabledCurrencies.map((code) => (
+              <SelectItem key={code} value={code}>
+                {code}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button size="sm" onClick={() => window.print()} className="gap-2">
+          <Printer className="h-4 w-4" />
+          Print / Save as PDF
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onClose} className="gap-1">
+          <X className="h-4 w-4" />
+          Close
+        </Button>
+      </div>
+
+      <article className="mx-auto my-6 w-[210mm] max-w-full bg-white p-[16mm] text-[11pt] leading-snug text-neutral-900 shadow-lg print:m-0 print:w-auto print:p-0 print:shadow-none">
+        <header className="flex items-start justify-between gap-4 border-b-2 border-neutral-800 pb-3">
+          <div>
+            <h1 className="text-2xl font-bold">Statement of Net Worth</h1>
+            <p className="mt-1 text-base">{holderName}</p>
+          </div>
+          <div className="text-right text-sm">
+            <p>As of {format(statement.asOf, 'PPP')}</p>
+            <p className="text-neutral-500">Amounts in {statement.currency}</p>
+          </div>
+        </header>
+
+        <table className="mt-4 w-full border-collapse text-sm">
+          <thead>
+            <tr className="text-xs uppercase tracking-wide text-neutral-500">
+              <th className="text-left font-medium">Assets</th>
+              <th className="text-right font-medium">Held in</th>
+              <th className="w-[120px] text-right font-medium">Value</th>
+            </tr>
+          </thead>
+          <tbody>
+            {statement.assets.map((section) => (
+              <SectionRows key={section.category} section={section} currency={statement.currency} />
+            ))}
+            <TotalRow label="Total Assets" amount={statement.totalAssets} currency={statement.currency} />
+          </tbody>
+        </table>
+
+        <table className="mt-6 w-full border-collapse text-sm">
+          <thead>
+            <tr className="text-xs uppercase tracking-wide text-neutral-500">
+              <th className="text-left font-medium">Liabilities</th>
+              <th className="text-right font-medium">Held in</th>
+              <th className="w-[120px] text-right font-medium">Value</th>
+            </tr>
+          </thead>
+          <tbody>
+            {statement.liabilities.map((section) => (
+              <SectionRows key={section.category} section={section} currency={statement.currency} />
+            ))}
+            <TotalRow label="Total Liabilities" amount={statement.totalLiabilities} currency={statement.currency} />
+          </tbody>
+        </table>
+
+        <div className="mt-6 flex items-baseline justify-between border-y-2 border-neutral-800 py-2 text-lg font-bold">
+          <span>Net Worth</span>
+          <span className="tabular-nums">{money(statement.netWorth, statement.currency)}</span>
+        </div>
+
+        {statement.rates.length > 0 && (
+          <section className="mt-6 break-inside-avoid">
+            <h3 className="text-sm font-semibold">Exchange rates used</h3>
+            <table className="mt-1 w-full border-collapse text-sm">
+              <tbody>
+                {statement.rates.map((rate) => (
+                  <tr key={rate.currency}>
+                    <td className="py-0.5">
+                      1 {rate.currency} = {rate.rate.toLocaleString('en-US', { maximumSignificantDigits: 6 })}{' '}
+                      {statement.currency}
+                    </td>
+                    <td className="py-0.5 text-right text-neutral-500">
+                      {rate.effectiveDate ? `recorded ${format(rate.effectiveDate, 'PPP')}` : ''}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        )}
+
+        {statement.history.length >= 2 && (
+          <section className="mt-6 break-inside-avoid">
+            <h3 className="mb-2 text-sm font-semibold">Net worth over time</h3>
+            <StatementChart statement={statement} />
+          </section>
+        )}
+
+        <footer className="mt-8 space-y-6 text-xs text-neutral-500 break-inside-avoid">
+          <p>
+            Prepared on {format(preparedAt, 'PPpp')} from balances recorded by the account holder. Values in other
+            currencies are converted at the rates listed above.
+            {isShare && ` Jointly held accounts are included at ${holderName}'s share.`}
+          </p>
+          <div className="grid grid-cols-2 gap-8 pt-6 text-neutral-700">
+            <p className="border-t border-neutral-400 pt-1">Signature</p>
+            <p className="border-t border-neutral-400 pt-1">Date</p>
+          </div>
+        </footer>
+      </article>
+    </div>,
+    document.body
+  );
+};
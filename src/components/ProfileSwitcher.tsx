@@ -0,0 +1,199 @@
+import { useState, useEffect } from 'react';
+import { Profile } from '@/types/profile';
+import { UseProfilesReturn } from '@/hooks/useProfiles';
+import { canDeleteProfile } from '@/lib/profiles';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Check, ChevronDown, FolderOpen, Plus, Settings2, Trash2 } from 'lucide-react';
+
+interface ProfileSwitcherProps {
+  profiles: UseProfilesReturn;
+}
+
+interface ManageProfilesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  profiles: UseProfilesReturn;
+}
+
+const ManageProfilesDialog = ({ open, onOpenChange, profiles }: ManageProfilesDialogProps) => {
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [profileToDelete, setProfileToDelete] = useState<Profile | null>(null);
+
+  useEffect(() => {
+    setNames(Object.fromEntries(profiles.profiles.map((p) => [p.id, p.name])));
+  }, [profiles.profiles, open]);
+
+  const commitName = (profile: Profile) => {
+    const name = names[profile.id]?.trim();
+    if (name && name !== profile.name) profiles.renameProfile(profile.id, name);
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-[440px]">
+          <DialogHeader>
+            <DialogTitle>Profiles</DialogTitle>
+            <DialogDescription>
+              Each profile has its own accounts, rates, history and retirement inputs, and is exported and imported on
+              its own.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 py-2">
+            {profiles.profiles.map((profile) => (
+              <div key={profile.id} className="flex items-center gap-2">
+                <Input
+                  value={names[profile.id] ?? profile.name}
+                  onChange={(e) => setNames((prev) => ({ ...prev, [profile.id]: e.target.value }))}
+                  onBlur={() => commitName(profile)}
+                  onKeyDown={(e) => e.key === 'Enter' && commitName(profile)}
+                  aria-label="Profile name"
+                  className="h-9"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setProfileToDelete(profile)}
+                  disabled={!canDeleteProfile(profile.id)}
+                  className="h-9 w-9 shrink-0 text-destructive"
+                  title={canDeleteProfile(profile.id) ? `Delete ${profile.name}` : 'The original profile cannot be deleted'}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <DialogFooter>
+            <Button onClick={() => onOpenChange(false)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={profileToDelete !== null} onOpenChange={(isOpen) => !isOpen && setProfileToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{profileToDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All accounts, rates, history and retirement inputs in this profile are removed. Export it first if you
+              may need it again. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => profileToDelete && profiles.deleteProfile(profileToDelete.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete Profile
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export const ProfileSwitcher = ({ profiles }: ProfileSwitcherProps) => {
+  const [newDialogOpen, setNewDialogOpen] = useState(false);
+  const [manageDialogOpen, setManageDialogOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    profiles.addProfile(newName);
+    setNewName('');
+    setNewDialogOpen(false);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2 max-w-[200px]">
+            <FolderOpen className="h-4 w-4 shrink-0" />
+            <span className="truncate">{profiles.activeProfile.name}</span>
+            <ChevronDown className="h-3 w-3 shrink-0 opacity-60" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuLabel>Profiles</DropdownMenuLabel>
+          {profiles.profiles.map((profile) => (
+            <DropdownMenuItem key={profile.id} onSelect={() => profiles.switchProfile(profile.id)} className="gap-2">
+              <Check className={`h-4 w-4 ${profile.id === profiles.activeProfile.id ? 'opacity-100' : 'opacity-0'}`} />
+              <span className="truncate">{profile.name}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setNewDialogOpen(true)} className="gap-2">
+            <Plus className="h-4 w-4" />
+            New Profile
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setManageDialogOpen(true)} className="gap-2">
+            <Settings2 className="h-4 w-4" />
+            Manage Profiles
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={newDialogOpen} onOpenChange={setNewDialogOpen}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>New Profile</DialogTitle>
+            <DialogDescription>Starts empty. You can import a backup into it afterwards.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <Label htmlFor="profile-name">Name</Label>
+            <Input
+              id="profile-name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              placeholder="e.g., Small business"
+              autoFocus
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNewDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={!newName.trim()}>
+              Create Profile
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ManageProfilesDialog open={manageDialogOpen} onOpenChange={setManageDialogOpen} profiles={profiles} />
+    </>
+  );
+};
@@ -8,7 +8,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { RetirementInputs, RetirementProjection, RetirementStrategy } from '@/types/retirement';
 import { Currency } from '@/types/finance';
 import { calculateAllStrategies } from '@/lib/retirementCalculations';
-import { formatCurrency, currencySymbols } from '@/lib/currency';
+import { DEFAULT_BASE_CURRENCY, formatCurrency, getCurrencySymbol } from '@/lib/currency';
 import { useToast } from '@/hooks/use-toast';
 import { 
   TrendingUp, 
@@ -27,17 +27,19 @@ import {
 } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, ResponsiveContainer, Legend } from 'recharts';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 
 interface RetirementPlanningProps {
-  liquidNetWorthEUR: number;
-  liquidAssetsEUR: number;
-  retirementAssetsEUR: number;
+  liquidNetWorth: number; // All amounts are in the base currency
+  liquidAssets: number;
+  retirementAssets: number;
   monthlyExpenses: number;
   onInputsChange: (inputs: RetirementInputs) => void;
   savedInputs?: RetirementInputs;
-  displayCurrency?: Currency;
+  currency?: Currency;
+  ownerName?: string; // Set when planning for one household member's share
 }
 
 const strategyConfig: Record<RetirementStrategy, { 
@@ -79,19 +81,20 @@ const strategyConfig: Record<RetirementStrategy, {
 };
 
 export const RetirementPlanning = ({ 
-  liquidNetWorthEUR, 
-  liquidAssetsEUR,
-  retirementAssetsEUR,
+  liquidNetWorth, 
+  liquidAssets,
+  retirementAssets,
   monthlyExpenses,
   onInputsChange,
   savedInputs,
-  displayCurrency = 'EUR',
+  currency = DEFAULT_BASE_CURRENCY,
+  ownerName,
 }: RetirementPlanningProps) => {
   const { toast } = useToast();
   const [inputs, setInputs] = useState<RetirementInputs>(savedInputs || {
     currentAge: 30,
     retirementAge: 65,
-    currentSavings: liquidNetWorthEUR,
+    currentSavings: liquidNetWorth,
     monthlyExpenses: monthlyExpenses || 3000,
     annualIncome: 60000,
     savingsRate: 30,
@@ -101,6 +104,7 @@ export const RetirementPlanning = ({
     estimatedSocialSecurity: 1500,
     partTimeIncome: 1500,
     desiredLifestyle: 'moderate',
+    currency,
   });
 
   const [projectionMode, setProjectionMode] = useState<'all' | 'retirement'>('all');
@@ -114,7 +118,7 @@ export const RetirementPlanning = ({
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
 
   const handleCalculate = () => {
-    const updatedInputs = { ...inputs, currentSavings: liquidNetWorthEUR };
+    const updatedInputs = { ...inputs, currentSavings: liquidNetWorth, currency };
     setInputs(updatedInputs);
     const results = calculateAllStrategies(updatedInputs);
     setProjections(results);
@@ -142,8 +146,8 @@ export const RetirementPlanning = ({
   // Calculate portfolio projection with three scenarios
   const calculateProjection = () => {
     const currentPortfolioValue = projectionMode === 'all' 
-      ? liquidAssetsEUR + retirementAssetsEUR 
-      : retirementAssetsEUR;
+      ? liquidAssets + retirementAssets 
+      : retirementAssets;
     
     const monthlyContribution = (inputs.annualIncome * inputs.savingsRate / 100) / 12;
     const yearsToRetirement = Math.max(0, inputs.retirementAge - inputs.currentAge);
@@ -237,6 +241,7 @@ export const RetirementPlanning = ({
       <div className="flex items-center gap-3 mb-6">
         <Calculator className="h-6 w-6 text-primary" />
         <h2 className="text-2xl font-bold text-foreground">Retirement Planning Module</h2>
+        {ownerName && <Badge variant="secondary">{ownerName}'s share</Badge>}
       </div>
 
       {/* Portfolio Projection Chart */}
@@ -291,7 +296,7 @@ export const RetirementPlanning = ({
               stroke="hsl(var(--muted-foreground))"
               tick={{ fontSize: 12 }}
               tickFormatter={(value) => {
-                const symbol = currencySymbols[displayCurrency];
+                const symbol = getCurrencySymbol(currency);
                 if (value >= 1000000000) return `${symbol}${(value / 1000000000).toFixed(1)}B`;
                 if (value >= 1000000) return `${symbol}${(value / 1000000).toFixed(1)}M`;
                 if (value >= 1000) return `${symbol}${(value / 1000).toFixed(0)}K`;
@@ -306,7 +311,7 @@ export const RetirementPlanning = ({
                 borderRadius: '8px',
               }}
               formatter={(value: number, name: string) => [
-                formatCurrency(value, displayCurrency), 
+                formatCurrency(value, currency), 
                 name === 'pessimistic' ? `Pessimistic (${pessimisticRate}%)` :
                 name === 'realistic' ? `Realistic (${inputs.expectedReturn}%)` : 
                 `Optimistic (${optimisticRate}%)`
@@ -366,7 +371,7 @@ export const RetirementPlanning = ({
               <span className="font-semibold text-red-900 dark:text-red-100 text-sm">Pessimistic ({pessimisticRate}%)</span>
             </div>
             <p className="text-red-700 dark:text-red-300 text-xs font-medium">
-              At Retirement: {formatCurrency(projectionData[projectionData.length - 1]?.pessimistic || 0, displayCurrency)}
+              At Retirement: {formatCurrency(projectionData[projectionData.length - 1]?.pessimistic || 0, currency)}
             </p>
             <p className="text-red-600 dark:text-red-400 text-xs mt-1">Bear market conditions</p>
           </div>
@@ -378,7 +383,7 @@ export const RetirementPlanning = ({
               <span className="font-semibold text-foreground text-sm">Realistic ({inputs.expectedReturn}%)</span>
             </div>
             <p className="text-foreground text-xs font-medium">
-              At Retirement: {formatCurrency(projectionData[projectionData.length - 1]?.realistic || 0, displayCurrency)}
+              At Retirement: {formatCurrency(projectionData[projectionData.length - 1]?.realistic || 0, currency)}
             </p>
             <p className="text-muted-foreground text-xs mt-1">Conservative long-term average</p>
           </div>
@@ -390,15 +395,15 @@ export const RetirementPlanning = ({
               <span className="font-semibold text-green-900 dark:text-green-100 text-sm">Optimistic ({optimisticRate}%)</span>
             </div>
             <p className="text-green-700 dark:text-green-300 text-xs font-medium">
-              At Retirement: {formatCurrency(projectionData[projectionData.length - 1]?.optimistic || 0, displayCurrency)}
+              At Retirement: {formatCurrency(projectionData[projectionData.length - 1]?.optimistic || 0, currency)}
             </p>
             <p className="text-green-600 dark:text-green-400 text-xs mt-1">Strong bull market conditions</p>
           </div>
         </div>
         
         <div className="mt-3 text-xs text-muted-foreground space-y-1">
-          <p>• Starting Portfolio: {formatCurrency(projectionData[0]?.realistic || 0, displayCurrency)}</p>
-          <p>• Monthly Contribution: {formatCurrency((inputs.annualIncome * inputs.savingsRate / 100) / 12, displayCurrency)}</p>
+          <p>• Starting Portfolio: {formatCurrency(projectionData[0]?.realistic || 0, currency)}</p>
+          <p>• Monthly Contribution: {formatCurrency((inputs.annualIncome * inputs.savingsRate / 100) / 12, currency)}</p>
         </div>
       </Card>
 
@@ -427,17 +432,17 @@ export const RetirementPlanning = ({
               />
             </div>
             <div>
-              <Label>Current Savings ({displayCurrency})</Label>
+              <Label>Current Savings ({currency})</Label>
               <Input
                 type="number"
-                value={liquidNetWorthEUR.toFixed(0)}
+                value={liquidNetWorth.toFixed(0)}
                 disabled
                 className="bg-muted"
               />
               <p className="text-xs text-muted-foreground mt-1">Auto-filled from liquid net worth</p>
             </div>
             <div>
-              <Label>Monthly Expenses ({displayCurrency})</Label>
+              <Label>Monthly Expenses ({currency})</Label>
               <Input
                 type="number"
                 value={inputs.monthlyExpenses}
@@ -445,7 +450,7 @@ export const RetirementPlanning = ({
               />
             </div>
             <div>
-              <Label>Annual Income ({displayCurrency})</Label>
+              <Label>Annual Income ({currency})</Label>
               <Input
                 type="number"
                 value={inputs.annualIncome}
@@ -506,7 +511,7 @@ export const RetirementPlanning = ({
               />
             </div>
             <div>
-              <Label>Part-Time Income ({displayCurrency}/month)</Label>
+              <Label>Part-Time Income ({currency}/month)</Label>
               <Input
                 type="number"
                 value={inputs.partTimeIncome}
@@ -523,7 +528,7 @@ export const RetirementPlanning = ({
               />
             </div>
             <div>
-              <Label>Est. Social Security ({displayCurrency}/month)</Label>
+              <Label>Est. Social Security ({currency}/month)</Label>
               <Input
                 type="number"
                 value={inputs.estimatedSocialSecurity}
@@ -614,7 +619,7 @@ export const RetirementPlanning = ({
                           </div>
                         </TableCell>
                         <TableCell className="text-right font-medium">
-                          {formatCurrency(projection.targetAmount, displayCurrency)}
+                          {formatCurrency(projection.targetAmount, currency)}
                         </TableCell>
                         <TableCell className="text-right">
                           <span className="font-semibold text-primary">
@@ -625,10 +630,10 @@ export const RetirementPlanning = ({
                           {projection.retirementAge.toFixed(0)}
                         </TableCell>
                         <TableCell className="text-right">
-                          {formatCurrency(projection.monthlyInvestment, displayCurrency)}
+                          {formatCurrency(projection.monthlyInvestment, currency)}
                         </TableCell>
                         <TableCell className="text-right font-semibold text-primary">
-                          {formatCurrency(projection.safeWithdrawalAmount, displayCurrency)}
+                          {formatCurrency(projection.safeWithdrawalAmount, currency)}
                         </TableCell>
                         <TableCell className="text-center">
                           {isFeasible ? (
@@ -0,0 +1,144 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getCsvDelimiter, SPREADSHEET_TABLE_LABELS, SpreadsheetFormat, SpreadsheetTable } from '@/lib/spreadsheetExport';
+import { Download } from 'lucide-react';
+
+interface SpreadsheetExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  displayCurrency: string;
+  onExport: (format: SpreadsheetFormat, table: SpreadsheetTable, locale: string) => void;
+}
+
+// Number and date conventions offered for CSV files, besides the browser's own
+const CSV_LOCALES: { value: string; label: string }[] = [
+  { value: 'en-US', label: 'English (US)' },
+  { value: 'en-GB', label: 'English (UK)' },
+  { value: 'de-DE', label: 'German' },
+  { value: 'fr-FR', label: 'French' },
+  { value: 'es-ES', label: 'Spanish' },
+  { value: 'it-IT', label: 'Italian' },
+  { value: 'nl-NL', label: 'Dutch' },
+  { value: 'sv-SE', label: 'Swedish' },
+  { value: 'ja-JP', label: 'Japanese' },
+  { value: 'en-PH', label: 'English (Philippines)' },
+];
+
+const browserLocale = typeof navigator !== 'undefined' ? navigator.language : 'en-US';
+
+const describeLocale = (locale: string) => {
+  const amount = new Intl.NumberFormat(locale, { useGrouping: false, minimumFractionDigits: 2 }).format(1234.5);
+  const date = new Intl.DateTimeFormat(locale, { year: 'numeric', month: '2-digit', day: '2-digit' }).format(
+    new Date(2024, 11, 31)
+  );
+  const delimiter = getCsvDelimiter(locale) === ';' ? 'semicolons' : 'commas';
+  return `Amounts like ${amount}, dates like ${date}, fields separated by ${delimiter}.`;
+};
+
+export const SpreadsheetExportDialog = ({ open, onOpenChange, displayCurrency, onExport }: SpreadsheetExportDialogProps) => {
+  const [format, setFormat] = useState<SpreadsheetFormat>('xlsx');
+  const [table, setTable] = useState<SpreadsheetTable>('accounts');
+  const [locale, setLocale] = useState(browserLocale);
+
+  useEffect(() => {
+    if (open) setTable('accounts');
+  }, [open]);
+
+  const handleExport = () => {
+    onExport(format, table, locale);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>Export Spreadsheet</DialogTitle>
+          <DialogDescription>
+            Download the account list and snapshot history as tables, with values in {displayCurrency}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as SpreadsheetFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="xlsx">Excel workbook (.xlsx)</SelectItem>
+                <SelectItem value="csv">CSV (.csv)</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {format === 'xlsx'
+                ? 'One sheet each for accounts, history and history by account. Numbers and dates follow the settings of whoever opens it.'
+                : 'One table per file.'}
+            </p>
+          </div>
+
+          {format === 'csv' && (
+            <>
+              <div className="space-y-2">
+                <Label>Table</Label>
+                <Select value={table} onValueChange={(value) => setTable(value as SpreadsheetTable)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SPREADSHEET_TABLE_LABELS) as SpreadsheetTable[]).map((key) => (
+                      <SelectItem key={key} value={key}>
+                        {SPREADSHEET_TABLE_LABELS[key]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Number and date format</Label>
+                <Select value={locale} onValueChange={setLocale}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {!CSV_LOCALES.some((option) => option.value === browserLocale) && (
+                      <SelectItem value={browserLocale}>This browser ({browserLocale})</SelectItem>
+                    )}
+                    {CSV_LOCALES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{describeLocale(locale)}</p>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} className="gap-2">
+            <Download className="h-4 w-4" />
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
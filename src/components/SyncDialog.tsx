@@ -0,0 +1,226 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SyncBackendKind, SyncConfig } from '@/types/sync';
+import { SYNC_STATUS_LABELS, testSyncConnection } from '@/lib/remoteSync';
+import { UseRemoteSyncReturn } from '@/hooks/useRemoteSync';
+import { AlertCircle, Loader2, RefreshCw } from 'lucide-react';
+
+interface SyncDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sync: UseRemoteSyncReturn;
+  mergeUnavailableReason: string | null; // For the open conflict, if merging cannot be offered
+}
+
+const emptyConfig: SyncConfig = { enabled: true, kind: 'rest', url: '', username: '', password: '' };
+
+export const SyncDialog = ({ open, onOpenChange, sync, mergeUnavailableReason }: SyncDialogProps) => {
+  const [form, setForm] = useState<SyncConfig>(emptyConfig);
+  const [testResult, setTestResult] = useState<{ ok: boolean; message: string } | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+
+  useEffect(() => {
+    setForm(sync.config ?? emptyConfig);
+    setTestResult(null);
+  }, [open, sync.config]);
+
+  const update = (changes: Partial<SyncConfig>) => {
+    setForm((prev) => ({ ...prev, ...changes }));
+    setTestResult(null);
+  };
+
+  const isValidUrl = /^https?:\/\/\S+$/.test(form.url.trim());
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    try {
+      setTestResult({ ok: true, message: await testSyncConnection({ ...form, url: form.url.trim() }) });
+    } catch (err) {
+      setTestResult({ ok: false, message: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleSave = () => {
+    sync.saveConfig({ ...form, url: form.url.trim(), username: form.username?.trim() || undefined });
+    onOpenChange(false);
+  };
+
+  const { syncState, status, error, conflict } = sync;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Sync</DialogTitle>
+          <DialogDescription>
+            Keep this profile in step with a server you run yourself, over WebDAV or a simple REST endpoint. The app
+            keeps working offline and catches up when the server is back.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {sync.config && (
+            <Card className="p-3 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium text-foreground">{SYNC_STATUS_LABELS[status]}</p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={sync.syncNow}
+                  disabled={!sync.config.enabled || status === 'syncing' || conflict !== null}
+                  className="gap-1 h-7"
+                >
+                  <RefreshCw className={`h-3 w-3 ${status === 'syncing' ? 'animate-spin' : ''}`} />
+                  Sync Now
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {syncState.revision !== null
+                  ? `Revision ${syncState.revision}${
+                      syncState.syncedAt ? ` · last synced ${format(new Date(syncState.syncedAt), 'PPp')}` : ''
+                    }`
+                  : 'Not synced yet'}
+              </p>
+              {error && <p className="text-xs text-destructive">{error}</p>}
+            </Card>
+          )}
+
+          {conflict && (
+            <Card className="p-3 space-y-2 bg-yellow-50 dark:bg-yellow-950/20 border-yellow-200 dark:border-yellow-800">
+              <div className="flex items-start gap-2">
+                <AlertCircle className="h-4 w-4 text-yellow-600 dark:text-yellow-400 mt-0.5" />
+                <p className="text-sm text-yellow-800 dark:text-yellow-200">
+                  This device and the server (revision {conflict.remote.document.revision}, saved{' '}
+                  {format(new Date(conflict.remote.document.updatedAt), 'PPp')}) both changed since the last sync.
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" variant="outline" onClick={() => sync.resolveConflict('local')}>
+                  Keep This Device
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => sync.resolveConflict('remote')}>
+                  Use Server Copy
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => sync.resolveConflict('merge')}
+                  disabled={mergeUnavailableReason !== null}
+                  title={mergeUnavailableReason ?? 'Combine both; where an account differs, the one updated last wins'}
+                >
+                  Merge Both
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">Whichever you choose can be undone on this device.</p>
+            </Card>
+          )}
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="sync-enabled">Sync this profile</Label>
+            <Switch id="sync-enabled" checked={form.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+          </div>
+
+          <div className="grid grid-cols-[120px_1fr] gap-2">
+            <div className="space-y-1">
+              <Label>Server type</Label>
+              <Select value={form.kind} onValueChange={(kind) => update({ kind: kind as SyncBackendKind })}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="rest">REST</SelectItem>
+                  <SelectItem value="webdav">WebDAV</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sync-url">{form.kind === 'webdav' ? 'File URL' : 'Endpoint URL'}</Label>
+              <Input
+                id="sync-url"
+                className="h-9"
+                placeholder={
+                  form.kind === 'webdav'
+                    ? 'https://cloud.example.com/remote.php/dav/files/me/networth.json'
+                    : 'http://localhost:8787/sync/personal'
+                }
+                value={form.url}
+                onChange={(e) => update({ url: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="sync-username">User name</Label>
+              <Input
+                id="sync-username"
+                className="h-9"
+                autoComplete="username"
+                value={form.username ?? ''}
+                onChange={(e) => update({ username: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sync-password">Password</Label>
+              <Input
+                id="sync-password"
+                type="password"
+                className="h-9"
+                autoComplete="current-password"
+                value={form.password ?? ''}
+                onChange={(e) => update({ password: e.target.value })}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Credentials are stored with the profile in this browser, encrypted when the app lock is on.
+          </p>
+
+          {testResult && (
+            <p className={`text-xs ${testResult.ok ? 'text-green-600 dark:text-green-400' : 'text-destructive'}`}>
+              {testResult.message}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {sync.config && (
+            <Button
+              variant="ghost"
+              onClick={() => {
+                sync.saveConfig(null);
+                onOpenChange(false);
+              }}
+              className="sm:mr-auto"
+            >
+              Remove
+            </Button>
+          )}
+          <Button variant="outline" onClick={handleTest} disabled={!isValidUrl || isTesting} className="gap-2">
+            {isTesting && <Loader2 className="h-4 w-4 animate-spin" />}
+            Test Connection
+          </Button>
+          <Button onClick={handleSave} disabled={!isValidUrl}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
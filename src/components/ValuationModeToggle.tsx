@@ -0,0 +1,26 @@
+import { ValuationMode } from '@/types/history';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+
+interface ValuationModeToggleProps {
+  value: ValuationMode;
+  onChange: (mode: ValuationMode) => void;
+}
+
+export const ValuationModeToggle = ({ value, onChange }: ValuationModeToggleProps) => {
+  return (
+    <ToggleGroup
+      type="single"
+      size="sm"
+      variant="outline"
+      value={value}
+      onValueChange={(mode) => mode && onChange(mode as ValuationMode)}
+    >
+      <ToggleGroupItem value="historical" className="text-xs" title="Each snapshot at the rates in force when it was taken">
+        Historical rates
+      </ToggleGroupItem>
+      <ToggleGroupItem value="current" className="text-xs" title="Every snapshot revalued at today's rates">
+        Today's rates
+      </ToggleGroupItem>
+    </ToggleGroup>
+  );
+};
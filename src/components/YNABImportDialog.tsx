@@ -7,7 +7,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Account, AccountCategory, AccessType, Currency } from '@/types/finance';
-import { YNABParsedAccount, stringSimilarity } from '@/lib/ynabParser';
+import { YNABParsedAccount, hasCurrencyMismatch, stringSimilarity } from '@/lib/ynabParser';
 import { ACCOUNT_CATEGORY_META } from '@/lib/accountMetadata';
 import { Check, AlertTriangle, Plus, FileSpreadsheet, ArrowRight } from 'lucide-react';
 
@@ -31,7 +31,9 @@ interface YNABImportDialogProps {
   parsedAccounts: YNABParsedAccount[];
   existingAccounts: Account[];
   defaultCurrency: Currency;
-  format: 'register' | 'networth';
+  availableCurrencies: Currency[];
+  title: string;
+  sourceLabel: string; // Which report or layout the accounts were read from
   onImport: (mappings: AccountMapping[]) => void;
 }
 
@@ -43,7 +45,9 @@ export const YNABImportDialog = ({
   parsedAccounts,
   existingAccounts,
   defaultCurrency,
-  format,
+  availableCurrencies,
+  title,
+  sourceLabel,
   onImport,
 }: YNABImportDialogProps) => {
   // Initialize mappings with smart matching
@@ -85,7 +89,7 @@ export const YNABImportDialog = ({
           include: true,
           category: ynabAccount.suggestedCategory,
           accessType: ynabAccount.suggestedAccessType,
-          currency: defaultCurrency,
+          currency: ynabAccount.currency ?? defaultCurrency,
         };
       }
 
@@ -96,7 +100,7 @@ export const YNABImportDialog = ({
         include: true,
         category: ynabAccount.suggestedCategory,
         accessType: ynabAccount.suggestedAccessType,
-        currency: defaultCurrency,
+        currency: ynabAccount.currency ?? defaultCurrency,
       };
     });
   }, [parsedAccounts, existingAccounts, defaultCurrency]);
@@ -140,6 +144,7 @@ export const YNABImportDialog = ({
       (m) => m.matchType === 'fuzzy' && !m.selectedMatchId
     ).length;
     const newAccounts = included.filter((m) => m.matchType === 'new').length;
+    const mismatched = included.filter((m) => hasCurrencyMismatch(m.ynabAccount, m.matchedAccount)).length;
 
     const totalAssets = included
       .filter((m) => m.category.includes('asset'))
@@ -154,16 +159,17 @@ export const YNABImportDialog = ({
       fuzzyConfirmed,
       fuzzyUnconfirmed,
       newAccounts,
+      mismatched,
       totalAssets,
       totalLiabilities,
       canImport: fuzzyUnconfirmed === 0 && included.length > 0,
     };
   }, [mappings]);
 
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number, currency: Currency = defaultCurrency) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: defaultCurrency,
+      currency,
       minimumFractionDigits: 2,
     }).format(amount);
   };
@@ -180,9 +186,9 @@ export const YNABImportDialog = ({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <FileSpreadsheet className="h-5 w-5" />
-            Import from YNAB
+            {title}
             <Badge variant="secondary" className="ml-2">
-              {format === 'networth' ? 'Net Worth Report' : 'Transaction Register'}
+              {sourceLabel}
             </Badge>
           </DialogTitle>
         </DialogHeader>
@@ -196,6 +202,15 @@ export const YNABImportDialog = ({
           </Alert>
         )}
 
+        {summary.mismatched > 0 && (
+          <Alert variant="default" className="border-yellow-500/50 bg-yellow-500/10">
+            <AlertTriangle className="h-4 w-4 text-yellow-500" />
+            <AlertDescription>
+              {summary.mismatched} account(s) are in another currency in the file than here and will be skipped.
+            </AlertDescription>
+          </Alert>
+        )}
+
         <ScrollArea className="flex-1 -mx-6 px-6">
           <div className="space-y-3">
             {mappings.map((mapping, index) => (
@@ -257,7 +272,7 @@ export const YNABImportDialog = ({
                         )}
                       </Badge>
                       <span className="text-sm font-semibold ml-auto">
-                        {formatCurrency(mapping.ynabAccount.balance)}
+                        {formatCurrency(mapping.ynabAccount.balance, mapping.ynabAccount.currency)}
                       </span>
                     </div>
 
@@ -266,6 +281,20 @@ export const YNABImportDialog = ({
                       <div className="flex items-center gap-2 text-sm text-muted-foreground">
                         <ArrowRight className="h-4 w-4" />
                         Will update: <span className="font-medium text-foreground">{mapping.matchedAccount.name}</span>
+                        {mapping.ynabAccount.quantities && (
+                          <span>({Object.keys(mapping.ynabAccount.quantities).length} positions)</span>
+                        )}
+                      </div>
+                    )}
+
+                    {/* Balance in another currency than the account it would update */}
+                    {hasCurrencyMismatch(mapping.ynabAccount, mapping.matchedAccount) && (
+                      <div className="flex items-center gap-2 text-sm text-yellow-700 dark:text-yellow-400">
+                        <AlertTriangle className="h-4 w-4 shrink-0" />
+                        <span>
+                          The file gives this balance in {mapping.ynabAccount.currency}, but {mapping.matchedAccount?.name}{' '}
+                          is kept in {mapping.matchedAccount?.currency}. It will be skipped.
+                        </span>
                       </div>
                     )}
 
@@ -359,10 +388,11 @@ export const YNABImportDialog = ({
                               <SelectValue />
                             </SelectTrigger>
                             <SelectContent>
-                              <SelectItem value="EUR">EUR</SelectItem>
-                              <SelectItem value="USD">USD</SelectItem>
-                              <SelectItem value="GBP">GBP</SelectItem>
-                              <SelectItem value="PHP">PHP</SelectItem>
+                              {availableCurrencies.map((code) => (
+                                <SelectItem key={code} value={code}>
+                                  {code}
+                                </SelectItem>
+                              ))}
                             </SelectContent>
                           </Select>
                         </div>
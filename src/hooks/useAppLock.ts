@@ -0,0 +1,127 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  changeAppLockPassphrase,
+  disableAppLock,
+  enableAppLock,
+  getAppLockSettings,
+  isAppUnlocked,
+  lockApp,
+  onAppLockChange,
+  setAutoLockMinutes as storeAutoLockMinutes,
+  unlockApp,
+} from '@/lib/appLock';
+
+export type AppLockStatus = 'loading' | 'locked' | 'unlocked' | 'error';
+
+export interface UseAppLockReturn {
+  status: AppLockStatus;
+  error: Error | null;
+  enabled: boolean;
+  autoLockMinutes: number;
+  unlock: (passphrase: string) => Promise<void>;
+  lock: () => void;
+  enable: (passphrase: string, autoLockMinutes: number) => Promise<void>;
+  disable: (passphrase: string) => Promise<void>;
+  changePassphrase: (currentPassphrase: string, nextPassphrase: string) => Promise<void>;
+  setAutoLockMinutes: (minutes: number) => Promise<void>;
+}
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+
+// Locks once nothing has happened on the page for the given time
+const useIdleTimeout = (minutes: number, active: boolean, onIdle: () => void) => {
+  useEffect(() => {
+    if (!active || minutes <= 0) return;
+    let timer = window.setTimeout(onIdle, minutes * 60_000);
+    const reset = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(onIdle, minutes * 60_000);
+    };
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, reset, { passive: true }));
+    return () => {
+      window.clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, reset));
+    };
+  }, [minutes, active, onIdle]);
+};
+
+export const useAppLock = (): UseAppLockReturn => {
+  const [status, setStatus] = useState<AppLockStatus>('loading');
+  const [error, setError] = useState<Error | null>(null);
+  const [enabled, setEnabled] = useState(false);
+  const [autoLockMinutes, setAutoLockMinutesState] = useState(0);
+
+  useEffect(() => {
+    getAppLockSettings()
+      .then((settings) => {
+        setEnabled(settings.enabled);
+        setAutoLockMinutesState(settings.autoLockMinutes);
+        setStatus(settings.enabled ? 'locked' : 'unlocked');
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err : new Error(String(err)));
+        setStatus('error');
+      });
+  }, []);
+
+  // Another tab locked the app, or turned the lock on, off or to a new passphrase
+  useEffect(
+    () =>
+      onAppLockChange((settings) => {
+        setEnabled(settings.enabled);
+        setAutoLockMinutesState(settings.autoLockMinutes);
+        setStatus((current) =>
+          current === 'loading' || current === 'error' ? current : isAppUnlocked() ? 'unlocked' : 'locked'
+        );
+      }),
+    []
+  );
+
+  const lock = useCallback(() => {
+    lockApp();
+    setStatus('locked');
+  }, []);
+
+  // Idle is judged per tab, so only this one locks
+  const lockWhenIdle = useCallback(() => {
+    lockApp(false);
+    setStatus('locked');
+  }, []);
+
+  useIdleTimeout(autoLockMinutes, enabled && status === 'unlocked', lockWhenIdle);
+
+  const unlock = async (passphrase: string) => {
+    await unlockApp(passphrase);
+    setStatus('unlocked');
+  };
+
+  const enable = async (passphrase: string, minutes: number) => {
+    await enableAppLock(passphrase, minutes);
+    setEnabled(true);
+    setAutoLockMinutesState(minutes);
+  };
+
+  const disable = async (passphrase: string) => {
+    await disableAppLock(passphrase);
+    setEnabled(false);
+    setAutoLockMinutesState(0);
+  };
+
+  const setAutoLockMinutes = async (minutes: number) => {
+    await storeAutoLockMinutes(minutes);
+    setAutoLockMinutesState(minutes);
+  };
+
+  return {
+    status,
+    error,
+    enabled,
+    autoLockMinutes,
+    unlock,
+    lock,
+    enable,
+    disable,
+    changePassphrase: changeAppLockPassphrase,
+    setAutoLockMinutes,
+  };
+};
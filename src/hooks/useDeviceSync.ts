@@ -0,0 +1,135 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { DeviceSyncConfig, DeviceSyncState, SyncStatus } from '@/types/sync';
+import { SyncedChanges, SyncedData } from '@/lib/crdt';
+import {
+  checkPairing,
+  compactBatches,
+  createDeviceId,
+  createDeviceSyncState,
+  createGroupSecrets,
+  downloadChanges,
+  parsePairingCode,
+  recordLocalChanges,
+  uploadPending,
+} from '@/lib/deviceSync';
+import { SyncOfflineError } from '@/lib/syncTransport';
+import { ProfileData, useSetting } from '@/hooks/useProfileData';
+
+const SYNC_INTERVAL_MS = 30 * 1000;
+const LOCAL_CHANGE_DELAY_MS = 3 * 1000;
+
+export type RelaySettings = Pick<DeviceSyncConfig, 'relayUrl' | 'username' | 'password' | 'deviceName'>;
+
+interface UseDeviceSyncOptions {
+  profileData: ProfileData;
+  appLockEnabled: boolean; // The group key is stored with the profile's settings, so it must be sealed
+  data: SyncedData; // The profile's data as it is right now
+  onRemoteChanges: (changes: SyncedChanges, from: string[]) => void; // Applies what other devices changed
+}
+
+// Keeps the profile in step with other devices in an end-to-end encrypted sync group. Changes are recorded as
+// operations that merge without conflicts, so devices can edit at the same time and while offline.
+// Syncing waits while the app lock is off, and a group can only be started or joined with it on.
+export const useDeviceSync = ({ profileData, appLockEnabled, data, onRemoteChanges }: UseDeviceSyncOptions) => {
+  const [config, setConfig] = useSetting<DeviceSyncConfig | null>(profileData, 'device-sync', null);
+  const [syncState, setSyncState] = useSetting<DeviceSyncState | null>(profileData, 'device-sync-state', null);
+  const active = !!config?.enabled && appLockEnabled;
+  const [status, setStatus] = useState<SyncStatus>(active ? 'idle' : 'disabled');
+  const [error, setError] = useState<string | null>(null);
+
+  // Read at the moment a sync runs, so timers never work from stale data. The state is also kept here as it changes,
+  // since a sync that finishes must build on the one before it, not on the last render.
+  const latest = useRef({ data, onRemoteChanges, setSyncState });
+  latest.current = { data, onRemoteChanges, setSyncState };
+  const stateRef = useRef(syncState);
+  const running = useRef(false);
+  // Bumped on joining or leaving a group, so a sync still running for the old one drops its results
+  const generation = useRef(0);
+
+  const saveState = useCallback((next: DeviceSyncState | null) => {
+    if (next === stateRef.current) return;
+    stateRef.current = next;
+    latest.current.setSyncState(next);
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    if (!active || !stateRef.current || running.current) return;
+    running.current = true;
+    setStatus('syncing');
+    const started = generation.current;
+    const isCurrent = () => generation.current === started;
+    try {
+      saveState(recordLocalChanges(stateRef.current, latest.current.data, config.deviceId));
+      const uploaded = await uploadPending(config, stateRef.current);
+      if (!isCurrent()) return;
+      saveState(uploaded);
+      const result = await downloadChanges(config, uploaded);
+      if (!isCurrent()) return;
+      saveState(result.state);
+      if (result.changes) latest.current.onRemoteChanges(result.changes, result.from);
+      const compacted = await compactBatches(config, result.state);
+      if (!isCurrent()) return;
+      saveState(compacted);
+      setError(null);
+      setStatus('synced');
+    } catch (err) {
+      setStatus(err instanceof SyncOfflineError ? 'offline' : 'error');
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      running.current = false;
+    }
+  }, [active, config, saveState]);
+
+  useEffect(() => {
+    if (!active) {
+      setStatus('disabled');
+      return;
+    }
+    syncNow();
+    const timer = window.setInterval(syncNow, SYNC_INTERVAL_MS);
+    window.addEventListener('online', syncNow);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener('online', syncNow);
+    };
+  }, [active, syncNow]);
+
+  useEffect(() => {
+    if (!active) return;
+    const timer = window.setTimeout(syncNow, LOCAL_CHANGE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [data, active, syncNow]);
+
+  const start = (settings: RelaySettings, secrets: Pick<DeviceSyncConfig, 'groupId' | 'key'>, joining: boolean) => {
+    if (!appLockEnabled) throw new Error('Turn on the app lock before syncing devices');
+    const next: DeviceSyncConfig = { enabled: true, ...settings, ...secrets, deviceId: createDeviceId() };
+    generation.current += 1;
+    saveState(createDeviceSyncState(latest.current.data, next.deviceId, joining));
+    setError(null);
+    setConfig(next);
+  };
+
+  // Starts a new group with this device's data
+  const createGroup = (settings: RelaySettings) => start(settings, createGroupSecrets(), false);
+
+  // Joins the group of another device; the relay must answer and the code must open what is already stored there
+  const joinGroup = async (settings: RelaySettings, pairingCode: string) => {
+    const secrets = parsePairingCode(pairingCode);
+    await checkPairing({ enabled: true, ...settings, ...secrets, deviceId: '' });
+    start(settings, secrets, true);
+  };
+
+  // Data stays as it is here and on the other devices; only the link between them goes
+  const leaveGroup = () => {
+    generation.current += 1;
+    saveState(null);
+    setError(null);
+    setConfig(null);
+  };
+
+  const setEnabled = (enabled: boolean) => config && setConfig({ ...config, enabled });
+
+  return { config, syncState, status, error, syncNow, createGroup, joinGroup, leaveGroup, setEnabled };
+};
+
+export type UseDeviceSyncReturn = ReturnType<typeof useDeviceSync>;
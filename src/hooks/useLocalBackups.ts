@@ -0,0 +1,47 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { BackupFile, LocalBackup, LocalBackupReason } from '@/types/backup';
+import { localBackupRepository } from '@/lib/repositories';
+import { createLocalBackup, isScheduledBackupDue, saveLocalBackup } from '@/lib/localBackups';
+import { reportStorageError } from '@/hooks/useProfileData';
+
+// How often an open tab checks whether the daily backup is due
+const SCHEDULE_CHECK_MS = 60 * 60 * 1000;
+
+// Keeps the profile's automatic backups: one a day while the app is open, plus any taken on request. getBackupData
+// is read at the moment a backup is taken, so a backup made right before a change holds the data from before it.
+export const useLocalBackups = (profileId: string, getBackupData: () => BackupFile) => {
+  const [backups, setBackups] = useState<LocalBackup[]>([]);
+  const getBackupDataRef = useRef(getBackupData);
+  getBackupDataRef.current = getBackupData;
+
+  const backUp = useCallback(
+    async (reason: LocalBackupReason): Promise<void> => {
+      const backup = createLocalBackup(getBackupDataRef.current(), reason);
+      try {
+        setBackups(await saveLocalBackup(profileId, backup));
+      } catch (error) {
+        reportStorageError(error);
+      }
+    },
+    [profileId]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    const runSchedule = async () => {
+      const stored = await localBackupRepository.getAll(profileId);
+      if (cancelled) return;
+      setBackups(stored);
+      if (isScheduledBackupDue(stored)) await backUp('scheduled');
+    };
+    const check = () => runSchedule().catch(reportStorageError);
+    check();
+    const timer = window.setInterval(check, SCHEDULE_CHECK_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, [profileId, backUp]);
+
+  return { backups, backUp };
+};
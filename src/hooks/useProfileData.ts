@@ -0,0 +1,101 @@
+import { useState, useEffect } from 'react';
+import { Account, ConversionRate } from '@/types/finance';
+import { HistorySnapshot } from '@/types/history';
+import {
+  accountRepository,
+  ProfileSettings,
+  rateRepository,
+  settingsRepository,
+  snapshotRepository,
+} from '@/lib/repositories';
+import { migrateLegacyStorage } from '@/lib/legacyStorage';
+import { onDatabaseBlocked } from '@/lib/db';
+import { toast } from '@/hooks/use-toast';
+
+export interface ProfileData {
+  profileId: string;
+  accounts: Account[];
+  conversionRates: ConversionRate[];
+  history: HistorySnapshot[];
+  settings: ProfileSettings;
+}
+
+export type ProfileDataState =
+  | { status: 'loading' }
+  | { status: 'ready'; data: ProfileData }
+  | { status: 'error'; error: Error };
+
+// An older version of the app open in another tab holds the database until it is closed or reloaded
+let blockedToast: ReturnType<typeof toast> | null = null;
+onDatabaseBlocked((blocked) => {
+  if (blocked && !blockedToast) {
+    blockedToast = toast({
+      title: 'Close other tabs to continue',
+      description: 'This version needs to update the database, which another open tab is still using. Close or reload the other tabs of this app.',
+      variant: 'destructive',
+      duration: Infinity,
+    });
+  } else if (!blocked) {
+    blockedToast?.dismiss();
+    blockedToast = null;
+  }
+});
+
+// Failed writes are surfaced rather than only logged, so a full disk does not go unnoticed
+export const reportStorageError = (error: unknown) => {
+  console.error('Error saving to the database:', error);
+  const isQuota = error instanceof DOMException && error.name === 'QuotaExceededError';
+  toast({
+    title: 'Changes not saved',
+    description: isQuota
+      ? 'The browser storage is full. Export a backup and remove old snapshots to free up space.'
+      : error instanceof Error
+        ? error.message
+        : 'Unable to write to the browser database.',
+    variant: 'destructive',
+  });
+};
+
+const loadProfileData = async (profileId: string): Promise<ProfileData> => {
+  await migrateLegacyStorage(profileId);
+  const [accounts, conversionRates, history, settings] = await Promise.all([
+    accountRepository.getAll(profileId),
+    rateRepository.getAll(profileId),
+    snapshotRepository.getAll(profileId),
+    settingsRepository.getAll(profileId),
+  ]);
+  return { profileId, accounts, conversionRates, history, settings };
+};
+
+export const useProfileData = (profileId: string): ProfileDataState => {
+  const [state, setState] = useState<ProfileDataState>({ status: 'loading' });
+
+  useEffect(() => {
+    let cancelled = false;
+    setState({ status: 'loading' });
+    loadProfileData(profileId)
+      .then((data) => !cancelled && setState({ status: 'ready', data }))
+      .catch((error) => !cancelled && setState({ status: 'error', error: error instanceof Error ? error : new Error(String(error)) }));
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId]);
+
+  // Data still held for the previous profile is not handed out while the next one loads
+  return state.status === 'ready' && state.data.profileId !== profileId ? { status: 'loading' } : state;
+};
+
+// Drop-in for useLocalStorage backed by the profile's settings, seeded from the values loaded with the profile
+export function useSetting<T>(profileData: ProfileData, key: string, initialValue: T) {
+  const [value, setValue] = useState<T>(() =>
+    key in profileData.settings ? (profileData.settings[key] as T) : initialValue
+  );
+
+  const setSetting = (next: T | ((val: T) => T)) => {
+    const valueToStore = next instanceof Function ? next(value) : next;
+    setValue(valueToStore);
+    settingsRepository.set(profileData.profileId, key, valueToStore).catch(reportStorageError);
+  };
+
+  return [value, setSetting] as const;
+}
@@ -0,0 +1,45 @@
+import { Profile } from '@/types/profile';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { reportStorageError } from '@/hooks/useProfileData';
+import { deleteProfileData } from '@/lib/repositories';
+import { canDeleteProfile, clearProfileStorage, createProfile, DEFAULT_PROFILE_ID, defaultProfiles } from '@/lib/profiles';
+
+export interface UseProfilesReturn {
+  profiles: Profile[];
+  activeProfile: Profile;
+  switchProfile: (id: string) => void;
+  addProfile: (name: string) => Profile;
+  renameProfile: (id: string, name: string) => void;
+  deleteProfile: (id: string) => void;
+}
+
+export const useProfiles = (): UseProfilesReturn => {
+  const [profiles, setProfiles] = useLocalStorage<Profile[]>('networth-profiles', defaultProfiles);
+  const [activeProfileId, setActiveProfileId] = useLocalStorage<string>('networth-active-profile', DEFAULT_PROFILE_ID);
+
+  // An unknown active profile falls back to the first one
+  const activeProfile = profiles.find((p) => p.id === activeProfileId) ?? profiles[0] ?? defaultProfiles[0];
+
+  const switchProfile = (id: string) => setActiveProfileId(id);
+
+  const addProfile = (name: string) => {
+    const profile = createProfile(name);
+    setProfiles([...profiles, profile]);
+    setActiveProfileId(profile.id);
+    return profile;
+  };
+
+  const renameProfile = (id: string, name: string) => {
+    setProfiles(profiles.map((p) => (p.id === id ? { ...p, name: name.trim() } : p)));
+  };
+
+  const deleteProfile = (id: string) => {
+    if (!canDeleteProfile(id)) return;
+    clearProfileStorage(id);
+    deleteProfileData(id).catch(reportStorageError);
+    setProfiles(profiles.filter((p) => p.id !== id));
+    if (activeProfile.id === id) setActiveProfileId(DEFAULT_PROFILE_ID);
+  };
+
+  return { profiles, activeProfile, switchProfile, addProfile, renameProfile, deleteProfile };
+};
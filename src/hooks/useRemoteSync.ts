@@ -0,0 +1,129 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { BackupFile } from '@/types/backup';
+import { SyncConfig, SyncState, SyncStatus } from '@/types/sync';
+import { EMPTY_SYNC_STATE, pushOverRemote, syncWithRemote, SyncOutcome } from '@/lib/remoteSync';
+import { createSyncTransport, SyncOfflineError } from '@/lib/syncTransport';
+import { ProfileData, useSetting } from '@/hooks/useProfileData';
+
+// Periodic check for changes from other devices; also runs on reconnecting and shortly after every local edit
+const SYNC_INTERVAL_MS = 60 * 1000;
+const LOCAL_CHANGE_DELAY_MS = 5 * 1000;
+
+export type SyncConflict = Extract<SyncOutcome, { type: 'conflict' }>;
+export type ConflictResolution = 'local' | 'remote' | 'merge';
+
+interface UseRemoteSyncOptions {
+  profileData: ProfileData;
+  buildBackup: () => BackupFile; // The profile's data as it is right now
+  localVersion: unknown; // Changes identity with every local edit
+  onPulled: (data: BackupFile) => void; // Replaces the profile's data with the server copy
+  onMerge: (data: BackupFile) => void; // Merges the server copy in; throws when it cannot
+}
+
+// Keeps the profile in step with a self-hosted WebDAV or REST endpoint. Everything keeps working without it: failed
+// attempts only change the status, and the next successful one catches up.
+export const useRemoteSync = ({ profileData, buildBackup, localVersion, onPulled, onMerge }: UseRemoteSyncOptions) => {
+  const [config, setConfig] = useSetting<SyncConfig | null>(profileData, 'remote-sync', null);
+  const [syncState, setSyncState] = useSetting<SyncState>(profileData, 'remote-sync-state', EMPTY_SYNC_STATE);
+  const [status, setStatus] = useState<SyncStatus>(config?.enabled ? 'idle' : 'disabled');
+  const [error, setError] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<SyncConflict | null>(null);
+
+  // Read at the moment a sync runs, so timers never work from stale data
+  const latest = useRef({ buildBackup, onPulled, onMerge, syncState, setSyncState });
+  latest.current = { buildBackup, onPulled, onMerge, syncState, setSyncState };
+  const running = useRef(false);
+  const conflictRef = useRef(conflict);
+  conflictRef.current = conflict;
+
+  const handleFailure = useCallback((err: unknown) => {
+    setStatus(err instanceof SyncOfflineError ? 'offline' : 'error');
+    setError(err instanceof Error ? err.message : String(err));
+  }, []);
+
+  const applyOutcome = useCallback((outcome: SyncOutcome) => {
+    if (outcome.type === 'conflict') {
+      setConflict(outcome);
+      setStatus('conflict');
+      return;
+    }
+    if (outcome.type === 'pulled') latest.current.onPulled(outcome.data);
+    latest.current.setSyncState(outcome.state);
+    setConflict(null);
+    setError(null);
+    setStatus('synced');
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    // An open conflict waits for the user; syncing again would only find it again
+    if (!config?.enabled || running.current || conflictRef.current) return;
+    running.current = true;
+    setStatus('syncing');
+    try {
+      const { buildBackup: build, syncState: synced } = latest.current;
+      applyOutcome(await syncWithRemote(createSyncTransport(config), build(), synced));
+    } catch (err) {
+      handleFailure(err);
+    } finally {
+      running.current = false;
+    }
+  }, [config, applyOutcome, handleFailure]);
+
+  const resolveConflict = async (resolution: ConflictResolution) => {
+    if (!config || !conflict) return;
+    const agreed: SyncState = {
+      revision: conflict.remote.document.revision,
+      contentHash: conflict.remoteHash,
+      syncedAt: new Date(),
+    };
+    try {
+      if (resolution === 'local') {
+        setStatus('syncing');
+        applyOutcome(await pushOverRemote(createSyncTransport(config), latest.current.buildBackup(), conflict.remote));
+        return;
+      }
+      // Merged data differs from the server copy, so the next sync pushes it
+      if (resolution === 'merge') latest.current.onMerge(conflict.remoteData);
+      else latest.current.onPulled(conflict.remoteData);
+      setSyncState(agreed);
+      setConflict(null);
+      setError(null);
+      setStatus('synced');
+    } catch (err) {
+      handleFailure(err);
+    }
+  };
+
+  useEffect(() => {
+    if (!config?.enabled) {
+      setStatus('disabled');
+      return;
+    }
+    syncNow();
+    const timer = window.setInterval(syncNow, SYNC_INTERVAL_MS);
+    window.addEventListener('online', syncNow);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener('online', syncNow);
+    };
+  }, [config, syncNow]);
+
+  useEffect(() => {
+    if (!config?.enabled) return;
+    const timer = window.setTimeout(syncNow, LOCAL_CHANGE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [localVersion, config, syncNow]);
+
+  // A different server starts from scratch
+  const saveConfig = (next: SyncConfig | null) => {
+    if (next?.url !== config?.url || next?.kind !== config?.kind) setSyncState(EMPTY_SYNC_STATE);
+    setConflict(null);
+    setError(null);
+    setConfig(next);
+  };
+
+  return { config, saveConfig, syncState, status, error, conflict, syncNow, resolveConflict };
+};
+
+export type UseRemoteSyncReturn = ReturnType<typeof useRemoteSync>;
+
@@ -0,0 +1,89 @@
+import { useEffect, useRef, useCallback } from 'react';
+import { compareStamps, isSameStamp, openTabSyncChannel, SyncStamp, TAB_ID, TabSyncMessage } from '@/lib/tabSync';
+
+interface AppliedChange {
+  value: unknown;
+  // Set when this tab's own simultaneous edit lost; the winner is written again so the database ends up agreeing
+  persist: boolean;
+}
+
+// Keeps a slice-keyed state in step with other tabs showing the same profile. Local changes are broadcast as they
+// happen; accepted remote changes are handed to onRemoteChange along with the slices where they replaced an edit
+// made here at the same moment.
+export const useTabSync = <T extends object>(
+  profileId: string,
+  state: T,
+  onRemoteChange: (changes: Partial<T>, overwritten: (keyof T)[]) => void
+) => {
+  const channel = useRef<BroadcastChannel | null>(null);
+  const clock = useRef(0);
+  const stamps = useRef<Partial<Record<keyof T, SyncStamp>>>({});
+  const applied = useRef(new Map<keyof T, AppliedChange>());
+  const previousState = useRef(state);
+  const onRemoteChangeRef = useRef(onRemoteChange);
+  onRemoteChangeRef.current = onRemoteChange;
+
+  useEffect(() => {
+    const syncChannel = openTabSyncChannel();
+    if (!syncChannel) return;
+    channel.current = syncChannel;
+
+    syncChannel.onmessage = (event: MessageEvent<TabSyncMessage<T>>) => {
+      const message = event.data;
+      if (message.profileId !== profileId) return;
+      clock.current = Math.max(clock.current, message.stamp.clock);
+
+      const accepted: Partial<T> = {};
+      const overwritten: (keyof T)[] = [];
+      (Object.keys(message.changes) as (keyof T)[]).forEach((key) => {
+        const current = stamps.current[key];
+        // A later edit already applied here wins; the sender will take it when it arrives there
+        if (current && compareStamps(message.stamp, current) < 0) return;
+        const simultaneous = current !== undefined && !isSameStamp(message.bases[key], current);
+        if (simultaneous && current.tabId === TAB_ID) overwritten.push(key);
+        stamps.current[key] = message.stamp;
+        accepted[key] = message.changes[key];
+        applied.current.set(key, { value: message.changes[key], persist: simultaneous && current.tabId === TAB_ID });
+      });
+
+      if (Object.keys(accepted).length > 0) onRemoteChangeRef.current(accepted, overwritten);
+    };
+
+    return () => {
+      syncChannel.close();
+      channel.current = null;
+    };
+  }, [profileId]);
+
+  // Broadcast the slices changed here; values that just arrived from another tab are not sent back
+  useEffect(() => {
+    const previous = previousState.current;
+    previousState.current = state;
+
+    const changes: Partial<T> = {};
+    const bases: TabSyncMessage<T>['bases'] = {};
+    (Object.keys(state) as (keyof T)[]).forEach((key) => {
+      if (state[key] === previous[key] || applied.current.get(key)?.value === state[key]) return;
+      changes[key] = state[key];
+      bases[key] = stamps.current[key] ?? null;
+    });
+    if (Object.keys(changes).length === 0) return;
+
+    clock.current += 1;
+    const stamp: SyncStamp = { clock: clock.current, tabId: TAB_ID };
+    (Object.keys(changes) as (keyof T)[]).forEach((key) => {
+      stamps.current[key] = stamp;
+      applied.current.delete(key);
+    });
+    const message: TabSyncMessage<T> = { profileId, stamp, changes, bases };
+    channel.current?.postMessage(message);
+  }, [state, profileId]);
+
+  // Whether a slice value needs writing to the database by this tab; the tab that made a change saves it
+  const shouldPersist = useCallback((key: keyof T, value: unknown): boolean => {
+    const change = applied.current.get(key);
+    return !change || change.value !== value || change.persist;
+  }, []);
+
+  return { shouldPersist };
+};
@@ -12,8 +12,14 @@ interface UseUndoRedoReturn<T> {
   canUndo: boolean;
   canRedo: boolean;
   clearHistory: () => void;
+  rebase: (update: (state: T) => T) => void;
 }
 
+const isSame = <T>(a: T, b: T) => JSON.stringify(a) === JSON.stringify(b);
+
+// Drops entries identical to the one before them
+const dedupe = <T>(entries: T[]): T[] => entries.filter((entry, i) => i === 0 || !isSame(entry, entries[i - 1]));
+
 export function useUndoRedo<T>(
   initialState: T,
   options: UseUndoRedoOptions = {}
@@ -92,6 +98,23 @@ export function useUndoRedo<T>(
     setFuture([]);
   }, []);
 
+  // Applies a change made elsewhere (e.g. in another tab) to the current state and to every undo/redo entry, without
+  // adding an entry of its own, so undoing never reverts it. Entries it leaves unchanged from their neighbour go away.
+  const rebase = useCallback((update: (state: T) => T) => {
+    setStateInternal((currentState) => {
+      const nextState = update(currentState);
+      setPast((prevPast) => {
+        const newPast = dedupe(prevPast.map(update));
+        return newPast.length > 0 && isSame(newPast[newPast.length - 1], nextState) ? newPast.slice(0, -1) : newPast;
+      });
+      setFuture((prevFuture) => {
+        const newFuture = dedupe(prevFuture.map(update));
+        return newFuture.length > 0 && isSame(newFuture[0], nextState) ? newFuture.slice(1) : newFuture;
+      });
+      return nextState;
+    });
+  }, []);
+
   return {
     state,
     setState,
@@ -100,5 +123,6 @@ export function useUndoRedo<T>(
     canUndo: past.length > 0,
     canRedo: future.length > 0,
     clearHistory,
+    rebase,
   };
 }
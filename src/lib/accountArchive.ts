@@ -0,0 +1,27 @@
+import { Account } from '@/types/finance';
+import { recordBalance } from '@/lib/accountHistory';
+
+export const isArchived = (account: Account): boolean => !!account.closedAt;
+
+// Accounts that count towards current totals
+export const getActiveAccounts = (accounts: Account[]): Account[] => accounts.filter((acc) => !isArchived(acc));
+
+export const getArchivedAccounts = (accounts: Account[]): Account[] => accounts.filter(isArchived);
+
+// Close an account, recording its final balance on the close date so its history ends there.
+// A close date on the same day as the latest entry still has to sort after it.
+export const archiveAccount = (account: Account, closedAt: Date, finalBalance: number): Account => {
+  const history = account.balanceHistory ?? [];
+  const latest = history[history.length - 1];
+  const entryDate = latest && new Date(latest.date) > closedAt ? new Date(latest.date) : closedAt;
+  return {
+    ...recordBalance(account, finalBalance, entryDate),
+    closedAt,
+  };
+};
+
+// Restoring keeps the final balance entry; the account simply counts again from now on
+export const restoreAccount = (account: Account): Account => {
+  const { closedAt, ...rest } = account;
+  return rest;
+};
@@ -0,0 +1,118 @@
+import { Account, AccountCategory, ConversionRate, Currency } from '@/types/finance';
+import { ACCESS_TYPE_LABELS, ACCOUNT_CATEGORY_META } from '@/lib/accountMetadata';
+import { getCurrencyInfo } from '@/lib/currencies';
+import { getRateToBase } from '@/lib/currency';
+
+export type AccountGrouping = 'category' | 'tag' | 'group' | 'currency' | 'accessType' | 'institution';
+
+export const ACCOUNT_GROUPING_LABELS: Record<AccountGrouping, string> = {
+  category: 'Category',
+  tag: 'Tag',
+  group: 'Custom group',
+  currency: 'Currency',
+  accessType: 'Access type',
+  institution: 'Institution',
+};
+
+export interface AccountGroup {
+  key: string;
+  label: string;
+  accounts: Account[];
+}
+
+const CATEGORY_ORDER: AccountCategory[] = [
+  'current_asset',
+  'non_current_asset',
+  'current_liability',
+  'non_current_liability',
+];
+
+const UNASSIGNED_LABELS: Partial<Record<AccountGrouping, string>> = {
+  tag: 'Untagged',
+  group: 'Ungrouped',
+  institution: 'No institution',
+};
+
+const normalize = (value?: string) => value?.trim() || '';
+
+// Keys an account is filed under for a grouping. Tags are the only dimension where
+// an account can sit in several groups at once.
+const getGroupKeys = (account: Account, grouping: AccountGrouping): string[] => {
+  switch (grouping) {
+    case 'category':
+      return [account.category];
+    case 'tag': {
+      const tags = (account.tags ?? []).map(normalize).filter(Boolean);
+      return tags.length > 0 ? tags : [''];
+    }
+    case 'group':
+      return [normalize(account.group)];
+    case 'currency':
+      return [account.currency];
+    case 'accessType':
+      return [account.accessType || 'liquid'];
+    case 'institution':
+      return [normalize(account.institution)];
+  }
+};
+
+const getGroupLabel = (key: string, grouping: AccountGrouping): string => {
+  if (key === '') return UNASSIGNED_LABELS[grouping] ?? 'Other';
+  switch (grouping) {
+    case 'category':
+      return ACCOUNT_CATEGORY_META[key as AccountCategory].label;
+    case 'currency':
+      return `${key} · ${getCurrencyInfo(key).name}`;
+    case 'accessType':
+      return ACCESS_TYPE_LABELS[key as keyof typeof ACCESS_TYPE_LABELS] ?? key;
+    default:
+      return key;
+  }
+};
+
+// Categories keep their fixed order, other groups are alphabetical with the unassigned group last
+export const groupAccounts = (accounts: Account[], grouping: AccountGrouping): AccountGroup[] => {
+  const byKey = new Map<string, Account[]>();
+  accounts.forEach((account) => {
+    getGroupKeys(account, grouping).forEach((key) => {
+      byKey.set(key, [...(byKey.get(key) ?? []), account]);
+    });
+  });
+
+  const keys =
+    grouping === 'category'
+      ? CATEGORY_ORDER.filter((key) => byKey.has(key))
+      : Array.from(byKey.keys()).sort((a, b) => {
+          if (a === '') return 1;
+          if (b === '') return -1;
+          return a.localeCompare(b);
+        });
+
+  return keys.map((key) => ({ key, label: getGroupLabel(key, grouping), accounts: byKey.get(key)! }));
+};
+
+// Liabilities count negatively so a group's subtotal is its contribution to net worth
+export const getSignedValueInBase = (
+  account: Account,
+  conversionRates: ConversionRate[],
+  baseCurrency: Currency
+): number => {
+  const value = account.balance * getRateToBase(account.currency, conversionRates, baseCurrency);
+  return account.category.includes('liability') ? -value : value;
+};
+
+export const getGroupSubtotal = (
+  accounts: Account[],
+  conversionRates: ConversionRate[],
+  baseCurrency: Currency
+): number => accounts.reduce((sum, acc) => sum + getSignedValueInBase(acc, conversionRates, baseCurrency), 0);
+
+const collectValues = (values: (string | undefined)[]): string[] =>
+  Array.from(new Set(values.map(normalize).filter(Boolean))).sort((a, b) => a.localeCompare(b));
+
+export const collectTags = (accounts: Account[]): string[] => collectValues(accounts.flatMap((acc) => acc.tags ?? []));
+
+export const collectInstitutions = (accounts: Account[]): string[] =>
+  collectValues(accounts.map((acc) => acc.institution));
+
+export const collectGroups = (accounts: Account[]): string[] => collectValues(accounts.map((acc) => acc.group));
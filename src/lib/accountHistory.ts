@@ -0,0 +1,72 @@
+import { Account, BalanceEntry } from '@/types/finance';
+
+export const createBalanceEntry = (balance: number, date: Date = new Date(), note?: string): BalanceEntry => ({
+  id: crypto.randomUUID(),
+  date,
+  balance,
+  ...(note ? { note } : {}),
+});
+
+const sortEntries = (entries: BalanceEntry[]): BalanceEntry[] =>
+  [...entries].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+// Keep balance and lastUpdated in step with the latest history entry
+export const withBalanceHistory = (account: Account, entries: BalanceEntry[]): Account => {
+  const sorted = sortEntries(entries);
+  const latest = sorted[sorted.length - 1];
+  if (!latest) {
+    return { ...account, balanceHistory: [] };
+  }
+  return {
+    ...account,
+    balanceHistory: sorted,
+    balance: latest.balance,
+    lastUpdated: latest.date,
+  };
+};
+
+// Record a new balance, skipping the entry when nothing actually changed
+export const recordBalance = (account: Account, balance: number, date: Date = new Date()): Account => {
+  const history = account.balanceHistory ?? [];
+  const latest = history[history.length - 1];
+  if (latest && latest.balance === balance) {
+    return account;
+  }
+  return withBalanceHistory(account, [...history, createBalanceEntry(balance, date)]);
+};
+
+// Balance in force at a given date (0 before the first entry)
+export const getBalanceAt = (account: Account, date: Date): number => {
+  const time = new Date(date).getTime();
+  let balance = 0;
+  for (const entry of account.balanceHistory ?? []) {
+    if (new Date(entry.date).getTime() > time) break;
+    balance = entry.balance;
+  }
+  return balance;
+};
+
+// Accounts saved before balance history existed only carry balance/lastUpdated.
+// Seed their history with that single value so nothing is lost.
+export const migrateAccount = (account: Account): Account => {
+  if (Array.isArray(account.balanceHistory) && account.balanceHistory.length > 0) {
+    return account;
+  }
+  return {
+    ...account,
+    balanceHistory: [
+      {
+        id: crypto.randomUUID(),
+        date: account.lastUpdated ?? new Date(),
+        balance: account.balance ?? 0,
+      },
+    ],
+  };
+};
+
+export const migrateAccounts = (accounts: Account[]): Account[] => {
+  const needsMigration = accounts.some(
+    (acc) => !Array.isArray(acc.balanceHistory) || acc.balanceHistory.length === 0
+  );
+  return needsMigration ? accounts.map(migrateAccount) : accounts;
+};
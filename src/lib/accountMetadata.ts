@@ -1,4 +1,4 @@
-import { AccountCategory } from '@/types/finance';
+import { AccessType, AccountCategory } from '@/types/finance';
 import { Wallet, TrendingUp, CreditCard, Building2 } from 'lucide-react';
 import { LucideIcon } from 'lucide-react';
 
@@ -44,3 +44,9 @@ export const ACCOUNT_CATEGORY_META: Record<AccountCategory, AccountCategoryMeta>
 export const getCategoryMeta = (category: AccountCategory): AccountCategoryMeta => {
   return ACCOUNT_CATEGORY_META[category];
 };
+
+export const ACCESS_TYPE_LABELS: Record<AccessType, string> = {
+  liquid: 'Liquid',
+  retirement: 'Retirement',
+  illiquid: 'Illiquid',
+};
@@ -0,0 +1,432 @@
+import { KEYRING_STORE, openDatabase, PROFILE_STORES, requestToPromise, StoreName, transactionDone } from '@/lib/db';
+import { derivePassphraseKey, fromBase64, PBKDF2_ITERATIONS, randomBytes, toBase64 } from '@/lib/crypto';
+
+// Opt-in encryption at rest. Every record value in the database is sealed with a random AES-256-GCM data key; the data
+// key is stored wrapped by a key derived from the user's PIN or passphrase. Record keys (profile ids, account ids,
+// currency codes, setting names) stay readable so the stores can still be indexed. The profile list in localStorage is
+// not covered.
+
+export const MIN_LOCK_PASSPHRASE_LENGTH = 4;
+
+export const AUTO_LOCK_OPTIONS = [1, 5, 15, 30, 60]; // Minutes; 0 turns auto-lock off
+
+const KEYRING_ID = 'app-lock';
+
+// Tabs tell each other when the app is locked or the keyring changes, since each holds its own copy of the data key
+const APP_LOCK_CHANNEL = 'networth-app-lock';
+
+type AppLockMessage = 'locked' | 'keyring-changed';
+
+// Keyrings and sealed records written before key ids were added
+const LEGACY_KEY_ID = 'legacy';
+
+// How often a change of data key starts over when another tab writes while it runs
+const REWRITE_ATTEMPTS = 3;
+
+interface KeyringRecord {
+  id: typeof KEYRING_ID;
+  keyId?: string; // Identifies the data key, so records sealed under a replaced one are refused
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  wrappedKey: string; // Base64 AES-GCM-wrapped data key, including the tag
+  wrapIv: string;
+  autoLockMinutes: number;
+  createdAt: Date;
+}
+
+interface SealedValue {
+  keyId?: string;
+  iv: string;
+  data: string;
+}
+
+// Records as they sit in the profile stores: a plain value, or a sealed one once the app lock is on
+export interface EncodedRecord {
+  profileId: string;
+  key: string;
+  order: number;
+  value?: unknown;
+  sealed?: SealedValue;
+}
+
+export interface DecodedRecord<T = unknown> {
+  profileId: string;
+  key: string;
+  order: number;
+  value: T;
+}
+
+export interface AppLockSettings {
+  enabled: boolean;
+  autoLockMinutes: number;
+}
+
+export class AppLockedError extends Error {
+  constructor() {
+    super('The app is locked');
+    this.name = 'AppLockedError';
+  }
+}
+
+export class StaleKeyError extends Error {
+  constructor() {
+    super('The app lock was changed in another tab. Unlock again to keep saving.');
+    this.name = 'StaleKeyError';
+  }
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('That PIN or passphrase is not correct');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+// Session state; the data key only ever lives in memory and is dropped on lock
+let lockEnabled = false;
+let dataKey: CryptoKey | null = null;
+// Id of the data key this tab reads and writes with; null while the app lock is off
+let sessionKeyId: string | null = null;
+// Writes wait while the data key is being replaced, and the replacement waits for writes already under way, so no
+// write lands under the outgoing key
+let rekeying: Promise<void> = Promise.resolve();
+const pendingWrites = new Set<Promise<void>>();
+
+const channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(APP_LOCK_CHANNEL);
+const changeListeners = new Set<(settings: AppLockSettings) => void>();
+
+const keyIdOf = (keyring: KeyringRecord | undefined | null): string | null =>
+  keyring ? (keyring.keyId ?? LEGACY_KEY_ID) : null;
+
+const requestKeyring = (store: IDBObjectStore) => store.get(KEYRING_ID) as IDBRequest<KeyringRecord | undefined>;
+
+const readKeyring = async (): Promise<KeyringRecord | undefined> => {
+  const db = await openDatabase();
+  const store = db.transaction(KEYRING_STORE, 'readonly').objectStore(KEYRING_STORE);
+  return requestToPromise(requestKeyring(store));
+};
+
+// The record's address is bound into the ciphertext, so sealed values cannot be swapped between records
+const recordAad = (profileId: string, key: string) => new TextEncoder().encode(`${profileId}\u0000${key}`);
+
+const sealWith = async (key: CryptoKey, keyId: string, record: DecodedRecord): Promise<EncodedRecord> => {
+  const iv = randomBytes(12);
+  const plaintext = new TextEncoder().encode(JSON.stringify(record.value));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: recordAad(record.profileId, record.key) },
+    key,
+    plaintext
+  );
+  return {
+    profileId: record.profileId,
+    key: record.key,
+    order: record.order,
+    sealed: { keyId, iv: toBase64(iv), data: toBase64(new Uint8Array(data)) },
+  };
+};
+
+const openWith = async <T>(key: CryptoKey, record: EncodedRecord): Promise<DecodedRecord<T>> => {
+  const { iv, data } = record.sealed!;
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv), additionalData: recordAad(record.profileId, record.key) },
+    key,
+    fromBase64(data)
+  );
+  // Dates come back as strings, as they did from localStorage; the repositories revive them
+  const value = JSON.parse(new TextDecoder().decode(plaintext)) as T;
+  return { profileId: record.profileId, key: record.key, order: record.order, value };
+};
+
+const unwrapDataKey = async (keyring: KeyringRecord, passphrase: string): Promise<CryptoKey> => {
+  const wrappingKey = await derivePassphraseKey(passphrase, fromBase64(keyring.kdf.salt), keyring.kdf.iterations, [
+    'unwrapKey',
+  ]);
+  try {
+    return await crypto.subtle.unwrapKey(
+      'raw',
+      fromBase64(keyring.wrappedKey),
+      wrappingKey,
+      { name: 'AES-GCM', iv: fromBase64(keyring.wrapIv) },
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  } catch {
+    throw new WrongPassphraseError();
+  }
+};
+
+// A fresh data key, returned both usable and wrapped under the passphrase
+const createDataKey = async (
+  passphrase: string,
+  autoLockMinutes: number
+): Promise<{ key: CryptoKey; keyring: KeyringRecord }> => {
+  const extractable = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  const salt = randomBytes(16);
+  const wrapIv = randomBytes(12);
+  const wrappingKey = await derivePassphraseKey(passphrase, salt, PBKDF2_ITERATIONS, ['wrapKey']);
+  const wrappedKey = await crypto.subtle.wrapKey('raw', extractable, wrappingKey, { name: 'AES-GCM', iv: wrapIv });
+  const raw = await crypto.subtle.exportKey('raw', extractable);
+  const key = await crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+  return {
+    key,
+    keyring: {
+      id: KEYRING_ID,
+      keyId: crypto.randomUUID(),
+      kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+      wrappedKey: toBase64(new Uint8Array(wrappedKey)),
+      wrapIv: toBase64(wrapIv),
+      autoLockMinutes,
+      createdAt: new Date(),
+    },
+  };
+};
+
+// Reads every record of every profile, re-encodes them all in memory, then writes them back together with the new
+// keyring in a single transaction. Any failure before the write (such as a record that does not decrypt) leaves the
+// database exactly as it was. The write transaction first reads everything again and gives up if another tab wrote
+// in between, so no record is lost or left under the old key; the whole pass then starts over.
+const rewriteAllRecords = async (
+  decode: (record: EncodedRecord) => Promise<DecodedRecord>,
+  encode: (record: DecodedRecord) => Promise<EncodedRecord>,
+  keyring: KeyringRecord | null,
+  expectedKeyId: string | null
+): Promise<void> => {
+  const db = await openDatabase();
+  for (let attempt = 0; attempt < REWRITE_ATTEMPTS; attempt++) {
+    const readTransaction = db.transaction(PROFILE_STORES, 'readonly');
+    const stored = await Promise.all(
+      PROFILE_STORES.map(async (name) => ({
+        name,
+        records: await requestToPromise(readTransaction.objectStore(name).getAll() as IDBRequest<EncodedRecord[]>),
+      }))
+    );
+
+    const rewritten = await Promise.all(
+      stored.map(async ({ name, records }) => ({
+        name,
+        records: await Promise.all(records.map(async (record) => encode(await decode(record)))),
+      }))
+    );
+
+    // Nothing may be awaited between here and the commit, or the transaction closes early
+    const transaction = db.transaction([...PROFILE_STORES, KEYRING_STORE], 'readwrite');
+    let conflict: 'records' | 'keyring' | null = null;
+    const abortFor = (reason: 'records' | 'keyring') => {
+      if (conflict) return;
+      conflict = reason;
+      transaction.abort();
+    };
+    const keyringCheck = requestKeyring(transaction.objectStore(KEYRING_STORE));
+    keyringCheck.onsuccess = () => {
+      if (keyIdOf(keyringCheck.result) !== expectedKeyId) abortFor('keyring');
+    };
+    stored.forEach(({ name, records }) => {
+      const recheck = transaction.objectStore(name).getAll();
+      recheck.onsuccess = () => {
+        if (JSON.stringify(recheck.result) !== JSON.stringify(records)) abortFor('records');
+      };
+    });
+    rewritten.forEach(({ name, records }) => records.forEach((record) => transaction.objectStore(name).put(record)));
+    if (keyring) {
+      transaction.objectStore(KEYRING_STORE).put(keyring);
+    } else {
+      transaction.objectStore(KEYRING_STORE).delete(KEYRING_ID);
+    }
+    try {
+      await transactionDone(transaction);
+      return;
+    } catch (err) {
+      if (conflict === 'keyring') throw new StaleKeyError();
+      if (conflict !== 'records') throw err;
+    }
+  }
+  throw new Error('Another tab kept saving changes. Close the other tabs of this app and try again.');
+};
+
+const decodePlain = async (record: EncodedRecord): Promise<DecodedRecord> => {
+  if (record.sealed) throw new Error('Found an encrypted record while the app lock is off');
+  return { profileId: record.profileId, key: record.key, order: record.order, value: record.value };
+};
+
+const encodePlain = async (record: DecodedRecord): Promise<EncodedRecord> => ({ ...record });
+
+// Wraps a change of data key so sealing waits for it, and always releases the wait
+const withRekey = async (change: () => Promise<void>): Promise<void> => {
+  let release = () => {};
+  const previous = rekeying;
+  rekeying = new Promise((resolve) => (release = resolve));
+  try {
+    await previous;
+    await Promise.allSettled(pendingWrites);
+    await change();
+  } finally {
+    release();
+  }
+};
+
+const broadcast = (message: AppLockMessage) => channel?.postMessage(message);
+
+// Another tab locked the app or changed its keyring: a replaced data key is dropped, which locks this tab too
+channel?.addEventListener('message', async (event: MessageEvent<AppLockMessage>) => {
+  if (event.data === 'locked') dataKey = null;
+  const keyring = await readKeyring();
+  if (keyIdOf(keyring) !== sessionKeyId) dataKey = null;
+  lockEnabled = keyring !== undefined;
+  sessionKeyId = keyIdOf(keyring);
+  const settings = { enabled: lockEnabled, autoLockMinutes: keyring?.autoLockMinutes ?? 0 };
+  changeListeners.forEach((listener) => listener(settings));
+});
+
+// Told when another tab changes the lock; check isAppUnlocked for whether this tab still may read
+export const onAppLockChange = (listener: (settings: AppLockSettings) => void): (() => void) => {
+  changeListeners.add(listener);
+  return () => changeListeners.delete(listener);
+};
+
+// Called on startup, before any profile data is read
+export const getAppLockSettings = async (): Promise<AppLockSettings> => {
+  const keyring = await readKeyring();
+  lockEnabled = keyring !== undefined;
+  sessionKeyId = keyIdOf(keyring);
+  return { enabled: lockEnabled, autoLockMinutes: keyring?.autoLockMinutes ?? 0 };
+};
+
+export const isAppUnlocked = (): boolean => !lockEnabled || dataKey !== null;
+
+// Only reads: a wrong passphrase is reported and nothing is written
+export const unlockApp = async (passphrase: string): Promise<void> => {
+  const keyring = await readKeyring();
+  if (!keyring) {
+    lockEnabled = false;
+    sessionKeyId = null;
+    return;
+  }
+  dataKey = await unwrapDataKey(keyring, passphrase);
+  lockEnabled = true;
+  sessionKeyId = keyIdOf(keyring);
+};
+
+// Locks every open tab unless told to lock only this one, as the idle timeout does
+export const lockApp = (everywhere = true) => {
+  dataKey = null;
+  if (everywhere) broadcast('locked');
+};
+
+export const enableAppLock = async (passphrase: string, autoLockMinutes: number): Promise<void> => {
+  if (await readKeyring()) throw new Error('The app lock is already on');
+  await withRekey(async () => {
+    const { key, keyring } = await createDataKey(passphrase, autoLockMinutes);
+    const keyId = keyIdOf(keyring)!;
+    await rewriteAllRecords(decodePlain, (record) => sealWith(key, keyId, record), keyring, null);
+    lockEnabled = true;
+    dataKey = key;
+    sessionKeyId = keyId;
+  });
+  broadcast('keyring-changed');
+};
+
+export const disableAppLock = async (passphrase: string): Promise<void> => {
+  const keyring = await readKeyring();
+  if (!keyring) return;
+  const key = await unwrapDataKey(keyring, passphrase);
+  await withRekey(async () => {
+    await rewriteAllRecords((record) => openWith(key, record), encodePlain, null, keyIdOf(keyring));
+    lockEnabled = false;
+    dataKey = null;
+    sessionKeyId = null;
+  });
+  broadcast('keyring-changed');
+};
+
+// Replaces the data key as well as the passphrase, so everything already stored is re-encrypted under the new one
+export const changeAppLockPassphrase = async (currentPassphrase: string, nextPassphrase: string): Promise<void> => {
+  const keyring = await readKeyring();
+  if (!keyring) throw new Error('The app lock is off');
+  const currentKey = await unwrapDataKey(keyring, currentPassphrase);
+  await withRekey(async () => {
+    const { key, keyring: nextKeyring } = await createDataKey(nextPassphrase, keyring.autoLockMinutes);
+    const keyId = keyIdOf(nextKeyring)!;
+    await rewriteAllRecords(
+      (record) => openWith(currentKey, record),
+      (record) => sealWith(key, keyId, record),
+      nextKeyring,
+      keyIdOf(keyring)
+    );
+    dataKey = key;
+    sessionKeyId = keyId;
+  });
+  broadcast('keyring-changed');
+};
+
+// Read and written in one transaction, so a data key replaced by another tab meanwhile is not put back
+export const setAutoLockMinutes = async (autoLockMinutes: number): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(KEYRING_STORE, 'readwrite');
+  const store = transaction.objectStore(KEYRING_STORE);
+  const request = requestKeyring(store);
+  request.onsuccess = () => {
+    if (request.result) store.put({ ...request.result, autoLockMinutes });
+  };
+  await transactionDone(transaction);
+  broadcast('keyring-changed');
+};
+
+const encodeRecord = async (record: DecodedRecord): Promise<EncodedRecord> => {
+  if (!lockEnabled) return encodePlain(record);
+  if (!dataKey || !sessionKeyId) throw new AppLockedError();
+  return sealWith(dataKey, sessionKeyId, record);
+};
+
+const commitRecords = async (
+  storeNames: StoreName[],
+  records: DecodedRecord[],
+  write: (transaction: IDBTransaction, encoded: EncodedRecord[]) => Promise<void> | void
+): Promise<void> => {
+  const keyId = sessionKeyId;
+  const encoded = await Promise.all(records.map(encodeRecord));
+  const db = await openDatabase();
+  const transaction = db.transaction([...storeNames, KEYRING_STORE], 'readwrite');
+  let stale = false;
+  const keyringCheck = requestKeyring(transaction.objectStore(KEYRING_STORE));
+  keyringCheck.onsuccess = () => {
+    if (keyIdOf(keyringCheck.result) === keyId) return;
+    stale = true;
+    transaction.abort();
+  };
+  try {
+    await write(transaction, encoded);
+    await transactionDone(transaction);
+  } catch (err) {
+    throw stale ? new StaleKeyError() : err;
+  }
+};
+
+// Used by the repositories for every write: the records are encoded for the current key and handed to write, which
+// queues them on a transaction over storeNames. The transaction is aborted if another tab has replaced the data key or
+// turned the lock on or off since this tab read the keyring.
+export const writeRecords = async (
+  storeNames: StoreName[],
+  records: DecodedRecord[],
+  write: (transaction: IDBTransaction, encoded: EncodedRecord[]) => Promise<void> | void
+): Promise<void> => {
+  let current: Promise<void>;
+  do {
+    current = rekeying;
+    await current;
+  } while (current !== rekeying);
+  const pending = commitRecords(storeNames, records, write);
+  pendingWrites.add(pending);
+  try {
+    await pending;
+  } finally {
+    pendingWrites.delete(pending);
+  }
+};
+
+// Used by the repositories for every value they read
+export const decodeRecord = async <T>(record: EncodedRecord): Promise<DecodedRecord<T>> => {
+  if (!record.sealed) return (await decodePlain(record)) as DecodedRecord<T>;
+  if ((record.sealed.keyId ?? LEGACY_KEY_ID) !== sessionKeyId) throw new StaleKeyError();
+  if (!dataKey) throw new AppLockedError();
+  return openWith<T>(dataKey, record);
+};
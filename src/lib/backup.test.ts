@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import { BACKUP_SCHEMA_VERSION, parseBackup, upgradeBackup } from '@/lib/backup';
+
+const account = (overrides: Record<string, unknown> = {}) => ({
+  id: 'acc-1',
+  name: 'Checking',
+  category: 'current_asset',
+  currency: 'EUR',
+  balance: 1200,
+  accessType: 'liquid',
+  lastUpdated: '2024-03-01T00:00:00.000Z',
+  balanceHistory: [{ date: '2024-03-01T00:00:00.000Z', balance: 1200 }],
+  ...overrides,
+});
+
+const rate = (overrides: Record<string, unknown> = {}) => ({
+  currency: 'USD',
+  rate: 0.9,
+  history: [{ rate: 0.9, effectiveDate: '2024-03-01T00:00:00.000Z' }],
+  ...overrides,
+});
+
+const backup = (overrides: Record<string, unknown> = {}) => ({
+  schemaVersion: BACKUP_SCHEMA_VERSION,
+  accounts: [account()],
+  conversionRates: [rate()],
+  history: [],
+  baseCurrency: 'EUR',
+  people: [],
+  ...overrides,
+});
+
+describe('upgradeBackup', () => {
+  it('seeds balance and rate histories for a version 1 backup', () => {
+    const upgraded = upgradeBackup(
+      {
+        accounts: [account({ balanceHistory: undefined })],
+        conversionRates: [rate({ history: undefined })],
+        history: [],
+      },
+      1
+    );
+    const [acc] = upgraded.accounts as { balance: number; balanceHistory: { balance: number }[] }[];
+    const [usd] = upgraded.conversionRates as { history: { rate: number }[] }[];
+    expect(acc.balanceHistory.map((entry) => entry.balance)).toEqual([1200]);
+    expect(usd.history.map((entry) => entry.rate)).toEqual([0.9]);
+    expect(upgraded.baseCurrency).toBe('EUR');
+    expect(upgraded.people).toEqual([]);
+  });
+
+  it('maps the legacy OTHER currency in accounts and snapshots', () => {
+    const upgraded = upgradeBackup(
+      {
+        accounts: [account({ currency: 'OTHER' })],
+        conversionRates: [rate({ currency: 'OTHER', label: 'chf' })],
+        history: [
+          {
+            id: 'snap-1',
+            timestamp: '2024-03-01T00:00:00.000Z',
+            baseCurrency: 'EUR',
+            accounts: [
+              { accountId: 'acc-1', currency: 'OTHER' },
+              { accountId: 'gone', currency: 'OTHER' },
+            ],
+          },
+        ],
+      },
+      3
+    );
+    expect((upgraded.accounts as { currency: string }[])[0].currency).toBe('CHF');
+    expect((upgraded.conversionRates as { currency: string }[])[0].currency).toBe('CHF');
+    const [snapshot] = upgraded.history as { accounts: { currency: string }[] }[];
+    expect(snapshot.accounts.map((acc) => acc.currency)).toEqual(['CHF', 'XXX']);
+  });
+
+  it('leaves a current backup as it is', () => {
+    const current = backup();
+    expect(upgradeBackup(current, BACKUP_SCHEMA_VERSION)).toEqual(current);
+  });
+});
+
+describe('parseBackup', () => {
+  it('reads a current backup without issues', () => {
+    const result = parseBackup(backup());
+    expect(result.issues).toEqual([]);
+    expect(result.data?.accounts).toHaveLength(1);
+    expect(result.data?.schemaVersion).toBe(BACKUP_SCHEMA_VERSION);
+  });
+
+  it('upgrades a backup without a schema version', () => {
+    const { schemaVersion: _schemaVersion, baseCurrency: _baseCurrency, people: _people, ...legacy } = backup();
+    const result = parseBackup(legacy);
+    expect(result.data?.baseCurrency).toBe('EUR');
+    expect(result.data?.people).toEqual([]);
+    expect(result.sourceVersion).toBeUndefined();
+  });
+
+  it.each([2.5, 0, '3', null])('rejects the schema version %s', (schemaVersion) => {
+    const result = parseBackup(backup({ schemaVersion }));
+    expect(result.data).toBeNull();
+    expect(result.issues[0].message).toMatch(/schema version/);
+  });
+
+  it('rejects a backup from a newer version of the app', () => {
+    const result = parseBackup(backup({ schemaVersion: BACKUP_SCHEMA_VERSION + 1 }));
+    expect(result.data).toBeNull();
+    expect(result.sourceVersion).toBe(BACKUP_SCHEMA_VERSION + 1);
+  });
+
+  it('skips accounts with invalid owner shares', () => {
+    const result = parseBackup(
+      backup({
+        accounts: [account(), account({ id: 'acc-2', name: 'Joint', owners: [{ personId: 'p1', share: 150 }] })],
+      })
+    );
+    expect(result.data?.accounts.map((acc) => acc.id)).toEqual(['acc-1']);
+    expect(result.skipped.accounts).toBe(1);
+  });
+
+  it('checks the loan terms and positions of an account field by field', () => {
+    const loan = { principal: 200000, annualRate: 4, termMonths: 360, frequency: 'daily', startDate: '2024-01-01' };
+    const holding = { id: 'h1', quantity: 3, unitPrice: 100, priceCurrency: 'EUR', priceDate: '2024-03-01' };
+    const result = parseBackup(
+      backup({
+        accounts: [
+          account({ id: 'loan', name: 'Mortgage', category: 'non_current_liability', loan }),
+          account({ id: 'broker', name: 'Broker', holdings: [holding] }),
+        ],
+      })
+    );
+    expect(result.data?.accounts).toEqual([]);
+    expect(result.issues.map((issue) => issue.path)).toEqual([
+      'accounts[0] "Mortgage" › loan.frequency',
+      'accounts[1] "Broker" › holdings[0]',
+    ]);
+  });
+
+  it('rejects snapshot accounts without a category and defaults an unknown access type', () => {
+    const snapshotAccount = (overrides: Record<string, unknown>) => ({
+      accountId: 'acc-1',
+      name: 'Checking',
+      category: 'current_asset',
+      accessType: 'liquid',
+      currency: 'EUR',
+      balance: 1200,
+      valueBase: 1200,
+      ...overrides,
+    });
+    const snapshot = (id: string, acc: Record<string, unknown>) => ({
+      id,
+      timestamp: '2024-03-01T00:00:00.000Z',
+      baseCurrency: 'EUR',
+      netWorthBase: 1200,
+      totalAssetsBase: 1200,
+      totalLiabilitiesBase: 0,
+      liquidNetWorthBase: 1200,
+      accountCount: 1,
+      accounts: [acc],
+    });
+    const result = parseBackup(
+      backup({
+        history: [
+          snapshot('snap-1', snapshotAccount({ category: undefined })),
+          snapshot('snap-2', snapshotAccount({ accessType: 'someday' })),
+        ],
+      })
+    );
+    expect(result.data?.history.map((s) => s.id)).toEqual(['snap-2']);
+    expect(result.data?.history[0].accounts?.[0].accessType).toBe('liquid');
+    expect(result.issues).toContainEqual(
+      expect.objectContaining({ severity: 'error', path: 'history[0] › accounts[0].category' })
+    );
+  });
+
+  it('ignores retirement inputs with missing fields', () => {
+    const result = parseBackup(backup({ retirementInputs: { currentAge: 35, desiredLifestyle: 'lean' } }));
+    expect(result.data?.retirementInputs).toBeUndefined();
+    expect(result.issues).toContainEqual(expect.objectContaining({ severity: 'warning', path: 'retirementInputs' }));
+  });
+
+  it('reports records that are not objects', () => {
+    const result = parseBackup(backup({ accounts: [account(), 'not an account'] }));
+    expect(result.data?.accounts).toHaveLength(1);
+    expect(result.issues).toContainEqual(expect.objectContaining({ severity: 'error', path: 'accounts[1]' }));
+  });
+});
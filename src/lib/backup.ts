@@ -0,0 +1,422 @@
+import { Account, AccessType, BalanceEntry, ConversionRate, Currency, Person, RateEntry } from '@/types/finance';
+import { HistorySnapshot, SnapshotAccount } from '@/types/history';
+import { RetirementInputs } from '@/types/retirement';
+import { BackupFile, BackupIssue, BackupParseResult } from '@/types/backup';
+import { migrateAccounts } from '@/lib/accountHistory';
+import { createRateEntry, migrateRates } from '@/lib/fxRates';
+import { migrateLegacyCurrencies, migrateLegacySnapshotCurrencies } from '@/lib/currency';
+import { isKnownCurrency } from '@/lib/currencies';
+import { migrateSnapshots } from '@/lib/snapshots';
+import { ACCOUNT_CATEGORY_META, ACCESS_TYPE_LABELS } from '@/lib/accountMetadata';
+import { PAYMENT_FREQUENCY_META } from '@/lib/loans';
+
+// Version history:
+// 1 - accounts, conversion rates, history, monthly expenses, retirement inputs, view toggles
+// 2 - accounts carry a dated balanceHistory
+// 3 - conversion rates carry a dated history of effective rates
+// 4 - selectable base currency; snapshot totals and values renamed from *EUR to *Base
+// 5 - household members; accounts and snapshot accounts carry owner shares
+export const BACKUP_SCHEMA_VERSION = 5;
+
+type RawBackup = Record<string, unknown>;
+type RawRecord = Record<string, unknown>;
+
+interface BackupUpgrade {
+  from: number; // Upgrades a backup of this version to the next one
+  description: string;
+  upgrade: (data: RawBackup) => RawBackup;
+}
+
+// Records are checked to be objects before upgrading; fields inside them are validated afterwards
+const records = <T>(value: unknown): T[] => (Array.isArray(value) ? (value as T[]) : []);
+
+const BACKUP_UPGRADES: BackupUpgrade[] = [
+  {
+    from: 1,
+    description: 'Seed each account’s balance history with its balance',
+    upgrade: (data) => ({ ...data, accounts: migrateAccounts(records<Account>(data.accounts)) }),
+  },
+  {
+    from: 2,
+    description: 'Seed each rate’s history with its rate',
+    upgrade: (data) => ({ ...data, conversionRates: migrateRates(records<ConversionRate>(data.conversionRates)) }),
+  },
+  {
+    from: 3,
+    description: 'Map the OTHER currency to an ISO code and express snapshots in an explicit base currency',
+    upgrade: (data) => {
+      const migrated = migrateLegacyCurrencies(records<Account>(data.accounts), records<ConversionRate>(data.conversionRates));
+      return {
+        ...data,
+        ...migrated,
+        // Backups from before the base currency was selectable are in EUR
+        baseCurrency: data.baseCurrency ?? 'EUR',
+        history: migrateLegacySnapshotCurrencies(migrateSnapshots(records<HistorySnapshot>(data.history)), migrated.accounts),
+      };
+    },
+  },
+  {
+    from: 4,
+    description: 'Add the household member list',
+    upgrade: (data) => ({ ...data, people: data.people ?? [] }),
+  },
+];
+
+// Apply every upgrade from the backup's version to the current one, in order
+export const upgradeBackup = (data: RawBackup, fromVersion: number): RawBackup =>
+  BACKUP_UPGRADES.filter((step) => step.from >= fromVersion).reduce((current, step) => step.upgrade(current), data);
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const isKnownCurrencyCode = (value: unknown): boolean => typeof value === 'string' && isKnownCurrency(value);
+
+// Missing owners mean an unassigned account; present ones need a person and a percentage
+const isValidOwnerList = (value: unknown): boolean =>
+  value === undefined ||
+  (Array.isArray(value) &&
+    value.every(
+      (owner) => isRecord(owner) && isNonEmptyString(owner.personId) && isFiniteNumber(owner.share) && owner.share >= 0 && owner.share <= 100
+    ));
+
+const toValidDate = (value: unknown): Date | null => {
+  if (!(value instanceof Date) && typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const describeValue = (value: unknown): string => {
+  if (value === undefined) return 'missing';
+  if (typeof value === 'number' && Number.isNaN(value)) return 'NaN';
+  const text = JSON.stringify(value);
+  return text && text.length > 40 ? `${text.slice(0, 37)}…` : String(text);
+};
+
+// Collects issues for one record; any error means the record is skipped
+const createChecker = (issues: BackupIssue[], label: string) => {
+  let failed = false;
+  const report = (severity: BackupIssue['severity'], field: string, message: string) => {
+    issues.push({ severity, path: field ? `${label} › ${field}` : label, message });
+    if (severity !== 'warning') failed = true;
+  };
+  return {
+    error: (field: string, message: string) => report('error', field, message),
+    warn: (field: string, message: string) => report('warning', field, message),
+    number: (record: RawRecord, field: string, path = field) => {
+      if (!isFiniteNumber(record[field])) report('error', path, `Not a number (${describeValue(record[field])})`);
+    },
+    date: (record: RawRecord, field: string, path = field): Date | null => {
+      const date = toValidDate(record[field]);
+      if (!date) report('error', path, `Not a valid date (${describeValue(record[field])})`);
+      return date;
+    },
+    currency: (record: RawRecord, field: string, path = field) => {
+      if (!isKnownCurrencyCode(record[field])) {
+        report('error', path, `Unknown currency (${describeValue(record[field])})`);
+      }
+    },
+    category: (record: RawRecord, field: string, path = field) => {
+      if (!(typeof record[field] === 'string' && record[field] in ACCOUNT_CATEGORY_META)) {
+        report('error', path, `Unknown category (${describeValue(record[field])})`);
+      }
+    },
+    // An unknown access type is not worth losing the record over
+    accessType: (record: RawRecord, field: string, path = field): AccessType | undefined => {
+      const accessType = record[field] as AccessType | undefined;
+      if (accessType === undefined || accessType in ACCESS_TYPE_LABELS) return accessType;
+      report('warning', path, `Unknown access type (${describeValue(accessType)}), using Liquid`);
+      return 'liquid';
+    },
+    get failed() {
+      return failed;
+    },
+  };
+};
+
+const recordLabel = (collection: string, index: number, record: unknown): string => {
+  const name = isRecord(record) ? record.name ?? record.currency : undefined;
+  return `${collection}[${index}]${typeof name === 'string' && name ? ` "${name}"` : ''}`;
+};
+
+const validateAccount = (raw: RawRecord, label: string, issues: BackupIssue[]): Account | null => {
+  const check = createChecker(issues, label);
+  if (!isNonEmptyString(raw.id)) check.error('id', 'Missing account id');
+  if (typeof raw.name !== 'string') check.error('name', `Not a name (${describeValue(raw.name)})`);
+  check.category(raw, 'category');
+  check.currency(raw, 'currency');
+  check.number(raw, 'balance');
+  const lastUpdated = check.date(raw, 'lastUpdated');
+  const closedAt = raw.closedAt === undefined ? undefined : check.date(raw, 'closedAt');
+  if (!isValidOwnerList(raw.owners)) check.error('owners', `Not a list of owner shares (${describeValue(raw.owners)})`);
+  const accessType = check.accessType(raw, 'accessType');
+
+  // Broken history entries are dropped rather than skipping the whole account
+  const balanceHistory = records<unknown>(raw.balanceHistory).flatMap((entry, index): BalanceEntry[] => {
+    const date = isRecord(entry) ? toValidDate(entry.date) : null;
+    if (!isRecord(entry) || !date || !isFiniteNumber(entry.balance)) {
+      check.warn(`balanceHistory[${index}]`, 'Entry with a bad date or balance dropped');
+      return [];
+    }
+    return [{ ...(entry as unknown as BalanceEntry), date }];
+  });
+
+  const holdings = raw.holdings === undefined ? undefined : records<RawRecord>(raw.holdings).map((holding, index) => {
+    const priceDate = toValidDate(holding?.priceDate);
+    if (
+      typeof holding?.symbol !== 'string' ||
+      !isFiniteNumber(holding?.quantity) ||
+      !isFiniteNumber(holding?.unitPrice) ||
+      !isKnownCurrencyCode(holding?.priceCurrency) ||
+      !priceDate
+    ) {
+      check.error(`holdings[${index}]`, 'Position with a bad symbol, quantity, price, price currency or price date');
+    }
+    return { ...holding, priceDate: priceDate ?? new Date() };
+  });
+
+  const rawLoan = isRecord(raw.loan) ? raw.loan : undefined;
+  const loan = rawLoan && { ...rawLoan, startDate: toValidDate(rawLoan.startDate) };
+  if (rawLoan) {
+    if (!isFiniteNumber(rawLoan.principal) || rawLoan.principal < 0) {
+      check.error('loan.principal', `Not a positive amount (${describeValue(rawLoan.principal)})`);
+    }
+    if (!isFiniteNumber(rawLoan.annualRate) || rawLoan.annualRate < 0) {
+      check.error('loan.annualRate', `Not a positive rate (${describeValue(rawLoan.annualRate)})`);
+    }
+    if (!Number.isInteger(rawLoan.termMonths) || (rawLoan.termMonths as number) < 1) {
+      check.error('loan.termMonths', `Not a whole number of months (${describeValue(rawLoan.termMonths)})`);
+    }
+    if (rawLoan.payment !== undefined && !(isFiniteNumber(rawLoan.payment) && rawLoan.payment > 0)) {
+      check.error('loan.payment', `Not a positive amount (${describeValue(rawLoan.payment)})`);
+    }
+    if (!(typeof rawLoan.frequency === 'string' && rawLoan.frequency in PAYMENT_FREQUENCY_META)) {
+      check.error('loan.frequency', `Unknown payment frequency (${describeValue(rawLoan.frequency)})`);
+    }
+    if (!loan?.startDate) check.error('loan.startDate', `Not a valid date (${describeValue(rawLoan.startDate)})`);
+  }
+  const rawValuation = isRecord(raw.valuation) ? raw.valuation : undefined;
+  const valuation = rawValuation && { ...rawValuation, date: toValidDate(rawValuation.date) };
+  if (rawValuation && !valuation?.date) {
+    check.error('valuation.date', `Not a valid date (${describeValue(rawValuation.date)})`);
+  }
+
+  if (check.failed) return null;
+  return {
+    ...(raw as unknown as Account),
+    accessType,
+    lastUpdated: lastUpdated!,
+    balanceHistory,
+    ...(closedAt ? { closedAt } : {}),
+    ...(holdings ? { holdings: holdings as unknown as Account['holdings'] } : {}),
+    ...(loan ? { loan: loan as unknown as Account['loan'] } : {}),
+    ...(valuation ? { valuation: valuation as unknown as Account['valuation'] } : {}),
+  };
+};
+
+const validateRate = (raw: RawRecord, label: string, issues: BackupIssue[]): ConversionRate | null => {
+  const check = createChecker(issues, label);
+  check.currency(raw, 'currency');
+  if (!isFiniteNumber(raw.rate) || raw.rate <= 0) check.error('rate', `Not a positive number (${describeValue(raw.rate)})`);
+
+  const history = records<unknown>(raw.history).flatMap((entry, index): RateEntry[] => {
+    const effectiveDate = isRecord(entry) ? toValidDate(entry.effectiveDate) : null;
+    if (!isRecord(entry) || !effectiveDate || !isFiniteNumber(entry.rate) || entry.rate <= 0) {
+      check.warn(`history[${index}]`, 'Entry with a bad date or rate dropped');
+      return [];
+    }
+    return [{ ...(entry as unknown as RateEntry), effectiveDate }];
+  });
+
+  if (check.failed) return null;
+  // A rate whose whole history was dropped starts a new one from its current value
+  return { ...(raw as unknown as ConversionRate), history: history.length > 0 ? history : [createRateEntry(raw.rate as number)] };
+};
+
+const validateSnapshot = (raw: RawRecord, label: string, issues: BackupIssue[]): HistorySnapshot | null => {
+  const check = createChecker(issues, label);
+  if (!isNonEmptyString(raw.id)) check.error('id', 'Missing snapshot id');
+  const timestamp = check.date(raw, 'timestamp');
+  check.currency(raw, 'baseCurrency');
+  ['netWorthBase', 'totalAssetsBase', 'totalLiabilitiesBase', 'liquidNetWorthBase'].forEach((field) =>
+    check.number(raw, field)
+  );
+  const isValidRate = ([currency, rate]: [string, unknown]) => isKnownCurrency(currency) && isFiniteNumber(rate) && rate > 0;
+  if (raw.rates !== undefined && !(isRecord(raw.rates) && Object.entries(raw.rates).every(isValidRate))) {
+    check.error('rates', `Not a map of currencies to positive rates (${describeValue(raw.rates)})`);
+  }
+  const accounts = raw.accounts === undefined ? undefined : records<unknown>(raw.accounts).map((acc, index) => {
+    const field = `accounts[${index}]`;
+    if (!isRecord(acc)) {
+      check.error(field, `Not a record (${describeValue(acc)})`);
+      return acc;
+    }
+    if (!isNonEmptyString(acc.accountId)) check.error(`${field}.accountId`, 'Missing account id');
+    if (typeof acc.name !== 'string') check.error(`${field}.name`, `Not a name (${describeValue(acc.name)})`);
+    check.category(acc, 'category', `${field}.category`);
+    check.currency(acc, 'currency', `${field}.currency`);
+    check.number(acc, 'balance', `${field}.balance`);
+    check.number(acc, 'valueBase', `${field}.valueBase`);
+    if (!isValidOwnerList(acc.owners)) {
+      check.error(`${field}.owners`, `Not a list of owner shares (${describeValue(acc.owners)})`);
+    }
+    const accessType = check.accessType(acc, 'accessType', `${field}.accessType`);
+    return accessType === acc.accessType ? acc : { ...acc, accessType };
+  });
+
+  if (check.failed) return null;
+  return {
+    ...(raw as unknown as HistorySnapshot),
+    timestamp: timestamp!,
+    ...(accounts ? { accounts: accounts as SnapshotAccount[] } : {}),
+  };
+};
+
+const RETIREMENT_NUMBER_FIELDS: (keyof RetirementInputs)[] = [
+  'currentAge',
+  'retirementAge',
+  'currentSavings',
+  'monthlyExpenses',
+  'annualIncome',
+  'savingsRate',
+  'expectedReturn',
+  'inflationRate',
+  'socialSecurityAge',
+  'estimatedSocialSecurity',
+  'partTimeIncome',
+];
+
+// Retirement inputs are kept whole or not at all, since the planner needs every one of them
+const isValidRetirementInputs = (value: unknown): value is RetirementInputs =>
+  isRecord(value) &&
+  RETIREMENT_NUMBER_FIELDS.every((field) => isFiniteNumber(value[field])) &&
+  ['lean', 'moderate', 'fat'].includes(value.desiredLifestyle as string) &&
+  (value.currency === undefined || isKnownCurrencyCode(value.currency));
+
+// Validate a list, skipping records that are not objects or that fail their checks
+const validateList = <T>(
+  collection: string,
+  value: unknown,
+  validate: (raw: RawRecord, label: string, issues: BackupIssue[]) => T | null,
+  issues: BackupIssue[],
+  getKey: (item: T) => string
+): { items: T[]; skipped: number } => {
+  const items: T[] = [];
+  const seen = new Set<string>();
+  records<unknown>(value).forEach((raw, index) => {
+    const label = recordLabel(collection, index, raw);
+    if (!isRecord(raw)) {
+      issues.push({ severity: 'error', path: label, message: `Not a record (${describeValue(raw)})` });
+      return;
+    }
+    const item = validate(raw, label, issues);
+    if (!item) return;
+    if (seen.has(getKey(item))) {
+      issues.push({ severity: 'error', path: label, message: `Duplicate of an earlier record (${getKey(item)})` });
+      return;
+    }
+    seen.add(getKey(item));
+    items.push(item);
+  });
+  return { items, skipped: records(value).length - items.length };
+};
+
+// Parse a backup of any supported version: check its structure, upgrade it to the current schema, then validate
+// every record. Broken records are reported and left out instead of being imported.
+export const parseBackup = (raw: unknown): BackupParseResult => {
+  const issues: BackupIssue[] = [];
+  const skipped = { accounts: 0, conversionRates: 0, history: 0 };
+  const fail = (message: string, sourceVersion?: number): BackupParseResult => ({
+    data: null,
+    sourceVersion,
+    issues: [...issues, { severity: 'fatal', path: 'file', message }],
+    skipped,
+  });
+
+  if (!isRecord(raw)) return fail('Not a backup file');
+  // Upgrade steps are picked by whole version numbers, so anything else would skip one
+  if (raw.schemaVersion !== undefined && !(Number.isInteger(raw.schemaVersion) && (raw.schemaVersion as number) >= 1)) {
+    return fail(`Not a valid schema version (${describeValue(raw.schemaVersion)})`);
+  }
+  const sourceVersion = raw.schemaVersion as number | undefined;
+  if (sourceVersion !== undefined && sourceVersion > BACKUP_SCHEMA_VERSION) {
+    return fail(`Made by a newer version of the app (schema ${sourceVersion}, this app reads up to ${BACKUP_SCHEMA_VERSION})`, sourceVersion);
+  }
+  for (const field of ['accounts', 'conversionRates', 'history']) {
+    if (!Array.isArray(raw[field])) return fail(`The ${field} list is missing`, sourceVersion);
+  }
+
+  // Non-object records would break the upgrade steps, so they are reported and dropped first
+  const objectsOnly = (field: string) => records<unknown>(raw[field]).filter(isRecord);
+  const upgraded = upgradeBackup(
+    { ...raw, accounts: objectsOnly('accounts'), conversionRates: objectsOnly('conversionRates'), history: objectsOnly('history') },
+    sourceVersion ?? 1
+  );
+  (['accounts', 'conversionRates', 'history'] as const).forEach((field) =>
+    records<unknown>(raw[field]).forEach((record, index) => {
+      if (!isRecord(record)) {
+        issues.push({ severity: 'error', path: `${field}[${index}]`, message: `Not a record (${describeValue(record)})` });
+        skipped[field]++;
+      }
+    })
+  );
+
+  if (!isKnownCurrencyCode(upgraded.baseCurrency)) {
+    return fail(`Unknown base currency (${describeValue(upgraded.baseCurrency)})`, sourceVersion);
+  }
+
+  const accounts = validateList('accounts', upgraded.accounts, validateAccount, issues, (acc) => acc.id);
+  const conversionRates = validateList('conversionRates', upgraded.conversionRates, validateRate, issues, (r) => r.currency);
+  const history = validateList('history', upgraded.history, validateSnapshot, issues, (s) => s.id);
+  skipped.accounts += accounts.skipped;
+  skipped.conversionRates += conversionRates.skipped;
+  skipped.history += history.skipped;
+
+  let monthlyExpenses = upgraded.monthlyExpenses as number | undefined;
+  if (monthlyExpenses !== undefined && !isFiniteNumber(monthlyExpenses)) {
+    issues.push({ severity: 'warning', path: 'monthlyExpenses', message: `Not a number (${describeValue(monthlyExpenses)}), ignored` });
+    monthlyExpenses = undefined;
+  }
+  let retirementInputs = upgraded.retirementInputs as RetirementInputs | undefined;
+  if (retirementInputs !== undefined && !isValidRetirementInputs(retirementInputs)) {
+    issues.push({
+      severity: 'warning',
+      path: 'retirementInputs',
+      message: `Missing or invalid fields (${describeValue(retirementInputs)}), ignored`,
+    });
+    retirementInputs = undefined;
+  }
+  const people = records<unknown>(upgraded.people).filter(
+    (p): p is Person => isRecord(p) && isNonEmptyString(p.id) && typeof p.name === 'string'
+  );
+  if (people.length < records(upgraded.people).length) {
+    issues.push({ severity: 'warning', path: 'people', message: 'Household members without an id or name dropped' });
+  }
+
+  return {
+    data: {
+      ...(upgraded as unknown as BackupFile),
+      schemaVersion: BACKUP_SCHEMA_VERSION,
+      // Accounts whose whole balance history was dropped are seeded again from their balance
+      accounts: migrateAccounts(accounts.items),
+      conversionRates: conversionRates.items,
+      history: history.items,
+      baseCurrency: upgraded.baseCurrency as Currency,
+      people,
+      monthlyExpenses,
+      retirementInputs,
+    },
+    sourceVersion,
+    issues,
+    skipped,
+  };
+};
+
+export const createBackup = (data: Omit<BackupFile, 'schemaVersion' | 'exportDate'>): BackupFile => ({
+  schemaVersion: BACKUP_SCHEMA_VERSION,
+  ...data,
+  exportDate: new Date().toISOString(),
+});
@@ -0,0 +1,70 @@
+// Passphrase-encrypted backups: PBKDF2-SHA-256 derives an AES-256-GCM key, so a wrong passphrase or a modified
+// file fails to decrypt instead of producing garbage. Everything runs in the browser through Web Crypto.
+import { derivePassphraseKey, fromBase64, PBKDF2_ITERATIONS, randomBytes, toBase64 } from '@/lib/crypto';
+
+export const ENCRYPTED_BACKUP_FORMAT = 'networth-encrypted-backup';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export interface EncryptedBackup {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: 1;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  data: string; // Base64 ciphertext of the backup JSON, including the GCM tag
+}
+
+export class BackupDecryptionError extends Error {
+  constructor() {
+    super('Wrong passphrase, or the file has been modified');
+    this.name = 'BackupDecryptionError';
+  }
+}
+
+// Bounds on a file's PBKDF2 work factor: below is too weak to honour, above would hang the tab deriving the key
+const MIN_KDF_ITERATIONS = 1_000;
+const MAX_KDF_ITERATIONS = 10_000_000;
+
+export const isEncryptedBackup = (value: unknown): value is EncryptedBackup =>
+  typeof value === 'object' && value !== null && (value as EncryptedBackup).format === ENCRYPTED_BACKUP_FORMAT;
+
+export const encryptBackup = async (plaintext: string, passphrase: string): Promise<EncryptedBackup> => {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const key = await derivePassphraseKey(passphrase, salt, PBKDF2_ITERATIONS, ['encrypt']);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: 1,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(ciphertext)),
+  };
+};
+
+// Returns the backup JSON text; throws BackupDecryptionError when authentication fails
+export const decryptBackup = async (backup: EncryptedBackup, passphrase: string): Promise<string> => {
+  if (backup.version !== 1 || backup.kdf?.name !== 'PBKDF2' || backup.cipher?.name !== 'AES-GCM') {
+    throw new Error('Unsupported encrypted backup format');
+  }
+  const { iterations } = backup.kdf;
+  if (!Number.isInteger(iterations) || iterations < MIN_KDF_ITERATIONS || iterations > MAX_KDF_ITERATIONS) {
+    throw new Error('Unsupported encrypted backup format');
+  }
+  let salt: Uint8Array, iv: Uint8Array, data: Uint8Array;
+  try {
+    salt = fromBase64(backup.kdf.salt);
+    iv = fromBase64(backup.cipher.iv);
+    data = fromBase64(backup.data);
+  } catch {
+    // Not base64, so the file has been damaged or edited
+    throw new BackupDecryptionError();
+  }
+  const key = await derivePassphraseKey(passphrase, salt, iterations, ['decrypt']);
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, data);
+    return new TextDecoder('utf-8', { fatal: true }).decode(plaintext);
+  } catch {
+    throw new BackupDecryptionError();
+  }
+};
@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest';
+import { Account, ConversionRate } from '@/types/finance';
+import { HistorySnapshot, SnapshotAccount } from '@/types/history';
+import { BackupFile } from '@/types/backup';
+import { applyMerge, getMergeUnavailableReason, MergeableState, planMerge } from '@/lib/backupMerge';
+
+const account = (overrides: Partial<Account> = {}): Account => ({
+  id: 'checking',
+  name: 'Checking',
+  category: 'current_asset',
+  currency: 'EUR',
+  balance: 1000,
+  accessType: 'liquid',
+  lastUpdated: new Date(2024, 2, 1),
+  balanceHistory: [{ id: 'entry-1', date: new Date(2024, 2, 1), balance: 1000 }],
+  ...overrides,
+});
+
+const snapshot = (overrides: Partial<HistorySnapshot> = {}): HistorySnapshot => ({
+  id: 'snap-march',
+  timestamp: new Date(2024, 2, 1, 9),
+  baseCurrency: 'EUR',
+  netWorthBase: 1000,
+  totalAssetsBase: 1000,
+  totalLiabilitiesBase: 0,
+  liquidNetWorthBase: 1000,
+  accountCount: 1,
+  ...overrides,
+});
+
+const usd = (history: [number, Date][]): ConversionRate => ({
+  currency: 'USD',
+  rate: history[history.length - 1][0],
+  history: history.map(([rate, effectiveDate], index) => ({ id: `usd-${index}`, rate, effectiveDate })),
+});
+
+const local = (overrides: Partial<MergeableState> = {}): MergeableState => ({
+  accounts: [account()],
+  conversionRates: [],
+  history: [snapshot()],
+  people: [],
+  baseCurrency: 'EUR',
+  ...overrides,
+});
+
+const incoming = (overrides: Partial<BackupFile> = {}): BackupFile => ({
+  schemaVersion: 5,
+  accounts: [account()],
+  conversionRates: [],
+  history: [snapshot()],
+  people: [],
+  baseCurrency: 'EUR',
+  ...overrides,
+});
+
+describe('planMerge', () => {
+  it('counts identical records as unchanged', () => {
+    const plan = planMerge(local(), incoming());
+    expect(plan.conflicts).toEqual([]);
+    expect(plan.unchanged).toBe(2);
+  });
+
+  it('matches accounts by name and prefers the copy updated last', () => {
+    const renamed = account({ id: 'other-id', name: ' checking ', balance: 1500, lastUpdated: new Date(2024, 3, 1) });
+    const plan = planMerge(local(), incoming({ accounts: [renamed] }));
+    expect(plan.conflicts).toHaveLength(1);
+    expect(plan.conflicts[0]).toMatchObject({
+      id: 'account:checking',
+      matchedBy: 'name',
+      reasons: ['balance', 'lastUpdated'],
+      defaultChoice: 'incoming',
+    });
+    expect(plan.newAccounts).toBe(0);
+  });
+
+  it('treats a snapshot from the same day as a duplicate', () => {
+    const evening = snapshot({ id: 'other', timestamp: new Date(2024, 2, 1, 18) });
+    const plan = planMerge(local(), incoming({ history: [evening] }));
+    expect(plan.conflicts).toEqual([
+      expect.objectContaining({ type: 'snapshot', reasons: ['duplicateSnapshot'], defaultChoice: 'local' }),
+    ]);
+  });
+
+  it('counts new accounts, snapshots and rates', () => {
+    const plan = planMerge(
+      local(),
+      incoming({
+        accounts: [account(), account({ id: 'savings', name: 'Savings' })],
+        history: [snapshot(), snapshot({ id: 'snap-april', timestamp: new Date(2024, 3, 1) })],
+        conversionRates: [usd([[0.9, new Date(2024, 2, 1)]])],
+      })
+    );
+    expect(plan).toMatchObject({ newAccounts: 1, newSnapshots: 1, newRates: 1 });
+  });
+});
+
+describe('getMergeUnavailableReason', () => {
+  it('refuses to merge across base currencies', () => {
+    expect(getMergeUnavailableReason(local(), incoming())).toBeNull();
+    expect(getMergeUnavailableReason(local(), incoming({ baseCurrency: 'USD' }))).toMatch(/base currency/);
+  });
+});
+
+describe('applyMerge', () => {
+  it('applies the chosen side of each conflict', () => {
+    const newer = account({ id: 'other-id', balance: 1500, lastUpdated: new Date(2024, 3, 1) });
+    expect(applyMerge(local(), incoming({ accounts: [newer] }), {}).accounts).toEqual([
+      { ...newer, id: 'checking' },
+    ]);
+    expect(applyMerge(local(), incoming({ accounts: [newer] }), { 'account:checking': 'local' }).accounts).toEqual([
+      account(),
+    ]);
+  });
+
+  it('keeps both snapshots when asked, under separate ids', () => {
+    const result = applyMerge(local(), incoming({ history: [snapshot({ netWorthBase: 2000 })] }), {
+      'snapshot:snap-march': 'both',
+    });
+    expect(result.history).toHaveLength(2);
+    expect(new Set(result.history.map((s) => s.id)).size).toBe(2);
+  });
+
+  it('points merged records at the local accounts and people they were matched to', () => {
+    const house = account({ id: 'their-house', name: 'House', category: 'non_current_asset' });
+    const mortgage = account({
+      id: 'their-mortgage',
+      name: 'Mortgage',
+      category: 'non_current_liability',
+      securedBy: 'their-house',
+      owners: [{ personId: 'their-alex', share: 100 }],
+    });
+    const result = applyMerge(
+      local({
+        accounts: [account(), account({ id: 'our-house', name: 'House', category: 'non_current_asset' })],
+        people: [{ id: 'our-alex', name: 'Alex' }],
+      }),
+      incoming({
+        accounts: [house, mortgage],
+        people: [{ id: 'their-alex', name: 'alex' }],
+        history: [
+          snapshot({
+            id: 'snap-april',
+            timestamp: new Date(2024, 3, 1),
+            accounts: [{ accountId: 'their-house' } as SnapshotAccount],
+          }),
+        ],
+      }),
+      {}
+    );
+    const merged = result.accounts.find((acc) => acc.name === 'Mortgage');
+    expect(merged?.securedBy).toBe('our-house');
+    expect(merged?.owners).toEqual([{ personId: 'our-alex', share: 100 }]);
+    expect(result.people).toHaveLength(1);
+    expect(result.history.find((s) => s.id === 'snap-april')?.accounts?.[0].accountId).toBe('our-house');
+  });
+
+  it('combines rate histories, keeping the local rate on a shared day', () => {
+    const result = applyMerge(
+      local({ conversionRates: [usd([[0.9, new Date(2024, 2, 1)]])] }),
+      incoming({
+        conversionRates: [
+          usd([
+            [0.95, new Date(2024, 2, 1)],
+            [0.92, new Date(2024, 3, 1)],
+          ]),
+        ],
+      }),
+      {}
+    );
+    expect(result.conversionRates[0].history.map((entry) => entry.rate)).toEqual([0.9, 0.92]);
+  });
+});
@@ -0,0 +1,246 @@
+import { format, isSameDay } from 'date-fns';
+import { Account, ConversionRate, Currency, Person } from '@/types/finance';
+import { HistorySnapshot } from '@/types/history';
+import { BackupFile, MergeChoice, MergeConflict, MergeConflictReason, MergePlan } from '@/types/backup';
+import { formatCurrency } from '@/lib/currency';
+import { withRateHistory } from '@/lib/fxRates';
+
+// What a merge reads from and writes back to the profile
+export interface MergeableState {
+  accounts: Account[];
+  conversionRates: ConversionRate[];
+  history: HistorySnapshot[];
+  people: Person[];
+  baseCurrency: Currency;
+}
+
+export type MergeResult = Omit<MergeableState, 'baseCurrency'>;
+
+interface MergeMatches {
+  personIds: Map<string, string>; // Incoming id → local id
+  newPeople: Person[];
+  accountIds: Map<string, string>; // Incoming id → local id, for accounts matched by name
+  accountPairs: { local: Account; incoming: Account; matchedBy: 'id' | 'name' }[];
+  newAccounts: Account[];
+  snapshotPairs: { local: HistorySnapshot; incoming: HistorySnapshot; matchedBy: 'id' | 'date' }[];
+  newSnapshots: HistorySnapshot[];
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+const time = (date: Date) => new Date(date).getTime();
+
+// Matches by id first, then by a secondary key among the records still unmatched on both sides
+const pairRecords = <T extends { id: string }>(
+  local: T[],
+  incoming: T[],
+  isSecondaryMatch: (local: T, incoming: T) => boolean
+) => {
+  const localById = new Map(local.map((item) => [item.id, item]));
+  const pairs: { local: T; incoming: T; matchedBy: 'id' | 'secondary' }[] = [];
+  const unmatched: T[] = [];
+  incoming.forEach((item) => {
+    const byId = localById.get(item.id);
+    if (byId) {
+      pairs.push({ local: byId, incoming: item, matchedBy: 'id' });
+    } else {
+      unmatched.push(item);
+    }
+  });
+
+  const taken = new Set(pairs.map((pair) => pair.local.id));
+  const added: T[] = [];
+  unmatched.forEach((item) => {
+    const match = local.find((candidate) => !taken.has(candidate.id) && isSecondaryMatch(candidate, item));
+    if (match) {
+      taken.add(match.id);
+      pairs.push({ local: match, incoming: item, matchedBy: 'secondary' });
+    } else {
+      added.push(item);
+    }
+  });
+  return { pairs, added };
+};
+
+// Rewrites the incoming backup's person and account ids to the local ones they were matched to
+const remapAccount = (
+  account: Account,
+  localId: string,
+  accountIds: Map<string, string>,
+  personIds: Map<string, string>
+): Account => ({
+  ...account,
+  id: localId,
+  securedBy: account.securedBy && (accountIds.get(account.securedBy) ?? account.securedBy),
+  owners: account.owners?.map((owner) => ({ ...owner, personId: personIds.get(owner.personId) ?? owner.personId })),
+});
+
+const remapSnapshot = (
+  snapshot: HistorySnapshot,
+  accountIds: Map<string, string>,
+  personIds: Map<string, string>
+): HistorySnapshot => ({
+  ...snapshot,
+  accounts: snapshot.accounts?.map((acc) => ({
+    ...acc,
+    accountId: accountIds.get(acc.accountId) ?? acc.accountId,
+    owners: acc.owners?.map((owner) => ({ ...owner, personId: personIds.get(owner.personId) ?? owner.personId })),
+  })),
+});
+
+const matchRecords = (local: MergeableState, incoming: BackupFile): MergeMatches => {
+  const people = pairRecords(local.people, incoming.people, (a, b) => normalizeName(a.name) === normalizeName(b.name));
+  const personIds = new Map(people.pairs.map(({ local, incoming }) => [incoming.id, local.id]));
+
+  const accounts = pairRecords(
+    local.accounts,
+    incoming.accounts,
+    (a, b) => normalizeName(a.name) === normalizeName(b.name)
+  );
+  const accountIds = new Map(accounts.pairs.map(({ local, incoming }) => [incoming.id, local.id]));
+
+  // Snapshots without a shared id are duplicates when taken on the same day
+  const snapshots = pairRecords(local.history, incoming.history, (a, b) =>
+    isSameDay(new Date(a.timestamp), new Date(b.timestamp))
+  );
+
+  return {
+    personIds,
+    newPeople: people.added,
+    accountIds,
+    accountPairs: accounts.pairs.map(({ local, incoming, matchedBy }) => ({
+      local,
+      incoming: remapAccount(incoming, local.id, accountIds, personIds),
+      matchedBy: matchedBy === 'id' ? 'id' : 'name',
+    })),
+    newAccounts: accounts.added.map((acc) => remapAccount(acc, acc.id, accountIds, personIds)),
+    snapshotPairs: snapshots.pairs.map(({ local, incoming, matchedBy }) => ({
+      local,
+      incoming: remapSnapshot(incoming, accountIds, personIds),
+      matchedBy: matchedBy === 'id' ? 'id' : 'date',
+    })),
+    newSnapshots: snapshots.added.map((s) => remapSnapshot(s, accountIds, personIds)),
+  };
+};
+
+const isSameRecord = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const describeAccount = (account: Account) =>
+  `${formatCurrency(account.balance, account.currency)} · updated ${format(new Date(account.lastUpdated), 'PP')}`;
+
+const describeSnapshot = (snapshot: HistorySnapshot) =>
+  `${formatCurrency(snapshot.netWorthBase, snapshot.baseCurrency)} net worth · ${snapshot.accountCount} account${
+    snapshot.accountCount !== 1 ? 's' : ''
+  } · ${format(new Date(snapshot.timestamp), 'p')}`;
+
+const getAccountConflict = ({ local, incoming, matchedBy }: MergeMatches['accountPairs'][number]): MergeConflict => {
+  const reasons: MergeConflictReason[] = [];
+  if (local.balance !== incoming.balance) reasons.push('balance');
+  if (time(local.lastUpdated) !== time(incoming.lastUpdated)) reasons.push('lastUpdated');
+  if (reasons.length === 0) reasons.push('details');
+  return {
+    id: `account:${local.id}`,
+    type: 'account',
+    label: local.name,
+    reasons,
+    local: { summary: describeAccount(local), date: local.lastUpdated },
+    incoming: { summary: describeAccount(incoming), date: incoming.lastUpdated },
+    matchedBy,
+    // The copy updated more recently wins unless changed
+    defaultChoice: time(incoming.lastUpdated) > time(local.lastUpdated) ? 'incoming' : 'local',
+  };
+};
+
+const getSnapshotConflict = ({ local, incoming, matchedBy }: MergeMatches['snapshotPairs'][number]): MergeConflict => ({
+  id: `snapshot:${local.id}`,
+  type: 'snapshot',
+  label: format(new Date(local.timestamp), 'PP'),
+  reasons: [matchedBy === 'date' ? 'duplicateSnapshot' : 'details'],
+  local: { summary: describeSnapshot(local), date: local.timestamp },
+  incoming: { summary: describeSnapshot(incoming), date: incoming.timestamp },
+  matchedBy,
+  defaultChoice: 'local',
+});
+
+// Rates are relative to the base currency, so they can only be combined when both sides share it
+export const getMergeUnavailableReason = (local: MergeableState, incoming: BackupFile): string | null =>
+  local.baseCurrency === incoming.baseCurrency
+    ? null
+    : `The backup uses ${incoming.baseCurrency} as its base currency and this profile uses ${local.baseCurrency}. ` +
+      'Switch the base currency first, or replace the data instead.';
+
+export const planMerge = (local: MergeableState, incoming: BackupFile): MergePlan => {
+  const matches = matchRecords(local, incoming);
+  const changedAccounts = matches.accountPairs.filter((pair) => !isSameRecord(pair.local, pair.incoming));
+  const changedSnapshots = matches.snapshotPairs.filter((pair) => !isSameRecord(pair.local, pair.incoming));
+  const localCurrencies = new Set(local.conversionRates.map((r) => r.currency));
+
+  return {
+    conflicts: [...changedAccounts.map(getAccountConflict), ...changedSnapshots.map(getSnapshotConflict)],
+    newAccounts: matches.newAccounts.length,
+    newSnapshots: matches.newSnapshots.length,
+    newRates: incoming.conversionRates.filter((r) => !localCurrencies.has(r.currency)).length,
+    newPeople: matches.newPeople.length,
+    unchanged:
+      matches.accountPairs.length - changedAccounts.length + matches.snapshotPairs.length - changedSnapshots.length,
+  };
+};
+
+// Rate histories are combined; on a day both sides recorded a rate, the local entry is kept
+const mergeRates = (local: ConversionRate[], incoming: ConversionRate[]): ConversionRate[] => {
+  const incomingByCurrency = new Map(incoming.map((rate) => [rate.currency, rate]));
+  const merged = local.map((rate) => {
+    const other = incomingByCurrency.get(rate.currency);
+    if (!other) return rate;
+    const added = other.history.filter(
+      (entry) => !rate.history.some((own) => isSameDay(new Date(own.effectiveDate), new Date(entry.effectiveDate)))
+    );
+    return added.length > 0 ? withRateHistory(rate, [...rate.history, ...added]) : rate;
+  });
+  const localCurrencies = new Set(local.map((rate) => rate.currency));
+  return [...merged, ...incoming.filter((rate) => !localCurrencies.has(rate.currency))];
+};
+
+// Conflicts without a choice use their default. Expenses, retirement inputs and view settings stay as they are.
+export const applyMerge = (
+  local: MergeableState,
+  incoming: BackupFile,
+  choices: Record<string, MergeChoice>
+): MergeResult => {
+  const matches = matchRecords(local, incoming);
+  const choose = (conflict: MergeConflict) => choices[conflict.id] ?? conflict.defaultChoice;
+
+  const replacedAccounts = new Map(
+    matches.accountPairs
+      .filter((pair) => !isSameRecord(pair.local, pair.incoming) && choose(getAccountConflict(pair)) === 'incoming')
+      .map((pair) => [pair.local.id, pair.incoming])
+  );
+  const accounts = [
+    ...local.accounts.map((acc) => replacedAccounts.get(acc.id) ?? acc),
+    ...matches.newAccounts,
+  ];
+
+  const replacedSnapshots = new Map<string, HistorySnapshot>();
+  const addedSnapshots = [...matches.newSnapshots];
+  matches.snapshotPairs
+    .filter((pair) => !isSameRecord(pair.local, pair.incoming))
+    .forEach((pair) => {
+      const choice = choose(getSnapshotConflict(pair));
+      if (choice === 'incoming') replacedSnapshots.set(pair.local.id, pair.incoming);
+      if (choice === 'both') {
+        addedSnapshots.push(
+          pair.incoming.id === pair.local.id ? { ...pair.incoming, id: crypto.randomUUID() } : pair.incoming
+        );
+      }
+    });
+  const history = [...local.history.map((s) => replacedSnapshots.get(s.id) ?? s), ...addedSnapshots].sort(
+    (a, b) => time(a.timestamp) - time(b.timestamp)
+  );
+
+  return {
+    accounts,
+    conversionRates: mergeRates(local.conversionRates, incoming.conversionRates),
+    history,
+    people: [...local.people, ...matches.newPeople],
+  };
+};
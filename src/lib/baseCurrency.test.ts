@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { ConversionRate } from '@/types/finance';
+import { HistorySnapshot } from '@/types/history';
+import { rebaseSnapshot } from '@/lib/baseCurrency';
+
+// Rates against EUR, the current base: 1 USD is 0.9 EUR, 1 GBP is 1.2 EUR
+const conversionRates: ConversionRate[] = [
+  { currency: 'USD', rate: 0.9, history: [{ id: 'usd', rate: 0.9, effectiveDate: new Date(2020, 0, 1) }] },
+  { currency: 'GBP', rate: 1.2, history: [{ id: 'gbp', rate: 1.2, effectiveDate: new Date(2020, 0, 1) }] },
+];
+
+const snapshot = (overrides: Partial<HistorySnapshot> = {}): HistorySnapshot => ({
+  id: 'snap',
+  timestamp: new Date(2024, 2, 1),
+  baseCurrency: 'USD',
+  netWorthBase: 1200,
+  totalAssetsBase: 1200,
+  totalLiabilitiesBase: 0,
+  liquidNetWorthBase: 1200,
+  accountCount: 1,
+  ...overrides,
+});
+
+describe('rebaseSnapshot', () => {
+  it('converts a snapshot without rates through the base the rate history is in', () => {
+    const rebased = rebaseSnapshot(snapshot(), conversionRates, 'EUR', 'GBP');
+    expect(rebased.baseCurrency).toBe('GBP');
+    // 1200 USD is 1080 EUR, which is 900 GBP
+    expect(rebased.netWorthBase).toBeCloseTo(900);
+  });
+
+  it('prefers the rates stored with the snapshot', () => {
+    const rebased = rebaseSnapshot(snapshot({ rates: { USD: 1, GBP: 1.5 } }), conversionRates, 'EUR', 'GBP');
+    expect(rebased.netWorthBase).toBeCloseTo(800);
+    expect(rebased.rates).toEqual({ USD: 1 / 1.5, GBP: 1 });
+  });
+
+  it('leaves a snapshot it cannot convert as it was', () => {
+    expect(rebaseSnapshot(snapshot(), conversionRates, 'EUR', 'JPY')).toEqual(snapshot());
+  });
+});
@@ -0,0 +1,103 @@
+import { ConversionRate, Currency } from '@/types/finance';
+import { HistorySnapshot } from '@/types/history';
+import { RetirementInputs } from '@/types/retirement';
+import { createRateEntry, getRateAt, withRateHistory } from '@/lib/fxRates';
+import { getRateToBase } from '@/lib/currency';
+
+// A currency can only become the base once it has a usable rate to the current base
+export const canUseAsBase = (currency: Currency, conversionRates: ConversionRate[]): boolean => {
+  const rate = conversionRates.find((r) => r.currency === currency);
+  return !!rate && rate.rate > 0 && (rate.history ?? []).every((e) => e.rate > 0);
+};
+
+const uniqueDates = (dates: Date[]): Date[] => {
+  const times = Array.from(new Set(dates.map((d) => new Date(d).getTime())));
+  return times.sort((a, b) => a - b).map((t) => new Date(t));
+};
+
+// Re-express every rate series against a new base. Each currency gets an entry wherever
+// either its own series or the new base's series changed, so dated lookups stay exact.
+export const rebaseConversionRates = (
+  conversionRates: ConversionRate[],
+  fromBase: Currency,
+  toBase: Currency
+): ConversionRate[] => {
+  const target = conversionRates.find((r) => r.currency === toBase);
+  if (!target) return conversionRates;
+
+  const targetDates = (target.history ?? []).map((e) => e.effectiveDate);
+  const withOldBase = conversionRates.some((r) => r.currency === fromBase)
+    ? conversionRates
+    : [{ currency: fromBase, rate: 1, history: [] }, ...conversionRates];
+
+  return withOldBase.map((r) => {
+    if (r.currency === toBase) {
+      const earliest = targetDates.length > 0 ? new Date(targetDates[0]) : new Date();
+      return { ...r, rate: 1, history: [createRateEntry(1, earliest)] };
+    }
+    // The old base was worth exactly 1 at every date, so only the new base's dates matter
+    const ownDates = r.currency === fromBase ? [] : (r.history ?? []).map((e) => e.effectiveDate);
+    const dates = uniqueDates([...ownDates, ...targetDates]);
+    const rateAt = (date: Date) => (r.currency === fromBase ? 1 : getRateAt(r, date)) / getRateAt(target, date);
+    if (dates.length === 0) {
+      return { ...r, rate: (r.currency === fromBase ? 1 : r.rate) / target.rate, history: [] };
+    }
+    return withRateHistory(r, dates.map((date) => createRateEntry(rateAt(date), date)));
+  });
+};
+
+// Convert a snapshot into the new base using the new base's rate at the time of the snapshot. Snapshots without
+// their own rates fall back to the rate history, which is expressed in ratesBase rather than the snapshot's base.
+export const rebaseSnapshot = (
+  snapshot: HistorySnapshot,
+  conversionRates: ConversionRate[],
+  ratesBase: Currency,
+  toBase: Currency
+): HistorySnapshot => {
+  const fromBase = snapshot.baseCurrency;
+  if (fromBase === toBase) return snapshot;
+
+  const storedRate = snapshot.rates?.[toBase];
+  const date = new Date(snapshot.timestamp);
+  const rateInRatesBase = (currency: Currency) => getRateToBase(currency, conversionRates, ratesBase, date);
+  const rate = storedRate && storedRate > 0 ? storedRate : rateInRatesBase(toBase) / rateInRatesBase(fromBase);
+  if (!(rate > 0) || !Number.isFinite(rate)) return snapshot;
+
+  const rates = snapshot.rates
+    ? Object.fromEntries(
+        Object.entries({ ...snapshot.rates, [fromBase]: 1 }).map(([currency, value]) => [currency, value / rate])
+      )
+    : undefined;
+
+  return {
+    ...snapshot,
+    baseCurrency: toBase,
+    netWorthBase: snapshot.netWorthBase / rate,
+    totalAssetsBase: snapshot.totalAssetsBase / rate,
+    totalLiabilitiesBase: snapshot.totalLiabilitiesBase / rate,
+    liquidNetWorthBase: snapshot.liquidNetWorthBase / rate,
+    accounts: snapshot.accounts?.map((acc) => ({ ...acc, valueBase: acc.valueBase / rate })),
+    rates: rates && { ...rates, [toBase]: 1 },
+  };
+};
+
+// Retirement inputs are kept in the base currency they were entered in. Bring them
+// into the current base at today's rates; older inputs without a currency are assumed current.
+export const alignRetirementInputs = (
+  inputs: RetirementInputs,
+  conversionRates: ConversionRate[],
+  baseCurrency: Currency
+): RetirementInputs => {
+  if (!inputs.currency || inputs.currency === baseCurrency) return { ...inputs, currency: baseCurrency };
+  const rate = getRateToBase(inputs.currency, conversionRates, baseCurrency);
+  if (rate === 0) return inputs;
+  return {
+    ...inputs,
+    currentSavings: inputs.currentSavings * rate,
+    monthlyExpenses: inputs.monthlyExpenses * rate,
+    annualIncome: inputs.annualIncome * rate,
+    estimatedSocialSecurity: inputs.estimatedSocialSecurity * rate,
+    partTimeIncome: inputs.partTimeIncome * rate,
+    currency: baseCurrency,
+  };
+};
@@ -0,0 +1,192 @@
+import { describe, expect, it } from 'vitest';
+import { Account } from '@/types/finance';
+import { SyncedDocument } from '@/types/sync';
+import { recordBalance } from '@/lib/accountHistory';
+import {
+  applyOperations,
+  applySyncedChanges,
+  describeChanges,
+  diffOperations,
+  documentOperations,
+  formatStamp,
+  observeStamp,
+  SyncedData,
+  tickClock,
+  ZERO_CLOCK,
+} from '@/lib/crdt';
+
+const account = (overrides: Partial<Account> = {}): Account => ({
+  id: 'checking',
+  name: 'Checking',
+  category: 'current_asset',
+  currency: 'EUR',
+  balance: 1000,
+  accessType: 'liquid',
+  lastUpdated: new Date('2024-03-01T00:00:00.000Z'),
+  balanceHistory: [{ id: 'entry-1', date: new Date('2024-03-01T00:00:00.000Z'), balance: 1000 }],
+  ...overrides,
+});
+
+const data = (overrides: Partial<SyncedData> = {}): SyncedData => ({
+  accounts: [account()],
+  conversionRates: [],
+  history: [],
+  people: [],
+  monthlyExpenses: 2000,
+  baseCurrency: 'EUR',
+  ...overrides,
+});
+
+const stamp = (wall: number, deviceId: string) => formatStamp({ wall, counter: 0 }, deviceId);
+
+// Both devices start from the same document, then edit their own copy of it
+const shared = applyOperations({}, diffOperations({}, data(), stamp(1, 'laptop')));
+const balanceEdit = diffOperations(
+  shared,
+  data({ accounts: [recordBalance(account(), 1500, new Date('2024-03-10T00:00:00.000Z'))] }),
+  stamp(2, 'phone')
+);
+const rename = diffOperations(shared, data({ accounts: [account({ name: 'Main account' })] }), stamp(3, 'laptop'));
+
+// The accounts a device would end up with after taking the document in
+const readAccounts = (document: SyncedDocument): Account[] => {
+  const changes = describeChanges({}, document, documentOperations(document));
+  return changes ? applySyncedChanges(data({ accounts: [] }), changes).accounts : [];
+};
+
+describe('clocks', () => {
+  it('orders stamps as plain strings', () => {
+    expect(stamp(9, 'a') < stamp(10, 'a')).toBe(true);
+    expect(formatStamp({ wall: 5, counter: 2 }, 'a') > formatStamp({ wall: 5, counter: 1 }, 'b')).toBe(true);
+  });
+
+  it('moves past stamps from other devices', () => {
+    expect(tickClock({ wall: 100, counter: 0 }, 50)).toEqual({ wall: 100, counter: 1 });
+    expect(tickClock(ZERO_CLOCK, 50)).toEqual({ wall: 50, counter: 0 });
+    expect(observeStamp({ wall: 100, counter: 0 }, formatStamp({ wall: 200, counter: 3 }, 'b'))).toEqual({
+      wall: 200,
+      counter: 3,
+    });
+  });
+});
+
+describe('applyOperations', () => {
+  it('keeps edits to different fields made on two devices', () => {
+    const [merged] = readAccounts(applyOperations(applyOperations(shared, balanceEdit), rename));
+    expect(merged.balance).toBe(1500);
+    expect(merged.name).toBe('Main account');
+  });
+
+  it('keeps balances recorded on two devices at once', () => {
+    const laptopEdit = diffOperations(
+      shared,
+      data({ accounts: [recordBalance(account(), 1200, new Date('2024-03-12T00:00:00.000Z'))] }),
+      stamp(3, 'laptop')
+    );
+    const forward = readAccounts(applyOperations(applyOperations(shared, balanceEdit), laptopEdit));
+    const backward = readAccounts(applyOperations(applyOperations(shared, laptopEdit), balanceEdit));
+    expect(backward).toEqual(forward);
+    const [merged] = forward;
+    expect(merged.balanceHistory.map((entry) => entry.balance)).toEqual([1000, 1500, 1200]);
+    // The latest entry by date sets the balance, whichever device wrote last
+    expect(merged.balance).toBe(1200);
+    expect(merged.lastUpdated).toEqual(new Date('2024-03-12T00:00:00.000Z'));
+  });
+
+  it('reads histories written whole by an earlier version and carries on entry by entry', () => {
+    const plain = JSON.parse(JSON.stringify(account())) as Record<string, unknown>;
+    const legacy = applyOperations(
+      shared,
+      [['$deleted', false], ...Object.entries(plain)].map(([field, value]) => ({
+        collection: 'accounts' as const,
+        key: 'savings',
+        field: field as string,
+        value,
+        stamp: stamp(2, 'old'),
+      }))
+    );
+    expect(readAccounts(legacy)[1]).toMatchObject({ balance: 1000, balanceHistory: account().balanceHistory });
+
+    const savings = recordBalance(account({ id: 'savings' }), 1500, new Date('2024-03-10T00:00:00.000Z'));
+    const update = diffOperations(legacy, data({ accounts: [account(), savings] }), stamp(3, 'laptop'));
+    const [, merged] = readAccounts(applyOperations(legacy, update));
+    expect(merged.balanceHistory.map((entry) => entry.balance)).toEqual([1000, 1500]);
+    expect(merged.balance).toBe(1500);
+  });
+
+  it('removes a history entry deleted on another device', () => {
+    const withEntry = applyOperations(shared, balanceEdit);
+    const [recorded] = readAccounts(withEntry);
+    const trimmed = { ...recorded, balanceHistory: recorded.balanceHistory.slice(0, 1), balance: 1000 };
+    const removal = diffOperations(withEntry, data({ accounts: [trimmed] }), stamp(3, 'laptop'));
+    const [merged] = readAccounts(applyOperations(withEntry, removal));
+    expect(merged.balanceHistory).toHaveLength(1);
+    expect(merged.balance).toBe(1000);
+  });
+
+  it('reaches the same document in any order and any number of times', () => {
+    const forward = applyOperations(applyOperations(shared, balanceEdit), rename);
+    const backward = applyOperations(applyOperations(shared, rename), balanceEdit);
+    expect(backward).toEqual(forward);
+    expect(applyOperations(forward, [...rename, ...balanceEdit])).toEqual(forward);
+  });
+
+  it('lets the later stamp win on the same field', () => {
+    const older = diffOperations(shared, data({ monthlyExpenses: 2500 }), stamp(2, 'phone'));
+    const newer = diffOperations(shared, data({ monthlyExpenses: 3000 }), stamp(3, 'laptop'));
+    expect(applyOperations(applyOperations(shared, newer), older).settings?.monthlyExpenses.value.value).toBe(3000);
+  });
+
+  it('leaves the document passed in as it was', () => {
+    const before = JSON.stringify(shared);
+    applyOperations(shared, balanceEdit);
+    expect(JSON.stringify(shared)).toBe(before);
+  });
+});
+
+describe('diffOperations', () => {
+  it('has nothing to send when the data matches the document', () => {
+    expect(diffOperations(shared, data(), stamp(2, 'laptop'))).toEqual([]);
+  });
+
+  it('marks removed records as deleted', () => {
+    const operations = diffOperations(shared, data({ accounts: [] }), stamp(2, 'laptop'));
+    expect(operations).toEqual([
+      { collection: 'accounts', key: 'checking', field: '$deleted', value: true, stamp: stamp(2, 'laptop') },
+    ]);
+  });
+});
+
+describe('documentOperations', () => {
+  it('rebuilds the document from an empty one', () => {
+    const merged = applyOperations(applyOperations(shared, balanceEdit), rename);
+    expect(applyOperations({}, documentOperations(merged))).toEqual(merged);
+  });
+});
+
+describe('describeChanges and applySyncedChanges', () => {
+  it('reports only what changed and applies it to the data here', () => {
+    const after = applyOperations(shared, balanceEdit);
+    const changes = describeChanges(shared, after, balanceEdit);
+    expect(Object.keys(changes?.lists.accounts?.records ?? {})).toEqual(['checking']);
+    expect(changes?.settings).toEqual({});
+
+    const local = data({ accounts: [account(), account({ id: 'savings', name: 'Savings' })] });
+    const result = applySyncedChanges(local, changes!);
+    expect(result.accounts.map((acc) => [acc.id, acc.balance])).toEqual([
+      ['checking', 1500],
+      ['savings', 1000],
+    ]);
+    expect(result.accounts[0].lastUpdated).toBeInstanceOf(Date);
+  });
+
+  it('returns null when the operations change nothing', () => {
+    expect(describeChanges(shared, applyOperations(shared, []), [])).toBeNull();
+  });
+
+  it('removes records deleted on another device', () => {
+    const removal = diffOperations(shared, data({ accounts: [] }), stamp(2, 'phone'));
+    const changes = describeChanges(shared, applyOperations(shared, removal), removal);
+    expect(applySyncedChanges(data(), changes!).accounts).toEqual([]);
+  });
+});
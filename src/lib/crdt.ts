@@ -0,0 +1,299 @@
+import { Account, ConversionRate, Currency, Person } from '@/types/finance';
+import { HistorySnapshot } from '@/types/history';
+import { HybridClock, OperationStamp, SyncedCollection, SyncedDocument, SyncOperation, SyncRegister } from '@/types/sync';
+import { reviveAccount, reviveConversionRate, reviveSnapshot } from '@/lib/dateRevival';
+import { withBalanceHistory } from '@/lib/accountHistory';
+import { withRateHistory } from '@/lib/fxRates';
+
+// The profile data is kept as a last-writer-wins map: every field of every record is a register holding the value
+// with the highest stamp. Registers merge in any order and any number of times to the same result, so devices that
+// have seen the same operations agree, and edits to different fields of one account (say, a balance on the phone and
+// a rename on the laptop) both survive. Dated histories are kept entry by entry, so balances recorded on two devices
+// at once both land in the history, and the balance or rate follows from its latest entry rather than from whichever
+// device wrote last.
+//
+// Concurrent changes that only make sense together can still interleave: switching the base currency on one device
+// while editing a rate on another may leave that rate expressed in the old base.
+
+export interface SyncedData {
+  accounts: Account[];
+  conversionRates: ConversionRate[];
+  history: HistorySnapshot[];
+  people: Person[];
+  monthlyExpenses: number;
+  baseCurrency: Currency;
+}
+
+type ListCollection = Exclude<SyncedCollection, 'settings'>;
+type SettingName = 'monthlyExpenses' | 'baseCurrency';
+type PlainRecord = Record<string, unknown>;
+
+// Changes that arrived from other devices, ready to apply on top of the data here
+export interface SyncedChanges {
+  // Changed records by key (null: removed) and the key order of the whole list afterwards
+  lists: Partial<Record<ListCollection, { records: Record<string, unknown>; order: string[] }>>;
+  settings: Partial<Pick<SyncedData, SettingName>>;
+}
+
+// A list field whose entries are kept as registers of their own, and the fields that follow from them
+interface EntryList {
+  field: string;
+  derived: string[];
+  derive: (record: PlainRecord, entries: PlainRecord[]) => PlainRecord;
+}
+
+interface ListConfig {
+  keyOf: (record: PlainRecord) => string;
+  revive: (record: never) => unknown;
+  entries?: EntryList;
+}
+
+const LISTS: Record<ListCollection, ListConfig> = {
+  accounts: {
+    keyOf: (account) => account.id as string,
+    revive: reviveAccount,
+    entries: {
+      field: 'balanceHistory',
+      derived: ['balance', 'lastUpdated'],
+      derive: (account, entries) => withBalanceHistory(account as never, entries as never) as never,
+    },
+  },
+  conversionRates: {
+    keyOf: (rate) => rate.currency as string,
+    revive: reviveConversionRate,
+    entries: {
+      field: 'history',
+      derived: ['rate'],
+      derive: (rate, entries) => withRateHistory(rate as never, entries as never) as never,
+    },
+  },
+  history: { keyOf: (snapshot) => snapshot.id as string, revive: reviveSnapshot },
+  people: { keyOf: (person) => person.id as string, revive: (person: Person) => person },
+};
+const LIST_COLLECTIONS = Object.keys(LISTS) as ListCollection[];
+const SETTING_NAMES: SettingName[] = ['monthlyExpenses', 'baseCurrency'];
+
+// Bookkeeping fields stored next to a record's own; records are never removed, only marked deleted
+const POSITION_FIELD = '$position';
+const DELETED_FIELD = '$deleted';
+const SETTING_FIELD = 'value';
+
+export const ZERO_CLOCK: HybridClock = { wall: 0, counter: 0 };
+
+export const formatStamp = (clock: HybridClock, deviceId: string): OperationStamp =>
+  `${String(clock.wall).padStart(15, '0')}:${String(clock.counter).padStart(6, '0')}:${deviceId}`;
+
+// Advances the clock for a change made here
+export const tickClock = (clock: HybridClock, now = Date.now()): HybridClock =>
+  now > clock.wall ? { wall: now, counter: 0 } : { wall: clock.wall, counter: clock.counter + 1 };
+
+// Moves the clock past a stamp from another device, so changes made here afterwards always win over it
+export const observeStamp = (clock: HybridClock, stamp: OperationStamp): HybridClock => {
+  const [wall, counter] = stamp.split(':').map(Number);
+  return wall > clock.wall || (wall === clock.wall && counter > clock.counter) ? { wall, counter } : clock;
+};
+
+// Dates become ISO strings and undefined fields disappear, as they would over the wire
+const toPlain = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// JSON with object keys sorted, so equal values compare equal whichever device built them
+const canonical = (value: unknown): string =>
+  JSON.stringify(value ?? null, (_key, nested) =>
+    nested && typeof nested === 'object' && !Array.isArray(nested)
+      ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : nested
+  );
+
+const isLive = (registers: Record<string, SyncRegister> | undefined): registers is Record<string, SyncRegister> =>
+  registers?.[DELETED_FIELD]?.value === false;
+
+const fieldsOf = (registers: Record<string, SyncRegister>): PlainRecord =>
+  Object.fromEntries(
+    Object.entries(registers)
+      .filter(([field, register]) => !field.startsWith('$') && 'value' in register)
+      .map(([field, register]) => [field, register.value])
+  );
+
+const entryField = (entries: EntryList, id: string) => `${entries.field}/${id}`;
+
+// A record as registers: each history entry under its own field, and the fields that follow from the history left
+// out. An empty history is kept whole, with the fields that would follow from it.
+const toRegisterFields = (collection: ListCollection, record: PlainRecord): PlainRecord => {
+  const { entries } = LISTS[collection];
+  const list = entries && record[entries.field];
+  if (!entries || !Array.isArray(list) || list.length === 0) return record;
+  const fields = Object.fromEntries(
+    Object.entries(record).filter(([field]) => field !== entries.field && !entries.derived.includes(field))
+  );
+  list.forEach((entry: PlainRecord) => (fields[entryField(entries, entry.id as string)] = entry));
+  return fields;
+};
+
+// The record the registers hold, with its history put back together. A history written whole, by a version that
+// kept it in one register, is the starting point for entries written one by one.
+const readRecord = (collection: ListCollection, registers: Record<string, SyncRegister>): PlainRecord => {
+  const fields = fieldsOf(registers);
+  const { entries } = LISTS[collection];
+  if (!entries) return fields;
+  const prefix = entryField(entries, '');
+  const entryRegisters = Object.entries(registers).filter(([field]) => field.startsWith(prefix));
+  if (entryRegisters.length === 0) return fields;
+
+  const list = new Map<string, PlainRecord>();
+  const whole = fields[entries.field];
+  (Array.isArray(whole) ? (whole as PlainRecord[]) : []).forEach((entry) => list.set(entry.id as string, entry));
+  const record = Object.fromEntries(Object.entries(fields).filter(([field]) => !field.startsWith(prefix)));
+  entryRegisters.forEach(([field, register]) => {
+    const id = field.slice(prefix.length);
+    if ('value' in register) list.set(id, register.value as PlainRecord);
+    else list.delete(id);
+  });
+  // Sorted by id first, so entries on the same date come out in the same order on every device
+  const sorted = Array.from(list.keys())
+    .sort()
+    .map((id) => list.get(id)!);
+  return entries.derive(record, sorted);
+};
+
+// Applies operations in any order; ones older than what a register already holds are ignored
+export const applyOperations = (document: SyncedDocument, operations: SyncOperation[]): SyncedDocument => {
+  const next: SyncedDocument = { ...document };
+  const copied = new Set<string>();
+  operations.forEach(({ collection, key, field, stamp, ...rest }) => {
+    const current = next[collection]?.[key]?.[field];
+    if (current && current.stamp >= stamp) return;
+    // Copy each touched collection and record once, leaving the document passed in as it was
+    if (!copied.has(collection)) {
+      next[collection] = { ...next[collection] };
+      copied.add(collection);
+    }
+    const records = next[collection]!;
+    const recordId = `${collection}/${key}`;
+    if (!copied.has(recordId)) {
+      records[key] = { ...records[key] };
+      copied.add(recordId);
+    }
+    records[key][field] = 'value' in rest ? { value: rest.value, stamp } : { stamp };
+  });
+  return next;
+};
+
+// Operations that turn the document into the data given, all carrying one stamp
+export const diffOperations = (document: SyncedDocument, data: SyncedData, stamp: OperationStamp): SyncOperation[] => {
+  const operations: SyncOperation[] = [];
+
+  LIST_COLLECTIONS.forEach((collection) => {
+    const stored = document[collection] ?? {};
+    const seen = new Set<string>();
+    (toPlain(data[collection]) as unknown as PlainRecord[]).forEach((plain, index) => {
+      const key = LISTS[collection].keyOf(plain);
+      const record = toRegisterFields(collection, plain);
+      seen.add(key);
+      const registers = stored[key] ?? {};
+      if (!isLive(registers)) operations.push({ collection, key, field: DELETED_FIELD, value: false, stamp });
+      if (registers[POSITION_FIELD]?.value !== index) {
+        operations.push({ collection, key, field: POSITION_FIELD, value: index, stamp });
+      }
+      const current = fieldsOf(registers);
+      new Set([...Object.keys(record), ...Object.keys(current)]).forEach((field) => {
+        const isSet = field in record;
+        if (isSet === field in current && canonical(record[field]) === canonical(current[field])) return;
+        operations.push(isSet ? { collection, key, field, value: record[field], stamp } : { collection, key, field, stamp });
+      });
+    });
+    Object.entries(stored).forEach(([key, registers]) => {
+      if (!seen.has(key) && isLive(registers)) {
+        operations.push({ collection, key, field: DELETED_FIELD, value: true, stamp });
+      }
+    });
+  });
+
+  SETTING_NAMES.forEach((name) => {
+    const register = document.settings?.[name]?.[SETTING_FIELD];
+    if (!register || canonical(register.value) !== canonical(data[name])) {
+      operations.push({ collection: 'settings', key: name, field: SETTING_FIELD, value: data[name], stamp });
+    }
+  });
+
+  return operations;
+};
+
+// Every register of the document as the operation that set it, so applying them to an empty document rebuilds it
+export const documentOperations = (document: SyncedDocument): SyncOperation[] =>
+  (Object.keys(document) as SyncedCollection[]).flatMap((collection) =>
+    Object.entries(document[collection] ?? {}).flatMap(([key, registers]) =>
+      Object.entries(registers).map(([field, register]) => ({ collection, key, field, ...register }))
+    )
+  );
+
+// Live records of a list in their agreed order; ties in position (two devices adding at once) go by key
+const readList = (document: SyncedDocument, collection: ListCollection): [string, PlainRecord][] =>
+  Object.entries(document[collection] ?? {})
+    .filter(([, registers]) => isLive(registers))
+    .map(([key, registers]) => ({ key, registers, position: Number(registers[POSITION_FIELD]?.value ?? 0) }))
+    .sort((a, b) => a.position - b.position || (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+    .map(({ key, registers }) => [key, readRecord(collection, registers)]);
+
+const readSetting = (document: SyncedDocument, name: SettingName) => document.settings?.[name]?.[SETTING_FIELD]?.value;
+
+// What applying remote operations changed, as far as the data here is concerned; null when nothing did
+export const describeChanges = (
+  before: SyncedDocument,
+  after: SyncedDocument,
+  operations: SyncOperation[]
+): SyncedChanges | null => {
+  const changes: SyncedChanges = { lists: {}, settings: {} };
+  let changed = false;
+
+  LIST_COLLECTIONS.forEach((collection) => {
+    const touched = new Set(operations.filter((op) => op.collection === collection).map((op) => op.key));
+    if (touched.size === 0) return;
+    const previous = new Map(readList(before, collection));
+    const next = readList(after, collection);
+    const nextRecords = new Map(next);
+    const records: Record<string, unknown> = {};
+    touched.forEach((key) => {
+      const record = nextRecords.get(key) ?? null;
+      if (canonical(record) !== canonical(previous.get(key) ?? null)) {
+        records[key] = record && LISTS[collection].revive(record as never);
+      }
+    });
+    const order = next.map(([key]) => key);
+    const reordered = order.join('\n') !== Array.from(previous.keys()).join('\n');
+    if (Object.keys(records).length === 0 && !reordered) return;
+    changes.lists[collection] = { records, order };
+    changed = true;
+  });
+
+  SETTING_NAMES.forEach((name) => {
+    const value = readSetting(after, name);
+    if (value === undefined || canonical(value) === canonical(readSetting(before, name))) return;
+    (changes.settings as PlainRecord)[name] = value;
+    changed = true;
+  });
+
+  return changed ? changes : null;
+};
+
+// Puts changes from other devices into the data here. Records edited here in the meantime and not yet recorded keep
+// their place; they are sent with the next sync.
+export const applySyncedChanges = <T extends SyncedData>(state: T, changes: SyncedChanges): T => {
+  const next: T = { ...state, ...changes.settings };
+  (Object.keys(changes.lists) as ListCollection[]).forEach((collection) => {
+    const { records, order } = changes.lists[collection]!;
+    const { keyOf } = LISTS[collection];
+    const list = state[collection] as unknown as PlainRecord[];
+    const present = new Set(list.map(keyOf));
+    const merged = [
+      ...list.map((record) => (keyOf(record) in records ? (records[keyOf(record)] as PlainRecord | null) : record)),
+      ...Object.entries(records)
+        .filter(([key]) => !present.has(key))
+        .map(([, record]) => record as PlainRecord | null),
+    ].filter((record): record is PlainRecord => record !== null);
+    const rank = new Map(order.map((key, index) => [key, index]));
+    // Stable, so records the document does not know yet stay in their order after the rest
+    merged.sort((a, b) => (rank.get(keyOf(a)) ?? order.length) - (rank.get(keyOf(b)) ?? order.length));
+    (next as SyncedData)[collection] = merged as never;
+  });
+  return next;
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsvAmount, parseCsvDate } from '@/lib/csvImport';
+
+describe('parseCsvAmount', () => {
+  it.each([
+    ['1,234.56', 'dot', 1234.56],
+    ['$ 1,234.56', 'dot', 1234.56],
+    ['1.234,56', 'comma', 1234.56],
+    ['1 234,56 €', 'comma', 1234.56],
+    ['1,234.56', 'auto', 1234.56],
+    ['1.234,56', 'auto', 1234.56],
+  ] as const)('reads %s with the %s format', (value, numberFormat, expected) => {
+    expect(parseCsvAmount(value, numberFormat)).toBeCloseTo(expected);
+  });
+
+  it.each(['-250.00', '(250.00)', '−250.00', '250.00-', '€ -250.00', '-€250.00'])('reads %s as negative', (value) => {
+    expect(parseCsvAmount(value, 'dot')).toBe(-250);
+    expect(parseCsvAmount(value, 'auto')).toBe(-250);
+  });
+
+  it.each(['12-34', '2024-03'])('does not read a dash between digits in %s as a sign', (value) => {
+    expect(parseCsvAmount(value, 'auto')).toBeGreaterThan(0);
+    expect(parseCsvAmount(value, 'dot')).toBeGreaterThan(0);
+  });
+
+  it.each(['', '   ', 'n/a', '-'])('gives NaN for %j', (value) => {
+    expect(parseCsvAmount(value, 'auto')).toBeNaN();
+  });
+});
+
+describe('parseCsvDate', () => {
+  it.each([
+    ['2024-03-04', 'dmy', [2024, 2, 4]],
+    ['04.03.2024', 'dmy', [2024, 2, 4]],
+    ['03/04/2024', 'mdy', [2024, 2, 4]],
+    ['2024/03/04', 'mdy', [2024, 2, 4]],
+    ['04/03/24', 'dmy', [2024, 2, 4]],
+    ['2024-03-04 10:15', 'ymd', [2024, 2, 4]],
+  ] as const)('reads %s in %s order', (value, order, [year, month, day]) => {
+    expect(parseCsvDate(value, order)).toEqual(new Date(year, month, day));
+  });
+
+  it.each(['31/02/2024', '2024-13-01', '', 'soon'])('rejects %j', (value) => {
+    expect(parseCsvDate(value, 'dmy')).toBeNull();
+  });
+
+  it('reads dates written out in words', () => {
+    expect(parseCsvDate('March 3, 2024', 'dmy')).toEqual(new Date(2024, 2, 3));
+  });
+});
@@ -0,0 +1,308 @@
+import { AccountCategory } from '@/types/finance';
+import { CsvColumnRole, CsvDateOrder, CsvImportPreset, CsvImportSettings, CsvNumberFormat } from '@/types/csvImport';
+import { ACCOUNT_CATEGORY_META } from '@/lib/accountMetadata';
+import { isKnownCurrency } from '@/lib/currencies';
+import { parseCSV, parseCurrencyValue, suggestAccountType, YNABParsedAccount } from '@/lib/ynabParser';
+
+// Account balances from any CSV layout: the user says which column holds what, and how numbers and dates are
+// written. The accounts found go through the same matching step as a YNAB import.
+
+export const CSV_COLUMN_ROLES: Record<CsvColumnRole, { label: string; required: boolean }> = {
+  name: { label: 'Account name', required: true },
+  balance: { label: 'Balance', required: true },
+  currency: { label: 'Currency', required: false },
+  date: { label: 'Date', required: false },
+  category: { label: 'Category', required: false },
+  symbol: { label: 'Position symbol', required: false },
+  quantity: { label: 'Quantity', required: false },
+};
+
+export const DEFAULT_CSV_IMPORT_SETTINGS: CsvImportSettings = {
+  delimiter: 'auto',
+  numberFormat: 'auto',
+  dateOrder: 'auto',
+  skipRows: 0,
+  columns: {},
+};
+
+// Reads back the Accounts table of our own spreadsheet export, whatever locale it was written in
+export const BUILT_IN_CSV_PRESETS: CsvImportPreset[] = [
+  {
+    id: 'built-in-accounts-export',
+    name: 'Net Worth Tracker accounts export',
+    builtIn: true,
+    ...DEFAULT_CSV_IMPORT_SETTINGS,
+    columns: { name: 'Name', balance: 'Balance', currency: 'Currency', date: 'Last Updated', category: 'Category' },
+  },
+];
+
+export class CsvImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CsvImportError';
+  }
+}
+
+export interface CsvTable {
+  delimiter: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export interface CsvSkippedRow {
+  line: number; // 1-based, counting from the header row
+  reason: string;
+}
+
+export interface CsvParseResult {
+  accounts: YNABParsedAccount[];
+  skipped: CsvSkippedRow[];
+}
+
+const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+
+// The candidate that splits the header line into the most fields, ignoring anything inside quotes
+const detectDelimiter = (line: string): string => {
+  const unquoted = line.replace(/"[^"]*"/g, '');
+  const counts = DELIMITER_CANDIDATES.map((candidate) => unquoted.split(candidate).length - 1);
+  const best = counts.indexOf(Math.max(...counts));
+  return counts[best] > 0 ? DELIMITER_CANDIDATES[best] : ',';
+};
+
+export const readCsvTable = (text: string, settings: CsvImportSettings): CsvTable => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  // Skip the requested lines and any blank ones before the header
+  let start = 0;
+  for (let skipped = 0; start < lines.length && (skipped < settings.skipRows || lines[start].trim() === ''); start++) {
+    if (lines[start].trim() !== '') skipped++;
+  }
+  const body = lines.slice(start).join('\n');
+  const delimiter = settings.delimiter === 'auto' ? detectDelimiter(lines[start] ?? '') : settings.delimiter;
+  const [headers = [], ...rows] = parseCSV(body, delimiter);
+  return { delimiter, headers, rows };
+};
+
+// Suggested columns for a file with no preset, from common header names
+export const guessCsvColumns = (headers: string[]): CsvImportSettings['columns'] => {
+  // Most specific pattern first, so a Balance column wins over a transaction Amount
+  const patterns: [CsvColumnRole, RegExp[]][] = [
+    ['name', [/^(account( name)?|name)$/i, /^description$/i]],
+    ['balance', [/balance/i, /amount|value|total/i]],
+    ['currency', [/^(currency|ccy|cur)$/i]],
+    ['date', [/date|as of|month|updated/i]],
+    ['category', [/category|account type|^type$|class/i]],
+    ['symbol', [/^(symbol|ticker|isin)$/i]],
+    ['quantity', [/^(quantity|qty|shares|units)$/i]],
+  ];
+  const columns: CsvImportSettings['columns'] = {};
+  const used = new Set<string>();
+  patterns.forEach(([role, candidates]) => {
+    const header = candidates
+      .map((pattern) => headers.find((h) => !used.has(h) && pattern.test(h.trim())))
+      .find((match) => match !== undefined);
+    if (header) {
+      columns[role] = header;
+      used.add(header);
+    }
+  });
+  return columns;
+};
+
+// The first preset whose name and balance columns are all in the file
+export const findMatchingPreset = (text: string, presets: CsvImportPreset[]): CsvImportPreset | undefined =>
+  presets.find((preset) => {
+    const { headers } = readCsvTable(text, preset);
+    return (Object.keys(CSV_COLUMN_ROLES) as CsvColumnRole[]).every(
+      (role) => !CSV_COLUMN_ROLES[role].required || headers.includes(preset.columns[role] ?? '')
+    );
+  });
+
+// NaN when there is no number, so the row can be reported instead of read as zero
+export const parseCsvAmount = (value: string, numberFormat: CsvNumberFormat): number => {
+  const trimmed = value.trim();
+  if (!/\d/.test(trimmed)) return NaN;
+  // Accounting exports write negatives in parentheses; some locales use a true minus sign or put it last. A dash
+  // between digits, as in "12-34", is not a sign.
+  const negative =
+    /^\(.*\)$/.test(trimmed) || /^[^\d]*[-\u2212]/.test(trimmed) || /[-\u2212][^\d]*$/.test(trimmed);
+  let amount: number;
+  if (numberFormat === 'auto') {
+    amount = Math.abs(parseCurrencyValue(trimmed.replace(/[^\d.,]/g, '')));
+  } else {
+    const decimal = numberFormat === 'comma' ? ',' : '.';
+    const digits = trimmed.replace(numberFormat === 'comma' ? /[^\d,]/g : /[^\d.]/g, '');
+    amount = parseFloat(digits.replace(decimal, '.'));
+  }
+  return negative ? -amount : amount;
+};
+
+const DATE_PARTS = /^(\d{1,4})[./\-\s](\d{1,2})[./\-\s](\d{1,4})/;
+
+// Day before month unless the browser's own locale writes the month first
+const localeDateOrder = (): 'dmy' | 'mdy' => {
+  const parts = new Intl.DateTimeFormat(undefined).formatToParts(new Date(2024, 11, 31));
+  return parts.findIndex((part) => part.type === 'month') < parts.findIndex((part) => part.type === 'day')
+    ? 'mdy'
+    : 'dmy';
+};
+
+// Settles day-first or month-first from any value that only reads one way
+const detectDateOrder = (values: string[]): 'ymd' | 'dmy' | 'mdy' => {
+  for (const value of values) {
+    const match = value.trim().match(DATE_PARTS);
+    if (!match) continue;
+    if (match[1].length === 4) return 'ymd';
+    if (Number(match[1]) > 12) return 'dmy';
+    if (Number(match[2]) > 12) return 'mdy';
+  }
+  return localeDateOrder();
+};
+
+export const parseCsvDate = (value: string, order: Exclude<CsvDateOrder, 'auto'>): Date | null => {
+  const match = value.trim().match(DATE_PARTS);
+  if (match) {
+    const [first, second, third] = match.slice(1, 4).map(Number);
+    const [year, month, day] =
+      match[1].length === 4 || order === 'ymd'
+        ? [first, second, third]
+        : order === 'dmy'
+          ? [third, second, first]
+          : [third, first, second];
+    const date = new Date(year < 100 ? 2000 + year : year, month - 1, day);
+    return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+  }
+  // Written-out dates such as "Jan 2024" or "March 3, 2024"
+  const parsed = new Date(value);
+  return value.trim() && !isNaN(parsed.getTime()) ? parsed : null;
+};
+
+// A category label or key of ours when the file uses them, otherwise whether it reads as an asset or a liability
+const readCategory = (value: string): { category?: AccountCategory; type?: 'Asset' | 'Liability' } => {
+  const lower = value.trim().toLowerCase();
+  if (!lower) return {};
+  const known = (Object.keys(ACCOUNT_CATEGORY_META) as AccountCategory[]).find(
+    (key) => key === lower || ACCOUNT_CATEGORY_META[key].label.toLowerCase() === lower
+  );
+  if (known) return { category: known, type: ACCOUNT_CATEGORY_META[known].isAsset ? 'Asset' : 'Liability' };
+  if (/liabilit|debt|loan|credit|mortgage/.test(lower)) return { type: 'Liability' };
+  if (/asset|saving|checking|cash|invest/.test(lower)) return { type: 'Asset' };
+  return {};
+};
+
+export const parseCsvAccounts = (text: string, settings: CsvImportSettings): CsvParseResult => {
+  const { headers, rows } = readCsvTable(text, settings);
+  const columnIndex = (role: CsvColumnRole) => {
+    const header = settings.columns[role];
+    return header === undefined ? -1 : headers.indexOf(header);
+  };
+  const nameIdx = columnIndex('name');
+  const balanceIdx = columnIndex('balance');
+  const currencyIdx = columnIndex('currency');
+  const dateIdx = columnIndex('date');
+  const categoryIdx = columnIndex('category');
+  const symbolIdx = columnIndex('symbol');
+  const quantityIdx = columnIndex('quantity');
+  if (nameIdx === -1 || balanceIdx === -1) {
+    throw new CsvImportError('Choose the columns that hold the account name and balance.');
+  }
+  if (symbolIdx !== -1 && quantityIdx === -1) {
+    throw new CsvImportError('Choose the column that holds the quantity of each position.');
+  }
+
+  const dateOrder =
+    settings.dateOrder === 'auto' && dateIdx !== -1
+      ? detectDateOrder(rows.map((row) => row[dateIdx] ?? ''))
+      : settings.dateOrder === 'auto'
+        ? 'ymd'
+        : settings.dateOrder;
+
+  // One entry per account, or per position of an account; with a date column the latest row wins, otherwise the
+  // last one in the file
+  const latest = new Map<string, YNABParsedAccount>();
+  const positions = new Map<string, YNABParsedAccount & { symbol: string; quantity: number }>();
+  const skipped: CsvSkippedRow[] = [];
+
+  rows.forEach((row, i) => {
+    const line = i + 2;
+    const name = row[nameIdx]?.trim() ?? '';
+    if (!name) return;
+
+    const balance = parseCsvAmount(row[balanceIdx] ?? '', settings.numberFormat);
+    if (isNaN(balance)) {
+      skipped.push({ line, reason: `"${row[balanceIdx] ?? ''}" is not an amount` });
+      return;
+    }
+
+    let currency: string | undefined;
+    if (currencyIdx !== -1 && row[currencyIdx]?.trim()) {
+      currency = row[currencyIdx].trim().toUpperCase();
+      if (!isKnownCurrency(currency)) {
+        skipped.push({ line, reason: `Unknown currency "${row[currencyIdx]}"` });
+        return;
+      }
+    }
+
+    let date: Date | undefined;
+    if (dateIdx !== -1 && row[dateIdx]?.trim()) {
+      const parsed = parseCsvDate(row[dateIdx], dateOrder);
+      if (!parsed) {
+        skipped.push({ line, reason: `"${row[dateIdx]}" is not a date` });
+        return;
+      }
+      date = parsed;
+    }
+
+    // Banks often show what is owed as a negative balance, while liabilities here are amounts owed
+    const read = categoryIdx !== -1 ? readCategory(row[categoryIdx] ?? '') : {};
+    const type = read.type ?? (balance < 0 ? 'Liability' : undefined);
+    const suggested = suggestAccountType(name, type);
+    const category = read.category ?? suggested.category;
+    const isLiability = !ACCOUNT_CATEGORY_META[category].isAsset;
+
+    const parsed: YNABParsedAccount = {
+      name,
+      balance: isLiability ? Math.abs(balance) : balance,
+      ynabType: isLiability ? 'Liability' : 'Asset',
+      suggestedCategory: category,
+      suggestedAccessType: suggested.accessType,
+      currency,
+      date,
+    };
+
+    const symbol = symbolIdx !== -1 ? (row[symbolIdx]?.trim().toUpperCase() ?? '') : '';
+    if (symbol) {
+      const quantity = parseCsvAmount(row[quantityIdx] ?? '', settings.numberFormat);
+      if (isNaN(quantity)) {
+        skipped.push({ line, reason: `"${row[quantityIdx] ?? ''}" is not a quantity` });
+        return;
+      }
+      const key = `${name.toLowerCase()}\u0000${symbol}`;
+      const previous = positions.get(key);
+      if (previous?.date && date && previous.date > date) return;
+      positions.set(key, { ...parsed, symbol, quantity });
+      return;
+    }
+
+    const key = name.toLowerCase();
+    const previous = latest.get(key);
+    if (previous?.date && date && previous.date > date) return;
+    latest.set(key, parsed);
+  });
+
+  // An account listed by position is the sum of its positions, and carries their quantities for accounts that
+  // track holdings
+  const byAccount = new Map<string, YNABParsedAccount>();
+  positions.forEach(({ symbol, quantity, ...position }) => {
+    const key = position.name.toLowerCase();
+    const account = byAccount.get(key);
+    byAccount.set(key, {
+      ...position,
+      balance: (account?.balance ?? 0) + position.balance,
+      date: account?.date && (!position.date || account.date > position.date) ? account.date : position.date,
+      quantities: { ...account?.quantities, [symbol]: quantity },
+    });
+  });
+  byAccount.forEach((account, key) => latest.set(key, account));
+
+  return { accounts: Array.from(latest.values()), skipped };
+};
@@ -0,0 +1,197 @@
+import { Currency } from '@/types/finance';
+
+export interface CurrencyInfo {
+  code: Currency;
+  name: string;
+  symbol: string;
+  minorUnits: number; // Digits after the decimal separator, per ISO 4217
+}
+
+// Active ISO 4217 codes, including funds and precious metals.
+// XXX ("no currency") holds balances whose currency is unknown, e.g. migrated OTHER accounts.
+export const CURRENCY_REGISTRY: CurrencyInfo[] = [
+  { code: 'AED', name: 'United Arab Emirates Dirham', symbol: 'AED', minorUnits: 2 },
+  { code: 'AFN', name: 'Afghan Afghani', symbol: '؋', minorUnits: 2 },
+  { code: 'ALL', name: 'Albanian Lek', symbol: 'ALL', minorUnits: 2 },
+  { code: 'AMD', name: 'Armenian Dram', symbol: '֏', minorUnits: 2 },
+  { code: 'ANG', name: 'Netherlands Antillean Guilder', symbol: 'ANG', minorUnits: 2 },
+  { code: 'AOA', name: 'Angolan Kwanza', symbol: 'Kz', minorUnits: 2 },
+  { code: 'ARS', name: 'Argentine Peso', symbol: 'ARS', minorUnits: 2 },
+  { code: 'AUD', name: 'Australian Dollar', symbol: 'A$', minorUnits: 2 },
+  { code: 'AWG', name: 'Aruban Florin', symbol: 'AWG', minorUnits: 2 },
+  { code: 'AZN', name: 'Azerbaijani Manat', symbol: '₼', minorUnits: 2 },
+  { code: 'BAM', name: 'Bosnia-Herzegovina Convertible Mark', symbol: 'KM', minorUnits: 2 },
+  { code: 'BBD', name: 'Barbadian Dollar', symbol: 'BBD', minorUnits: 2 },
+  { code: 'BDT', name: 'Bangladeshi Taka', symbol: '৳', minorUnits: 2 },
+  { code: 'BGN', name: 'Bulgarian Lev', symbol: 'BGN', minorUnits: 2 },
+  { code: 'BHD', name: 'Bahraini Dinar', symbol: 'BHD', minorUnits: 3 },
+  { code: 'BIF', name: 'Burundian Franc', symbol: 'BIF', minorUnits: 0 },
+  { code: 'BMD', name: 'Bermudan Dollar', symbol: 'BMD', minorUnits: 2 },
+  { code: 'BND', name: 'Brunei Dollar', symbol: 'BND', minorUnits: 2 },
+  { code: 'BOB', name: 'Bolivian Boliviano', symbol: 'Bs', minorUnits: 2 },
+  { code: 'BOV', name: 'Bolivian Mvdol', symbol: 'BOV', minorUnits: 2 },
+  { code: 'BRL', name: 'Brazilian Real', symbol: 'R$', minorUnits: 2 },
+  { code: 'BSD', name: 'Bahamian Dollar', symbol: 'BSD', minorUnits: 2 },
+  { code: 'BTN', name: 'Bhutanese Ngultrum', symbol: 'BTN', minorUnits: 2 },
+  { code: 'BWP', name: 'Botswanan Pula', symbol: 'P', minorUnits: 2 },
+  { code: 'BYN', name: 'Belarusian Ruble', symbol: 'BYN', minorUnits: 2 },
+  { code: 'BZD', name: 'Belize Dollar', symbol: 'BZD', minorUnits: 2 },
+  { code: 'CAD', name: 'Canadian Dollar', symbol: 'CA$', minorUnits: 2 },
+  { code: 'CDF', name: 'Congolese Franc', symbol: 'CDF', minorUnits: 2 },
+  { code: 'CHE', name: 'WIR Euro', symbol: 'CHE', minorUnits: 2 },
+  { code: 'CHF', name: 'Swiss Franc', symbol: 'CHF', minorUnits: 2 },
+  { code: 'CHW', name: 'WIR Franc', symbol: 'CHW', minorUnits: 2 },
+  { code: 'CLF', name: 'Chilean Unit of Account (UF)', symbol: 'CLF', minorUnits: 4 },
+  { code: 'CLP', name: 'Chilean Peso', symbol: 'CLP', minorUnits: 0 },
+  { code: 'CNY', name: 'Chinese Yuan', symbol: 'CN¥', minorUnits: 2 },
+  { code: 'COP', name: 'Colombian Peso', symbol: 'COP', minorUnits: 2 },
+  { code: 'COU', name: 'Colombian Real Value Unit', symbol: 'COU', minorUnits: 2 },
+  { code: 'CRC', name: 'Costa Rican Colón', symbol: '₡', minorUnits: 2 },
+  { code: 'CUP', name: 'Cuban Peso', symbol: 'CUP', minorUnits: 2 },
+  { code: 'CVE', name: 'Cape Verdean Escudo', symbol: 'CVE', minorUnits: 2 },
+  { code: 'CZK', name: 'Czech Koruna', symbol: 'Kč', minorUnits: 2 },
+  { code: 'DJF', name: 'Djiboutian Franc', symbol: 'DJF', minorUnits: 0 },
+  { code: 'DKK', name: 'Danish Krone', symbol: 'DKK', minorUnits: 2 },
+  { code: 'DOP', name: 'Dominican Peso', symbol: 'DOP', minorUnits: 2 },
+  { code: 'DZD', name: 'Algerian Dinar', symbol: 'DZD', minorUnits: 2 },
+  { code: 'EGP', name: 'Egyptian Pound', symbol: 'E£', minorUnits: 2 },
+  { code: 'ERN', name: 'Eritrean Nakfa', symbol: 'ERN', minorUnits: 2 },
+  { code: 'ETB', name: 'Ethiopian Birr', symbol: 'ETB', minorUnits: 2 },
+  { code: 'EUR', name: 'Euro', symbol: '€', minorUnits: 2 },
+  { code: 'FJD', name: 'Fijian Dollar', symbol: 'FJD', minorUnits: 2 },
+  { code: 'FKP', name: 'Falkland Islands Pound', symbol: 'FKP', minorUnits: 2 },
+  { code: 'GBP', name: 'British Pound', symbol: '£', minorUnits: 2 },
+  { code: 'GEL', name: 'Georgian Lari', symbol: '₾', minorUnits: 2 },
+  { code: 'GHS', name: 'Ghanaian Cedi', symbol: 'GH₵', minorUnits: 2 },
+  { code: 'GIP', name: 'Gibraltar Pound', symbol: 'GIP', minorUnits: 2 },
+  { code: 'GMD', name: 'Gambian Dalasi', symbol: 'GMD', minorUnits: 2 },
+  { code: 'GNF', name: 'Guinean Franc', symbol: 'FG', minorUnits: 0 },
+  { code: 'GTQ', name: 'Guatemalan Quetzal', symbol: 'Q', minorUnits: 2 },
+  { code: 'GYD', name: 'Guyanaese Dollar', symbol: 'GYD', minorUnits: 2 },
+  { code: 'HKD', name: 'Hong Kong Dollar', symbol: 'HK$', minorUnits: 2 },
+  { code: 'HNL', name: 'Honduran Lempira', symbol: 'L', minorUnits: 2 },
+  { code: 'HTG', name: 'Haitian Gourde', symbol: 'HTG', minorUnits: 2 },
+  { code: 'HUF', name: 'Hungarian Forint', symbol: 'Ft', minorUnits: 2 },
+  { code: 'IDR', name: 'Indonesian Rupiah', symbol: 'Rp', minorUnits: 2 },
+  { code: 'ILS', name: 'Israeli New Shekel', symbol: '₪', minorUnits: 2 },
+  { code: 'INR', name: 'Indian Rupee', symbol: '₹', minorUnits: 2 },
+  { code: 'IQD', name: 'Iraqi Dinar', symbol: 'IQD', minorUnits: 3 },
+  { code: 'IRR', name: 'Iranian Rial', symbol: 'IRR', minorUnits: 2 },
+  { code: 'ISK', name: 'Icelandic Króna', symbol: 'ISK', minorUnits: 0 },
+  { code: 'JMD', name: 'Jamaican Dollar', symbol: 'JMD', minorUnits: 2 },
+  { code: 'JOD', name: 'Jordanian Dinar', symbol: 'JOD', minorUnits: 3 },
+  { code: 'JPY', name: 'Japanese Yen', symbol: '¥', minorUnits: 0 },
+  { code: 'KES', name: 'Kenyan Shilling', symbol: 'KES', minorUnits: 2 },
+  { code: 'KGS', name: 'Kyrgystani Som', symbol: '⃀', minorUnits: 2 },
+  { code: 'KHR', name: 'Cambodian Riel', symbol: '៛', minorUnits: 2 },
+  { code: 'KMF', name: 'Comorian Franc', symbol: 'CF', minorUnits: 0 },
+  { code: 'KPW', name: 'North Korean Won', symbol: 'KPW', minorUnits: 2 },
+  { code: 'KRW', name: 'South Korean Won', symbol: '₩', minorUnits: 0 },
+  { code: 'KWD', name: 'Kuwaiti Dinar', symbol: 'KWD', minorUnits: 3 },
+  { code: 'KYD', name: 'Cayman Islands Dollar', symbol: 'KYD', minorUnits: 2 },
+  { code: 'KZT', name: 'Kazakhstani Tenge', symbol: '₸', minorUnits: 2 },
+  { code: 'LAK', name: 'Laotian Kip', symbol: '₭', minorUnits: 2 },
+  { code: 'LBP', name: 'Lebanese Pound', symbol: 'L£', minorUnits: 2 },
+  { code: 'LKR', name: 'Sri Lankan Rupee', symbol: 'LKR', minorUnits: 2 },
+  { code: 'LRD', name: 'Liberian Dollar', symbol: 'LRD', minorUnits: 2 },
+  { code: 'LSL', name: 'Lesotho Loti', symbol: 'LSL', minorUnits: 2 },
+  { code: 'LYD', name: 'Libyan Dinar', symbol: 'LYD', minorUnits: 3 },
+  { code: 'MAD', name: 'Moroccan Dirham', symbol: 'MAD', minorUnits: 2 },
+  { code: 'MDL', name: 'Moldovan Leu', symbol: 'MDL', minorUnits: 2 },
+  { code: 'MGA', name: 'Malagasy Ariary', symbol: 'Ar', minorUnits: 2 },
+  { code: 'MKD', name: 'Macedonian Denar', symbol: 'MKD', minorUnits: 2 },
+  { code: 'MMK', name: 'Myanmar Kyat', symbol: 'K', minorUnits: 2 },
+  { code: 'MNT', name: 'Mongolian Tugrik', symbol: '₮', minorUnits: 2 },
+  { code: 'MOP', name: 'Macanese Pataca', symbol: 'MOP', minorUnits: 2 },
+  { code: 'MRU', name: 'Mauritanian Ouguiya', symbol: 'MRU', minorUnits: 2 },
+  { code: 'MUR', name: 'Mauritian Rupee', symbol: 'MUR', minorUnits: 2 },
+  { code: 'MVR', name: 'Maldivian Rufiyaa', symbol: 'MVR', minorUnits: 2 },
+  { code: 'MWK', name: 'Malawian Kwacha', symbol: 'MWK', minorUnits: 2 },
+  { code: 'MXN', name: 'Mexican Peso', symbol: 'MX$', minorUnits: 2 },
+  { code: 'MXV', name: 'Mexican Investment Unit', symbol: 'MXV', minorUnits: 2 },
+  { code: 'MYR', name: 'Malaysian Ringgit', symbol: 'RM', minorUnits: 2 },
+  { code: 'MZN', name: 'Mozambican Metical', symbol: 'MZN', minorUnits: 2 },
+  { code: 'NAD', name: 'Namibian Dollar', symbol: 'NAD', minorUnits: 2 },
+  { code: 'NGN', name: 'Nigerian Naira', symbol: '₦', minorUnits: 2 },
+  { code: 'NIO', name: 'Nicaraguan Córdoba', symbol: 'C$', minorUnits: 2 },
+  { code: 'NOK', name: 'Norwegian Krone', symbol: 'NOK', minorUnits: 2 },
+  { code: 'NPR', name: 'Nepalese Rupee', symbol: 'NPR', minorUnits: 2 },
+  { code: 'NZD', name: 'New Zealand Dollar', symbol: 'NZ$', minorUnits: 2 },
+  { code: 'OMR', name: 'Omani Rial', symbol: 'OMR', minorUnits: 3 },
+  { code: 'PAB', name: 'Panamanian Balboa', symbol: 'PAB', minorUnits: 2 },
+  { code: 'PEN', name: 'Peruvian Sol', symbol: 'PEN', minorUnits: 2 },
+  { code: 'PGK', name: 'Papua New Guinean Kina', symbol: 'PGK', minorUnits: 2 },
+  { code: 'PHP', name: 'Philippine Peso', symbol: '₱', minorUnits: 2 },
+  { code: 'PKR', name: 'Pakistani Rupee', symbol: 'PKR', minorUnits: 2 },
+  { code: 'PLN', name: 'Polish Zloty', symbol: 'zł', minorUnits: 2 },
+  { code: 'PYG', name: 'Paraguayan Guarani', symbol: '₲', minorUnits: 0 },
+  { code: 'QAR', name: 'Qatari Riyal', symbol: 'QAR', minorUnits: 2 },
+  { code: 'RON', name: 'Romanian Leu', symbol: 'lei', minorUnits: 2 },
+  { code: 'RSD', name: 'Serbian Dinar', symbol: 'RSD', minorUnits: 2 },
+  { code: 'RUB', name: 'Russian Ruble', symbol: '₽', minorUnits: 2 },
+  { code: 'RWF', name: 'Rwandan Franc', symbol: 'RF', minorUnits: 0 },
+  { code: 'SAR', name: 'Saudi Riyal', symbol: 'SAR', minorUnits: 2 },
+  { code: 'SBD', name: 'Solomon Islands Dollar', symbol: 'SBD', minorUnits: 2 },
+  { code: 'SCR', name: 'Seychellois Rupee', symbol: 'SCR', minorUnits: 2 },
+  { code: 'SDG', name: 'Sudanese Pound', symbol: 'SDG', minorUnits: 2 },
+  { code: 'SEK', name: 'Swedish Krona', symbol: 'SEK', minorUnits: 2 },
+  { code: 'SGD', name: 'Singapore Dollar', symbol: 'S$', minorUnits: 2 },
+  { code: 'SHP', name: 'St. Helena Pound', symbol: 'SHP', minorUnits: 2 },
+  { code: 'SLE', name: 'Sierra Leonean Leone', symbol: 'SLE', minorUnits: 2 },
+  { code: 'SOS', name: 'Somali Shilling', symbol: 'SOS', minorUnits: 2 },
+  { code: 'SRD', name: 'Surinamese Dollar', symbol: 'SRD', minorUnits: 2 },
+  { code: 'SSP', name: 'South Sudanese Pound', symbol: 'SSP', minorUnits: 2 },
+  { code: 'STN', name: 'São Tomé & Príncipe Dobra', symbol: 'Db', minorUnits: 2 },
+  { code: 'SVC', name: 'Salvadoran Colón', symbol: 'SVC', minorUnits: 2 },
+  { code: 'SYP', name: 'Syrian Pound', symbol: 'SYP', minorUnits: 2 },
+  { code: 'SZL', name: 'Swazi Lilangeni', symbol: 'SZL', minorUnits: 2 },
+  { code: 'THB', name: 'Thai Baht', symbol: '฿', minorUnits: 2 },
+  { code: 'TJS', name: 'Tajikistani Somoni', symbol: 'TJS', minorUnits: 2 },
+  { code: 'TMT', name: 'Turkmenistani Manat', symbol: 'TMT', minorUnits: 2 },
+  { code: 'TND', name: 'Tunisian Dinar', symbol: 'TND', minorUnits: 3 },
+  { code: 'TOP', name: 'Tongan Paʻanga', symbol: 'T$', minorUnits: 2 },
+  { code: 'TRY', name: 'Turkish Lira', symbol: '₺', minorUnits: 2 },
+  { code: 'TTD', name: 'Trinidad & Tobago Dollar', symbol: 'TTD', minorUnits: 2 },
+  { code: 'TWD', name: 'New Taiwan Dollar', symbol: 'NT$', minorUnits: 2 },
+  { code: 'TZS', name: 'Tanzanian Shilling', symbol: 'TZS', minorUnits: 2 },
+  { code: 'UAH', name: 'Ukrainian Hryvnia', symbol: '₴', minorUnits: 2 },
+  { code: 'UGX', name: 'Ugandan Shilling', symbol: 'UGX', minorUnits: 0 },
+  { code: 'USD', name: 'US Dollar', symbol: '$', minorUnits: 2 },
+  { code: 'USN', name: 'US Dollar (Next day)', symbol: 'USN', minorUnits: 2 },
+  { code: 'UYI', name: 'Uruguayan Peso (Indexed Units)', symbol: 'UYI', minorUnits: 0 },
+  { code: 'UYU', name: 'Uruguayan Peso', symbol: 'UYU', minorUnits: 2 },
+  { code: 'UYW', name: 'Uruguayan Nominal Wage Index Unit', symbol: 'UYW', minorUnits: 4 },
+  { code: 'UZS', name: 'Uzbekistani Som', symbol: 'UZS', minorUnits: 2 },
+  { code: 'VED', name: 'Bolívar Soberano', symbol: 'VED', minorUnits: 2 },
+  { code: 'VES', name: 'Venezuelan Bolívar', symbol: 'VES', minorUnits: 2 },
+  { code: 'VND', name: 'Vietnamese Dong', symbol: '₫', minorUnits: 0 },
+  { code: 'VUV', name: 'Vanuatu Vatu', symbol: 'VUV', minorUnits: 0 },
+  { code: 'WST', name: 'Samoan Tala', symbol: 'WST', minorUnits: 2 },
+  { code: 'XAF', name: 'Central African CFA Franc', symbol: 'FCFA', minorUnits: 0 },
+  { code: 'XAG', name: 'Silver', symbol: 'XAG', minorUnits: 0 },
+  { code: 'XAU', name: 'Gold', symbol: 'XAU', minorUnits: 0 },
+  { code: 'XBA', name: 'European Composite Unit', symbol: 'XBA', minorUnits: 0 },
+  { code: 'XBB', name: 'European Monetary Unit', symbol: 'XBB', minorUnits: 0 },
+  { code: 'XBC', name: 'European Unit of Account (XBC)', symbol: 'XBC', minorUnits: 0 },
+  { code: 'XBD', name: 'European Unit of Account (XBD)', symbol: 'XBD', minorUnits: 0 },
+  { code: 'XCD', name: 'East Caribbean Dollar', symbol: 'EC$', minorUnits: 2 },
+  { code: 'XDR', name: 'Special Drawing Rights', symbol: 'XDR', minorUnits: 0 },
+  { code: 'XOF', name: 'West African CFA Franc', symbol: 'F CFA', minorUnits: 0 },
+  { code: 'XPD', name: 'Palladium', symbol: 'XPD', minorUnits: 0 },
+  { code: 'XPF', name: 'CFP Franc', symbol: 'CFPF', minorUnits: 0 },
+  { code: 'XPT', name: 'Platinum', symbol: 'XPT', minorUnits: 0 },
+  { code: 'XSU', name: 'Sucre', symbol: 'XSU', minorUnits: 0 },
+  { code: 'XUA', name: 'ADB Unit of Account', symbol: 'XUA', minorUnits: 0 },
+  { code: 'XXX', name: 'No currency', symbol: '', minorUnits: 0 },
+  { code: 'YER', name: 'Yemeni Rial', symbol: 'YER', minorUnits: 2 },
+  { code: 'ZAR', name: 'South African Rand', symbol: 'R', minorUnits: 2 },
+  { code: 'ZMW', name: 'Zambian Kwacha', symbol: 'ZK', minorUnits: 2 },
+  { code: 'ZWG', name: 'Zimbabwean Gold', symbol: 'ZWG', minorUnits: 2 },
+];
+
+const registryByCode = new Map(CURRENCY_REGISTRY.map((info) => [info.code, info]));
+
+export const isKnownCurrency = (code: string): boolean => registryByCode.has(code);
+
+export const getCurrencyInfo = (code: Currency): CurrencyInfo =>
+  registryByCode.get(code) ?? { code, name: code, symbol: code, minorUnits: 2 };
@@ -1,25 +1,110 @@
-import { Currency, ConversionRate } from '@/types/finance';
-
-export const currencySymbols: Record<Currency, string> = {
-  EUR: '€',
-  USD: '$',
-  GBP: '£',
-  PHP: '₱',
-  OTHER: '',
-};
+import { Account, Currency, ConversionRate } from '@/types/finance';
+import { HistorySnapshot } from '@/types/history';
+import { getCurrencyInfo, isKnownCurrency } from '@/lib/currencies';
+import { createConversionRate, getRateAt } from '@/lib/fxRates';
+
+export const getCurrencySymbol = (currency: Currency): string => getCurrencyInfo(currency).symbol;
 
 export const defaultConversionRates: ConversionRate[] = [
-  { currency: 'EUR', rate: 1 },
-  { currency: 'USD', rate: 0.92 },
-  { currency: 'GBP', rate: 1.17 },
-  { currency: 'PHP', rate: 0.016 },
+  createConversionRate('EUR', 1),
+  createConversionRate('USD', 0.92),
+  createConversionRate('GBP', 1.17),
+  createConversionRate('PHP', 0.016),
 ];
 
+export const DEFAULT_BASE_CURRENCY: Currency = 'EUR';
+
+// Rates are stored against the base currency. Without an asOf date the latest rate is used.
+export const getRateToBase = (
+  currency: Currency,
+  conversionRates: ConversionRate[],
+  baseCurrency: Currency,
+  asOf?: Date
+): number => {
+  if (currency === baseCurrency) return 1;
+  const rate = conversionRates.find((r) => r.currency === currency);
+  if (!rate) return 0;
+  return asOf ? getRateAt(rate, asOf) : rate.rate;
+};
+
+export const convertFromBase = (
+  amount: number,
+  targetCurrency: Currency,
+  conversionRates: ConversionRate[],
+  baseCurrency: Currency,
+  asOf?: Date
+): number => {
+  if (targetCurrency === baseCurrency) return amount;
+  const rate = getRateToBase(targetCurrency, conversionRates, baseCurrency, asOf);
+  if (rate === 0) return amount;
+  return amount / rate;
+};
+
+// Currencies the user has turned on, i.e. those with a conversion rate
+export const getEnabledCurrencies = (conversionRates: ConversionRate[], baseCurrency: Currency): Currency[] => {
+  const codes = conversionRates.map((r) => r.currency);
+  return codes.includes(baseCurrency) ? codes : [baseCurrency, ...codes];
+};
+
+const LEGACY_OTHER_CURRENCY = 'OTHER';
+const UNKNOWN_CURRENCY = 'XXX';
+
+// Older data used a catch-all OTHER currency with a free-text label on its rate.
+// Map it to the ISO code named by that label when possible, otherwise to XXX.
+export const migrateLegacyCurrencies = (
+  accounts: Account[],
+  conversionRates: ConversionRate[]
+): { accounts: Account[]; conversionRates: ConversionRate[] } => {
+  const hasLegacy =
+    accounts.some((acc) => acc.currency === LEGACY_OTHER_CURRENCY) ||
+    conversionRates.some((r) => r.currency === LEGACY_OTHER_CURRENCY);
+  if (!hasLegacy) {
+    return { accounts, conversionRates };
+  }
+
+  const otherRate = conversionRates.find((r) => r.currency === LEGACY_OTHER_CURRENCY);
+  const labelCode = otherRate?.label?.trim().toUpperCase();
+  const target =
+    labelCode && isKnownCurrency(labelCode) && !conversionRates.some((r) => r.currency === labelCode)
+      ? labelCode
+      : UNKNOWN_CURRENCY;
+
+  const targetHasRate = conversionRates.some((r) => r.currency === target);
+
+  return {
+    accounts: accounts.map((acc) =>
+      acc.currency === LEGACY_OTHER_CURRENCY ? { ...acc, currency: target } : acc
+    ),
+    conversionRates: conversionRates
+      .filter((r) => r.currency !== LEGACY_OTHER_CURRENCY || !targetHasRate)
+      .map((r) => (r.currency === LEGACY_OTHER_CURRENCY ? { ...r, currency: target } : r)),
+  };
+};
+
+// Snapshot accounts in OTHER follow their account to its new currency, or become XXX when it is gone
+export const migrateLegacySnapshotCurrencies = (history: HistorySnapshot[], accounts: Account[]): HistorySnapshot[] => {
+  const currencyById = new Map(accounts.map((acc) => [acc.id, acc.currency]));
+  return history.map((snapshot) =>
+    snapshot.accounts?.some((acc) => acc.currency === LEGACY_OTHER_CURRENCY)
+      ? {
+          ...snapshot,
+          accounts: snapshot.accounts.map((acc) =>
+            acc.currency === LEGACY_OTHER_CURRENCY
+              ? { ...acc, currency: currencyById.get(acc.accountId) ?? UNKNOWN_CURRENCY }
+              : acc
+          ),
+        }
+      : snapshot
+  );
+};
+
 export const formatCurrency = (amount: number, currency: Currency): string => {
-  const symbol = currencySymbols[currency];
+  const { symbol, minorUnits } = getCurrencyInfo(currency);
   const formatted = Math.abs(amount).toLocaleString('en-US', {
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
+    minimumFractionDigits: minorUnits,
+    maximumFractionDigits: minorUnits,
   });
-  return `${symbol}${formatted}`;
+  // Letter-only symbols such as "CHF" read better with a gap before the number
+  const separator = /^[A-Za-z]{2,}$/.test(symbol) ? ' ' : '';
+  return `${symbol}${separator}${formatted}`;
 };
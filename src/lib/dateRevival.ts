@@ -0,0 +1,37 @@
+import { Account, ConversionRate } from '@/types/finance';
+import { HistorySnapshot } from '@/types/history';
+import { LocalBackup } from '@/types/backup';
+
+// JSON (localStorage, backup files) turns dates into ISO strings; IndexedDB keeps Date objects. Records are revived
+// at the storage boundary so the rest of the app always sees real dates.
+export const reviveDate = (value: Date | string | number): Date => (value instanceof Date ? value : new Date(value));
+
+export const reviveAccount = (account: Account): Account => ({
+  ...account,
+  lastUpdated: reviveDate(account.lastUpdated),
+  // Accounts saved before balance history existed are left for migrateAccounts to fill in
+  ...(account.balanceHistory
+    ? { balanceHistory: account.balanceHistory.map((entry) => ({ ...entry, date: reviveDate(entry.date) })) }
+    : {}),
+  ...(account.closedAt ? { closedAt: reviveDate(account.closedAt) } : {}),
+  ...(account.holdings
+    ? { holdings: account.holdings.map((h) => ({ ...h, priceDate: reviveDate(h.priceDate) })) }
+    : {}),
+  ...(account.loan ? { loan: { ...account.loan, startDate: reviveDate(account.loan.startDate) } } : {}),
+  ...(account.valuation ? { valuation: { ...account.valuation, date: reviveDate(account.valuation.date) } } : {}),
+});
+
+export const reviveConversionRate = (rate: ConversionRate): ConversionRate =>
+  rate.history
+    ? { ...rate, history: rate.history.map((entry) => ({ ...entry, effectiveDate: reviveDate(entry.effectiveDate) })) }
+    : rate;
+
+export const reviveSnapshot = (snapshot: HistorySnapshot): HistorySnapshot => ({
+  ...snapshot,
+  timestamp: reviveDate(snapshot.timestamp),
+});
+
+export const reviveLocalBackup = (backup: LocalBackup): LocalBackup => ({
+  ...backup,
+  createdAt: reviveDate(backup.createdAt),
+});
@@ -0,0 +1,6 @@
+import { format, parse } from 'date-fns';
+
+// Conversions for <input type="date"> values, which are local yyyy-MM-dd strings
+export const toDateInputValue = (date: Date | string): string => format(new Date(date), 'yyyy-MM-dd');
+
+export const fromDateInputValue = (value: string): Date => parse(value, 'yyyy-MM-dd', new Date());
@@ -0,0 +1,106 @@
+// IndexedDB database holding every profile's accounts, rates, snapshots, settings and automatic backups. The profile
+// list itself stays in localStorage (see useProfiles) so the app knows which profile to load before the database opens.
+export const DB_NAME = 'networth-tracker';
+
+export type StoreName = 'accounts' | 'rates' | 'snapshots' | 'settings' | 'backups';
+
+export const PROFILE_STORES: StoreName[] = ['accounts', 'rates', 'snapshots', 'settings', 'backups'];
+
+// App-wide records that belong to no profile, such as the app lock's wrapped key
+export const KEYRING_STORE = 'keyring';
+
+export interface SchemaMigration {
+  version: number;
+  description: string;
+  migrate: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+// Ordered; each runs once, inside the upgrade transaction, when the stored version is older than its own
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    description: 'Profile-scoped stores for accounts, rates, snapshots and settings',
+    migrate: (db) => {
+      (['accounts', 'rates', 'snapshots', 'settings'] as StoreName[]).forEach((name) => {
+        const store = db.createObjectStore(name, { keyPath: ['profileId', 'key'] });
+        store.createIndex('profileId', 'profileId');
+      });
+    },
+  },
+  {
+    version: 2,
+    description: 'Keyring for the app lock',
+    migrate: (db) => {
+      db.createObjectStore(KEYRING_STORE, { keyPath: 'id' });
+    },
+  },
+  {
+    version: 3,
+    description: 'Automatic local backups, per profile',
+    migrate: (db) => {
+      const store = db.createObjectStore('backups', { keyPath: ['profileId', 'key'] });
+      store.createIndex('profileId', 'profileId');
+    },
+  },
+];
+
+export const DB_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Resolves once everything queued on the transaction is committed
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Told when an upgrade has to wait for another tab's connection, and again once it goes ahead
+type BlockedListener = (blocked: boolean) => void;
+const blockedListeners = new Set<BlockedListener>();
+
+export const onDatabaseBlocked = (listener: BlockedListener): (() => void) => {
+  blockedListeners.add(listener);
+  return () => blockedListeners.delete(listener);
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+      let blocked = false;
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const transaction = request.transaction!;
+        SCHEMA_MIGRATIONS.filter((m) => m.version > event.oldVersion).forEach((m) => m.migrate(db, transaction));
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab upgrading the schema needs this connection out of the way
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        if (blocked) blockedListeners.forEach((listener) => listener(false));
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        if (blocked) blockedListeners.forEach((listener) => listener(false));
+        reject(request.error);
+      };
+      request.onblocked = () => {
+        blocked = true;
+        blockedListeners.forEach((listener) => listener(true));
+      };
+    });
+  }
+  return dbPromise;
+};
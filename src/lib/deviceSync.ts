@@ -0,0 +1,310 @@
+import { DeviceSyncConfig, DeviceSyncState, SyncOperation } from '@/types/sync';
+import { fromBase64, randomBytes, toBase64 } from '@/lib/crypto';
+import {
+  applyOperations,
+  describeChanges,
+  diffOperations,
+  documentOperations,
+  formatStamp,
+  observeStamp,
+  SyncedChanges,
+  SyncedData,
+  tickClock,
+  ZERO_CLOCK,
+} from '@/lib/crdt';
+import { sendSyncRequest, SyncConflictError, unexpectedResponse } from '@/lib/syncTransport';
+
+// Devices in a sync group share a random key through a pairing code. Changes are encrypted with it before they are
+// uploaded, so the relay, which only lists, stores and hands back blobs, never sees the data:
+//
+//   GET    {relay}/{group}         → names of the blobs stored for the group, as a JSON array
+//   GET    {relay}/{group}/{name}  → one blob
+//   PUT    {relay}/{group}/{name}  ← a new blob; sent with If-None-Match: * and answered 412 if the name is taken
+//   DELETE {relay}/{group}/{name}  → removes a blob every device has applied
+//
+// Each tab uploads under its own origin, {deviceId}-{sessionId}, naming its batches {origin}-{seq}. Tabs of one device
+// share its sync state, so an origin per tab keeps one tab from taking another's batches for its own.
+//
+// Every batch also says which batches its device had applied. Once every known device has applied enough of them,
+// a device uploads its whole document as one batch and deletes the rest; a device joining later gets everything
+// from that one.
+
+export const SYNC_BATCH_FORMAT = 'networth-sync-batch';
+const PAIRING_CODE_PREFIX = 'nwsync1';
+const MAX_UPLOAD_ATTEMPTS = 3;
+const COMPACT_AFTER_BATCHES = 50;
+
+interface SyncBatch {
+  deviceId: string;
+  deviceName: string;
+  seq: number;
+  operations: SyncOperation[];
+  acknowledged: Record<string, number>; // The uploader's applied batches at the time
+}
+
+interface SealedBatch {
+  format: typeof SYNC_BATCH_FORMAT;
+  version: 1;
+  iv: string;
+  data: string;
+}
+
+export class PairingCodeError extends Error {
+  constructor(message = 'This is not a valid pairing code') {
+    super(message);
+    this.name = 'PairingCodeError';
+  }
+}
+
+// The relay, or someone with access to it, changed or swapped a blob, or it was sealed with another group's key
+export class SyncBatchError extends Error {
+  constructor() {
+    super('A change stored on the relay could not be decrypted. Check that every device uses the same pairing code.');
+    this.name = 'SyncBatchError';
+  }
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+export const createGroupSecrets = () => ({ groupId: toHex(randomBytes(16)), key: toBase64(randomBytes(32)) });
+
+export const createDeviceId = () => toHex(randomBytes(8));
+
+// Identifies this tab's uploads for as long as it is open
+const SESSION_ID = toHex(randomBytes(4));
+
+const originOf = (config: DeviceSyncConfig) => `${config.deviceId}-${SESSION_ID}`;
+
+export const getPairingCode = (config: Pick<DeviceSyncConfig, 'groupId' | 'key'>) =>
+  `${PAIRING_CODE_PREFIX}:${config.groupId}:${config.key}`;
+
+export const parsePairingCode = (code: string): Pick<DeviceSyncConfig, 'groupId' | 'key'> => {
+  const [prefix, groupId, key] = code.trim().split(':');
+  if (prefix !== PAIRING_CODE_PREFIX || !/^[0-9a-f]{32}$/.test(groupId ?? '')) throw new PairingCodeError();
+  let keyLength = 0;
+  try {
+    keyLength = fromBase64(key ?? '').length;
+  } catch {
+    // Not base64
+  }
+  if (keyLength !== 32) throw new PairingCodeError();
+  return { groupId, key };
+};
+
+const blobName = (origin: string, seq: number) => `${origin}-${String(seq).padStart(8, '0')}`;
+
+const parseBlobName = (name: string) => {
+  const match = /^(([0-9a-f]+)-[0-9a-f]+)-(\d+)$/.exec(name);
+  return match ? { name, origin: match[1], deviceId: match[2], seq: Number(match[3]) } : null;
+};
+
+type StoredBlob = NonNullable<ReturnType<typeof parseBlobName>>;
+
+const parseBlobNames = (names: string[]): StoredBlob[] =>
+  names.map(parseBlobName).filter((blob): blob is StoredBlob => blob !== null);
+
+const importGroupKey = (key: string) =>
+  crypto.subtle.importKey('raw', fromBase64(key), 'AES-GCM', false, ['encrypt', 'decrypt']);
+
+// The blob's group and name are authenticated with it, so a blob cannot be passed off as another
+const blobAddress = (config: DeviceSyncConfig, name: string) => new TextEncoder().encode(`${config.groupId}/${name}`);
+
+const sealBatch = async (key: CryptoKey, config: DeviceSyncConfig, name: string, batch: SyncBatch): Promise<SealedBatch> => {
+  const iv = randomBytes(12);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: blobAddress(config, name) },
+    key,
+    new TextEncoder().encode(JSON.stringify(batch))
+  );
+  return { format: SYNC_BATCH_FORMAT, version: 1, iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) };
+};
+
+const openBatch = async (key: CryptoKey, config: DeviceSyncConfig, name: string, sealed: SealedBatch): Promise<SyncBatch> => {
+  if (sealed?.format !== SYNC_BATCH_FORMAT) throw new SyncBatchError();
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(sealed.iv), additionalData: blobAddress(config, name) },
+      key,
+      fromBase64(sealed.data)
+    );
+    return JSON.parse(new TextDecoder().decode(plaintext)) as SyncBatch;
+  } catch {
+    throw new SyncBatchError();
+  }
+};
+
+const createRelay = (config: DeviceSyncConfig) => {
+  const base = `${config.relayUrl.replace(/\/+$/, '')}/${config.groupId}`;
+  const at = (url: string) => ({ ...config, url });
+
+  return {
+    list: async (): Promise<string[]> => {
+      const response = await sendSyncRequest(at(base), { method: 'GET', headers: { Accept: 'application/json' } });
+      if (response.status === 404) return [];
+      if (!response.ok) throw unexpectedResponse(response);
+      return (await response.json()) as string[];
+    },
+    // null when the blob was deleted after the list was read
+    get: async (name: string): Promise<SealedBatch | null> => {
+      const response = await sendSyncRequest(at(`${base}/${name}`), { method: 'GET' });
+      if (response.status === 404) return null;
+      if (!response.ok) throw unexpectedResponse(response);
+      return (await response.json()) as SealedBatch;
+    },
+    put: async (name: string, sealed: SealedBatch): Promise<void> => {
+      const response = await sendSyncRequest(at(`${base}/${name}`), {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', 'If-None-Match': '*' },
+        body: JSON.stringify(sealed),
+      });
+      if (response.status === 412) throw new SyncConflictError();
+      if (!response.ok) throw unexpectedResponse(response);
+    },
+    remove: async (name: string): Promise<void> => {
+      const response = await sendSyncRequest(at(`${base}/${name}`), { method: 'DELETE' });
+      if (!response.ok && response.status !== 404) throw unexpectedResponse(response);
+    },
+  };
+};
+
+// Records the data here as it stands. A device joining a group records it as of the beginning of time, so whatever
+// the group already holds wins and only records new to the group are added from here.
+export const createDeviceSyncState = (data: SyncedData, deviceId: string, joining: boolean): DeviceSyncState => {
+  const clock = joining ? ZERO_CLOCK : tickClock(ZERO_CLOCK);
+  const pending = diffOperations({}, data, formatStamp(clock, deviceId));
+  return {
+    clock,
+    document: applyOperations({}, pending),
+    pending,
+    applied: {},
+    devices: {},
+    syncedAt: null,
+  };
+};
+
+// Turns edits made here since the last call into operations waiting to be uploaded
+export const recordLocalChanges = (state: DeviceSyncState, data: SyncedData, deviceId: string): DeviceSyncState => {
+  const clock = tickClock(state.clock);
+  const operations = diffOperations(state.document, data, formatStamp(clock, deviceId));
+  if (operations.length === 0) return state;
+  return {
+    ...state,
+    clock,
+    document: applyOperations(state.document, operations),
+    pending: [...state.pending, ...operations],
+  };
+};
+
+// Uploads operations as this tab's next batch. A taken name means an earlier upload went through without being
+// recorded here; the batch goes under the next one.
+const uploadBatch = async (
+  config: DeviceSyncConfig,
+  state: DeviceSyncState,
+  operations: SyncOperation[]
+): Promise<DeviceSyncState> => {
+  const relay = createRelay(config);
+  const key = await importGroupKey(config.key);
+  const origin = originOf(config);
+  const last = state.applied[origin] ?? 0;
+  for (let seq = last + 1; ; seq++) {
+    const name = blobName(origin, seq);
+    const batch: SyncBatch = {
+      deviceId: config.deviceId,
+      deviceName: config.deviceName,
+      seq,
+      operations,
+      acknowledged: state.applied,
+    };
+    try {
+      await relay.put(name, await sealBatch(key, config, name, batch));
+      return { ...state, applied: { ...state.applied, [origin]: seq } };
+    } catch (error) {
+      if (!(error instanceof SyncConflictError) || seq - last >= MAX_UPLOAD_ATTEMPTS) throw error;
+    }
+  }
+};
+
+export const uploadPending = async (config: DeviceSyncConfig, state: DeviceSyncState): Promise<DeviceSyncState> => {
+  if (state.pending.length === 0) return state;
+  const uploaded = await uploadBatch(config, state, state.pending);
+  return { ...uploaded, pending: [] };
+};
+
+// Keeps only the origins that still have batches on the relay, so tabs closed long ago do not pile up
+const keepListed = (seqs: Record<string, number>, origins: Set<string>) =>
+  Object.fromEntries(Object.entries(seqs).filter(([origin]) => origins.has(origin)));
+
+// Fetches and applies the batches other devices uploaded since the last call
+export const downloadChanges = async (
+  config: DeviceSyncConfig,
+  state: DeviceSyncState
+): Promise<{ state: DeviceSyncState; changes: SyncedChanges | null; from: string[] }> => {
+  const relay = createRelay(config);
+  const key = await importGroupKey(config.key);
+  const listed = parseBlobNames(await relay.list());
+  const fresh = listed
+    .filter((blob) => blob.seq > (state.applied[blob.origin] ?? 0))
+    .sort((a, b) => (a.origin !== b.origin ? (a.origin < b.origin ? -1 : 1) : a.seq - b.seq));
+
+  const origins = new Set([originOf(config), ...listed.map((blob) => blob.origin)]);
+  const applied = keepListed(state.applied, origins);
+  const devices = { ...state.devices };
+  const operations: SyncOperation[] = [];
+  const seenAt = new Date().toISOString();
+  const senders = new Set<string>();
+  for (const blob of fresh) {
+    const sealed = await relay.get(blob.name);
+    applied[blob.origin] = blob.seq;
+    // Deleted by a device compacting the group; the batch that replaced it comes with the next list
+    if (!sealed) continue;
+    const batch = await openBatch(key, config, blob.name, sealed);
+    if (batch.deviceId !== blob.deviceId || batch.seq !== blob.seq) throw new SyncBatchError();
+    operations.push(...batch.operations);
+    if (blob.deviceId === config.deviceId) continue;
+    const acknowledged = { ...devices[blob.deviceId]?.acknowledged };
+    Object.entries(batch.acknowledged ?? {}).forEach(([origin, seq]) => {
+      acknowledged[origin] = Math.max(acknowledged[origin] ?? 0, seq);
+    });
+    devices[blob.deviceId] = { name: batch.deviceName, lastSeen: seenAt, acknowledged };
+    senders.add(batch.deviceName);
+  }
+  Object.entries(devices).forEach(([deviceId, device]) => {
+    devices[deviceId] = { ...device, acknowledged: keepListed(device.acknowledged, origins) };
+  });
+
+  const document = applyOperations(state.document, operations);
+  const next: DeviceSyncState = {
+    ...state,
+    clock: operations.reduce((clock, op) => observeStamp(clock, op.stamp), state.clock),
+    document,
+    applied,
+    devices,
+    syncedAt: seenAt,
+  };
+  return { state: next, changes: describeChanges(state.document, document, operations), from: Array.from(senders) };
+};
+
+// Replaces the batches every known device has applied with one holding this device's whole document. Runs after a
+// download, when that document includes all of them.
+export const compactBatches = async (config: DeviceSyncConfig, state: DeviceSyncState): Promise<DeviceSyncState> => {
+  if (state.pending.length > 0) return state;
+  const relay = createRelay(config);
+  const acknowledgements = [state.applied, ...Object.values(state.devices).map((device) => device.acknowledged)];
+  const settled = parseBlobNames(await relay.list()).filter((blob) =>
+    acknowledgements.every((acknowledged) => (acknowledged[blob.origin] ?? 0) >= blob.seq)
+  );
+  if (settled.length < COMPACT_AFTER_BATCHES) return state;
+  // Uploaded before anything is deleted, so the group never goes without the changes
+  const compacted = await uploadBatch(config, state, documentOperations(state.document));
+  for (const blob of settled) await relay.remove(blob.name);
+  return compacted;
+};
+
+// Reads the group once before joining it: the relay must answer, and the key must open what is already there
+export const checkPairing = async (config: DeviceSyncConfig): Promise<number> => {
+  const relay = createRelay(config);
+  const blobs = parseBlobNames(await relay.list());
+  const sealed = blobs.length > 0 ? await relay.get(blobs[0].name) : null;
+  if (sealed) await openBatch(await importGroupKey(config.key), config, blobs[0].name, sealed);
+  return new Set(blobs.map((blob) => blob.deviceId)).size;
+};
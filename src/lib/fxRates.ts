@@ -0,0 +1,74 @@
+import { ConversionRate, Currency, RateEntry } from '@/types/finance';
+import { isSameDay } from 'date-fns';
+
+export const createRateEntry = (rate: number, effectiveDate: Date = new Date()): RateEntry => ({
+  id: crypto.randomUUID(),
+  effectiveDate,
+  rate,
+});
+
+export const createConversionRate = (
+  currency: Currency,
+  rate: number,
+  effectiveDate: Date = new Date()
+): ConversionRate => ({
+  currency,
+  rate,
+  history: [createRateEntry(rate, effectiveDate)],
+});
+
+const sortEntries = (entries: RateEntry[]): RateEntry[] =>
+  [...entries].sort((a, b) => new Date(a.effectiveDate).getTime() - new Date(b.effectiveDate).getTime());
+
+// Keep rate in step with the latest history entry
+export const withRateHistory = (conversionRate: ConversionRate, entries: RateEntry[]): ConversionRate => {
+  const sorted = sortEntries(entries);
+  const latest = sorted[sorted.length - 1];
+  return {
+    ...conversionRate,
+    history: sorted,
+    rate: latest ? latest.rate : conversionRate.rate,
+  };
+};
+
+// Record a new rate effective on the given date. A second edit on the same day
+// corrects that day's entry instead of stacking another one.
+export const recordRate = (
+  conversionRate: ConversionRate,
+  rate: number,
+  effectiveDate: Date = new Date()
+): ConversionRate => {
+  const history = conversionRate.history ?? [];
+  const sameDay = history.find((e) => isSameDay(new Date(e.effectiveDate), effectiveDate));
+  if (sameDay) {
+    return withRateHistory(
+      conversionRate,
+      history.map((e) => (e.id === sameDay.id ? { ...e, rate } : e))
+    );
+  }
+  return withRateHistory(conversionRate, [...history, createRateEntry(rate, effectiveDate)]);
+};
+
+// Rate in force on a date. Dates before the first entry use the earliest known rate,
+// since that is the best estimate available.
+export const getRateAt = (conversionRate: ConversionRate, asOf: Date): number => {
+  const history = conversionRate.history ?? [];
+  if (history.length === 0) return conversionRate.rate;
+  const time = new Date(asOf).getTime();
+  let rate = history[0].rate;
+  for (const entry of history) {
+    if (new Date(entry.effectiveDate).getTime() > time) break;
+    rate = entry.rate;
+  }
+  return rate;
+};
+
+// Rates saved before the time series existed only carry a single rate.
+// Seed their history with that value so past conversions keep working.
+export const migrateRates = (conversionRates: ConversionRate[]): ConversionRate[] => {
+  const needsMigration = conversionRates.some((r) => !Array.isArray(r.history));
+  if (!needsMigration) return conversionRates;
+  return conversionRates.map((r) =>
+    Array.isArray(r.history) ? r : { ...r, history: [createRateEntry(r.rate)] }
+  );
+};
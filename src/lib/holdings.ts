@@ -0,0 +1,83 @@
+import { Account, ConversionRate, Currency, Holding } from '@/types/finance';
+import { getRateToBase } from '@/lib/currency';
+import { recordBalance } from '@/lib/accountHistory';
+
+export const createHolding = (
+  symbol: string,
+  quantity: number,
+  unitPrice: number,
+  priceCurrency: Currency,
+  priceDate: Date = new Date()
+): Holding => ({
+  id: crypto.randomUUID(),
+  symbol,
+  quantity,
+  unitPrice,
+  priceCurrency,
+  priceDate,
+});
+
+export const hasHoldings = (account: Pick<Account, 'holdings'>): boolean => (account.holdings?.length ?? 0) > 0;
+
+// Value of a position in the account's currency. Prices quoted in another currency
+// go through the base currency; an unknown rate values the position at 0.
+export const getHoldingValue = (
+  holding: Holding,
+  accountCurrency: Currency,
+  conversionRates: ConversionRate[],
+  baseCurrency: Currency
+): number => {
+  const amount = holding.quantity * holding.unitPrice;
+  if (holding.priceCurrency === accountCurrency) return amount;
+  const accountRate = getRateToBase(accountCurrency, conversionRates, baseCurrency);
+  if (accountRate === 0) return 0;
+  return (amount * getRateToBase(holding.priceCurrency, conversionRates, baseCurrency)) / accountRate;
+};
+
+export const getHoldingsBalance = (
+  holdings: Holding[],
+  accountCurrency: Currency,
+  conversionRates: ConversionRate[],
+  baseCurrency: Currency
+): number =>
+  holdings.reduce((sum, h) => sum + getHoldingValue(h, accountCurrency, conversionRates, baseCurrency), 0);
+
+export interface HoldingAllocation {
+  holding: Holding;
+  value: number; // In the account's currency
+  share: number; // 0-1 of the account's positive holdings value
+}
+
+// Largest positions first
+export const getHoldingAllocation = (
+  account: Account,
+  conversionRates: ConversionRate[],
+  baseCurrency: Currency
+): HoldingAllocation[] => {
+  const values = (account.holdings ?? []).map((holding) => ({
+    holding,
+    value: getHoldingValue(holding, account.currency, conversionRates, baseCurrency),
+  }));
+  const total = values.reduce((sum, v) => sum + Math.max(v.value, 0), 0);
+  return values
+    .map((v) => ({ ...v, share: total > 0 ? Math.max(v.value, 0) / total : 0 }))
+    .sort((a, b) => b.value - a.value);
+};
+
+// Update quantities by symbol (case-insensitive) and record the derived balance.
+// Meant for importers that report positions rather than account totals.
+export const updateHoldingQuantities = (
+  account: Account,
+  quantities: Record<string, number>,
+  conversionRates: ConversionRate[],
+  baseCurrency: Currency,
+  date: Date = new Date()
+): Account => {
+  const bySymbol = new Map(Object.entries(quantities).map(([symbol, qty]) => [symbol.toUpperCase(), qty]));
+  const holdings = (account.holdings ?? []).map((h) => {
+    const quantity = bySymbol.get(h.symbol.toUpperCase());
+    return quantity === undefined ? h : { ...h, quantity };
+  });
+  const balance = getHoldingsBalance(holdings, account.currency, conversionRates, baseCurrency);
+  return recordBalance({ ...account, holdings }, balance, date);
+};
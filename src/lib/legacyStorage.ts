@@ -0,0 +1,85 @@
+import { Account, ConversionRate } from '@/types/finance';
+import { HistorySnapshot } from '@/types/history';
+import { getProfileStorageKey } from '@/lib/profiles';
+import { openDatabase, requestToPromise, StoreName } from '@/lib/db';
+import { reviveAccount, reviveConversionRate, reviveSnapshot } from '@/lib/dateRevival';
+import { DecodedRecord, writeRecords } from '@/lib/appLock';
+
+// Set once a profile's localStorage data has been copied into the database
+const MIGRATED_SETTING = 'legacy-storage-migrated';
+
+const LEGACY_LIST_KEYS = {
+  accounts: 'networth-accounts',
+  rates: 'networth-rates',
+  snapshots: 'networth-history',
+} as const;
+
+// Settings keep the names they had in localStorage
+const LEGACY_SETTING_KEYS = [
+  'networth-expenses',
+  'networth-base-currency',
+  'networth-people',
+  'retirement-inputs',
+  'show-current-assets',
+  'show-non-current-assets',
+  'show-current-liabilities',
+  'show-non-current-liabilities',
+  'display-currency',
+  'history-valuation-mode',
+  'account-grouping',
+  'owner-view',
+];
+
+const readLegacyValue = (key: string): unknown => {
+  const item = window.localStorage.getItem(key);
+  if (item === null) return undefined;
+  try {
+    return JSON.parse(item);
+  } catch {
+    return undefined;
+  }
+};
+
+// Copies a profile's localStorage data into the database in one transaction, then removes the old keys. Runs once
+// per profile; a failed copy leaves localStorage untouched so the next load can retry.
+export const migrateLegacyStorage = async (profileId: string): Promise<void> => {
+  const db = await openDatabase();
+  const settings = db.transaction('settings', 'readonly').objectStore('settings');
+  if (await requestToPromise(settings.get([profileId, MIGRATED_SETTING]))) return;
+
+  const storageKey = (key: string) => getProfileStorageKey(profileId, key);
+  const accounts = readLegacyValue(storageKey(LEGACY_LIST_KEYS.accounts));
+  const rates = readLegacyValue(storageKey(LEGACY_LIST_KEYS.rates));
+  const snapshots = readLegacyValue(storageKey(LEGACY_LIST_KEYS.snapshots));
+
+  const records: { storeName: StoreName; record: DecodedRecord }[] = [];
+  const addList = <T>(storeName: StoreName, items: unknown, getKey: (item: T) => string, revive: (item: T) => T) => {
+    if (!Array.isArray(items)) return;
+    (items as T[]).forEach((item, order) =>
+      records.push({ storeName, record: { profileId, key: getKey(item), order, value: revive(item) } })
+    );
+  };
+  addList<Account>('accounts', accounts, (acc) => acc.id, reviveAccount);
+  addList<ConversionRate>('rates', rates, (rate) => rate.currency, reviveConversionRate);
+  addList<HistorySnapshot>('snapshots', snapshots, (s) => s.id, reviveSnapshot);
+
+  const migratedSettings = LEGACY_SETTING_KEYS.map((key) => [key, readLegacyValue(storageKey(key))] as const).filter(
+    ([, value]) => value !== undefined
+  );
+  migratedSettings.forEach(([key, value]) =>
+    records.push({ storeName: 'settings', record: { profileId, key, order: 0, value } })
+  );
+  records.push({ storeName: 'settings', record: { profileId, key: MIGRATED_SETTING, order: 0, value: new Date() } });
+
+  // Sealed up front when the app lock is on, since the write transaction cannot wait on encryption
+  await writeRecords(
+    ['accounts', 'rates', 'snapshots', 'settings'],
+    records.map(({ record }) => record),
+    (transaction, encoded) =>
+      encoded.forEach((record, i) => transaction.objectStore(records[i].storeName).put(record))
+  );
+
+  [...Object.values(LEGACY_LIST_KEYS), ...LEGACY_SETTING_KEYS].forEach((key) =>
+    window.localStorage.removeItem(storageKey(key))
+  );
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { Account, LoanTerms } from '@/types/finance';
+import { buildAmortizationSchedule, getExpectedBalanceAt, getLoanStatus, projectPayoff } from '@/lib/loans';
+
+const terms = (overrides: Partial<LoanTerms> = {}): LoanTerms => ({
+  annualRate: 5,
+  principal: 300000,
+  termMonths: 360,
+  frequency: 'monthly',
+  startDate: new Date(2020, 0, 1),
+  ...overrides,
+});
+
+const mortgage = (loan: LoanTerms, balance: number, lastUpdated: Date): Account => ({
+  id: 'mortgage',
+  name: 'Mortgage',
+  category: 'non_current_liability',
+  accessType: 'illiquid',
+  currency: 'EUR',
+  balance,
+  lastUpdated,
+  balanceHistory: [],
+  loan,
+});
+
+describe('buildAmortizationSchedule', () => {
+  it('runs a 30-year weekly loan to the end of its term', () => {
+    const schedule = buildAmortizationSchedule(terms({ frequency: 'weekly' }));
+    expect(schedule).toHaveLength(1560);
+    expect(schedule[schedule.length - 1].balance).toBeCloseTo(0);
+    expect(projectPayoff(terms({ frequency: 'weekly' }), 300000, new Date(2020, 0, 1)).payoffDate).not.toBeNull();
+  });
+
+  it('stops when the payment never covers the interest', () => {
+    expect(buildAmortizationSchedule(terms({ payment: 1000 }))).toEqual([]);
+    expect(projectPayoff(terms({ payment: 1000 }), 300000).payoffDate).toBeNull();
+  });
+});
+
+describe('getLoanStatus', () => {
+  it('compares the balance with the schedule on the day it was recorded', () => {
+    const loan = terms();
+    const recordedAt = new Date(2021, 0, 15);
+    const status = getLoanStatus(mortgage(loan, getExpectedBalanceAt(loan, recordedAt), recordedAt));
+    expect(status?.isOffSchedule).toBe(false);
+    expect(status?.drift).toBeCloseTo(0);
+    expect(status?.projection.paymentsRemaining).toBe(348);
+  });
+});
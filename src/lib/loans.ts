@@ -0,0 +1,138 @@
+import { Account, LoanTerms, PaymentFrequency } from '@/types/finance';
+import { addMonths, addWeeks } from 'date-fns';
+
+export const PAYMENT_FREQUENCY_META: Record<PaymentFrequency, { label: string; periodsPerYear: number }> = {
+  weekly: { label: 'Weekly', periodsPerYear: 52 },
+  biweekly: { label: 'Every 2 weeks', periodsPerYear: 26 },
+  monthly: { label: 'Monthly', periodsPerYear: 12 },
+  quarterly: { label: 'Quarterly', periodsPerYear: 4 },
+};
+
+// A payment set below the annuity payment runs past the term; schedules stop this many years after it
+const MAX_YEARS_PAST_TERM = 50;
+
+export interface AmortizationRow {
+  period: number;
+  date: Date;
+  payment: number;
+  interest: number;
+  principal: number;
+  balance: number; // Remaining after this payment
+}
+
+export interface LoanProjection {
+  payoffDate: Date | null; // null when the payment does not cover the interest
+  paymentsRemaining: number;
+  interestRemaining: number;
+}
+
+export interface LoanStatus {
+  payment: number;
+  expectedBalance: number; // Per the original schedule
+  drift: number; // Recorded balance minus expected balance
+  isOffSchedule: boolean;
+  projection: LoanProjection; // From the recorded balance, as of the day it was recorded
+}
+
+const getPeriodRate = (terms: LoanTerms): number =>
+  terms.annualRate / 100 / PAYMENT_FREQUENCY_META[terms.frequency].periodsPerYear;
+
+const getPeriodCount = (terms: LoanTerms): number =>
+  Math.max(1, Math.round((terms.termMonths / 12) * PAYMENT_FREQUENCY_META[terms.frequency].periodsPerYear));
+
+const getMaxPeriods = (terms: LoanTerms): number =>
+  getPeriodCount(terms) + MAX_YEARS_PAST_TERM * PAYMENT_FREQUENCY_META[terms.frequency].periodsPerYear;
+
+export const getPaymentDate = (terms: LoanTerms, period: number): Date => {
+  const start = new Date(terms.startDate);
+  switch (terms.frequency) {
+    case 'weekly':
+      return addWeeks(start, period);
+    case 'biweekly':
+      return addWeeks(start, period * 2);
+    case 'monthly':
+      return addMonths(start, period);
+    case 'quarterly':
+      return addMonths(start, period * 3);
+  }
+};
+
+// Level payment that clears the principal over the term (annuity formula)
+export const getScheduledPayment = (terms: LoanTerms): number => {
+  if (terms.payment && terms.payment > 0) return terms.payment;
+  const rate = getPeriodRate(terms);
+  const periods = getPeriodCount(terms);
+  if (rate === 0) return terms.principal / periods;
+  return (terms.principal * rate) / (1 - Math.pow(1 + rate, -periods));
+};
+
+// Payments from a balance until it is cleared, numbering periods from firstPeriod
+const amortize = (terms: LoanTerms, balance: number, firstPeriod: number): AmortizationRow[] => {
+  const rate = getPeriodRate(terms);
+  const payment = getScheduledPayment(terms);
+  const rows: AmortizationRow[] = [];
+  const maxPeriods = getMaxPeriods(terms);
+  let remaining = balance;
+
+  for (let period = firstPeriod; remaining > 0.005 && rows.length < maxPeriods; period++) {
+    const interest = remaining * rate;
+    // A payment that never covers the interest would never clear the loan
+    if (payment <= interest) break;
+    const principal = Math.min(payment - interest, remaining);
+    remaining -= principal;
+    rows.push({
+      period,
+      date: getPaymentDate(terms, period),
+      payment: principal + interest,
+      interest,
+      principal,
+      balance: Math.max(remaining, 0),
+    });
+  }
+  return rows;
+};
+
+export const buildAmortizationSchedule = (terms: LoanTerms): AmortizationRow[] => amortize(terms, terms.principal, 1);
+
+// Balance the original schedule expects once all payments due by the date are made
+export const getExpectedBalanceAt = (terms: LoanTerms, date: Date): number => {
+  const time = new Date(date).getTime();
+  let balance = terms.principal;
+  for (const row of buildAmortizationSchedule(terms)) {
+    if (row.date.getTime() > time) break;
+    balance = row.balance;
+  }
+  return balance;
+};
+
+// Payoff from an actual balance, continuing with the next payment due after the date
+export const projectPayoff = (terms: LoanTerms, balance: number, from: Date = new Date()): LoanProjection => {
+  const time = new Date(from).getTime();
+  const maxPeriods = getMaxPeriods(terms);
+  let nextPeriod = 1;
+  while (getPaymentDate(terms, nextPeriod).getTime() <= time && nextPeriod < maxPeriods) nextPeriod++;
+
+  const rows = amortize(terms, balance, nextPeriod);
+  const cleared = balance <= 0.005 || (rows.length > 0 && rows[rows.length - 1].balance <= 0.005);
+  return {
+    payoffDate: balance <= 0.005 ? new Date(from) : cleared ? rows[rows.length - 1].date : null,
+    paymentsRemaining: rows.length,
+    interestRemaining: rows.reduce((sum, row) => sum + row.interest, 0),
+  };
+};
+
+// A recorded balance more than one payment away from the schedule on the day it was recorded is flagged, so a loan
+// not updated for a while is not taken for one that fell behind
+export const getLoanStatus = (account: Account): LoanStatus | null => {
+  if (!account.loan) return null;
+  const payment = getScheduledPayment(account.loan);
+  const expectedBalance = getExpectedBalanceAt(account.loan, account.lastUpdated);
+  const drift = account.balance - expectedBalance;
+  return {
+    payment,
+    expectedBalance,
+    drift,
+    isOffSchedule: Math.abs(drift) > payment,
+    projection: projectPayoff(account.loan, account.balance, account.lastUpdated),
+  };
+};
@@ -0,0 +1,90 @@
+import { differenceInCalendarDays, format } from 'date-fns';
+import { BackupFile, LocalBackup, LocalBackupReason } from '@/types/backup';
+import { getActiveAccounts } from '@/lib/accountArchive';
+import { createSnapshotAccounts, withSnapshotTotals } from '@/lib/snapshots';
+import { localBackupRepository } from '@/lib/repositories';
+
+// Retention: one backup per day for a week, one per week for a month, and every backup taken by hand or before a
+// destructive action for a week (at most MAX_SAFETY_BACKUPS of them). The newest backup is always kept.
+const DAILY_DAYS = 7;
+const WEEKLY_DAYS = 31;
+const SAFETY_DAYS = 7;
+const MAX_SAFETY_BACKUPS = 10;
+
+export const LOCAL_BACKUP_REASON_LABELS: Record<LocalBackupReason, string> = {
+  scheduled: 'Daily',
+  manual: 'Manual',
+  'before-import': 'Before import',
+  'before-clear-history': 'Before clearing history',
+  'before-delete-account': 'Before deleting an account',
+  'before-restore': 'Before restore',
+};
+
+export const createLocalBackup = (data: BackupFile, reason: LocalBackupReason, createdAt = new Date()): LocalBackup => {
+  const activeAccounts = getActiveAccounts(data.accounts);
+  const totals = withSnapshotTotals(
+    {
+      id: '',
+      timestamp: createdAt,
+      baseCurrency: data.baseCurrency,
+      netWorthBase: 0,
+      totalAssetsBase: 0,
+      totalLiabilitiesBase: 0,
+      liquidNetWorthBase: 0,
+      accountCount: 0,
+    },
+    createSnapshotAccounts(activeAccounts, data.conversionRates, data.baseCurrency)
+  );
+  return {
+    id: crypto.randomUUID(),
+    createdAt,
+    reason,
+    accountCount: activeAccounts.length,
+    netWorthBase: totals.netWorthBase,
+    baseCurrency: data.baseCurrency,
+    data: JSON.stringify(data, null, 2),
+  };
+};
+
+// Newest first, with everything the retention policy no longer covers removed
+export const applyRetention = (backups: LocalBackup[], now: Date = new Date()): LocalBackup[] => {
+  const sorted = [...backups].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  const keep = new Set<string>(sorted.slice(0, 1).map((b) => b.id));
+  const days = new Set<string>();
+  const weeks = new Set<string>();
+  let safetyCount = 0;
+
+  sorted.forEach((backup) => {
+    const age = differenceInCalendarDays(now, backup.createdAt);
+    if (backup.reason !== 'scheduled' && age < SAFETY_DAYS && safetyCount < MAX_SAFETY_BACKUPS) {
+      safetyCount += 1;
+      keep.add(backup.id);
+      return;
+    }
+    const bucket = age < DAILY_DAYS ? days : age < WEEKLY_DAYS ? weeks : null;
+    if (!bucket) return;
+    const bucketKey = format(backup.createdAt, bucket === days ? 'yyyy-MM-dd' : "RRRR-'W'II");
+    if (!bucket.has(bucketKey)) {
+      bucket.add(bucketKey);
+      keep.add(backup.id);
+    }
+  });
+
+  return sorted.filter((backup) => keep.has(backup.id));
+};
+
+// Whether the daily backup is due: none yet today
+export const isScheduledBackupDue = (backups: LocalBackup[], now: Date = new Date()): boolean =>
+  !backups.some((backup) => differenceInCalendarDays(now, backup.createdAt) === 0);
+
+// Adds a backup and prunes the rest in the database; returns the list as now stored. Each backup holds a whole
+// profile, so only the new one is written and the pruned ones deleted. A newer backup gets a lower position, which
+// keeps the stored list newest first.
+export const saveLocalBackup = async (profileId: string, backup: LocalBackup): Promise<LocalBackup[]> => {
+  const stored = await localBackupRepository.getAll(profileId);
+  const next = applyRetention([...stored, backup], backup.createdAt);
+  const kept = new Set(next.map((b) => b.id));
+  const pruned = stored.filter((b) => !kept.has(b.id)).map((b) => b.id);
+  await localBackupRepository.putAndRemove(profileId, backup, -backup.createdAt.getTime(), pruned);
+  return next;
+};
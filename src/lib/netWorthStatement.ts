@@ -0,0 +1,121 @@
+import { Account, AccountCategory, ConversionRate, Currency } from '@/types/finance';
+import { HistorySnapshot, ValuationMode } from '@/types/history';
+import { ACCOUNT_CATEGORY_META } from '@/lib/accountMetadata';
+import { convertFromBase, getRateToBase } from '@/lib/currency';
+import { convertSnapshotAmount } from '@/lib/snapshots';
+
+// A net worth statement laid out as a balance sheet: assets, then liabilities, each split into current and
+// non-current, with every amount also given in one statement currency.
+
+export interface StatementLine {
+  name: string;
+  currency: Currency;
+  balance: number; // In the account's own currency
+  value: number; // In the statement currency
+}
+
+export interface StatementSection {
+  category: AccountCategory;
+  label: string;
+  lines: StatementLine[];
+  subtotal: number;
+}
+
+export interface StatementRate {
+  currency: Currency;
+  rate: number; // Value of one unit in the statement currency
+  effectiveDate: Date | null; // When the rate was last recorded, if known
+}
+
+export interface StatementHistoryPoint {
+  date: Date;
+  netWorth: number;
+}
+
+export interface NetWorthStatement {
+  currency: Currency;
+  asOf: Date;
+  assets: StatementSection[];
+  liabilities: StatementSection[];
+  totalAssets: number;
+  totalLiabilities: number;
+  netWorth: number;
+  rates: StatementRate[];
+  history: StatementHistoryPoint[];
+}
+
+interface StatementSource {
+  accounts: Account[]; // Active accounts, already narrowed to one person's share when the statement is for them
+  history: HistorySnapshot[];
+  conversionRates: ConversionRate[];
+  baseCurrency: Currency;
+  currency: Currency;
+  valuationMode: ValuationMode;
+  asOf?: Date;
+}
+
+const latestEntryDate = (rate: ConversionRate | undefined): Date | null => {
+  const last = rate?.history[rate.history.length - 1];
+  return last ? new Date(last.effectiveDate) : null;
+};
+
+export const buildNetWorthStatement = ({
+  accounts,
+  history,
+  conversionRates,
+  baseCurrency,
+  currency,
+  valuationMode,
+  asOf = new Date(),
+}: StatementSource): NetWorthStatement => {
+  const toStatement = (amount: number, from: Currency) =>
+    convertFromBase(amount * getRateToBase(from, conversionRates, baseCurrency), currency, conversionRates, baseCurrency);
+
+  const sections = (Object.keys(ACCOUNT_CATEGORY_META) as AccountCategory[]).map((category): StatementSection => {
+    const lines = accounts
+      .filter((acc) => acc.category === category)
+      .map((acc) => ({ name: acc.name, currency: acc.currency, balance: acc.balance, value: toStatement(acc.balance, acc.currency) }))
+      .sort((a, b) => b.value - a.value);
+    return {
+      category,
+      label: ACCOUNT_CATEGORY_META[category].label,
+      lines,
+      subtotal: lines.reduce((sum, line) => sum + line.value, 0),
+    };
+  });
+  const assets = sections.filter((section) => ACCOUNT_CATEGORY_META[section.category].isAsset);
+  const liabilities = sections.filter((section) => !ACCOUNT_CATEGORY_META[section.category].isAsset);
+  const totalAssets = assets.reduce((sum, section) => sum + section.subtotal, 0);
+  const totalLiabilities = liabilities.reduce((sum, section) => sum + section.subtotal, 0);
+
+  // Every currency held other than the statement's own, valued through the base currency like the amounts above
+  const statementRate = conversionRates.find((r) => r.currency === currency);
+  const rates = Array.from(new Set(accounts.map((acc) => acc.currency)))
+    .filter((held) => held !== currency)
+    .sort()
+    .map((held) => {
+      const dates = [latestEntryDate(conversionRates.find((r) => r.currency === held)), latestEntryDate(statementRate)]
+        .filter((date): date is Date => date !== null)
+        .sort((a, b) => b.getTime() - a.getTime());
+      return { currency: held, rate: toStatement(1, held), effectiveDate: dates[0] ?? null };
+    });
+
+  const points = [...history]
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .map((snapshot) => ({
+      date: new Date(snapshot.timestamp),
+      netWorth: convertSnapshotAmount(snapshot.netWorthBase, snapshot, currency, conversionRates, valuationMode),
+    }));
+
+  return {
+    currency,
+    asOf,
+    assets,
+    liabilities,
+    totalAssets,
+    totalLiabilities,
+    netWorth: totalAssets - totalLiabilities,
+    rates,
+    history: points,
+  };
+};
@@ -0,0 +1,5 @@
+// Values of <input type="number"> fields, which are kept as typed while being edited
+
+// A number as typed; a lone "-" or an empty field is not one yet
+export const parseNumberInput = (value: string): number | null =>
+  value.trim() === '' || !Number.isFinite(Number(value)) ? null : Number(value);
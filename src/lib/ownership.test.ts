@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { Account } from '@/types/finance';
+import { getOwnerShareTotal, isValidOwnership, removePersonFromAccounts } from '@/lib/ownership';
+
+const joint = (owners: Account['owners']): Account => ({
+  id: 'joint',
+  name: 'Joint',
+  category: 'current_asset',
+  currency: 'EUR',
+  balance: 1000,
+  accessType: 'liquid',
+  lastUpdated: new Date(2024, 2, 1),
+  balanceHistory: [],
+  owners,
+});
+
+describe('removePersonFromAccounts', () => {
+  it('rescales the remaining shares to exactly 100%', () => {
+    const [account] = removePersonFromAccounts(
+      [
+        joint([
+          { personId: 'a', share: 25 },
+          { personId: 'b', share: 25 },
+          { personId: 'c', share: 25 },
+          { personId: 'd', share: 25 },
+        ]),
+      ],
+      'd'
+    );
+    expect(account.owners?.map((owner) => owner.share)).toEqual([33.33, 33.33, 33.34]);
+    expect(getOwnerShareTotal(account.owners)).toBeCloseTo(100, 10);
+    expect(isValidOwnership(account.owners)).toBe(true);
+  });
+
+  it('drops the owner list once nobody is left', () => {
+    const [account] = removePersonFromAccounts([joint([{ personId: 'a', share: 100 }])], 'a');
+    expect(account.owners).toBeUndefined();
+  });
+});
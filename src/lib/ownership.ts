@@ -0,0 +1,121 @@
+import { Account, AccountOwner, ConversionRate, Currency, Person } from '@/types/finance';
+import { HistorySnapshot } from '@/types/history';
+import { withSnapshotTotals } from '@/lib/snapshots';
+import { getGroupSubtotal, getSignedValueInBase } from '@/lib/accountGroups';
+
+export interface HouseholdShare {
+  person: Person;
+  netWorthBase: number; // Including their share of joint accounts
+}
+
+export interface HouseholdBreakdown {
+  people: HouseholdShare[];
+  jointBase: number; // Full value of accounts with more than one owner
+  unassignedBase: number; // Accounts without owners
+  combinedBase: number;
+}
+
+export const createPerson = (name: string): Person => ({
+  id: crypto.randomUUID(),
+  name: name.trim(),
+});
+
+// Owners only count once their shares add up to 100%
+export const getOwnerShareTotal = (owners: AccountOwner[] = []): number =>
+  owners.reduce((sum, owner) => sum + owner.share, 0);
+
+export const isValidOwnership = (owners: AccountOwner[] = []): boolean =>
+  owners.length === 0 || Math.abs(getOwnerShareTotal(owners) - 100) < 0.01;
+
+export const splitEvenly = (personIds: string[]): AccountOwner[] => {
+  if (personIds.length === 0) return [];
+  const share = Math.floor((100 / personIds.length) * 100) / 100;
+  return personIds.map((personId, index) => ({
+    personId,
+    // The first owner absorbs the rounding so the shares add up to exactly 100
+    share: index === 0 ? Math.round((100 - share * (personIds.length - 1)) * 100) / 100 : share,
+  }));
+};
+
+// e.g. "Alex 50% · Sam 50%"; owners no longer in the household are skipped
+export const describeOwners = (owners: AccountOwner[] = [], people: Person[]): string =>
+  owners
+    .map((owner) => {
+      const person = people.find((p) => p.id === owner.personId);
+      return person ? (owners.length === 1 ? person.name : `${person.name} ${owner.share}%`) : '';
+    })
+    .filter(Boolean)
+    .join(' · ');
+
+export const isJointAccount = (account: Pick<Account, 'owners'>): boolean => (account.owners?.length ?? 0) > 1;
+
+// Fraction of the account (0-1) that belongs to the person
+export const getOwnerShare = (account: Pick<Account, 'owners'>, personId: string): number =>
+  (account.owners?.find((owner) => owner.personId === personId)?.share ?? 0) / 100;
+
+// The person's part of each account they own, with balances scaled by their share
+export const getAccountsForOwner = (accounts: Account[], personId: string): Account[] =>
+  accounts
+    .map((acc) => ({ acc, share: getOwnerShare(acc, personId) }))
+    .filter(({ share }) => share > 0)
+    .map(({ acc, share }) => (share === 1 ? acc : { ...acc, balance: acc.balance * share }));
+
+export const getHouseholdBreakdown = (
+  accounts: Account[],
+  people: Person[],
+  conversionRates: ConversionRate[],
+  baseCurrency: Currency
+): HouseholdBreakdown => {
+  const valueOf = (acc: Account) => getSignedValueInBase(acc, conversionRates, baseCurrency);
+  const sum = (list: Account[]) => getGroupSubtotal(list, conversionRates, baseCurrency);
+
+  return {
+    people: people.map((person) => ({
+      person,
+      netWorthBase: accounts.reduce((total, acc) => total + valueOf(acc) * getOwnerShare(acc, person.id), 0),
+    })),
+    jointBase: sum(accounts.filter(isJointAccount)),
+    unassignedBase: sum(accounts.filter((acc) => !acc.owners?.length)),
+    combinedBase: sum(accounts),
+  };
+};
+
+// A snapshot reduced to the person's share. Snapshots saved without a per-account breakdown
+// cannot be split and are left out.
+export const filterSnapshotToOwner = (snapshot: HistorySnapshot, personId: string): HistorySnapshot | null => {
+  if (!snapshot.accounts) return null;
+  const accounts = snapshot.accounts
+    .map((acc) => ({ acc, share: getOwnerShare(acc, personId) }))
+    .filter(({ share }) => share > 0)
+    .map(({ acc, share }) => ({ ...acc, balance: acc.balance * share, valueBase: acc.valueBase * share }));
+  return withSnapshotTotals(snapshot, accounts);
+};
+
+export const filterHistoryToOwner = (history: HistorySnapshot[], personId: string): HistorySnapshot[] =>
+  history.flatMap((snapshot) => {
+    const filtered = filterSnapshotToOwner(snapshot, personId);
+    return filtered ? [filtered] : [];
+  });
+
+// Shares rescaled to add up to 100, with the last owner absorbing the rounding
+const rescaleShares = (owners: AccountOwner[], total: number): AccountOwner[] => {
+  const shares = owners.map((owner) => Math.round((owner.share / total) * 10000) / 100);
+  const othersTotal = shares.slice(0, -1).reduce((sum, share) => sum + share, 0);
+  shares[shares.length - 1] = Math.round((100 - othersTotal) * 100) / 100;
+  return owners.map((owner, index) => ({ ...owner, share: shares[index] }));
+};
+
+// Drop a removed person from every account. Accounts they shared keep the remaining owners,
+// rescaled to 100%.
+export const removePersonFromAccounts = (accounts: Account[], personId: string): Account[] =>
+  accounts.map((acc) => {
+    if (!acc.owners?.some((owner) => owner.personId === personId)) return acc;
+    const remaining = acc.owners.filter((owner) => owner.personId !== personId);
+    const total = getOwnerShareTotal(remaining);
+    const owners =
+      total > 0
+        ? rescaleShares(remaining, total)
+        : splitEvenly(remaining.map((owner) => owner.personId));
+    const { owners: _owners, ...rest } = acc;
+    return owners.length > 0 ? { ...acc, owners } : rest;
+  });
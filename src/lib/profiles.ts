@@ -0,0 +1,52 @@
+import { Profile } from '@/types/profile';
+
+// The first profile keeps the original un-namespaced keys, so data saved before profiles existed is found under it
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const defaultProfiles: Profile[] = [{ id: DEFAULT_PROFILE_ID, name: 'Personal', createdAt: new Date(0) }];
+
+const getProfilePrefix = (profileId: string): string => `profile:${profileId}:`;
+
+export const getProfileStorageKey = (profileId: string, key: string): string =>
+  profileId === DEFAULT_PROFILE_ID ? key : `${getProfilePrefix(profileId)}${key}`;
+
+export const createProfile = (name: string): Profile => ({
+  id: `profile-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  name: name.trim(),
+  createdAt: new Date(),
+});
+
+export const canDeleteProfile = (profileId: string): boolean => profileId !== DEFAULT_PROFILE_ID;
+
+// Remove anything a deleted profile still has in localStorage
+export const clearProfileStorage = (profileId: string): void => {
+  if (!canDeleteProfile(profileId)) return;
+  const prefix = getProfilePrefix(profileId);
+  Object.keys(window.localStorage)
+    .filter((key) => key.startsWith(prefix))
+    .forEach((key) => window.localStorage.removeItem(key));
+};
+
+const getFileNameSlug = (profileName: string): string =>
+  profileName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+
+// e.g. "networth-backup-small-business-2024-05-01.json"
+export const getBackupFileName = (profileName: string, date: Date = new Date(), encrypted = false): string => {
+  const slug = getFileNameSlug(profileName);
+  const suffix = encrypted ? '.encrypted.json' : '.json';
+  return `networth-backup-${slug ? `${slug}-` : ''}${date.toISOString().split('T')[0]}${suffix}`;
+};
+
+// e.g. "networth-accounts-small-business-2024-05-01.csv" or "networth-small-business-2024-05-01.xlsx"
+export const getSpreadsheetFileName = (
+  profileName: string,
+  extension: 'csv' | 'xlsx',
+  table?: string,
+  date: Date = new Date()
+): string => {
+  const slug = getFileNameSlug(profileName);
+  return `networth-${table ? `${table}-` : ''}${slug ? `${slug}-` : ''}${date.toISOString().split('T')[0]}.${extension}`;
+};
@@ -0,0 +1,85 @@
+import { Account, ConversionRate, Currency } from '@/types/finance';
+import { getRateToBase } from '@/lib/currency';
+import { getBalanceAt } from '@/lib/accountHistory';
+
+export interface PropertyEquity {
+  property: Account;
+  liabilities: Account[]; // Debts secured by the property
+  value: number; // All amounts in the base currency
+  debt: number;
+  equity: number;
+  loanToValue: number | null; // Debt as a fraction of value, null when the value is 0
+}
+
+export interface EquityPoint {
+  date: Date;
+  value: number;
+  debt: number;
+  equity: number;
+}
+
+export const getSecuredLiabilities = (property: Account, accounts: Account[]): Account[] =>
+  accounts.filter((acc) => acc.category.includes('liability') && acc.securedBy === property.id);
+
+// A property is an asset that secures a debt or carries a valuation
+export const isProperty = (account: Account, accounts: Account[]): boolean =>
+  account.category.includes('asset') && (!!account.valuation || getSecuredLiabilities(account, accounts).length > 0);
+
+export const getPropertyEquity = (
+  property: Account,
+  accounts: Account[],
+  conversionRates: ConversionRate[],
+  baseCurrency: Currency
+): PropertyEquity => {
+  const liabilities = getSecuredLiabilities(property, accounts);
+  const toBase = (acc: Account) => acc.balance * getRateToBase(acc.currency, conversionRates, baseCurrency);
+  const value = toBase(property);
+  const debt = liabilities.reduce((sum, acc) => sum + toBase(acc), 0);
+  return {
+    property,
+    liabilities,
+    value,
+    debt,
+    equity: value - debt,
+    loanToValue: value > 0 ? debt / value : null,
+  };
+};
+
+export const getPropertyEquities = (
+  accounts: Account[],
+  conversionRates: ConversionRate[],
+  baseCurrency: Currency
+): PropertyEquity[] =>
+  accounts
+    .filter((acc) => isProperty(acc, accounts))
+    .map((property) => getPropertyEquity(property, accounts, conversionRates, baseCurrency));
+
+// Equity at every date where the property or one of its debts changed balance,
+// valued at the rates in force on each date
+export const getEquityHistory = (
+  equity: PropertyEquity,
+  conversionRates: ConversionRate[],
+  baseCurrency: Currency
+): EquityPoint[] => {
+  const accounts = [equity.property, ...equity.liabilities];
+  const times = Array.from(
+    new Set(accounts.flatMap((acc) => (acc.balanceHistory ?? []).map((e) => new Date(e.date).getTime())))
+  ).sort((a, b) => a - b);
+
+  return times.map((time) => {
+    const date = new Date(time);
+    const valueAt = (acc: Account) =>
+      getBalanceAt(acc, date) * getRateToBase(acc.currency, conversionRates, baseCurrency, date);
+    const value = valueAt(equity.property);
+    const debt = equity.liabilities.reduce((sum, acc) => sum + valueAt(acc), 0);
+    return { date, value, debt, equity: value - debt };
+  });
+};
+
+// Clear links to an asset that no longer exists
+export const unlinkSecuredBy = (accounts: Account[], assetId: string): Account[] =>
+  accounts.map((acc) => {
+    if (acc.securedBy !== assetId) return acc;
+    const { securedBy, ...rest } = acc;
+    return rest;
+  });
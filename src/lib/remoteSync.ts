@@ -0,0 +1,100 @@
+import { BackupFile } from '@/types/backup';
+import { SyncConfig, SyncState, SyncStatus } from '@/types/sync';
+import { parseBackup } from '@/lib/backup';
+import { createSyncTransport, PulledDocument, SyncConflictError, SyncTransport } from '@/lib/syncTransport';
+
+export const EMPTY_SYNC_STATE: SyncState = { revision: null, contentHash: null, syncedAt: null };
+
+export const SYNC_STATUS_LABELS: Record<SyncStatus, string> = {
+  disabled: 'Off',
+  idle: 'Waiting',
+  syncing: 'Syncing…',
+  synced: 'Up to date',
+  offline: 'Offline, will retry',
+  conflict: 'Conflict',
+  error: 'Sync failed',
+};
+
+export type SyncOutcome =
+  | { type: 'up-to-date'; state: SyncState }
+  | { type: 'pushed'; state: SyncState }
+  | { type: 'pulled'; state: SyncState; data: BackupFile } // The server copy is newer; apply it here
+  | { type: 'conflict'; remote: PulledDocument; remoteData: BackupFile; remoteHash: string }; // Both sides changed
+
+// A rejected push means another device got there first, so the cycle starts over with a fresh pull
+const MAX_PUSH_ATTEMPTS = 3;
+
+// Fingerprint of what a backup holds, leaving out when and from which profile it was exported
+export const hashBackup = async (data: BackupFile): Promise<string> => {
+  const content = JSON.stringify({ ...data, exportDate: undefined, profileName: undefined });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const parseRemote = (pulled: PulledDocument): BackupFile => {
+  const result = parseBackup(pulled.document.data);
+  if (!result.data) {
+    throw new Error(result.issues.find((issue) => issue.severity === 'fatal')?.message ?? 'Invalid server copy');
+  }
+  return result.data;
+};
+
+const push = async (
+  transport: SyncTransport,
+  local: BackupFile,
+  localHash: string,
+  pulled: PulledDocument | null
+): Promise<SyncOutcome> => {
+  const revision = (pulled?.document.revision ?? 0) + 1;
+  await transport.push({ revision, updatedAt: new Date().toISOString(), data: local }, pulled?.version ?? null);
+  return { type: 'pushed', state: { revision, contentHash: localHash, syncedAt: new Date() } };
+};
+
+// One sync cycle. Local changes since the last agreed revision are pushed; a newer server copy is pulled when nothing
+// changed here; both changing is a conflict for the user to settle.
+export const syncWithRemote = async (
+  transport: SyncTransport,
+  local: BackupFile,
+  synced: SyncState
+): Promise<SyncOutcome> => {
+  const localHash = await hashBackup(local);
+  // A device that has never synced and holds nothing yet simply takes the server copy
+  const isUntouched = synced.revision === null && local.accounts.length === 0 && local.history.length === 0;
+  const changedLocally = !isUntouched && localHash !== synced.contentHash;
+
+  for (let attempt = 1; ; attempt++) {
+    const pulled = await transport.pull();
+    try {
+      if (!pulled) return await push(transport, local, localHash, null);
+
+      if (pulled.document.revision === synced.revision) {
+        if (!changedLocally) return { type: 'up-to-date', state: { ...synced, syncedAt: new Date() } };
+        return await push(transport, local, localHash, pulled);
+      }
+
+      const remoteData = parseRemote(pulled);
+      const remoteHash = await hashBackup(remoteData);
+      const state: SyncState = { revision: pulled.document.revision, contentHash: remoteHash, syncedAt: new Date() };
+      if (remoteHash === localHash) return { type: 'up-to-date', state };
+      if (!changedLocally) return { type: 'pulled', state, data: remoteData };
+      return { type: 'conflict', remote: pulled, remoteData, remoteHash };
+    } catch (error) {
+      if (!(error instanceof SyncConflictError) || attempt >= MAX_PUSH_ATTEMPTS) throw error;
+    }
+  }
+};
+
+// Settles a conflict in favour of this device: its data is pushed on top of the server copy it saw
+export const pushOverRemote = (
+  transport: SyncTransport,
+  local: BackupFile,
+  remote: PulledDocument
+): Promise<SyncOutcome> => hashBackup(local).then((localHash) => push(transport, local, localHash, remote));
+
+// Reads the server once without changing anything, to check the settings before saving them
+export const testSyncConnection = async (config: SyncConfig): Promise<string> => {
+  const pulled = await createSyncTransport(config).pull();
+  return pulled
+    ? `Connected. The server holds revision ${pulled.document.revision}.`
+    : 'Connected. Nothing has been synced to this location yet.';
+};
@@ -0,0 +1,118 @@
+import { Account, ConversionRate } from '@/types/finance';
+import { HistorySnapshot } from '@/types/history';
+import { LocalBackup } from '@/types/backup';
+import { openDatabase, PROFILE_STORES, requestToPromise, StoreName, transactionDone } from '@/lib/db';
+import { reviveAccount, reviveConversionRate, reviveLocalBackup, reviveSnapshot } from '@/lib/dateRevival';
+import { DecodedRecord, decodeRecord, EncodedRecord, writeRecords } from '@/lib/appLock';
+
+// Every record is stored with its profile and position, so lists come back in the order they were saved. Values are
+// sealed on the way in and opened on the way out when the app lock is on.
+type StoredRecord<T> = DecodedRecord<T>;
+
+export interface ListRepository<T> {
+  getAll: (profileId: string) => Promise<T[]>;
+  // Writes only the records that were added, changed or moved, and deletes the removed ones
+  sync: (profileId: string, previous: T[], next: T[]) => Promise<void>;
+  replaceAll: (profileId: string, items: T[]) => Promise<void>;
+  // Writes one record at the given position and deletes the listed ones, without reading or rewriting the rest
+  putAndRemove: (profileId: string, item: T, order: number, removedKeys: string[]) => Promise<void>;
+}
+
+export type ProfileSettings = Record<string, unknown>;
+
+const getProfileRecords = async <T>(store: IDBObjectStore, profileId: string): Promise<StoredRecord<T>[]> => {
+  const records = await requestToPromise(store.index('profileId').getAll(profileId) as IDBRequest<EncodedRecord[]>);
+  return Promise.all(records.map((record) => decodeRecord<T>(record)));
+};
+
+const deleteProfileRecords = async (store: IDBObjectStore, profileId: string): Promise<void> => {
+  const keys = await requestToPromise(store.index('profileId').getAllKeys(profileId));
+  keys.forEach((key) => store.delete(key));
+};
+
+const createListRepository = <T>(
+  storeName: StoreName,
+  getKey: (item: T) => string,
+  revive: (item: T) => T
+): ListRepository<T> => {
+  const toRecords = (profileId: string, items: T[]): StoredRecord<T>[] =>
+    items.map((value, order) => ({ profileId, key: getKey(value), order, value }));
+
+  return {
+    getAll: async (profileId) => {
+      const db = await openDatabase();
+      const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+      const records = await getProfileRecords<T>(store, profileId);
+      return records.sort((a, b) => a.order - b.order).map((record) => revive(record.value));
+    },
+
+    sync: async (profileId, previous, next) => {
+      const previousRecords = new Map(toRecords(profileId, previous).map((r) => [r.key, JSON.stringify(r)]));
+      const nextRecords = toRecords(profileId, next);
+      const changed = nextRecords.filter((r) => previousRecords.get(r.key) !== JSON.stringify(r));
+      const nextKeys = new Set(nextRecords.map((r) => r.key));
+      const removed = Array.from(previousRecords.keys()).filter((key) => !nextKeys.has(key));
+      if (changed.length === 0 && removed.length === 0) return;
+
+      await writeRecords([storeName], changed, (transaction, encoded) => {
+        const store = transaction.objectStore(storeName);
+        encoded.forEach((record) => store.put(record));
+        removed.forEach((key) => store.delete([profileId, key]));
+      });
+    },
+
+    replaceAll: async (profileId, items) => {
+      await writeRecords([storeName], toRecords(profileId, items), async (transaction, encoded) => {
+        const store = transaction.objectStore(storeName);
+        await deleteProfileRecords(store, profileId);
+        encoded.forEach((record) => store.put(record));
+      });
+    },
+
+    putAndRemove: async (profileId, item, order, removedKeys) => {
+      const record = { profileId, key: getKey(item), order, value: item };
+      await writeRecords([storeName], [record], (transaction, [encoded]) => {
+        const store = transaction.objectStore(storeName);
+        store.put(encoded);
+        removedKeys.forEach((key) => store.delete([profileId, key]));
+      });
+    },
+  };
+};
+
+export const accountRepository = createListRepository<Account>('accounts', (acc) => acc.id, reviveAccount);
+export const rateRepository = createListRepository<ConversionRate>('rates', (rate) => rate.currency, reviveConversionRate);
+export const snapshotRepository = createListRepository<HistorySnapshot>('snapshots', (s) => s.id, reviveSnapshot);
+export const localBackupRepository = createListRepository<LocalBackup>('backups', (b) => b.id, reviveLocalBackup);
+
+// Scalar values (expenses, base currency, retirement inputs, view preferences) keyed by name
+export const settingsRepository = {
+  getAll: async (profileId: string): Promise<ProfileSettings> => {
+    const db = await openDatabase();
+    const store = db.transaction('settings', 'readonly').objectStore('settings');
+    const records = await getProfileRecords<unknown>(store, profileId);
+    return Object.fromEntries(records.map((record) => [record.key, record.value]));
+  },
+
+  set: async (profileId: string, key: string, value: unknown): Promise<void> => {
+    // undefined cannot be told apart from a missing setting, so it removes the record
+    const records = value === undefined ? [] : [{ profileId, key, order: 0, value }];
+    await writeRecords(['settings'], records, (transaction, [record]) => {
+      if (record) {
+        transaction.objectStore('settings').put(record);
+      } else {
+        transaction.objectStore('settings').delete([profileId, key]);
+      }
+    });
+  },
+};
+
+// Removes everything a deleted profile stored, in one transaction
+export const deleteProfileData = async (profileId: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(PROFILE_STORES, 'readwrite');
+  for (const name of PROFILE_STORES) {
+    await deleteProfileRecords(transaction.objectStore(name), profileId);
+  }
+  await transactionDone(transaction);
+};
@@ -1,4 +1,5 @@
 import { RetirementInputs, RetirementProjection, RetirementStrategy } from '@/types/retirement';
+import { DEFAULT_BASE_CURRENCY } from '@/lib/currency';
 
 const SAFE_WITHDRAWAL_RATE = 0.04; // 4% rule
 const MONTHS_PER_YEAR = 12;
@@ -131,7 +132,7 @@ export function calculateLeanFIRE(inputs: RetirementInputs): RetirementProjectio
   const years = yearsToTarget(inputs.currentSavings, targetAmount, monthlyInvestment, inputs.expectedReturn / 100);
   
   const notes = [
-    `Minimalist lifestyle: ${(leanExpenses / MONTHS_PER_YEAR).toFixed(0)} EUR/month`,
+    `Minimalist lifestyle: ${(leanExpenses / MONTHS_PER_YEAR).toFixed(0)} ${inputs.currency ?? DEFAULT_BASE_CURRENCY}/month`,
     `Target: ${(targetAmount / 1000).toFixed(0)}K`,
     `Requires significant lifestyle adjustments and frugality`,
   ];
@@ -157,7 +158,7 @@ export function calculateFatFIRE(inputs: RetirementInputs): RetirementProjection
   const years = yearsToTarget(inputs.currentSavings, targetAmount, monthlyInvestment, inputs.expectedReturn / 100);
   
   const notes = [
-    `Luxurious lifestyle: ${(fatExpenses / MONTHS_PER_YEAR).toFixed(0)} EUR/month`,
+    `Luxurious lifestyle: ${(fatExpenses / MONTHS_PER_YEAR).toFixed(0)} ${inputs.currency ?? DEFAULT_BASE_CURRENCY}/month`,
     `Target: ${(targetAmount / 1000).toFixed(0)}K`,
     `Maintain or improve current lifestyle without compromise`,
   ];
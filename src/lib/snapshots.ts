@@ -0,0 +1,217 @@
+import { Account, ConversionRate, Currency } from '@/types/finance';
+import { HistorySnapshot, SnapshotAccount, ValuationMode } from '@/types/history';
+import { DEFAULT_BASE_CURRENCY, getRateToBase } from '@/lib/currency';
+
+export type SnapshotAccountStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface SnapshotAccountDelta {
+  account: SnapshotAccount;
+  previous?: SnapshotAccount;
+  status: SnapshotAccountStatus;
+  balanceChange: number; // In the account's own currency
+  valueChangeBase: number;
+}
+
+export const createSnapshotAccounts = (
+  accounts: Account[],
+  conversionRates: ConversionRate[],
+  baseCurrency: Currency
+): SnapshotAccount[] =>
+  accounts.map((acc) => ({
+    accountId: acc.id,
+    name: acc.name,
+    category: acc.category,
+    accessType: acc.accessType,
+    currency: acc.currency,
+    balance: acc.balance,
+    valueBase: acc.balance * getRateToBase(acc.currency, conversionRates, baseCurrency),
+    ...(acc.owners?.length ? { owners: acc.owners } : {}),
+  }));
+
+export const createSnapshotRates = (
+  conversionRates: ConversionRate[],
+  baseCurrency: Currency
+): Record<Currency, number> => {
+  const rates: Record<Currency, number> = { [baseCurrency]: 1 };
+  conversionRates.forEach((r) => {
+    rates[r.currency] = r.rate;
+  });
+  return rates;
+};
+
+// Rate to the base currency for a currency within a snapshot. Historical valuation prefers
+// the rates stored with the snapshot and falls back to the dated rate table for older snapshots.
+export const getSnapshotRateToBase = (
+  snapshot: HistorySnapshot,
+  currency: Currency,
+  conversionRates: ConversionRate[],
+  mode: ValuationMode
+): number => {
+  const base = snapshot.baseCurrency;
+  if (mode === 'current') return getRateToBase(currency, conversionRates, base);
+  return snapshot.rates?.[currency] ?? getRateToBase(currency, conversionRates, base, new Date(snapshot.timestamp));
+};
+
+export const convertSnapshotAmount = (
+  amount: number,
+  snapshot: HistorySnapshot,
+  targetCurrency: Currency,
+  conversionRates: ConversionRate[],
+  mode: ValuationMode
+): number => {
+  if (targetCurrency === snapshot.baseCurrency) return amount;
+  const rate = getSnapshotRateToBase(snapshot, targetCurrency, conversionRates, mode);
+  if (rate === 0) return amount;
+  return amount / rate;
+};
+
+// Compare a snapshot's accounts with the previous snapshot's, matching by account id.
+// Accounts that disappeared since the previous snapshot are reported as 'removed'.
+export const diffSnapshotAccounts = (
+  snapshot: HistorySnapshot,
+  previous?: HistorySnapshot
+): SnapshotAccountDelta[] => {
+  const current = snapshot.accounts ?? [];
+  const previousAccounts = previous?.accounts ?? [];
+  const previousById = new Map(previousAccounts.map((acc) => [acc.accountId, acc]));
+  const currentIds = new Set(current.map((acc) => acc.accountId));
+
+  const deltas: SnapshotAccountDelta[] = current.map((account) => {
+    const prev = previousById.get(account.accountId);
+    if (!prev) {
+      return {
+        account,
+        status: previous?.accounts ? 'added' : 'unchanged',
+        balanceChange: previous?.accounts ? account.balance : 0,
+        valueChangeBase: previous?.accounts ? account.valueBase : 0,
+      };
+    }
+    const balanceChange = account.balance - prev.balance;
+    return {
+      account,
+      previous: prev,
+      status: balanceChange !== 0 ? 'changed' : 'unchanged',
+      balanceChange,
+      valueChangeBase: account.valueBase - prev.valueBase,
+    };
+  });
+
+  previousAccounts
+    .filter((acc) => !currentIds.has(acc.accountId))
+    .forEach((prev) => {
+      deltas.push({
+        account: prev,
+        previous: prev,
+        status: 'removed',
+        balanceChange: -prev.balance,
+        valueChangeBase: -prev.valueBase,
+      });
+    });
+
+  return deltas;
+};
+
+// Recompute a snapshot's base currency values for the given valuation mode. Snapshots saved
+// without a per-account breakdown cannot be recomputed and are returned unchanged.
+export const revalueSnapshot = (
+  snapshot: HistorySnapshot,
+  conversionRates: ConversionRate[],
+  mode: ValuationMode = 'historical'
+): HistorySnapshot => {
+  if (!snapshot.accounts) return snapshot;
+
+  const accounts = snapshot.accounts.map((acc) => ({
+    ...acc,
+    valueBase: acc.balance * getSnapshotRateToBase(snapshot, acc.currency, conversionRates, mode),
+  }));
+  return withSnapshotTotals(snapshot, accounts);
+};
+
+// Replace a snapshot's accounts and recompute its totals from their values
+export const withSnapshotTotals = (snapshot: HistorySnapshot, accounts: SnapshotAccount[]): HistorySnapshot => {
+  const sumWhere = (predicate: (acc: SnapshotAccount) => boolean) =>
+    accounts.filter(predicate).reduce((sum, acc) => sum + acc.valueBase, 0);
+  const isLiquid = (acc: SnapshotAccount) => acc.accessType === 'liquid' || !acc.accessType;
+
+  const totalAssetsBase = sumWhere((acc) => acc.category.includes('asset'));
+  const totalLiabilitiesBase = sumWhere((acc) => acc.category.includes('liability'));
+  const liquidNetWorthBase =
+    sumWhere((acc) => acc.category.includes('asset') && isLiquid(acc)) -
+    sumWhere((acc) => acc.category.includes('liability') && isLiquid(acc));
+
+  return {
+    ...snapshot,
+    accounts,
+    totalAssetsBase,
+    totalLiabilitiesBase,
+    netWorthBase: totalAssetsBase - totalLiabilitiesBase,
+    liquidNetWorthBase,
+    accountCount: accounts.length,
+  };
+};
+
+export interface SnapshotChangeBreakdown {
+  total: number; // In the base currency
+  balanceEffect: number; // Change from balances moving, valued at this snapshot's rates
+  fxEffect: number; // Change from rates moving on the balances held at the previous snapshot
+}
+
+// Split the change between two snapshots, both at historical rates, into real balance
+// moves and currency movements. Needs per-account breakdowns on both snapshots.
+export const explainSnapshotChange = (
+  snapshot: HistorySnapshot,
+  previous: HistorySnapshot,
+  conversionRates: ConversionRate[]
+): SnapshotChangeBreakdown | null => {
+  if (!snapshot.accounts || !previous.accounts) return null;
+
+  const signed = (acc: SnapshotAccount) => (acc.category.includes('liability') ? -acc.balance : acc.balance);
+  const rateAt = (s: HistorySnapshot, currency: Currency) =>
+    getSnapshotRateToBase(s, currency, conversionRates, 'historical');
+
+  let fxEffect = 0;
+  previous.accounts.forEach((prev) => {
+    fxEffect += signed(prev) * (rateAt(snapshot, prev.currency) - rateAt(previous, prev.currency));
+  });
+
+  const total =
+    revalueSnapshot(snapshot, conversionRates, 'historical').netWorthBase -
+    revalueSnapshot(previous, conversionRates, 'historical').netWorthBase;
+
+  return {
+    total,
+    balanceEffect: total - fxEffect,
+    fxEffect,
+  };
+};
+
+interface LegacySnapshotAccount extends Partial<SnapshotAccount> {
+  valueEUR?: number;
+}
+
+interface LegacySnapshot extends Partial<Omit<HistorySnapshot, 'accounts'>> {
+  netWorthEUR?: number;
+  totalAssetsEUR?: number;
+  totalLiabilitiesEUR?: number;
+  liquidNetWorthEUR?: number;
+  accounts?: LegacySnapshotAccount[];
+}
+
+// Snapshots saved before the base currency was selectable stored their totals as EUR fields
+export const migrateSnapshots = (history: HistorySnapshot[]): HistorySnapshot[] => {
+  const needsMigration = history.some((s) => !s.baseCurrency);
+  if (!needsMigration) return history;
+  return (history as LegacySnapshot[]).map((s) => {
+    if (s.baseCurrency) return s as HistorySnapshot;
+    const { netWorthEUR, totalAssetsEUR, totalLiabilitiesEUR, liquidNetWorthEUR, accounts, ...rest } = s;
+    return {
+      ...rest,
+      baseCurrency: DEFAULT_BASE_CURRENCY,
+      netWorthBase: netWorthEUR ?? 0,
+      totalAssetsBase: totalAssetsEUR ?? 0,
+      totalLiabilitiesBase: totalLiabilitiesEUR ?? 0,
+      liquidNetWorthBase: liquidNetWorthEUR ?? 0,
+      accounts: accounts?.map(({ valueEUR, ...acc }) => ({ ...acc, valueBase: valueEUR ?? 0 }) as SnapshotAccount),
+    } as HistorySnapshot;
+  });
+};
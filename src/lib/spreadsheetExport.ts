@@ -0,0 +1,169 @@
+import { Account, ConversionRate, Currency } from '@/types/finance';
+import { HistorySnapshot, ValuationMode } from '@/types/history';
+import { ACCESS_TYPE_LABELS, ACCOUNT_CATEGORY_META } from '@/lib/accountMetadata';
+import { convertFromBase, getRateToBase } from '@/lib/currency';
+import { convertSnapshotAmount } from '@/lib/snapshots';
+import { CellValue, createXlsxWorkbook, WorkbookSheet } from '@/lib/xlsx';
+
+// Tables for spreadsheets and accountants: the account list and the snapshot history, as CSV files or one XLSX
+// workbook. Amounts are given in the display currency next to each account's own.
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+export type SpreadsheetTable = 'accounts' | 'history' | 'snapshot-accounts';
+
+export const SPREADSHEET_TABLE_LABELS: Record<SpreadsheetTable, string> = {
+  accounts: 'Accounts',
+  history: 'History',
+  'snapshot-accounts': 'History by account',
+};
+
+export interface SpreadsheetSource {
+  accounts: Account[]; // Active accounts; archived ones are not part of the current list
+  history: HistorySnapshot[]; // Valued for the chosen valuation mode
+  conversionRates: ConversionRate[];
+  baseCurrency: Currency;
+  displayCurrency: Currency;
+  valuationMode: ValuationMode;
+}
+
+const categoryLabel = (category: Account['category']) => ACCOUNT_CATEGORY_META[category]?.label ?? category;
+const accessTypeLabel = (accessType: Account['accessType']) => ACCESS_TYPE_LABELS[accessType] ?? accessType ?? '';
+
+const buildAccountsSheet = (source: SpreadsheetSource): WorkbookSheet => {
+  const { conversionRates, baseCurrency, displayCurrency } = source;
+  return {
+    name: SPREADSHEET_TABLE_LABELS.accounts,
+    columns: [
+      { header: 'Name', format: 'text', width: 28 },
+      { header: 'Category', format: 'text', width: 22 },
+      { header: 'Access Type', format: 'text', width: 12 },
+      { header: 'Currency', format: 'text', width: 9 },
+      { header: 'Balance', format: 'decimal', width: 16 },
+      { header: `Value (${displayCurrency})`, format: 'decimal', width: 16 },
+      { header: 'Last Updated', format: 'date', width: 13 },
+    ],
+    rows: source.accounts.map((acc) => [
+      acc.name,
+      categoryLabel(acc.category),
+      accessTypeLabel(acc.accessType),
+      acc.currency,
+      acc.balance,
+      convertFromBase(
+        acc.balance * getRateToBase(acc.currency, conversionRates, baseCurrency),
+        displayCurrency,
+        conversionRates,
+        baseCurrency
+      ),
+      new Date(acc.lastUpdated),
+    ]),
+  };
+};
+
+const buildHistorySheet = (source: SpreadsheetSource): WorkbookSheet => {
+  const { displayCurrency, conversionRates, valuationMode } = source;
+  const inDisplay = (amount: number, snapshot: HistorySnapshot) =>
+    convertSnapshotAmount(amount, snapshot, displayCurrency, conversionRates, valuationMode);
+  return {
+    name: SPREADSHEET_TABLE_LABELS.history,
+    columns: [
+      { header: 'Date', format: 'date', width: 13 },
+      { header: `Net Worth (${displayCurrency})`, format: 'decimal', width: 18 },
+      { header: `Total Assets (${displayCurrency})`, format: 'decimal', width: 18 },
+      { header: `Total Liabilities (${displayCurrency})`, format: 'decimal', width: 20 },
+      { header: `Liquid Net Worth (${displayCurrency})`, format: 'decimal', width: 22 },
+      { header: 'Accounts', format: 'integer', width: 10 },
+    ],
+    rows: source.history.map((snapshot) => [
+      new Date(snapshot.timestamp),
+      inDisplay(snapshot.netWorthBase, snapshot),
+      inDisplay(snapshot.totalAssetsBase, snapshot),
+      inDisplay(snapshot.totalLiabilitiesBase, snapshot),
+      inDisplay(snapshot.liquidNetWorthBase, snapshot),
+      snapshot.accountCount,
+    ]),
+  };
+};
+
+// One row per account per snapshot; snapshots saved before per-account breakdowns have none
+const buildSnapshotAccountsSheet = (source: SpreadsheetSource): WorkbookSheet => {
+  const { displayCurrency, conversionRates, valuationMode } = source;
+  return {
+    name: SPREADSHEET_TABLE_LABELS['snapshot-accounts'],
+    columns: [
+      { header: 'Date', format: 'date', width: 13 },
+      { header: 'Account', format: 'text', width: 28 },
+      { header: 'Category', format: 'text', width: 22 },
+      { header: 'Access Type', format: 'text', width: 12 },
+      { header: 'Currency', format: 'text', width: 9 },
+      { header: 'Balance', format: 'decimal', width: 16 },
+      { header: `Value (${displayCurrency})`, format: 'decimal', width: 16 },
+    ],
+    rows: source.history.flatMap((snapshot) =>
+      (snapshot.accounts ?? []).map((acc): CellValue[] => [
+        new Date(snapshot.timestamp),
+        acc.name,
+        categoryLabel(acc.category),
+        accessTypeLabel(acc.accessType),
+        acc.currency,
+        acc.balance,
+        convertSnapshotAmount(acc.valueBase, snapshot, displayCurrency, conversionRates, valuationMode),
+      ])
+    ),
+  };
+};
+
+const SHEET_BUILDERS: Record<SpreadsheetTable, (source: SpreadsheetSource) => WorkbookSheet> = {
+  accounts: buildAccountsSheet,
+  history: buildHistorySheet,
+  'snapshot-accounts': buildSnapshotAccountsSheet,
+};
+
+// Locales that write 1,5 for one and a half use a semicolon between fields, as their spreadsheets expect
+export const getCsvDelimiter = (locale: string): string =>
+  new Intl.NumberFormat(locale).formatToParts(1.5).find((part) => part.type === 'decimal')?.value === ',' ? ';' : ',';
+
+// Numbers without thousands separators and dates as digits, so spreadsheets in that locale read them back as values.
+// Decimals are not cut to two places: rates, quantities and some currencies need more. Ten places still drop the
+// noise of floating-point sums.
+const createCsvFormatters = (locale: string) => {
+  const decimal = new Intl.NumberFormat(locale, {
+    useGrouping: false,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 10,
+  });
+  const integer = new Intl.NumberFormat(locale, { useGrouping: false, maximumFractionDigits: 0 });
+  const date = new Intl.DateTimeFormat(locale, { year: 'numeric', month: '2-digit', day: '2-digit' });
+  // Some locales use a true minus sign (U+2212), which spreadsheets do not take as one
+  const plainMinus = (text: string) => text.replace(/\u2212/g, '-');
+  return {
+    decimal: (value: number) => plainMinus(decimal.format(value)),
+    integer: (value: number) => plainMinus(integer.format(value)),
+    date: (value: Date) => date.format(value),
+  };
+};
+
+export const toCsv = (sheet: WorkbookSheet, locale: string): string => {
+  const delimiter = getCsvDelimiter(locale);
+  const formatters = createCsvFormatters(locale);
+  const quote = (text: string) =>
+    text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  const formatCell = (value: CellValue, format: WorkbookSheet['columns'][number]['format']): string => {
+    if (value === null || (typeof value === 'number' && !Number.isFinite(value))) return '';
+    if (value instanceof Date) return formatters.date(value);
+    if (typeof value === 'number') return format === 'integer' ? formatters.integer(value) : formatters.decimal(value);
+    // Text a spreadsheet would run as a formula, such as an account named =HYPERLINK(...), is kept as text
+    return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  };
+  const lines = [
+    sheet.columns.map((column) => quote(column.header)),
+    ...sheet.rows.map((row) => row.map((value, c) => quote(formatCell(value, sheet.columns[c]?.format ?? 'text')))),
+  ].map((cells) => cells.join(delimiter));
+  // The byte order mark tells Excel the file is UTF-8
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+};
+
+export const createCsvExport = (source: SpreadsheetSource, table: SpreadsheetTable, locale: string): Blob =>
+  new Blob([toCsv(SHEET_BUILDERS[table](source), locale)], { type: 'text/csv;charset=utf-8' });
+
+export const createXlsxExport = (source: SpreadsheetSource): Blob =>
+  createXlsxWorkbook((Object.keys(SHEET_BUILDERS) as SpreadsheetTable[]).map((table) => SHEET_BUILDERS[table](source)));
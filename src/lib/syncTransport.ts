@@ -0,0 +1,122 @@
+import { RemoteDocument, SyncConfig } from '@/types/sync';
+
+// Version of the server copy a push is based on; WebDAV servers also hand out an ETag for conditional writes
+export interface RemoteVersion {
+  revision: number;
+  etag?: string;
+}
+
+export interface PulledDocument {
+  version: RemoteVersion;
+  document: RemoteDocument;
+}
+
+export interface SyncTransport {
+  pull: () => Promise<PulledDocument | null>; // null when nothing has been pushed yet
+  // Writes only if the server copy is still at `expected` (null: no copy yet); throws SyncConflictError otherwise
+  push: (document: RemoteDocument, expected: RemoteVersion | null) => Promise<RemoteVersion>;
+}
+
+export class SyncConflictError extends Error {
+  constructor() {
+    super('The server copy changed since it was last read');
+    this.name = 'SyncConflictError';
+  }
+}
+
+// The endpoint could not be reached at all; local work carries on and the next attempt catches up
+export class SyncOfflineError extends Error {
+  constructor() {
+    super('The sync server cannot be reached');
+    this.name = 'SyncOfflineError';
+  }
+}
+
+export class SyncHttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'SyncHttpError';
+    this.status = status;
+  }
+}
+
+// Adds Basic authentication and turns network failures and rejected credentials into sync errors
+export const sendSyncRequest = async (
+  config: Pick<SyncConfig, 'url' | 'username' | 'password'>,
+  init: RequestInit
+): Promise<Response> => {
+  const headers = new Headers(init.headers);
+  if (config.username) {
+    headers.set('Authorization', `Basic ${btoa(`${config.username}:${config.password ?? ''}`)}`);
+  }
+  let response: Response;
+  try {
+    response = await fetch(config.url, { ...init, headers, cache: 'no-store' });
+  } catch {
+    throw new SyncOfflineError();
+  }
+  if (response.status === 401 || response.status === 403) {
+    throw new SyncHttpError(response.status, 'The server rejected the user name or password');
+  }
+  return response;
+};
+
+export const unexpectedResponse = (response: Response) =>
+  new SyncHttpError(response.status, `The server answered ${response.status} ${response.statusText}`.trim());
+
+const readDocument = async (response: Response): Promise<RemoteDocument> => {
+  const body = (await response.json()) as RemoteDocument;
+  if (typeof body?.revision !== 'number') throw new Error('The server copy has no revision number');
+  return body;
+};
+
+// REST: GET returns the document; PUT sends it with the revision it is based on and gets 409 when that is stale
+const createRestTransport = (config: SyncConfig): SyncTransport => ({
+  pull: async () => {
+    const response = await sendSyncRequest(config, { method: 'GET', headers: { Accept: 'application/json' } });
+    if (response.status === 404) return null;
+    if (!response.ok) throw unexpectedResponse(response);
+    const document = await readDocument(response);
+    return { version: { revision: document.revision }, document };
+  },
+
+  push: async (document, expected) => {
+    const response = await sendSyncRequest(config, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...document, baseRevision: expected?.revision ?? null }),
+    });
+    if (response.status === 409) throw new SyncConflictError();
+    if (!response.ok) throw unexpectedResponse(response);
+    return { revision: document.revision };
+  },
+});
+
+// WebDAV: the document is a plain JSON file; conditional PUTs on its ETag keep two devices from overwriting each other
+const createWebDavTransport = (config: SyncConfig): SyncTransport => ({
+  pull: async () => {
+    const response = await sendSyncRequest(config, { method: 'GET' });
+    if (response.status === 404) return null;
+    if (!response.ok) throw unexpectedResponse(response);
+    const document = await readDocument(response);
+    return { version: { revision: document.revision, etag: response.headers.get('ETag') ?? undefined }, document };
+  },
+
+  push: async (document, expected) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (!expected) {
+      headers['If-None-Match'] = '*';
+    } else if (expected.etag) {
+      headers['If-Match'] = expected.etag;
+    }
+    const response = await sendSyncRequest(config, { method: 'PUT', headers, body: JSON.stringify(document) });
+    if (response.status === 412) throw new SyncConflictError();
+    if (!response.ok) throw unexpectedResponse(response);
+    return { revision: document.revision, etag: response.headers.get('ETag') ?? undefined };
+  },
+});
+
+export const createSyncTransport = (config: SyncConfig): SyncTransport =>
+  config.kind === 'webdav' ? createWebDavTransport(config) : createRestTransport(config);
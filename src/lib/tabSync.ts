@@ -0,0 +1,31 @@
+// Tabs of the app broadcast every change they make, one slice of state at a time (accounts, rates, history, ...).
+// Each change carries a logical clock stamp: a slice takes the change with the highest stamp, and the tab id breaks a
+// tie, so every tab settles on the same value even when two edit the same slice at the same moment.
+
+export const TAB_SYNC_CHANNEL = 'networth-tab-sync';
+
+// Identifies this tab for as long as it is open
+export const TAB_ID = crypto.randomUUID();
+
+export interface SyncStamp {
+  clock: number;
+  tabId: string;
+}
+
+export interface TabSyncMessage<T> {
+  profileId: string;
+  stamp: SyncStamp;
+  changes: Partial<T>;
+  // Stamp of each slice as the sender last saw it, to tell a follow-up edit from a simultaneous one
+  bases: Partial<Record<keyof T, SyncStamp | null>>;
+}
+
+export const compareStamps = (a: SyncStamp, b: SyncStamp): number =>
+  a.clock !== b.clock ? a.clock - b.clock : a.tabId.localeCompare(b.tabId);
+
+export const isSameStamp = (a: SyncStamp | null | undefined, b: SyncStamp | null | undefined): boolean =>
+  !!a && !!b && compareStamps(a, b) === 0;
+
+// BroadcastChannel is missing in some embedded browsers; sync is simply off there
+export const openTabSyncChannel = (): BroadcastChannel | null =>
+  typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(TAB_SYNC_CHANNEL);
@@ -1,4 +1,4 @@
-import { AccountCategory, AccessType, Currency } from '@/types/finance';
+import { Account, AccountCategory, AccessType, Currency } from '@/types/finance';
 
 export interface YNABParsedAccount {
   name: string;
@@ -6,8 +6,16 @@ export interface YNABParsedAccount {
   ynabType?: 'Asset' | 'Liability';
   suggestedCategory: AccountCategory;
   suggestedAccessType: AccessType;
+  currency?: Currency; // When the file says, otherwise the import picks one
+  date?: Date; // When the balance was recorded, if the file says
+  quantities?: Record<string, number>; // By symbol, when the file lists the account's positions
 }
 
+// A total the file gives in another currency than the matched account's would be recorded as the wrong amount.
+// Position quantities carry no currency, so they still apply.
+export const hasCurrencyMismatch = (parsed: YNABParsedAccount, account: Account | undefined): boolean =>
+  !!account && !!parsed.currency && parsed.currency !== account.currency && !parsed.quantities;
+
 export interface YNABParseResult {
   format: 'register' | 'networth';
   accounts: YNABParsedAccount[];
@@ -31,8 +39,8 @@ export const detectYNABFormat = (headers: string[]): 'register' | 'networth' | n
   return null;
 };
 
-// Parse CSV text into rows, handling quoted fields
-export const parseCSV = (text: string): string[][] => {
+// Parse CSV text into rows, handling quoted fields. Splits on commas and semicolons unless given a delimiter.
+export const parseCSV = (text: string, delimiter?: string): string[][] => {
   const lines: string[][] = [];
   let currentLine: string[] = [];
   let currentField = '';
@@ -54,7 +62,7 @@ export const parseCSV = (text: string): string[][] => {
     } else {
       if (char === '"') {
         inQuotes = true;
-      } else if (char === ',' || char === ';') {
+      } else if (delimiter ? char === delimiter : char === ',' || char === ';') {
         currentLine.push(currentField.trim());
         currentField = '';
       } else if (char === '\n' || (char === '\r' && nextChar === '\n')) {
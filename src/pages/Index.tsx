@@ -1,41 +1,102 @@
-import { useState, useMemo, useEffect, useCallback } from 'react';
-import { Account, Currency, NetWorthSummary, ConversionRate } from '@/types/finance';
-import { HistorySnapshot } from '@/types/history';
+import { useState, useMemo, useEffect, useCallback, useRef } from 'react';
+import { format } from 'date-fns';
+import { Account, BalanceEntry, Currency, NetWorthSummary, ConversionRate, Person } from '@/types/finance';
+import { HistorySnapshot, ValuationMode } from '@/types/history';
 import { RetirementInputs } from '@/types/retirement';
+import { BackupFile, LocalBackup, MergeChoice } from '@/types/backup';
 import { NetWorthCard } from '@/components/NetWorthCard';
 import { AccountList } from '@/components/AccountList';
 import { AccountDialog } from '@/components/AccountDialog';
+import { AccountHistoryDialog } from '@/components/AccountHistoryDialog';
+import { ArchiveAccountDialog } from '@/components/ArchiveAccountDialog';
+import { LoanScheduleDialog } from '@/components/LoanScheduleDialog';
+import { HouseholdDialog } from '@/components/HouseholdDialog';
+import { HouseholdBreakdownCard } from '@/components/HouseholdBreakdownCard';
 import { ConversionRateDialog } from '@/components/ConversionRateDialog';
-import { ImportPreviewDialog } from '@/components/ImportPreviewDialog';
+import { ImportPreviewDialog, ImportPreviewData, ImportMode } from '@/components/ImportPreviewDialog';
+import { ExportBackupDialog } from '@/components/ExportBackupDialog';
+import { SpreadsheetExportDialog } from '@/components/SpreadsheetExportDialog';
+import { NetWorthStatementView } from '@/components/NetWorthStatementView';
+import { DecryptBackupDialog } from '@/components/DecryptBackupDialog';
+import { AppLockDialog } from '@/components/AppLockDialog';
+import { LocalBackupsDialog } from '@/components/LocalBackupsDialog';
+import { SyncDialog } from '@/components/SyncDialog';
+import { DeviceSyncDialog } from '@/components/DeviceSyncDialog';
+import { SYNC_STATUS_LABELS } from '@/lib/remoteSync';
+import { LockScreen } from '@/components/LockScreen';
 import { YNABImportDialog, AccountMapping } from '@/components/YNABImportDialog';
+import { CsvImportDialog } from '@/components/CsvImportDialog';
 import { FinancialCharts } from '@/components/FinancialCharts';
 import { RetirementPlanning } from '@/components/RetirementPlanning';
 import { HistoryLog } from '@/components/HistoryLog';
 import { NetWorthHistoryChart } from '@/components/NetWorthHistoryChart';
 import { ViewToggles } from '@/components/ViewToggles';
 import { ThemeToggle } from '@/components/ThemeToggle';
+import { ProfileSwitcher } from '@/components/ProfileSwitcher';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { CurrencySelector } from '@/components/CurrencySelector';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
-import { Plus, Wallet, RefreshCw, Save, Download, Upload, AlertTriangle, Undo2, Redo2, FileSpreadsheet } from 'lucide-react';
+import { Plus, Wallet, RefreshCw, Save, Download, Upload, AlertTriangle, Undo2, Redo2, FileSpreadsheet, Users, Lock, Shield, DatabaseBackup, Cloud, CloudOff, MonitorSmartphone, Sheet, FileText, FileInput } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { defaultConversionRates } from '@/lib/currency';
-import { useLocalStorage } from '@/hooks/useLocalStorage';
+import {
+  convertFromBase,
+  DEFAULT_BASE_CURRENCY,
+  defaultConversionRates,
+  getEnabledCurrencies,
+  getRateToBase,
+  migrateLegacyCurrencies,
+} from '@/lib/currency';
+import { archiveAccount, getActiveAccounts, restoreAccount } from '@/lib/accountArchive';
+import { hasHoldings, updateHoldingQuantities } from '@/lib/holdings';
+import { getLoanStatus } from '@/lib/loans';
+import { unlinkSecuredBy } from '@/lib/property';
+import {
+  filterHistoryToOwner,
+  getAccountsForOwner,
+  getHouseholdBreakdown,
+  removePersonFromAccounts,
+} from '@/lib/ownership';
+import { AccountGrouping, collectGroups, collectInstitutions, collectTags } from '@/lib/accountGroups';
+import { alignRetirementInputs, canUseAsBase, rebaseConversionRates, rebaseSnapshot } from '@/lib/baseCurrency';
+import { migrateRates } from '@/lib/fxRates';
+import {
+  convertSnapshotAmount,
+  createSnapshotAccounts,
+  createSnapshotRates,
+  migrateSnapshots,
+  revalueSnapshot,
+  withSnapshotTotals,
+} from '@/lib/snapshots';
+import { createBalanceEntry, migrateAccounts, recordBalance, withBalanceHistory } from '@/lib/accountHistory';
+import { createBackup, parseBackup } from '@/lib/backup';
+import { getBackupFileName, getSpreadsheetFileName } from '@/lib/profiles';
+import { createCsvExport, createXlsxExport, SpreadsheetFormat, SpreadsheetTable } from '@/lib/spreadsheetExport';
+import { encryptBackup, EncryptedBackup, isEncryptedBackup } from '@/lib/backupEncryption';
+import { applyMerge, getMergeUnavailableReason, planMerge } from '@/lib/backupMerge';
+import { accountRepository, rateRepository, settingsRepository, snapshotRepository } from '@/lib/repositories';
+import { ProfileData, reportStorageError, useProfileData, useSetting } from '@/hooks/useProfileData';
+import { useProfiles, UseProfilesReturn } from '@/hooks/useProfiles';
+import { useAppLock, UseAppLockReturn } from '@/hooks/useAppLock';
+import { useTabSync } from '@/hooks/useTabSync';
+import { useLocalBackups } from '@/hooks/useLocalBackups';
+import { useRemoteSync } from '@/hooks/useRemoteSync';
+import { useDeviceSync } from '@/hooks/useDeviceSync';
+import { applySyncedChanges } from '@/lib/crdt';
 import { useUndoRedo } from '@/hooks/useUndoRedo';
-import { parseYNABCSV, YNABParsedAccount, YNABParseResult } from '@/lib/ynabParser';
-
-const getRateToEUR = (currency: Currency, conversionRates: ConversionRate[]): number => {
-  if (currency === 'EUR') return 1;
-  const rate = conversionRates.find((r) => r.currency === currency);
-  return rate?.rate ?? 0;
-};
-
-const convertFromEURTo = (amountEUR: number, targetCurrency: Currency, conversionRates: ConversionRate[]): number => {
-  if (targetCurrency === 'EUR') return amountEUR;
-  const rate = conversionRates.find((r) => r.currency === targetCurrency);
-  if (!rate || rate.rate === 0) return amountEUR;
-  return amountEUR / rate.rate;
+import { detectYNABFormat, hasCurrencyMismatch, parseCSV, parseYNABCSV, YNABParsedAccount } from '@/lib/ynabParser';
+import { CsvImportPreset } from '@/types/csvImport';
+
+const downloadFile = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
 };
 
 // Undoable state type
@@ -44,26 +105,52 @@ interface UndoableState {
   conversionRates: ConversionRate[];
   history: HistorySnapshot[];
   monthlyExpenses: number;
+  baseCurrency: Currency; // Switching it converts rates, history and expenses in one step
+  people: Person[]; // Household members accounts can be owned by
 }
 
-const Index = () => {
-  // Base localStorage state
-  const [storedAccounts, setStoredAccounts] = useLocalStorage<Account[]>('networth-accounts', []);
-  const [storedConversionRates, setStoredConversionRates] = useLocalStorage<ConversionRate[]>(
-    'networth-rates',
-    defaultConversionRates
-  );
-  const [storedHistory, setStoredHistory] = useLocalStorage<HistorySnapshot[]>('networth-history', []);
-  const [storedMonthlyExpenses, setStoredMonthlyExpenses] = useLocalStorage<number>('networth-expenses', 0);
-  const [retirementInputs, setRetirementInputs] = useLocalStorage<RetirementInputs | undefined>(
+interface ProfileDashboardProps {
+  appLock: UseAppLockReturn;
+  profiles: UseProfilesReturn;
+  profileData: ProfileData; // Loaded from the database before the dashboard mounts
+}
+
+const ProfileDashboard = ({ appLock, profiles, profileData }: ProfileDashboardProps) => {
+  const profile = profiles.activeProfile;
+
+  // Settings stored with the profile
+  const [retirementInputs, setRetirementInputs] = useSetting<RetirementInputs | undefined>(
+    profileData,
     'retirement-inputs',
     undefined
   );
-  const [showCurrentAssets, setShowCurrentAssets] = useLocalStorage('show-current-assets', true);
-  const [showNonCurrentAssets, setShowNonCurrentAssets] = useLocalStorage('show-non-current-assets', true);
-  const [showCurrentLiabilities, setShowCurrentLiabilities] = useLocalStorage('show-current-liabilities', true);
-  const [showNonCurrentLiabilities, setShowNonCurrentLiabilities] = useLocalStorage('show-non-current-liabilities', true);
-  const [displayCurrency, setDisplayCurrency] = useLocalStorage<Currency>('display-currency', 'EUR');
+  const [showCurrentAssets, setShowCurrentAssets] = useSetting(profileData, 'show-current-assets', true);
+  const [showNonCurrentAssets, setShowNonCurrentAssets] = useSetting(profileData, 'show-non-current-assets', true);
+  const [showCurrentLiabilities, setShowCurrentLiabilities] = useSetting(profileData, 'show-current-liabilities', true);
+  const [showNonCurrentLiabilities, setShowNonCurrentLiabilities] = useSetting(profileData, 'show-non-current-liabilities', true);
+  const [displayCurrency, setDisplayCurrency] = useSetting<Currency>(profileData, 'display-currency', DEFAULT_BASE_CURRENCY);
+  const [csvImportPresets, setCsvImportPresets] = useSetting<CsvImportPreset[]>(profileData, 'csv-import-presets', []);
+  const [valuationMode, setValuationMode] = useSetting<ValuationMode>(profileData, 'history-valuation-mode', 'historical');
+  const [accountGrouping, setAccountGrouping] = useSetting<AccountGrouping>(profileData, 'account-grouping', 'category');
+  const [ownerView, setOwnerView] = useSetting<string | null>(profileData, 'owner-view', null);
+
+  // Data saved by older versions (no balance or rate history, OTHER currency, EUR-only history) is upgraded on load.
+  // Computed once: the undo/redo hook resets to its initial state whenever that changes.
+  const initialState = useMemo((): UndoableState => {
+    const { settings } = profileData;
+    const migrated = migrateLegacyCurrencies(
+      migrateAccounts(profileData.accounts),
+      migrateRates(profileData.conversionRates.length > 0 ? profileData.conversionRates : defaultConversionRates)
+    );
+    return {
+      accounts: migrated.accounts,
+      conversionRates: migrated.conversionRates,
+      history: migrateSnapshots(profileData.history),
+      monthlyExpenses: (settings['networth-expenses'] as number | undefined) ?? 0,
+      baseCurrency: (settings['networth-base-currency'] as Currency | undefined) ?? DEFAULT_BASE_CURRENCY,
+      people: (settings['networth-people'] as Person[] | undefined) ?? [],
+    };
+  }, [profileData]);
 
   // Undo/redo state
   const {
@@ -73,34 +160,152 @@ const Index = () => {
     redo,
     canUndo,
     canRedo,
-  } = useUndoRedo<UndoableState>({
-    accounts: storedAccounts,
-    conversionRates: storedConversionRates,
-    history: storedHistory,
-    monthlyExpenses: storedMonthlyExpenses,
+    rebase,
+  } = useUndoRedo<UndoableState>(initialState);
+
+  // Changes made in other tabs showing this profile are applied as they arrive, and to the undo/redo entries too so
+  // undo here never reverts them. When both tabs edit the same data at once, the later edit is kept in both.
+  const { shouldPersist } = useTabSync<UndoableState>(profile.id, undoableState, (changes, overwritten) => {
+    rebase((state) => ({ ...state, ...changes }));
+    if (overwritten.length > 0) {
+      toast({
+        title: 'Changed in another tab',
+        description: 'Another tab edited the same data at the same moment. Its version has been kept.',
+      });
+    }
   });
 
-  // Sync undoable state to localStorage
+  // Persist undoable state to the database, writing only the records that changed since the last save
+  // Starts from what was loaded, so records upgraded on load are written back straight away. Changes that came from
+  // another tab were already saved there.
+  const persistedState = useRef<UndoableState>({
+    ...initialState,
+    accounts: profileData.accounts,
+    conversionRates: profileData.conversionRates,
+    history: profileData.history,
+  });
   useEffect(() => {
-    if (JSON.stringify(undoableState.accounts) !== JSON.stringify(storedAccounts)) {
-      setStoredAccounts(undoableState.accounts);
+    const previous = persistedState.current;
+    const next = undoableState;
+    persistedState.current = next;
+
+    const saves: Promise<void>[] = [];
+    if (next.accounts !== previous.accounts && shouldPersist('accounts', next.accounts)) {
+      saves.push(accountRepository.sync(profile.id, previous.accounts, next.accounts));
+    }
+    if (next.conversionRates !== previous.conversionRates && shouldPersist('conversionRates', next.conversionRates)) {
+      saves.push(rateRepository.sync(profile.id, previous.conversionRates, next.conversionRates));
     }
-    if (JSON.stringify(undoableState.conversionRates) !== JSON.stringify(storedConversionRates)) {
-      setStoredConversionRates(undoableState.conversionRates);
+    if (next.history !== previous.history && shouldPersist('history', next.history)) {
+      saves.push(snapshotRepository.sync(profile.id, previous.history, next.history));
     }
-    if (JSON.stringify(undoableState.history) !== JSON.stringify(storedHistory)) {
-      setStoredHistory(undoableState.history);
+    if (next.monthlyExpenses !== previous.monthlyExpenses && shouldPersist('monthlyExpenses', next.monthlyExpenses)) {
+      saves.push(settingsRepository.set(profile.id, 'networth-expenses', next.monthlyExpenses));
     }
-    if (undoableState.monthlyExpenses !== storedMonthlyExpenses) {
-      setStoredMonthlyExpenses(undoableState.monthlyExpenses);
+    if (next.baseCurrency !== previous.baseCurrency && shouldPersist('baseCurrency', next.baseCurrency)) {
+      saves.push(settingsRepository.set(profile.id, 'networth-base-currency', next.baseCurrency));
     }
-  }, [undoableState]);
+    if (next.people !== previous.people && shouldPersist('people', next.people)) {
+      saves.push(settingsRepository.set(profile.id, 'networth-people', next.people));
+    }
+    Promise.all(saves).catch(reportStorageError);
+  }, [undoableState, profile.id, shouldPersist]);
 
   // Convenience accessors
   const accounts = undoableState.accounts;
   const conversionRates = undoableState.conversionRates;
   const history = undoableState.history;
   const monthlyExpenses = undoableState.monthlyExpenses;
+  const baseCurrency = undoableState.baseCurrency;
+  const people = undoableState.people;
+  const enabledCurrencies = useMemo(
+    () => getEnabledCurrencies(conversionRates, baseCurrency),
+    [conversionRates, baseCurrency]
+  );
+  const alignedRetirementInputs = useMemo(
+    () => retirementInputs && alignRetirementInputs(retirementInputs, conversionRates, baseCurrency),
+    [retirementInputs, conversionRates, baseCurrency]
+  );
+
+  const buildBackup = () =>
+    createBackup({
+      profileName: profile.name,
+      accounts,
+      conversionRates,
+      history,
+      monthlyExpenses,
+      baseCurrency,
+      people,
+      retirementInputs: alignedRetirementInputs,
+      showCurrentAssets,
+      showNonCurrentAssets,
+      showCurrentLiabilities,
+      showNonCurrentLiabilities,
+    });
+
+  // Daily backups in the browser, plus one right before anything that replaces or removes data
+  const { backups: localBackups, backUp } = useLocalBackups(profile.id, buildBackup);
+
+  // Optional sync with a self-hosted server; a newer server copy comes in as one undoable step
+  const remoteSync = useRemoteSync({
+    profileData,
+    buildBackup,
+    localVersion: undoableState,
+    onPulled: (data) => {
+      replaceWithBackup(data);
+      toast({ title: 'Synced', description: 'Changes made on another device have been applied.' });
+    },
+    onMerge: (data) => {
+      const reason = getMergeUnavailableReason(undoableState, data);
+      if (reason) throw new Error(reason);
+      setUndoableState((prev) => ({ ...prev, ...applyMerge(prev, data, {}) }));
+    },
+  });
+
+  // End-to-end encrypted sync between devices. What other devices changed merges into the data here record by record,
+  // and into the undo/redo entries too, as changes from other tabs do.
+  const deviceSync = useDeviceSync({
+    profileData,
+    appLockEnabled: appLock.enabled,
+    data: undoableState,
+    onRemoteChanges: (changes, from) => {
+      rebase((state) => applySyncedChanges(state, changes));
+      toast({
+        title: 'Synced',
+        description:
+          from.length > 0
+            ? `Changes from ${from.join(', ')} have been applied.`
+            : 'Changes made in another tab on this device have been applied.',
+      });
+    },
+  });
+
+  // Past snapshots valued at their own historical rates or revalued at today's rates
+  const valuedHistory = useMemo(
+    () => history.map((snapshot) => revalueSnapshot(snapshot, conversionRates, valuationMode)),
+    [history, conversionRates, valuationMode]
+  );
+  // Archived accounts keep their currencies enabled but are left out of current totals
+  const usedCurrencies = useMemo(
+    () => Array.from(new Set<Currency>(accounts.map((a) => a.currency))),
+    [accounts]
+  );
+  const activeAccounts = useMemo(() => getActiveAccounts(accounts), [accounts]);
+  // Totals, charts, history and retirement planning follow the selected person's share; a removed person falls back
+  // to the combined view
+  const viewPerson = people.find((p) => p.id === ownerView) ?? null;
+  const viewAccounts = useMemo(
+    () => (viewPerson ? getAccountsForOwner(activeAccounts, viewPerson.id) : activeAccounts),
+    [activeAccounts, viewPerson]
+  );
+  const viewHistory = useMemo(
+    () => (viewPerson ? filterHistoryToOwner(valuedHistory, viewPerson.id) : valuedHistory),
+    [valuedHistory, viewPerson]
+  );
+  const householdBreakdown = useMemo(
+    () => getHouseholdBreakdown(activeAccounts, people, conversionRates, baseCurrency),
+    [activeAccounts, people, conversionRates, baseCurrency]
+  );
 
   // Setters that work with undo/redo
   const setAccounts = useCallback((updater: Account[] | ((prev: Account[]) => Account[])) => {
@@ -123,24 +328,33 @@ const Index = () => {
       history: typeof updater === 'function' ? updater(prev.history) : updater,
     }));
   }, [setUndoableState]);
-
-  const setMonthlyExpenses = useCallback((updater: number | ((prev: number) => number)) => {
-    setUndoableState((prev) => ({
-      ...prev,
-      monthlyExpenses: typeof updater === 'function' ? updater(prev.monthlyExpenses) : updater,
-    }));
-  }, [setUndoableState]);
   
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editAccount, setEditAccount] = useState<Account | null>(null);
+  const [historyAccount, setHistoryAccount] = useState<Account | null>(null);
+  const [archiveTarget, setArchiveTarget] = useState<Account | null>(null);
+  const [loanAccount, setLoanAccount] = useState<Account | null>(null);
+  const [householdDialogOpen, setHouseholdDialogOpen] = useState(false);
+  const [appLockDialogOpen, setAppLockDialogOpen] = useState(false);
+  const [localBackupsDialogOpen, setLocalBackupsDialogOpen] = useState(false);
+  const [syncDialogOpen, setSyncDialogOpen] = useState(false);
+  const [deviceSyncDialogOpen, setDeviceSyncDialogOpen] = useState(false);
   const [ratesDialogOpen, setRatesDialogOpen] = useState(false);
   const [isDragOver, setIsDragOver] = useState(false);
   const [importPreviewOpen, setImportPreviewOpen] = useState(false);
-  const [importPreviewData, setImportPreviewData] = useState<any>(null);
-  const [pendingImportData, setPendingImportData] = useState<any>(null);
+  const [importPreviewData, setImportPreviewData] = useState<ImportPreviewData | null>(null);
+  const [pendingImportData, setPendingImportData] = useState<BackupFile | null>(null);
+  const [exportDialogOpen, setExportDialogOpen] = useState(false);
+  const [spreadsheetExportDialogOpen, setSpreadsheetExportDialogOpen] = useState(false);
+  const [statementOpen, setStatementOpen] = useState(false);
+  const [encryptedImport, setEncryptedImport] = useState<{ backup: EncryptedBackup; fileName: string } | null>(null);
   const [lastSavedTime, setLastSavedTime] = useState<Date | null>(null);
-  const [ynabDialogOpen, setYnabDialogOpen] = useState(false);
-  const [ynabParsedData, setYnabParsedData] = useState<YNABParseResult | null>(null);
+  const [accountImport, setAccountImport] = useState<{
+    source: string;
+    sourceLabel: string;
+    accounts: YNABParsedAccount[];
+  } | null>(null);
+  const [csvImportFile, setCsvImportFile] = useState<{ name: string; text: string } | null>(null);
   const { toast } = useToast();
 
   // Keyboard shortcuts for undo/redo
@@ -168,26 +382,25 @@ const Index = () => {
   }, [canUndo, canRedo, undo, redo, toast]);
 
   const summary: NetWorthSummary = useMemo(() => {
-    const usedCurrencies = Array.from(new Set<Currency>(accounts.map(a => a.currency)));
-    const currencies: Currency[] = usedCurrencies.includes('EUR')
+    const currencies: Currency[] = usedCurrencies.includes(baseCurrency)
       ? usedCurrencies
-      : (['EUR', ...usedCurrencies] as Currency[]);
+      : [baseCurrency, ...usedCurrencies];
     
     const result: NetWorthSummary = {
       totalAssets: {} as Record<Currency, number>,
       totalLiabilities: {} as Record<Currency, number>,
       netWorth: {} as Record<Currency, number>,
-      totalAssetsEUR: 0,
-      totalLiabilitiesEUR: 0,
-      netWorthEUR: 0,
+      totalAssetsBase: 0,
+      totalLiabilitiesBase: 0,
+      netWorthBase: 0,
     };
 
     currencies.forEach((currency) => {
-      const assets = accounts
+      const assets = viewAccounts
         .filter((acc) => acc.currency === currency && acc.category.includes('asset'))
         .reduce((sum, acc) => sum + acc.balance, 0);
 
-      const liabilities = accounts
+      const liabilities = viewAccounts
         .filter((acc) => acc.currency === currency && acc.category.includes('liability'))
         .reduce((sum, acc) => sum + acc.balance, 0);
 
@@ -195,49 +408,48 @@ const Index = () => {
       result.totalLiabilities[currency] = liabilities;
       result.netWorth[currency] = assets - liabilities;
 
-      // Convert to EUR
-      const rate = getRateToEUR(currency, conversionRates);
-      result.totalAssetsEUR += assets * rate;
-      result.totalLiabilitiesEUR += liabilities * rate;
+      // Convert to the base currency
+      const rate = getRateToBase(currency, conversionRates, baseCurrency);
+      result.totalAssetsBase += assets * rate;
+      result.totalLiabilitiesBase += liabilities * rate;
     });
 
-    result.netWorthEUR = result.totalAssetsEUR - result.totalLiabilitiesEUR;
+    result.netWorthBase = result.totalAssetsBase - result.totalLiabilitiesBase;
 
     return result;
-  }, [accounts, conversionRates]);
+  }, [viewAccounts, conversionRates, usedCurrencies, baseCurrency]);
 
   const liquidNetWorth = useMemo(() => {
-    const liquidAssets = accounts
+    const liquidAssets = viewAccounts
       .filter((acc) => acc.category.includes('asset') && (acc.accessType === 'liquid' || !acc.accessType))
-      .reduce((sum, acc) => sum + acc.balance * getRateToEUR(acc.currency, conversionRates), 0);
+      .reduce((sum, acc) => sum + acc.balance * getRateToBase(acc.currency, conversionRates, baseCurrency), 0);
 
-    const liquidLiabilities = accounts
+    const liquidLiabilities = viewAccounts
       .filter((acc) => acc.category.includes('liability') && (acc.accessType === 'liquid' || !acc.accessType))
-      .reduce((sum, acc) => sum + acc.balance * getRateToEUR(acc.currency, conversionRates), 0);
+      .reduce((sum, acc) => sum + acc.balance * getRateToBase(acc.currency, conversionRates, baseCurrency), 0);
 
     return liquidAssets - liquidLiabilities;
-  }, [accounts, conversionRates]);
+  }, [viewAccounts, conversionRates, baseCurrency]);
 
-  const liquidAssetsEUR = useMemo(() => {
-    return accounts
+  const liquidAssets = useMemo(() => {
+    return viewAccounts
       .filter((acc) => acc.category.includes('asset') && (acc.accessType === 'liquid' || !acc.accessType))
-      .reduce((sum, acc) => sum + acc.balance * getRateToEUR(acc.currency, conversionRates), 0);
-  }, [accounts, conversionRates]);
+      .reduce((sum, acc) => sum + acc.balance * getRateToBase(acc.currency, conversionRates, baseCurrency), 0);
+  }, [viewAccounts, conversionRates, baseCurrency]);
 
-  const retirementAssetsEUR = useMemo(() => {
-    return accounts
+  const retirementAssets = useMemo(() => {
+    return viewAccounts
       .filter((acc) => acc.category.includes('asset') && acc.accessType === 'retirement')
-      .reduce((sum, acc) => sum + acc.balance * getRateToEUR(acc.currency, conversionRates), 0);
-  }, [accounts, conversionRates]);
+      .reduce((sum, acc) => sum + acc.balance * getRateToBase(acc.currency, conversionRates, baseCurrency), 0);
+  }, [viewAccounts, conversionRates, baseCurrency]);
 
   // Validation warnings
   const validationWarnings = useMemo(() => {
     const warnings: Array<{ type: string; message: string; accountId?: string }> = [];
 
     // Check for missing conversion rates
-    const usedCurrencies = Array.from(new Set(accounts.map(a => a.currency)));
     usedCurrencies.forEach(currency => {
-      if (currency !== 'EUR') {
+      if (currency !== baseCurrency) {
         const hasRate = conversionRates.find(r => r.currency === currency);
         if (!hasRate) {
           warnings.push({
@@ -250,7 +462,7 @@ const Index = () => {
 
     // Check for invalid conversion rates
     conversionRates.forEach(rate => {
-      if (rate.rate <= 0) {
+      if (rate.currency !== baseCurrency && rate.rate <= 0) {
         warnings.push({
           type: 'invalid-rate',
           message: `Conversion rate for ${rate.currency} should be greater than 0.`
@@ -259,7 +471,7 @@ const Index = () => {
     });
 
     // Check for negative asset balances
-    accounts.forEach(account => {
+    activeAccounts.forEach(account => {
       if (account.category.includes('asset') && account.balance < 0) {
         warnings.push({
           type: 'negative-asset',
@@ -269,15 +481,26 @@ const Index = () => {
       }
     });
 
+    // Check loans whose recorded balance has drifted from their schedule
+    activeAccounts.forEach(account => {
+      if (getLoanStatus(account)?.isOffSchedule) {
+        warnings.push({
+          type: 'loan-drift',
+          message: `"${account.name}" is off its loan schedule. Review the balance or loan terms.`,
+          accountId: account.id
+        });
+      }
+    });
+
     return warnings;
-  }, [accounts, conversionRates]);
+  }, [activeAccounts, conversionRates, usedCurrencies, baseCurrency]);
 
-  const handleSaveAccount = (accountData: Omit<Account, 'id' | 'lastUpdated'>) => {
+  const handleSaveAccount = (accountData: Omit<Account, 'id' | 'lastUpdated' | 'balanceHistory'>) => {
     if (editAccount) {
       setAccounts((prev) =>
         prev.map((acc) =>
           acc.id === editAccount.id
-            ? { ...accountData, id: acc.id, lastUpdated: new Date() }
+            ? recordBalance({ ...acc, ...accountData, balance: acc.balance }, accountData.balance)
             : acc
         )
       );
@@ -286,10 +509,12 @@ const Index = () => {
         description: `${accountData.name} has been updated successfully.`,
       });
     } else {
+      const entry = createBalanceEntry(accountData.balance);
       const newAccount: Account = {
         ...accountData,
         id: crypto.randomUUID(),
-        lastUpdated: new Date(),
+        lastUpdated: entry.date,
+        balanceHistory: [entry],
       };
       setAccounts((prev) => [...prev, newAccount]);
       toast({
@@ -305,9 +530,20 @@ const Index = () => {
     setDialogOpen(true);
   };
 
+  const handleSaveBalanceHistory = (accountId: string, entries: BalanceEntry[]) => {
+    setAccounts((prev) =>
+      prev.map((acc) => (acc.id === accountId ? withBalanceHistory(acc, entries) : acc))
+    );
+    toast({
+      title: 'Balance history updated',
+      description: 'Past balance entries have been saved.',
+    });
+  };
+
   const handleDeleteAccount = (id: string) => {
     const account = accounts.find((acc) => acc.id === id);
-    setAccounts((prev) => prev.filter((acc) => acc.id !== id));
+    backUp('before-delete-account');
+    setAccounts((prev) => unlinkSecuredBy(prev.filter((acc) => acc.id !== id), id));
     toast({
       title: 'Account deleted',
       description: `${account?.name} has been removed.`,
@@ -315,6 +551,24 @@ const Index = () => {
     });
   };
 
+  const handleArchiveAccount = (id: string, closedAt: Date, finalBalance: number) => {
+    const account = accounts.find((acc) => acc.id === id);
+    setAccounts((prev) => prev.map((acc) => (acc.id === id ? archiveAccount(acc, closedAt, finalBalance) : acc)));
+    toast({
+      title: 'Account archived',
+      description: `${account?.name} is closed and no longer counts towards your totals.`,
+    });
+  };
+
+  const handleRestoreAccount = (id: string) => {
+    const account = accounts.find((acc) => acc.id === id);
+    setAccounts((prev) => prev.map((acc) => (acc.id === id ? restoreAccount(acc) : acc)));
+    toast({
+      title: 'Account restored',
+      description: `${account?.name} counts towards your totals again.`,
+    });
+  };
+
   const handleAddNew = () => {
     setEditAccount(null);
     setDialogOpen(true);
@@ -328,6 +582,34 @@ const Index = () => {
     });
   };
 
+  // Rates, snapshots and monthly expenses are re-expressed in the new base as a single undoable step
+  const handleChangeBaseCurrency = (newBase: Currency) => {
+    if (newBase === baseCurrency) return;
+    if (!canUseAsBase(newBase, conversionRates)) {
+      toast({
+        title: 'Cannot switch base currency',
+        description: `Set a conversion rate for ${newBase} before making it the base currency.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const rateToNewBase = getRateToBase(newBase, conversionRates, baseCurrency);
+    setUndoableState((prev) => ({
+      ...prev,
+      baseCurrency: newBase,
+      conversionRates: rebaseConversionRates(prev.conversionRates, prev.baseCurrency, newBase),
+      history: prev.history.map((snapshot) =>
+        rebaseSnapshot(snapshot, prev.conversionRates, prev.baseCurrency, newBase)
+      ),
+      monthlyExpenses: prev.monthlyExpenses / rateToNewBase,
+    }));
+    toast({
+      title: 'Base currency changed',
+      description: `Totals, rates and history are now expressed in ${newBase}.`,
+    });
+  };
+
   const handleToggleView = (key: string, value: boolean) => {
     switch (key) {
       case 'showCurrentAssets':
@@ -345,16 +627,41 @@ const Index = () => {
     }
   };
 
+  const handleSaveHousehold = (updated: Person[]) => {
+    const removedIds = people.filter((p) => !updated.some((u) => u.id === p.id)).map((p) => p.id);
+    setUndoableState((prev) => ({
+      ...prev,
+      people: updated,
+      accounts: removedIds.reduce(removePersonFromAccounts, prev.accounts),
+    }));
+    toast({
+      title: 'Household updated',
+      description:
+        updated.length > 0
+          ? `${updated.length} member${updated.length === 1 ? '' : 's'}: ${updated.map((p) => p.name).join(', ')}.`
+          : 'All accounts are now counted for the household as a whole.',
+    });
+  };
+
+  // Snapshots always record the whole household, whichever person is being viewed
+  const buildSnapshot = (): HistorySnapshot =>
+    withSnapshotTotals(
+      {
+        id: crypto.randomUUID(),
+        timestamp: new Date(),
+        baseCurrency,
+        netWorthBase: 0,
+        totalAssetsBase: 0,
+        totalLiabilitiesBase: 0,
+        liquidNetWorthBase: 0,
+        accountCount: 0,
+        rates: createSnapshotRates(conversionRates, baseCurrency),
+      },
+      createSnapshotAccounts(activeAccounts, conversionRates, baseCurrency)
+    );
+
   const saveSnapshot = () => {
-    const snapshot: HistorySnapshot = {
-      id: crypto.randomUUID(),
-      timestamp: new Date(),
-      netWorthEUR: summary.netWorthEUR,
-      totalAssetsEUR: summary.totalAssetsEUR,
-      totalLiabilitiesEUR: summary.totalLiabilitiesEUR,
-      liquidNetWorthEUR: liquidNetWorth,
-      accountCount: accounts.length,
-    };
+    const snapshot = buildSnapshot();
     setHistory((prev) => [...prev, snapshot]);
     toast({
       title: 'Snapshot saved',
@@ -371,8 +678,10 @@ const Index = () => {
   };
 
   const duplicateSnapshot = (snapshot: HistorySnapshot) => {
+    // Copy the stored snapshot rather than the revalued or per-person one on screen
+    const original = history.find((s) => s.id === snapshot.id) ?? snapshot;
     const duplicated: HistorySnapshot = {
-      ...snapshot,
+      ...original,
       id: crypto.randomUUID(),
       timestamp: new Date(),
     };
@@ -384,6 +693,7 @@ const Index = () => {
   };
 
   const clearHistory = () => {
+    backUp('before-clear-history');
     setHistory(() => []);
     toast({
       title: 'History cleared',
@@ -391,121 +701,187 @@ const Index = () => {
     });
   };
 
-  const handleExportData = () => {
-    const backupData = {
-      schemaVersion: 1,
-      accounts,
-      conversionRates,
-      history,
-      monthlyExpenses,
-      retirementInputs,
-      showCurrentAssets,
-      showNonCurrentAssets,
-      showCurrentLiabilities,
-      showNonCurrentLiabilities,
-      exportDate: new Date().toISOString(),
-    };
+  const handleExportData = async (passphrase?: string) => {
+    const backupData = buildBackup();
 
-    const blob = new Blob([JSON.stringify(backupData, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `networth-backup-${new Date().toISOString().split('T')[0]}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    // An encrypted backup is still a JSON file, so it can be picked or dropped like a plain one
+    const json = JSON.stringify(backupData, null, 2);
+    let contents = json;
+    if (passphrase) {
+      try {
+        contents = JSON.stringify(await encryptBackup(json, passphrase), null, 2);
+      } catch (error) {
+        toast({
+          title: 'Export failed',
+          description: error instanceof Error ? error.message : 'The backup could not be encrypted.',
+          variant: 'destructive',
+        });
+        throw error;
+      }
+    }
+    downloadFile(new Blob([contents], { type: 'application/json' }), getBackupFileName(profile.name, new Date(), !!passphrase));
 
     toast({
       title: 'Data exported',
-      description: 'Your backup file has been downloaded.',
+      description: passphrase
+        ? `An encrypted backup of ${profile.name} has been downloaded.`
+        : `A backup of ${profile.name} has been downloaded.`,
     });
   };
 
+  // Tables of the current accounts and the history, in the display currency and the selected valuation mode
+  const handleExportSpreadsheet = (format: SpreadsheetFormat, table: SpreadsheetTable, locale: string) => {
+    const source = {
+      accounts: activeAccounts,
+      history: valuedHistory,
+      conversionRates,
+      baseCurrency,
+      displayCurrency,
+      valuationMode,
+    };
+    if (format === 'xlsx') {
+      downloadFile(createXlsxExport(source), getSpreadsheetFileName(profile.name, 'xlsx'));
+    } else {
+      downloadFile(createCsvExport(source, table, locale), getSpreadsheetFileName(profile.name, 'csv', table));
+    }
+    toast({ title: 'Spreadsheet exported', description: `${profile.name} has been downloaded as ${format.toUpperCase()}.` });
+  };
+
+  const showImportPreview = (raw: unknown) => {
+    // Older backups are upgraded and every record validated; broken records are listed in the preview
+    const result = parseBackup(raw);
+    const data = result.data;
+    const mergeUnavailableReason = data ? getMergeUnavailableReason(undoableState, data) : null;
+    setPendingImportData(data);
+    setImportPreviewData({
+      schemaVersion: result.sourceVersion,
+      profileName: data?.profileName,
+      targetProfileName: profile.name,
+      accountCount: data?.accounts.length ?? 0,
+      snapshotCount: data?.history.length ?? 0,
+      currencies: Array.from(new Set(data?.accounts.map((acc) => acc.currency) ?? [])).sort(),
+      hasMonthlyExpenses: data?.monthlyExpenses !== undefined,
+      hasRetirementInputs: data?.retirementInputs !== undefined,
+      issues: result.issues,
+      skipped: result.skipped,
+      mergePlan: data && !mergeUnavailableReason ? planMerge(undoableState, data) : null,
+      mergeUnavailableReason,
+    });
+    setImportPreviewOpen(true);
+  };
+
   const processImportFile = (file: File) => {
     const reader = new FileReader();
     reader.onload = (e) => {
+      let raw: unknown;
       try {
-        const data = JSON.parse(e.target?.result as string);
-        
-        // Basic validation
-        if (!data || typeof data !== 'object') {
-          throw new Error('Invalid backup file format');
-        }
-
-        // Validate required fields
-        if (!Array.isArray(data.accounts)) {
-          throw new Error('Invalid backup: accounts array missing');
-        }
-        if (!Array.isArray(data.conversionRates)) {
-          throw new Error('Invalid backup: conversionRates array missing');
-        }
-        if (!Array.isArray(data.history)) {
-          throw new Error('Invalid backup: history array missing');
-        }
-
-        // Extract currencies from accounts
-        const currencies = Array.from(
-          new Set(data.accounts.map((acc: Account) => acc.currency))
-        ).sort();
-
-        // Prepare preview data
-        const previewData = {
-          schemaVersion: data.schemaVersion,
-          accountCount: data.accounts.length,
-          snapshotCount: data.history.length,
-          currencies,
-          hasMonthlyExpenses: data.monthlyExpenses !== undefined,
-          hasRetirementInputs: data.retirementInputs !== undefined,
-        };
-
-        // Store data for import after confirmation
-        setPendingImportData(data);
-        setImportPreviewData(previewData);
-        setImportPreviewOpen(true);
-      } catch (error) {
+        raw = JSON.parse(e.target?.result as string);
+      } catch {
         toast({
           title: 'Import failed',
-          description: error instanceof Error ? error.message : 'Unable to read backup file.',
+          description: 'The file is not valid JSON.',
           variant: 'destructive',
         });
+        return;
       }
+
+      // Encrypted backups ask for the passphrase first and are previewed once decrypted
+      if (isEncryptedBackup(raw)) {
+        setEncryptedImport({ backup: raw, fileName: file.name });
+        return;
+      }
+      showImportPreview(raw);
     };
     reader.readAsText(file);
   };
 
-  const confirmImport = () => {
+  const handleDecryptedImport = (plaintext: string) => {
+    setEncryptedImport(null);
+    try {
+      showImportPreview(JSON.parse(plaintext));
+    } catch {
+      toast({
+        title: 'Import failed',
+        description: 'The decrypted backup is not valid JSON.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const confirmImport = (mode: ImportMode, choices: Record<string, MergeChoice>) => {
     if (!pendingImportData) return;
+    const data = pendingImportData;
+    backUp('before-import');
 
-    try {
-      const data = pendingImportData;
-
-      // Restore data
-      if (data.accounts) setAccounts(data.accounts);
-      if (data.conversionRates) setConversionRates(data.conversionRates);
-      if (data.history) setHistory(data.history);
-      if (data.monthlyExpenses !== undefined) setMonthlyExpenses(data.monthlyExpenses);
-      if (data.retirementInputs !== undefined) setRetirementInputs(data.retirementInputs);
-      if (data.showCurrentAssets !== undefined) setShowCurrentAssets(data.showCurrentAssets);
-      if (data.showNonCurrentAssets !== undefined) setShowNonCurrentAssets(data.showNonCurrentAssets);
-      if (data.showCurrentLiabilities !== undefined) setShowCurrentLiabilities(data.showCurrentLiabilities);
-      if (data.showNonCurrentLiabilities !== undefined) setShowNonCurrentLiabilities(data.showNonCurrentLiabilities);
-
-      // Clear pending data
+    if (mode === 'merge') {
+      // Both copies are combined in one undoable step; settings outside the lists stay as they are
+      setUndoableState((prev) => ({ ...prev, ...applyMerge(prev, data, choices) }));
       setPendingImportData(null);
       setImportPreviewData(null);
+      toast({
+        title: 'Backup merged',
+        description: `The backup has been merged into ${profile.name}.`,
+      });
+      return;
+    }
+
+    replaceWithBackup(data);
+
+    // Clear pending data
+    setPendingImportData(null);
+    setImportPreviewData(null);
+
+    toast({
+      title: 'Data imported',
+      description: `Your backup has been restored into ${profile.name}.`,
+    });
+  };
 
+  // Everything the backup holds is replaced in one undoable step
+  const replaceWithBackup = (data: BackupFile) => {
+    setUndoableState((prev) => ({
+      ...prev,
+      accounts: data.accounts,
+      conversionRates: data.conversionRates,
+      history: data.history,
+      baseCurrency: data.baseCurrency,
+      people: data.people,
+      monthlyExpenses: data.monthlyExpenses ?? prev.monthlyExpenses,
+    }));
+    if (data.retirementInputs !== undefined) setRetirementInputs(data.retirementInputs);
+    if (data.showCurrentAssets !== undefined) setShowCurrentAssets(data.showCurrentAssets);
+    if (data.showNonCurrentAssets !== undefined) setShowNonCurrentAssets(data.showNonCurrentAssets);
+    if (data.showCurrentLiabilities !== undefined) setShowCurrentLiabilities(data.showCurrentLiabilities);
+    if (data.showNonCurrentLiabilities !== undefined) setShowNonCurrentLiabilities(data.showNonCurrentLiabilities);
+  };
+
+  const restoreLocalBackup = (backup: LocalBackup) => {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(backup.data);
+    } catch {
       toast({
-        title: 'Data imported',
-        description: 'Your backup has been restored successfully.',
+        title: 'Restore failed',
+        description: 'The backup is not valid JSON.',
+        variant: 'destructive',
       });
-    } catch (error) {
+      return;
+    }
+    const result = parseBackup(raw);
+    if (!result.data) {
       toast({
-        title: 'Import failed',
-        description: 'An error occurred while importing data.',
+        title: 'Restore failed',
+        description: result.issues.find((issue) => issue.severity === 'fatal')?.message ?? 'The backup is damaged.',
         variant: 'destructive',
       });
+      return;
     }
+    backUp('before-restore');
+    replaceWithBackup(result.data);
+    toast({
+      title: 'Backup restored',
+      description: `${profile.name} is back to how it was on ${format(backup.createdAt, 'PPp')}. Undo to go back.`,
+    });
   };
 
   const cancelImport = () => {
@@ -542,13 +918,13 @@ const Index = () => {
 
     const file = files[0];
     if (file.name.endsWith('.csv')) {
-      processYNABFile(file);
+      processCsvFile(file);
       return;
     }
     if (!file.name.endsWith('.json')) {
       toast({
         title: 'Invalid file type',
-        description: 'Please upload a JSON backup file or YNAB CSV.',
+        description: 'Please upload a JSON backup file or a CSV file.',
         variant: 'destructive',
       });
       return;
@@ -557,22 +933,26 @@ const Index = () => {
     processImportFile(file);
   };
 
+  const openYNABImport = (csvText: string) => {
+    try {
+      const result = parseYNABCSV(csvText);
+      setAccountImport({
+        source: 'YNAB',
+        sourceLabel: result.format === 'networth' ? 'Net Worth Report' : 'Transaction Register',
+        accounts: result.accounts,
+      });
+    } catch (error) {
+      toast({
+        title: 'YNAB Import Failed',
+        description: error instanceof Error ? error.message : 'Unable to parse YNAB CSV file.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const processYNABFile = (file: File) => {
     const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const csvText = e.target?.result as string;
-        const result = parseYNABCSV(csvText);
-        setYnabParsedData(result);
-        setYnabDialogOpen(true);
-      } catch (error) {
-        toast({
-          title: 'YNAB Import Failed',
-          description: error instanceof Error ? error.message : 'Unable to parse YNAB CSV file.',
-          variant: 'destructive',
-        });
-      }
-    };
+    reader.onload = (e) => openYNABImport(e.target?.result as string);
     reader.readAsText(file);
   };
 
@@ -583,9 +963,47 @@ const Index = () => {
     event.target.value = '';
   };
 
-  const handleYNABImport = (mappings: AccountMapping[]) => {
+  const openCsvImport = (file: File) => {
+    file.text().then((text) => setCsvImportFile({ name: file.name, text }));
+  };
+
+  // YNAB exports go straight to matching; any other layout needs its columns mapped first
+  const processCsvFile = (file: File) => {
+    file.text().then((text) => {
+      if (detectYNABFormat(parseCSV(text)[0] ?? [])) {
+        openYNABImport(text);
+      } else {
+        setCsvImportFile({ name: file.name, text });
+      }
+    });
+  };
+
+  const handleCsvImportData = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    openCsvImport(file);
+    event.target.value = '';
+  };
+
+  const handleSaveCsvPreset = (preset: CsvImportPreset) => {
+    setCsvImportPresets((prev) => [...prev.filter((p) => p.id !== preset.id), preset]);
+    toast({ title: 'Preset saved', description: `"${preset.name}" will be offered for files with the same columns.` });
+  };
+
+  const handleDeleteCsvPreset = (id: string) => {
+    setCsvImportPresets((prev) => prev.filter((p) => p.id !== id));
+  };
+
+  const handleCsvMapped = (accounts: YNABParsedAccount[], sourceLabel: string) => {
+    setCsvImportFile(null);
+    setAccountImport({ source: 'CSV', sourceLabel, accounts });
+  };
+
+  const handleAccountImport = (mappings: AccountMapping[]) => {
     let updatedCount = 0;
     let createdCount = 0;
+    let skippedCount = 0;
+    let mismatchedCount = 0;
 
     setAccounts((prev) => {
       const newAccounts = [...prev];
@@ -597,24 +1015,36 @@ const Index = () => {
           // Update existing account
           const accountId = mapping.matchedAccount?.id || mapping.selectedMatchId;
           const idx = newAccounts.findIndex((a) => a.id === accountId);
-          if (idx !== -1) {
-            newAccounts[idx] = {
-              ...newAccounts[idx],
-              balance: mapping.ynabAccount.balance,
-              lastUpdated: new Date(),
-            };
+          if (idx !== -1 && hasHoldings(newAccounts[idx]) && mapping.ynabAccount.quantities) {
+            newAccounts[idx] = updateHoldingQuantities(
+              newAccounts[idx],
+              mapping.ynabAccount.quantities,
+              conversionRates,
+              baseCurrency,
+              mapping.ynabAccount.date
+            );
+            updatedCount++;
+          } else if (idx !== -1 && hasHoldings(newAccounts[idx])) {
+            // A total alone would overwrite a balance derived from positions
+            skippedCount++;
+          } else if (idx !== -1 && hasCurrencyMismatch(mapping.ynabAccount, newAccounts[idx])) {
+            mismatchedCount++;
+          } else if (idx !== -1) {
+            newAccounts[idx] = recordBalance(newAccounts[idx], mapping.ynabAccount.balance, mapping.ynabAccount.date);
             updatedCount++;
           }
         } else {
           // Create new account
+          const entry = createBalanceEntry(mapping.ynabAccount.balance, mapping.ynabAccount.date);
           const newAccount: Account = {
             id: crypto.randomUUID(),
             name: mapping.ynabAccount.name,
             category: mapping.category,
             currency: mapping.currency,
-            balance: mapping.ynabAccount.balance,
+            balance: entry.balance,
             accessType: mapping.accessType,
-            lastUpdated: new Date(),
+            lastUpdated: entry.date,
+            balanceHistory: [entry],
           };
           newAccounts.push(newAccount);
           createdCount++;
@@ -624,11 +1054,18 @@ const Index = () => {
       return newAccounts;
     });
 
-    setYnabParsedData(null);
+    setAccountImport(null);
     
     toast({
-      title: 'YNAB Import Complete',
-      description: `Updated ${updatedCount} account(s), created ${createdCount} new account(s).`,
+      title: `${accountImport?.source ?? 'Account'} Import Complete`,
+      description:
+        `Updated ${updatedCount} account(s), created ${createdCount} new account(s).` +
+        (skippedCount > 0
+          ? ` Skipped ${skippedCount} account(s) tracked by positions; import their quantities by symbol to update them.`
+          : '') +
+        (mismatchedCount > 0
+          ? ` Skipped ${mismatchedCount} account(s) whose balance in the file is in another currency.`
+          : ''),
     });
   };
 
@@ -636,16 +1073,7 @@ const Index = () => {
   useEffect(() => {
     if (accounts.length > 0 && history.length === 0) {
       // Save first snapshot automatically
-      const snapshot: HistorySnapshot = {
-        id: crypto.randomUUID(),
-        timestamp: new Date(),
-        netWorthEUR: summary.netWorthEUR,
-        totalAssetsEUR: summary.totalAssetsEUR,
-        totalLiabilitiesEUR: summary.totalLiabilitiesEUR,
-        liquidNetWorthEUR: liquidNetWorth,
-        accountCount: accounts.length,
-      };
-      setHistory([snapshot]);
+      setHistory([buildSnapshot()]);
     }
   }, [accounts.length]);
 
@@ -688,6 +1116,17 @@ const Index = () => {
             </div>
             <div className="flex flex-wrap items-center gap-2">
               <ThemeToggle />
+              {appLock.enabled && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button variant="outline" size="sm" onClick={appLock.lock} className="h-8 w-8 p-0">
+                      <Lock className="h-4 w-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>Lock now</TooltipContent>
+                </Tooltip>
+              )}
+              <ProfileSwitcher profiles={profiles} />
               <div className="flex items-center gap-1 border border-border rounded-lg">
                 <Tooltip>
                   <TooltipTrigger asChild>
@@ -729,8 +1168,30 @@ const Index = () => {
                 <CurrencySelector
                   value={displayCurrency}
                   onChange={(currency) => setDisplayCurrency(currency)}
+                  availableCurrencies={enabledCurrencies}
                 />
               </div>
+              {people.length > 0 && (
+                <div className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-muted/50 border border-border">
+                  <span className="text-xs font-medium text-muted-foreground">View:</span>
+                  <Select
+                    value={viewPerson?.id ?? 'combined'}
+                    onValueChange={(value) => setOwnerView(value === 'combined' ? null : value)}
+                  >
+                    <SelectTrigger className="h-7 w-[130px] text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="combined">Combined</SelectItem>
+                      {people.map((person) => (
+                        <SelectItem key={person.id} value={person.id}>
+                          {person.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
               <Button
                 variant="outline"
                 size="sm"
@@ -752,6 +1213,58 @@ const Index = () => {
                 <span className="hidden sm:inline">Conversion Rates</span>
                 <span className="sm:hidden">Rates</span>
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setHouseholdDialogOpen(true)}
+                className="gap-2 flex-1 sm:flex-initial"
+              >
+                <Users className="h-4 w-4" />
+                Household
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setAppLockDialogOpen(true)}
+                className="gap-2 flex-1 sm:flex-initial"
+              >
+                <Shield className="h-4 w-4" />
+                App Lock
+              </Button>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setSyncDialogOpen(true)}
+                    className={`gap-2 flex-1 sm:flex-initial ${
+                      remoteSync.status === 'conflict' || remoteSync.status === 'error' ? 'text-destructive' : ''
+                    }`}
+                  >
+                    {remoteSync.status === 'offline' || remoteSync.status === 'disabled' ? (
+                      <CloudOff className="h-4 w-4" />
+                    ) : (
+                      <Cloud className="h-4 w-4" />
+                    )}
+                    Sync
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>{SYNC_STATUS_LABELS[remoteSync.status]}</TooltipContent>
+              </Tooltip>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setDeviceSyncDialogOpen(true)}
+                    className={`gap-2 flex-1 sm:flex-initial ${deviceSync.status === 'error' ? 'text-destructive' : ''}`}
+                  >
+                    <MonitorSmartphone className="h-4 w-4" />
+                    Devices
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>{SYNC_STATUS_LABELS[deviceSync.status]}</TooltipContent>
+              </Tooltip>
             </div>
           </div>
 
@@ -762,12 +1275,39 @@ const Index = () => {
               <Button
                 variant="outline"
                 size="sm"
-                onClick={handleExportData}
+                onClick={() => setExportDialogOpen(true)}
                 className="gap-2"
               >
                 <Download className="h-4 w-4" />
                 Export Data
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setSpreadsheetExportDialogOpen(true)}
+                className="gap-2"
+              >
+                <Sheet className="h-4 w-4" />
+                Export Spreadsheet
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setStatementOpen(true)}
+                className="gap-2"
+              >
+                <FileText className="h-4 w-4" />
+                Net Worth Statement
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setLocalBackupsDialogOpen(true)}
+                className="gap-2"
+              >
+                <DatabaseBackup className="h-4 w-4" />
+                Automatic Backups
+              </Button>
               <div
                 onDragOver={handleDragOver}
                 onDragLeave={handleDragLeave}
@@ -794,7 +1334,7 @@ const Index = () => {
                       onChange={(e) => {
                         const file = e.target.files?.[0];
                         if (file?.name.endsWith('.csv')) {
-                          processYNABFile(file);
+                          processCsvFile(file);
                         } else {
                           handleImportData(e);
                         }
@@ -823,6 +1363,24 @@ const Index = () => {
                   />
                 </label>
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                asChild
+              >
+                <label htmlFor="csv-import-file" className="cursor-pointer">
+                  <FileInput className="h-4 w-4" />
+                  Import CSV
+                  <input
+                    id="csv-import-file"
+                    type="file"
+                    accept=".csv,.tsv,.txt"
+                    onChange={handleCsvImportData}
+                    className="hidden"
+                  />
+                </label>
+              </Button>
             </div>
           </div>
         </div>
@@ -845,20 +1403,20 @@ const Index = () => {
         <div className="mb-8">
           {(() => {
             // Get the most recent snapshot for comparison
-            const sortedHistory = [...history].sort((a, b) => 
+            const sortedHistory = [...viewHistory].sort((a, b) => 
               new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
             );
             const previousSnapshot = sortedHistory[0];
             
             return (
               <NetWorthCard
-                assetsEUR={convertFromEURTo(summary.totalAssetsEUR, displayCurrency, conversionRates)}
-                liabilitiesEUR={convertFromEURTo(summary.totalLiabilitiesEUR, displayCurrency, conversionRates)}
+                assets={convertFromBase(summary.totalAssetsBase, displayCurrency, conversionRates, baseCurrency)}
+                liabilities={convertFromBase(summary.totalLiabilitiesBase, displayCurrency, conversionRates, baseCurrency)}
                 isMainCard={true}
                 displayCurrency={displayCurrency}
-                previousNetWorth={previousSnapshot ? convertFromEURTo(previousSnapshot.netWorthEUR, displayCurrency, conversionRates) : undefined}
-                previousAssets={previousSnapshot ? convertFromEURTo(previousSnapshot.totalAssetsEUR, displayCurrency, conversionRates) : undefined}
-                previousLiabilities={previousSnapshot ? convertFromEURTo(previousSnapshot.totalLiabilitiesEUR, displayCurrency, conversionRates) : undefined}
+                previousNetWorth={previousSnapshot ? convertSnapshotAmount(previousSnapshot.netWorthBase, previousSnapshot, displayCurrency, conversionRates, valuationMode) : undefined}
+                previousAssets={previousSnapshot ? convertSnapshotAmount(previousSnapshot.totalAssetsBase, previousSnapshot, displayCurrency, conversionRates, valuationMode) : undefined}
+                previousLiabilities={previousSnapshot ? convertSnapshotAmount(previousSnapshot.totalLiabilitiesBase, previousSnapshot, displayCurrency, conversionRates, valuationMode) : undefined}
               />
             );
           })()}
@@ -868,16 +1426,29 @@ const Index = () => {
             <div className="rounded-lg border border-border bg-card p-3 sm:p-4">
               <p className="text-xs sm:text-sm text-muted-foreground mb-1">Liquid Net Worth</p>
               <p className={`text-xl sm:text-2xl font-bold ${liquidNetWorth >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
-                {convertFromEURTo(liquidNetWorth, displayCurrency, conversionRates).toLocaleString('en-US', { style: 'currency', currency: displayCurrency, maximumFractionDigits: 0 })}
+                {convertFromBase(liquidNetWorth, displayCurrency, conversionRates, baseCurrency).toLocaleString('en-US', { style: 'currency', currency: displayCurrency, maximumFractionDigits: 0 })}
               </p>
             </div>
             <div className="rounded-lg border border-border bg-card p-3 sm:p-4">
               <p className="text-xs sm:text-sm text-muted-foreground mb-1">Total Net Worth</p>
-              <p className={`text-xl sm:text-2xl font-bold ${summary.netWorthEUR >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
-                {convertFromEURTo(summary.netWorthEUR, displayCurrency, conversionRates).toLocaleString('en-US', { style: 'currency', currency: displayCurrency, maximumFractionDigits: 0 })}
+              <p className={`text-xl sm:text-2xl font-bold ${summary.netWorthBase >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                {convertFromBase(summary.netWorthBase, displayCurrency, conversionRates, baseCurrency).toLocaleString('en-US', { style: 'currency', currency: displayCurrency, maximumFractionDigits: 0 })}
               </p>
             </div>
           </div>
+
+          {people.length > 0 && (
+            <div className="mt-3 sm:mt-4">
+              <HouseholdBreakdownCard
+                breakdown={householdBreakdown}
+                ownerView={viewPerson?.id ?? null}
+                onOwnerViewChange={setOwnerView}
+                displayCurrency={displayCurrency}
+                conversionRates={conversionRates}
+                baseCurrency={baseCurrency}
+              />
+            </div>
+          )}
         </div>
 
         {/* Multi-Currency Net Worth Strip */}
@@ -911,19 +1482,27 @@ const Index = () => {
 
         {/* Retirement Planning Module */}
         <div className="mb-8">
+          {/* Planning works in the base currency; remount so a base switch reloads the aligned inputs */}
           <RetirementPlanning
-            liquidNetWorthEUR={convertFromEURTo(liquidNetWorth, displayCurrency, conversionRates)}
-            liquidAssetsEUR={convertFromEURTo(liquidAssetsEUR, displayCurrency, conversionRates)}
-            retirementAssetsEUR={convertFromEURTo(retirementAssetsEUR, displayCurrency, conversionRates)}
+            key={baseCurrency}
+            ownerName={viewPerson?.name}
+            liquidNetWorth={liquidNetWorth}
+            liquidAssets={liquidAssets}
+            retirementAssets={retirementAssets}
             monthlyExpenses={monthlyExpenses}
             onInputsChange={setRetirementInputs}
-            savedInputs={retirementInputs}
-            displayCurrency={displayCurrency}
+            savedInputs={alignedRetirementInputs}
+            currency={baseCurrency}
           />
         </div>
 
         {/* Visual Charts */}
-        <FinancialCharts accounts={accounts} conversionRates={conversionRates} displayCurrency={displayCurrency} />
+        <FinancialCharts
+          accounts={viewAccounts}
+          conversionRates={conversionRates}
+          baseCurrency={baseCurrency}
+          displayCurrency={displayCurrency}
+        />
 
         {/* Add Account Button */}
         <div className="mb-4 sm:mb-6">
@@ -941,19 +1520,27 @@ const Index = () => {
             onDelete={handleDeleteAccount}
             onQuickUpdate={(id, balance) => {
               setAccounts((prev) =>
-                prev.map((acc) =>
-                  acc.id === id ? { ...acc, balance, lastUpdated: new Date() } : acc
-                )
+                prev.map((acc) => (acc.id === id ? recordBalance(acc, balance) : acc))
               );
               toast({
                 title: 'Balance updated',
                 description: 'Account balance has been updated.',
               });
             }}
+            onViewHistory={setHistoryAccount}
+            onViewLoan={setLoanAccount}
+            onArchive={setArchiveTarget}
+            onRestore={handleRestoreAccount}
             showCurrentAssets={showCurrentAssets}
             showNonCurrentAssets={showNonCurrentAssets}
             showCurrentLiabilities={showCurrentLiabilities}
             showNonCurrentLiabilities={showNonCurrentLiabilities}
+            groupBy={accountGrouping}
+            onGroupByChange={setAccountGrouping}
+            conversionRates={conversionRates}
+            baseCurrency={baseCurrency}
+            displayCurrency={displayCurrency}
+            people={people}
           />
         ) : (
           <div className="text-center py-12 sm:py-16">
@@ -972,26 +1559,30 @@ const Index = () => {
         )}
 
         {/* Net Worth History Chart */}
-        {history.length >= 2 && (
+        {viewHistory.length >= 2 && (
           <div className="mt-8">
             <NetWorthHistoryChart
-              snapshots={history}
+              snapshots={viewHistory}
               displayCurrency={displayCurrency}
               conversionRates={conversionRates}
+              valuationMode={valuationMode}
+              onValuationModeChange={setValuationMode}
             />
           </div>
         )}
 
         {/* History Log */}
-        {history.length > 0 && (
+        {viewHistory.length > 0 && (
           <div className="mt-8">
           <HistoryLog 
-            snapshots={history}
+            snapshots={viewHistory}
             onDelete={deleteSnapshot}
             onDuplicate={duplicateSnapshot}
             onClearAll={clearHistory}
             displayCurrency={displayCurrency}
             conversionRates={conversionRates}
+            valuationMode={valuationMode}
+            onValuationModeChange={setValuationMode}
           />
           </div>
         )}
@@ -1002,13 +1593,117 @@ const Index = () => {
           onOpenChange={setDialogOpen}
           onSave={handleSaveAccount}
           editAccount={editAccount}
+          availableCurrencies={enabledCurrencies}
+          defaultCurrency={baseCurrency}
+          knownTags={collectTags(accounts)}
+          knownInstitutions={collectInstitutions(accounts)}
+          knownGroups={collectGroups(accounts)}
+          conversionRates={conversionRates}
+          baseCurrency={baseCurrency}
+          securableAssets={activeAccounts.filter((acc) => acc.category.includes('asset') && acc.id !== editAccount?.id)}
+          people={people}
+        />
+        <HouseholdDialog
+          open={householdDialogOpen}
+          onOpenChange={setHouseholdDialogOpen}
+          people={people}
+          onSave={handleSaveHousehold}
         />
         
+        <AccountHistoryDialog
+          open={historyAccount !== null}
+          onOpenChange={(open) => !open && setHistoryAccount(null)}
+          account={historyAccount}
+          onSave={handleSaveBalanceHistory}
+        />
+
+        <LoanScheduleDialog
+          open={loanAccount !== null}
+          onOpenChange={(open) => !open && setLoanAccount(null)}
+          account={loanAccount}
+        />
+
+        <ArchiveAccountDialog
+          open={archiveTarget !== null}
+          onOpenChange={(open) => !open && setArchiveTarget(null)}
+          account={archiveTarget}
+          onArchive={handleArchiveAccount}
+        />
+
         <ConversionRateDialog
           open={ratesDialogOpen}
           onOpenChange={setRatesDialogOpen}
           rates={conversionRates}
           onSave={handleSaveRates}
+          usedCurrencies={usedCurrencies}
+          baseCurrency={baseCurrency}
+          onChangeBaseCurrency={handleChangeBaseCurrency}
+        />
+
+        <AppLockDialog open={appLockDialogOpen} onOpenChange={setAppLockDialogOpen} appLock={appLock} />
+
+        <SyncDialog
+          open={syncDialogOpen}
+          onOpenChange={setSyncDialogOpen}
+          sync={remoteSync}
+          mergeUnavailableReason={
+            remoteSync.conflict ? getMergeUnavailableReason(undoableState, remoteSync.conflict.remoteData) : null
+          }
+        />
+
+        <DeviceSyncDialog
+          open={deviceSyncDialogOpen}
+          onOpenChange={setDeviceSyncDialogOpen}
+          sync={deviceSync}
+          appLockEnabled={appLock.enabled}
+          serverSyncEnabled={!!remoteSync.config?.enabled}
+        />
+
+        <LocalBackupsDialog
+          open={localBackupsDialogOpen}
+          onOpenChange={setLocalBackupsDialogOpen}
+          profileName={profile.name}
+          backups={localBackups}
+          onBackUpNow={() => backUp('manual')}
+          onRestore={restoreLocalBackup}
+        />
+
+        <ExportBackupDialog
+          open={exportDialogOpen}
+          onOpenChange={setExportDialogOpen}
+          profileName={profile.name}
+          onExport={handleExportData}
+        />
+
+        <SpreadsheetExportDialog
+          open={spreadsheetExportDialogOpen}
+          onOpenChange={setSpreadsheetExportDialogOpen}
+          displayCurrency={displayCurrency}
+          onExport={handleExportSpreadsheet}
+        />
+
+        {statementOpen && (
+          <NetWorthStatementView
+            onClose={() => setStatementOpen(false)}
+            holderName={viewPerson?.name ?? profile.name}
+            isShare={viewPerson !== null}
+            accounts={viewAccounts}
+            history={viewHistory}
+            conversionRates={conversionRates}
+            baseCurrency={baseCurrency}
+            enabledCurrencies={enabledCurrencies}
+            defaultCurrency={displayCurrency}
+            valuationMode={valuationMode}
+          />
+        )}
+
+        <DecryptBackupDialog
+          open={encryptedImport !== null}
+          onOpenChange={(open) => !open && setEncryptedImport(null)}
+          backup={encryptedImport?.backup ?? null}
+          fileName={encryptedImport?.fileName}
+          onDecrypted={handleDecryptedImport}
+          onCancel={() => setEncryptedImport(null)}
         />
 
         <ImportPreviewDialog
@@ -1019,15 +1714,30 @@ const Index = () => {
           onCancel={cancelImport}
         />
 
-        {ynabParsedData && (
+        {csvImportFile && (
+          <CsvImportDialog
+            open={csvImportFile !== null}
+            onOpenChange={(open) => !open && setCsvImportFile(null)}
+            fileName={csvImportFile.name}
+            csvText={csvImportFile.text}
+            presets={csvImportPresets}
+            onSavePreset={handleSaveCsvPreset}
+            onDeletePreset={handleDeleteCsvPreset}
+            onContinue={handleCsvMapped}
+          />
+        )}
+
+        {accountImport && (
           <YNABImportDialog
-            open={ynabDialogOpen}
-            onOpenChange={setYnabDialogOpen}
-            parsedAccounts={ynabParsedData.accounts}
-            existingAccounts={accounts}
+            open={accountImport !== null}
+            onOpenChange={(open) => !open && setAccountImport(null)}
+            parsedAccounts={accountImport.accounts}
+            existingAccounts={activeAccounts}
             defaultCurrency={displayCurrency}
-            format={ynabParsedData.format}
-            onImport={handleYNABImport}
+            availableCurrencies={enabledCurrencies}
+            title={`Import from ${accountImport.source}`}
+            sourceLabel={accountImport.sourceLabel}
+            onImport={handleAccountImport}
           />
         )}
       </div>
@@ -1035,4 +1745,70 @@ const Index = () => {
   );
 };
 
+// Remount the dashboard on a profile switch so every piece of state reloads from that profile's data
+const ProfileLoader = ({ appLock }: { appLock: UseAppLockReturn }) => {
+  const profiles = useProfiles();
+  const profileData = useProfileData(profiles.activeProfile.id);
+
+  if (profileData.status === 'error') {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Alert variant="destructive" className="max-w-md">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            Unable to open the browser database: {profileData.error.message}. Private browsing modes can block it.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  if (profileData.status === 'loading') {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <p className="text-sm text-muted-foreground">Loading {profiles.activeProfile.name}…</p>
+      </div>
+    );
+  }
+
+  return (
+    <ProfileDashboard
+      key={profiles.activeProfile.id}
+      appLock={appLock}
+      profiles={profiles}
+      profileData={profileData.data}
+    />
+  );
+};
+
+// Nothing is read from the database until the app lock is open; locking unmounts the dashboard and its data
+const Index = () => {
+  const appLock = useAppLock();
+
+  if (appLock.status === 'error') {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Alert variant="destructive" className="max-w-md">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            Unable to open the browser database: {appLock.error?.message}. Private browsing modes can block it.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  if (appLock.status === 'loading') {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <p className="text-sm text-muted-foreground">Loading…</p>
+      </div>
+    );
+  }
+
+  if (appLock.status === 'locked') return <LockScreen onUnlock={appLock.unlock} />;
+
+  return <ProfileLoader appLock={appLock} />;
+};
+
 export default Index;
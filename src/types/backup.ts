@@ -0,0 +1,82 @@
+import { Account, ConversionRate, Currency, Person } from '@/types/finance';
+import { HistorySnapshot } from '@/types/history';
+import { RetirementInputs } from '@/types/retirement';
+
+// A backup file in the current schema, after upgrading and validation
+export interface BackupFile {
+  schemaVersion: number;
+  profileName?: string;
+  exportDate?: string;
+  accounts: Account[];
+  conversionRates: ConversionRate[];
+  history: HistorySnapshot[];
+  baseCurrency: Currency;
+  people: Person[];
+  monthlyExpenses?: number;
+  retirementInputs?: RetirementInputs;
+  showCurrentAssets?: boolean;
+  showNonCurrentAssets?: boolean;
+  showCurrentLiabilities?: boolean;
+  showNonCurrentLiabilities?: boolean;
+}
+
+// fatal: the file cannot be imported; error: the record is skipped; warning: a field is dropped or defaulted
+export type BackupIssueSeverity = 'fatal' | 'error' | 'warning';
+
+export interface BackupIssue {
+  severity: BackupIssueSeverity;
+  path: string; // e.g. accounts[3] "Savings" › balance
+  message: string;
+}
+
+export interface BackupParseResult {
+  data: BackupFile | null; // null when a fatal issue was found
+  sourceVersion?: number;
+  issues: BackupIssue[];
+  skipped: { accounts: number; conversionRates: number; history: number };
+}
+
+// Merge-import: records are matched by id, then accounts by name; differing matches become conflicts
+export type MergeChoice = 'local' | 'incoming' | 'both'; // 'both' is offered for snapshots only
+
+export type MergeConflictReason = 'balance' | 'lastUpdated' | 'details' | 'duplicateSnapshot';
+
+export interface MergeConflict {
+  id: string; // e.g. "account:<local id>"
+  type: 'account' | 'snapshot';
+  label: string; // Account name or snapshot date
+  reasons: MergeConflictReason[];
+  local: { summary: string; date: Date };
+  incoming: { summary: string; date: Date };
+  matchedBy: 'id' | 'name' | 'date';
+  defaultChoice: MergeChoice;
+}
+
+export interface MergePlan {
+  conflicts: MergeConflict[];
+  newAccounts: number;
+  newSnapshots: number;
+  newRates: number;
+  newPeople: number;
+  unchanged: number;
+}
+
+// Automatic copies of a profile kept in the browser. 'scheduled' runs daily; the 'before-' ones are taken right before
+// an action that replaces or removes data.
+export type LocalBackupReason =
+  | 'scheduled'
+  | 'manual'
+  | 'before-import'
+  | 'before-clear-history'
+  | 'before-delete-account'
+  | 'before-restore';
+
+export interface LocalBackup {
+  id: string;
+  createdAt: Date;
+  reason: LocalBackupReason;
+  accountCount: number; // Open accounts
+  netWorthBase: number;
+  baseCurrency: Currency;
+  data: string; // The backup file's JSON, exactly as Export Data would write it
+}
@@ -0,0 +1,22 @@
+export type CsvDelimiter = 'auto' | ',' | ';' | '\t' | '|';
+
+// Which character marks the decimals: 1,234.56 ('dot') or 1.234,56 ('comma')
+export type CsvNumberFormat = 'auto' | 'dot' | 'comma';
+
+export type CsvDateOrder = 'auto' | 'ymd' | 'dmy' | 'mdy';
+
+export type CsvColumnRole = 'name' | 'balance' | 'currency' | 'date' | 'category' | 'symbol' | 'quantity';
+
+export interface CsvImportSettings {
+  delimiter: CsvDelimiter;
+  numberFormat: CsvNumberFormat;
+  dateOrder: CsvDateOrder;
+  skipRows: number; // Lines above the header row, such as a bank's statement summary
+  columns: Partial<Record<CsvColumnRole, string>>; // Header of the column for each role; name and balance are required
+}
+
+export interface CsvImportPreset extends CsvImportSettings {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+}
@@ -1,9 +1,16 @@
-export type Currency = 'EUR' | 'USD' | 'GBP' | 'PHP' | 'OTHER';
+export type Currency = string; // ISO 4217 code, see CURRENCY_REGISTRY
+
+export interface RateEntry {
+  id: string;
+  effectiveDate: Date;
+  rate: number;
+}
 
 export interface ConversionRate {
   currency: Currency;
-  rate: number; // Rate to EUR (e.g., 1 USD = 0.92 EUR)
-  label?: string; // For OTHER currency type
+  rate: number; // Rate to the base currency (e.g., 1 USD = 0.92 EUR), mirrors the latest entry in history
+  label?: string; // Carried over from the legacy OTHER currency type
+  history: RateEntry[]; // Sorted oldest first
 }
 
 export type AccountCategory = 
@@ -14,21 +21,73 @@ export type AccountCategory =
 
 export type AccessType = 'liquid' | 'retirement' | 'illiquid';
 
+export interface BalanceEntry {
+  id: string;
+  date: Date;
+  balance: number;
+  note?: string;
+}
+
+export interface Holding {
+  id: string;
+  symbol: string; // Ticker or other identifier, e.g. VWCE
+  quantity: number;
+  unitPrice: number;
+  priceCurrency: Currency; // Can differ from the account currency
+  priceDate: Date;
+}
+
+export type PaymentFrequency = 'weekly' | 'biweekly' | 'monthly' | 'quarterly';
+
+export interface LoanTerms {
+  annualRate: number; // Nominal interest rate, percentage
+  principal: number; // Original amount borrowed, in the account currency
+  termMonths: number;
+  payment?: number; // Per period; the annuity payment for the terms is used when missing
+  frequency: PaymentFrequency;
+  startDate: Date; // First payment is one period after this date
+}
+
+export interface PropertyValuation {
+  date: Date;
+  source?: string; // e.g. "Bank appraisal", "Zillow estimate"
+}
+
+export interface Person {
+  id: string;
+  name: string;
+}
+
+export interface AccountOwner {
+  personId: string;
+  share: number; // Percentage; an account's owner shares add up to 100
+}
+
 export interface Account {
   id: string;
   name: string;
   category: AccountCategory;
   currency: Currency;
-  balance: number;
+  balance: number; // Mirrors the latest entry in balanceHistory
   accessType: AccessType;
-  lastUpdated: Date;
+  lastUpdated: Date; // Date of the latest entry in balanceHistory
+  balanceHistory: BalanceEntry[]; // Sorted oldest first
+  tags?: string[]; // Free-form labels, e.g. "Joint" or "Emergency fund"
+  institution?: string;
+  group?: string; // Optional user-defined group
+  closedAt?: Date; // Set while the account is archived; excluded from current totals
+  holdings?: Holding[]; // When present the balance is derived from these positions
+  loan?: LoanTerms; // Liabilities only
+  securedBy?: string; // Liabilities only: id of the asset account securing the debt
+  valuation?: PropertyValuation; // Assets only: where the current value comes from
+  owners?: AccountOwner[]; // Missing or empty when the account is not assigned to anyone
 }
 
 export interface NetWorthSummary {
   totalAssets: Record<Currency, number>;
   totalLiabilities: Record<Currency, number>;
   netWorth: Record<Currency, number>;
-  totalAssetsEUR: number;
-  totalLiabilitiesEUR: number;
-  netWorthEUR: number;
+  totalAssetsBase: number; // In the base currency
+  totalLiabilitiesBase: number;
+  netWorthBase: number;
 }
@@ -1,9 +1,29 @@
+import { AccessType, AccountCategory, AccountOwner, Currency } from '@/types/finance';
+
+export interface SnapshotAccount {
+  accountId: string;
+  name: string;
+  category: AccountCategory;
+  accessType: AccessType;
+  currency: Currency;
+  balance: number;
+  valueBase: number; // In the snapshot's base currency
+  owners?: AccountOwner[];
+}
+
 export interface HistorySnapshot {
   id: string;
   timestamp: Date;
-  netWorthEUR: number;
-  totalAssetsEUR: number;
-  totalLiabilitiesEUR: number;
-  liquidNetWorthEUR: number;
+  baseCurrency: Currency; // Currency the totals and values are expressed in
+  netWorthBase: number;
+  totalAssetsBase: number;
+  totalLiabilitiesBase: number;
+  liquidNetWorthBase: number;
   accountCount: number;
+  accounts?: SnapshotAccount[]; // Missing on snapshots saved before per-account breakdowns
+  rates?: Record<Currency, number>; // Rates to the base currency in force when the snapshot was taken
 }
+
+// 'historical' values each snapshot at the rates of its own date,
+// 'current' revalues every snapshot at today's rates
+export type ValuationMode = 'historical' | 'current';
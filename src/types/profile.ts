@@ -0,0 +1,5 @@
+export interface Profile {
+  id: string;
+  name: string;
+  createdAt: Date;
+}
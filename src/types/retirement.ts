@@ -1,3 +1,5 @@
+import { Currency } from '@/types/finance';
+
 export type RetirementStrategy = 
   | 'regular_fire'
   | 'coast_fire'
@@ -18,6 +20,7 @@ export interface RetirementInputs {
   estimatedSocialSecurity: number;
   partTimeIncome: number; // for Barista/Coast FIRE
   desiredLifestyle: 'lean' | 'moderate' | 'fat';
+  currency?: Currency; // Base currency the amounts are in, missing on older saved inputs
 }
 
 export interface RetirementProjection {
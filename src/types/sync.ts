@@ -0,0 +1,83 @@
+export type SyncBackendKind = 'rest' | 'webdav';
+
+export interface SyncConfig {
+  enabled: boolean;
+  kind: SyncBackendKind;
+  url: string; // REST endpoint or WebDAV file URL the dataset is read from and written to
+  username?: string;
+  password?: string;
+}
+
+// What this device and the server last agreed on
+export interface SyncState {
+  revision: number | null;
+  contentHash: string | null; // Hash of the data at that revision, to tell whether it has changed here since
+  syncedAt: Date | null;
+}
+
+// The dataset as stored on the server
+export interface RemoteDocument {
+  revision: number; // Goes up by one with every push
+  updatedAt: string;
+  data: unknown; // A backup file, validated with parseBackup when pulled
+}
+
+export type SyncStatus = 'disabled' | 'idle' | 'syncing' | 'synced' | 'offline' | 'conflict' | 'error';
+
+// End-to-end encrypted sync between devices. Each device uploads its changes as encrypted batches of operations to a
+// relay that only stores blobs; every device applies every batch and they all arrive at the same data.
+
+// Hybrid logical clock: milliseconds since the epoch, plus a counter for changes within the same millisecond
+export interface HybridClock {
+  wall: number;
+  counter: number;
+}
+
+// A clock reading and the device that took it, as `wall:counter:deviceId` with fixed-width numbers so stamps order
+// correctly as plain strings
+export type OperationStamp = string;
+
+export type SyncedCollection = 'accounts' | 'conversionRates' | 'history' | 'people' | 'settings';
+
+// Sets one field of one record; an operation without a value removes the field
+export interface SyncOperation {
+  collection: SyncedCollection;
+  key: string; // Account or snapshot id, currency of a rate, name of a setting
+  field: string;
+  value?: unknown;
+  stamp: OperationStamp;
+}
+
+// Latest value of a field; the operation with the highest stamp wins
+export interface SyncRegister {
+  value?: unknown;
+  stamp: OperationStamp;
+}
+
+export type SyncedDocument = Partial<Record<SyncedCollection, Record<string, Record<string, SyncRegister>>>>;
+
+export interface DeviceSyncConfig {
+  enabled: boolean;
+  relayUrl: string; // Base URL of the blob store, e.g. http://localhost:8787/relay
+  username?: string;
+  password?: string;
+  groupId: string; // Shared by the devices syncing together; names their folder on the relay
+  key: string; // Base64 AES-256 key shared by those devices; never sent to the relay
+  deviceId: string;
+  deviceName: string;
+}
+
+export interface SyncedDevice {
+  name: string;
+  lastSeen: string;
+  acknowledged: Record<string, number>; // Last batch of each origin that device had applied, as of its latest upload
+}
+
+export interface DeviceSyncState {
+  clock: HybridClock;
+  document: SyncedDocument;
+  pending: SyncOperation[]; // Changes made here and not uploaded yet
+  applied: Record<string, number>; // Last batch of each origin (one tab of one device) that is in the document
+  devices: Record<string, SyncedDevice>; // Other devices in the group
+  syncedAt: string | null;
+}